@@ -26,6 +26,7 @@ import {
 import fhirpath, { FhirPathEngine, version } from "./mod.ts";
 import { compileJIT, type CompiledFhirPath } from "./src/jit/mod.ts";
 import { parseFhirPath } from "./src/parser/mod.ts";
+import { extractSearchValues, type SearchParameter, type SearchValue } from "./src/search/mod.ts";
 
 // deno-lint-ignore no-empty-interface
 export interface FhirPathAtolleeConfiguration {
@@ -45,10 +46,13 @@ export interface IFhirPathService {
     /** 
      * Compile an expression to native JavaScript for maximum performance (JIT)
      * Use for hot paths like SearchParameters evaluated thousands of times
-     * @returns JIT-compiled function or null if expression is not JIT-compatible
+     * @returns JIT-compiled function or null if the expression is invalid
      */
     compileJIT<T = unknown[]>(expression: string): CompiledFhirPath<T> | null;
     
+    /** Extract the normalized index values of a SearchParameter from a resource */
+    extractSearchValues(resource: unknown, searchParameter: SearchParameter): SearchValue[];
+    
     /** Get library version */
     getVersion(): string;
     
@@ -136,8 +140,10 @@ export class FhirPathAtolleePlugin
      * 
      * Use for hot paths like SearchParameters that are evaluated thousands of times.
      * JIT-compiled functions are ~10-50x faster than interpreted evaluation.
+     * Functions the JIT does not compile, like resolve() or memberOf(), are
+     * evaluated by the interpreter within the compiled function.
      * 
-     * @returns JIT-compiled function or null if expression is not JIT-compatible
+     * @returns JIT-compiled function or null if the expression is invalid
      */
     compileJIT<T = unknown[]>(expression: string): CompiledFhirPath<T> | null {
         // Check cache first
@@ -161,11 +167,19 @@ export class FhirPathAtolleePlugin
             
             return jitFn;
         } catch {
-            // JIT compilation failed - expression not supported
+            // Invalid expression
             return null;
         }
     }
 
+    /**
+     * Extract the normalized index values of a SearchParameter from a resource
+     * (token system|code, reference targets, date ranges, canonical quantities, ...)
+     */
+    extractSearchValues(resource: unknown, searchParameter: SearchParameter): SearchValue[] {
+        return extractSearchValues(resource, searchParameter, { engine: this.engine });
+    }
+
     /**
      * Get library version
      */
@@ -27,23 +27,39 @@
  * const result = engine.evaluate(patient, "name.given");
  * 
  * // Option 4: Use the native parser directly
- * import { parseFhirPath } from "@atollee/fhirpath-atollee";
+ * import { parseFhirPath, printFhirPath } from "@atollee/fhirpath-atollee";
  * const ast = parseFhirPath("name.given.first()");
+ * printFhirPath(ast); // "name.given.first()"
  * ```
  */
 
 export { FhirPathEngine, type FhirPathEngineOptions } from "./src/engine.ts";
 export { ExpressionCache } from "./src/cache.ts";
 export { 
+  type BatchOptions,
+  type CompiledBatch,
   type CompiledExpression, 
   type EvaluationContext,
+  type EvaluationLimits,
+  type EvaluationMode,
   type UserInvocationTable,
   type Model,
   type Options,
   type Path,
-  type IReferenceResolverBase
+  type IReferenceResolverBase,
+  type OperationOutcome,
+  type OperationOutcomeIssue,
 } from "./src/types.ts";
 
+// Export structured errors (stable codes, spans, OperationOutcome issues)
+export {
+  errorPosition,
+  type FhirPathError,
+  type FhirPathErrorCode,
+  isFhirPathError,
+  toOperationOutcomeIssue,
+} from "./src/errors.ts";
+
 // Export IReferenceResolver from evaluator (full interface)
 export { type IReferenceResolver } from "./src/evaluator/types.ts";
 
@@ -51,9 +67,13 @@ export { type IReferenceResolver } from "./src/evaluator/types.ts";
 export { 
   FhirPathLexer, 
   LexerError,
+  type LexerErrorCode,
   FhirPathParser, 
   ParserError, 
+  type ParserErrorCode,
   parseFhirPath,
+  printFhirPath,
+  type PrintOptions,
   TokenType,
   type Token,
 } from "./src/parser/mod.ts";
@@ -63,7 +83,20 @@ export type * from "./src/parser/ast.ts";
 export {
   FhirPathEvaluator,
   EvaluatorError,
+  type EvaluatorErrorCode,
+  EvaluationLimitError,
+  type EvaluationLimit,
   evaluateFhirPath,
+  evaluateFhirPathAsync,
+  evaluateFhirPathBatch,
+  TemporalValue,
+  FhirPathDate,
+  FhirPathDateTime,
+  FhirPathTime,
+  type TemporalPrecision,
+  FhirPathDecimal,
+  parseDecimal,
+  parseJsonWithDecimals,
 } from "./src/evaluator/mod.ts";
 export { functions as fhirPathFunctions } from "./src/evaluator/mod.ts";
 
@@ -98,12 +131,65 @@ const fhirpath = createDefaultAPI();
 export default fhirpath;
 export const { compile, evaluate, parse, types, version } = fhirpath;
 
+// Export Model builder (StructureDefinitions to Model)
+export {
+  buildModel,
+  loadModel,
+  ModelError,
+  type ModelBuilderOptions,
+  type StructureDefinition,
+  type StructureDefinitionSource,
+} from "./src/model/mod.ts";
+
+// Export invariant validation (ElementDefinition.constraint to OperationOutcome)
+export { type InvariantValidationOptions, validateInvariants } from "./src/validation/mod.ts";
+
+// Export SQL on FHIR ViewDefinition runner
+export {
+  type CompiledView,
+  compileView,
+  runView,
+  type ViewDefinition,
+  type ViewDefinitionColumn,
+  type ViewDefinitionConstant,
+  ViewDefinitionError,
+  type ViewDefinitionSelect,
+  type ViewOptions,
+  type ViewRow,
+  ViewRowStream,
+  type ViewSource,
+  type ViewStreamOptions,
+} from "./src/sql-on-fhir/mod.ts";
+
+// Export SearchParameter value extraction
+export {
+  type CompositeSearchValue,
+  type DateSearchValue,
+  extractSearchValues,
+  type NumberSearchValue,
+  type QuantitySearchValue,
+  type ReferenceSearchValue,
+  type SearchExtractionOptions,
+  type SearchParameter,
+  type SearchParamType,
+  type SearchValue,
+  type StringSearchValue,
+  type TokenSearchValue,
+  type UriSearchValue,
+} from "./src/search/mod.ts";
+
 // Export Streaming API for large datasets
 export {
   evaluateStream,
   evaluateEach,
+  evaluateNdjson,
+  readLines,
   toReadableStream,
   FhirPathStream,
+  type NdjsonError,
+  type NdjsonExpressions,
+  type NdjsonOptions,
+  type NdjsonResult,
   type StreamingOptions,
   type StreamResult,
 } from "./src/streaming.ts";
@@ -112,12 +198,26 @@ export {
 export {
   FhirPathJIT,
   compileJIT,
+  compileBatchJIT,
+  compileModule,
   clearJITCache,
   jitCompiler,
   type CompiledFhirPath,
+  type CompiledFhirPathBatch,
   type JITOptions,
+  type ModuleOptions,
 } from "./src/jit/mod.ts";
 
+// Export UCUM unit engine
+export {
+  UcumError,
+  convertUnit,
+  isCommensurable,
+  isValidUnit,
+  canonicalUnitString,
+  type CanonicalUnit,
+} from "./src/ucum/mod.ts";
+
 // Export Monaco Editor integration
 export {
   registerFhirPathLanguage,
@@ -140,6 +240,11 @@ export {
   HintSeverity,
   type OptimizationHint,
   type AnalysisResult,
+  typeCheck,
+  type InferredType,
+  type TypeCheckIssue,
+  type TypeCheckOptions,
+  type TypeCheckResult,
 } from "./src/optimizer/mod.ts";
 
 // Export Inspect API (debugging & introspection)
@@ -14,6 +14,7 @@ import { FhirPathEngine } from "../../../../src/engine.ts";
 import { parseFhirPath } from "../../../../src/parser/mod.ts";
 import { analyzeExpression } from "../../../../src/optimizer/mod.ts";
 import { loggers } from "../../../../src/logging.ts";
+import type { EvaluationLimits } from "../../../../src/types.ts";
 
 // fhirpath.js comparison is optional - ANTLR4 has known issues in Deno
 // deno-lint-ignore no-explicit-any
@@ -73,6 +74,9 @@ function getEngine(version: FhirVersion): FhirPathEngine {
 // Default engine (no model, for basic evaluation)
 const defaultEngine = new FhirPathEngine();
 
+// Expressions and resources come from users: bound the work of an evaluation
+const limits: EvaluationLimits = { maxSteps: 1_000_000, maxCollectionSize: 100_000, maxDepth: 500, timeout: 2_000 };
+
 // fhirpath.js compiled function cache
 export const handler = {
   async POST(req: Request): Promise<Response> {
@@ -127,7 +131,7 @@ export const handler = {
         
         // Use interpreted evaluation (fastest for single calls)
         const engine = version ? getEngine(version) : defaultEngine;
-        result = engine.evaluate(resource || {}, expression, context);
+        result = engine.evaluate(resource || {}, expression, context, undefined, { limits });
         
         evalDuration = performance.now() - evalStart;
       } catch (e) {
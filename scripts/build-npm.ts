@@ -20,6 +20,34 @@ async function buildNpm() {
   await build({
     entryPoints: [
       "./mod.ts",
+      {
+        name: "./jit/runtime",
+        path: "./src/jit/runtime.ts",
+      },
+      {
+        name: "./worker",
+        path: "./src/worker/mod.ts",
+      },
+      {
+        name: "./model",
+        path: "./src/model/mod.ts",
+      },
+      {
+        name: "./validation",
+        path: "./src/validation/mod.ts",
+      },
+      {
+        name: "./sql-on-fhir",
+        path: "./src/sql-on-fhir/mod.ts",
+      },
+      {
+        name: "./search",
+        path: "./src/search/mod.ts",
+      },
+      {
+        name: "./streaming",
+        path: "./src/streaming.ts",
+      },
       {
         name: "./fhir-context/r4",
         path: "./fhir-context/r4/mod.ts",
@@ -0,0 +1,84 @@
+#!/usr/bin/env -S deno run --allow-read --allow-write
+/**
+ * Precompile FHIRPath expressions to an ES module
+ *
+ * Reads the expressions of a project from a JSON file - an array of
+ * expressions or an object of expressions by key - and writes a module whose
+ * default export holds a compiled function per expression (by key, or by the
+ * expression text for an array). The module imports the JIT runtime instead
+ * of the compiler and runs without eval, e.g. in browsers with a strict CSP.
+ *
+ * Usage: deno run --allow-read --allow-write scripts/precompile-expressions.ts <expressions.json> <output.js>
+ *   [--mode strict|fhirpathjs-compatible] [--guarded] [--no-fallback] [--runtime <specifier>]
+ */
+
+import { compileModule, type ModuleOptions } from "../src/jit/mod.ts";
+import { parseFhirPath } from "../src/parser/mod.ts";
+import type { ASTNode } from "../src/parser/ast.ts";
+import type { EvaluationMode } from "../src/types.ts";
+
+function usage(): never {
+  console.log(
+    "Usage: deno run --allow-read --allow-write scripts/precompile-expressions.ts <expressions.json> <output.js>",
+  );
+  console.log("Options:");
+  console.log("  --mode <mode>          Evaluation mode: lenient (default), strict or fhirpathjs-compatible");
+  console.log("  --guarded              Check the limits and signal passed to the compiled functions");
+  console.log("  --no-fallback          Fail for expressions the JIT does not compile");
+  console.log("  --runtime <specifier>  Import specifier of the runtime (default: @atollee/fhirpath/jit/runtime)");
+  Deno.exit(1);
+}
+
+// Main
+const files: string[] = [];
+const options: ModuleOptions = {};
+for (let i = 0; i < Deno.args.length; i++) {
+  const arg = Deno.args[i];
+  if (arg === "--mode") {
+    options.mode = Deno.args[++i] as EvaluationMode;
+  } else if (arg === "--runtime") {
+    options.runtime = Deno.args[++i];
+  } else if (arg === "--guarded") {
+    options.guarded = true;
+  } else if (arg === "--no-fallback") {
+    options.fallback = false;
+  } else if (arg.startsWith("--")) {
+    usage();
+  } else {
+    files.push(arg);
+  }
+}
+if (files.length !== 2 || (options.mode && !["lenient", "strict", "fhirpathjs-compatible"].includes(options.mode))) {
+  usage();
+}
+
+const [input, output] = files;
+const expressions: unknown = JSON.parse(await Deno.readTextFile(input));
+const entries = Array.isArray(expressions)
+  ? expressions.map((expression): [string, unknown] => [String(expression), expression])
+  : Object.entries(expressions as Record<string, unknown>);
+
+const asts: Record<string, ASTNode> = {};
+let failed = false;
+for (const [key, expression] of entries) {
+  if (typeof expression !== "string") {
+    console.error(`${key}: not an expression`);
+    failed = true;
+    continue;
+  }
+  try {
+    asts[key] = parseFhirPath(expression);
+  } catch (error) {
+    console.error(`${key}: ${error instanceof Error ? error.message : error}`);
+    failed = true;
+  }
+}
+if (failed) Deno.exit(1);
+
+try {
+  await Deno.writeTextFile(output, compileModule(asts, options));
+} catch (error) {
+  console.error("Compilation failed:", error instanceof Error ? error.message : error);
+  Deno.exit(1);
+}
+console.log(`✅ Compiled ${entries.length} expressions to ${output}`);
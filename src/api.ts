@@ -32,6 +32,8 @@ import {
   type ITerminologyService,
 } from "./terminology/mod.ts";
 import { globalFactory } from "./factory/mod.ts";
+import { isTemporal } from "./evaluator/temporal.ts";
+import { isDecimal } from "./evaluator/decimal.ts";
 import { FhirPathJIT, compileJIT, clearJITCache, type CompiledFhirPath, type JITOptions } from "./jit/mod.ts";
 import { inspect, type InspectOptions, type InspectResult } from "./inspect.ts";
 import { registry } from "./registry.ts";
@@ -183,6 +185,10 @@ function getFhirPathType(value: unknown): string {
     return Number.isInteger(value) ? "integer" : "decimal";
   }
 
+  if (isDecimal(value)) {
+    return "decimal";
+  }
+
   if (typeof value === "boolean") {
     return "boolean";
   }
@@ -264,6 +270,14 @@ function resolveTypes(value: unknown): unknown {
     return value.map(resolveTypes);
   }
 
+  if (isTemporal(value)) {
+    return value.toString();
+  }
+
+  if (isDecimal(value)) {
+    return value.toNumber();
+  }
+
   if (typeof value === "object") {
     const obj = value as Record<string, unknown>;
     
@@ -353,13 +367,11 @@ export function createDefaultAPI(): FhirPathAPI {
         ...(opts?.referenceResolver && { referenceResolver: opts.referenceResolver }),
       };
       
-      const result = engine.evaluate(fhirData, path, evaluationContext, model, evalOpts);
-      
       if (isAsync === true || isAsync === 'always') {
-        return Promise.resolve(result);
+        return engine.evaluateAsync(fhirData, path, evaluationContext, model, evalOpts);
       }
       
-      return result;
+      return engine.evaluate(fhirData, path, evaluationContext, model, evalOpts);
     },
 
     parse(expression: string): ASTNode {
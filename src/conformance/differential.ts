@@ -0,0 +1,196 @@
+/**
+ * Differential Testing
+ *
+ * Evaluates the cases of an expression corpus with the interpreter, the JIT
+ * and fhirpath.js (passed in by the caller) and reports the cases they
+ * disagree on. Outcomes agree if
+ * both engines fail, or if their results are equal up to the representation
+ * of the engines:
+ * - numbers within a relative tolerance of 1e-9 (fhirpath.js computes
+ *   decimals as floats, e.g. 1.1 + 2.2 = 3.3000000000000003)
+ * - quantities and their fhirpath.js strings, e.g. { value: 5, unit: "mg" }
+ *   and "5 'mg'"
+ *
+ * @example
+ * ```typescript
+ * import fhirpathjs from "fhirpath";
+ * import { formatDiff, runDifferential } from "@atollee/fhirpath/conformance";
+ *
+ * const report = runDifferential([{ expression: "name.given", resource: patient }], { fhirpathjs });
+ * for (const diff of report.diffs) console.log(formatDiff(diff));
+ * ```
+ */
+
+import { FhirPathEngine } from "../engine.ts";
+import { FhirPathJIT } from "../jit/mod.ts";
+import { isQuantity } from "../evaluator/types.ts";
+import type {
+  DifferentialCase,
+  DifferentialDiff,
+  DifferentialOptions,
+  DifferentialReport,
+  EngineName,
+  EngineOutcome,
+} from "./types.ts";
+
+
+/**
+ * Error of assertEquivalentEngines() for a case the engines disagree on
+ */
+export class EquivalenceError extends Error {
+  constructor(readonly diff: DifferentialDiff) {
+    super(formatDiff(diff));
+    this.name = "EquivalenceError";
+  }
+}
+
+/** Evaluate a case with an engine */
+type Evaluate = (testCase: DifferentialCase) => unknown[];
+
+/**
+ * The engines to compare: the given ones, or all available
+ */
+function engineNames(options: DifferentialOptions): EngineName[] {
+  const names = options.engines ?? ["interpreter", "jit", ...(options.fhirpathjs ? ["fhirpathjs" as const] : [])];
+  if (names.includes("fhirpathjs") && !options.fhirpathjs) {
+    throw new Error("Differential: the fhirpathjs engine needs fhirpath.js in options.fhirpathjs");
+  }
+  return names;
+}
+
+/**
+ * The engines of a run, sharing their caches across its cases
+ */
+function createEngines(options: DifferentialOptions): Record<EngineName, Evaluate> {
+  const { model, mode, userInvocationTable, fhirpathjs } = options;
+  const engine = new FhirPathEngine({ model, mode, userInvocationTable });
+  const jit = new FhirPathJIT();
+  return {
+    interpreter: ({ expression, resource, context }) => engine.evaluate(resource, expression, context),
+    jit: ({ expression, resource, context }) =>
+      jit.compile(engine.parse(expression), {
+        mode,
+        userInvocationTable,
+        interpreterOptions: { model, mode },
+      })(resource, context),
+    fhirpathjs: ({ expression, resource, context }) =>
+      fhirpathjs!.evaluate(resource, expression, context, options.fhirpathjsModel, { userInvocationTable }) as unknown[],
+  };
+}
+
+/**
+ * Evaluate a case with an engine, catching its error
+ */
+function outcomeOf(evaluate: Evaluate, testCase: DifferentialCase): EngineOutcome {
+  try {
+    return { result: evaluate(testCase) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Whether a value of one engine equals that of another
+ */
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (typeof a === "number" && typeof b === "number") {
+    return a === b || Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+  }
+  if (typeof b === "string" && isQuantity(a)) return quantityStrings(a).includes(b);
+  if (typeof a === "string" && isQuantity(b)) return quantityStrings(b).includes(a);
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((v, i) => valuesEqual(v, b[i]));
+  }
+  if (typeof a === "object" && typeof b === "object" && a !== null && b !== null) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every(key => valuesEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+  }
+  return a === b;
+}
+
+/**
+ * The strings of fhirpath.js for a quantity, with a calendar or a UCUM unit
+ */
+function quantityStrings(quantity: { value: number; unit?: string }): string[] {
+  return [`${quantity.value} ${quantity.unit}`, `${quantity.value} '${quantity.unit}'`];
+}
+
+/**
+ * Whether the outcomes of two engines agree
+ */
+function outcomesAgree(a: EngineOutcome, b: EngineOutcome): boolean {
+  if (a.error !== undefined || b.error !== undefined) {
+    return a.error !== undefined && b.error !== undefined;
+  }
+  return valuesEqual(a.result, b.result);
+}
+
+/**
+ * Evaluate a case with the engines, returning the diff if they disagree
+ */
+function compareEngines(
+  testCase: DifferentialCase,
+  engines: Record<EngineName, Evaluate>,
+  names: EngineName[],
+): DifferentialDiff | undefined {
+  const outcomes: Partial<Record<EngineName, EngineOutcome>> = {};
+  for (const name of names) {
+    outcomes[name] = outcomeOf(engines[name], testCase);
+  }
+  const [reference, ...others] = names;
+  const differing = others.filter(name => !outcomesAgree(outcomes[reference]!, outcomes[name]!));
+  return differing.length > 0 ? { case: testCase, outcomes, differing } : undefined;
+}
+
+/**
+ * Evaluate the cases of a corpus with the engines and report the cases
+ * they disagree on
+ */
+export function runDifferential(cases: DifferentialCase[], options: DifferentialOptions = {}): DifferentialReport {
+  const names = engineNames(options);
+  const engines = createEngines(options);
+  const diffs: DifferentialDiff[] = [];
+  for (const testCase of cases) {
+    const diff = compareEngines(testCase, engines, names);
+    if (diff) diffs.push(diff);
+  }
+  return { total: cases.length, agreed: cases.length - diffs.length, diffs };
+}
+
+/**
+ * Assert that the engines agree on an expression, e.g. in regression tests.
+ * Throws an EquivalenceError with the diff otherwise.
+ *
+ * @example
+ * ```typescript
+ * Deno.test("regression: equality of collections", () => {
+ *   assertEquivalentEngines("name.given = 'Peter'", patient);
+ * });
+ * ```
+ */
+export function assertEquivalentEngines(
+  expression: string,
+  resource: unknown,
+  options: DifferentialOptions & { context?: Record<string, unknown> } = {},
+): void {
+  const { context, ...differentialOptions } = options;
+  const testCase = { expression, resource, context };
+  const diff = compareEngines(testCase, createEngines(differentialOptions), engineNames(differentialOptions));
+  if (diff) throw new EquivalenceError(diff);
+}
+
+/**
+ * Describe a diff with the outcome of each engine
+ */
+export function formatDiff(diff: DifferentialDiff): string {
+  const { name, expression } = diff.case;
+  const lines = [`Engines disagree on ${name ? `${name}: ` : ""}${expression}`];
+  for (const [engine, outcome] of Object.entries(diff.outcomes)) {
+    const marker = diff.differing.includes(engine as EngineName) ? "≠" : " ";
+    const text = outcome.error !== undefined ? `error: ${outcome.error}` : JSON.stringify(outcome.result);
+    lines.push(`  ${marker} ${engine}: ${text}`);
+  }
+  if (diff.case.expected) lines.push(`    expected: ${JSON.stringify(diff.case.expected)}`);
+  return lines.join("\n");
+}
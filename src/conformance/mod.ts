@@ -0,0 +1,31 @@
+/**
+ * Conformance
+ *
+ * Differential testing of the interpreter, the JIT and fhirpath.js
+ * (npm:fhirpath, passed in by the caller) on an expression corpus, e.g. the
+ * official FHIRPath test suite, and an assertion for regression suites.
+ *
+ * @example
+ * ```typescript
+ * import fhirpathjs from "fhirpath";
+ * import { assertEquivalentEngines, loadOfficialCorpus, runDifferential } from "@atollee/fhirpath/conformance";
+ *
+ * const report = runDifferential(await loadOfficialCorpus("tests-fhir-r4.xml"), { fhirpathjs });
+ * console.log(`${report.agreed}/${report.total} agreed`);
+ *
+ * assertEquivalentEngines("name.where(given = 'Jim').use", patient, { fhirpathjs });
+ * ```
+ */
+
+export { assertEquivalentEngines, EquivalenceError, formatDiff, runDifferential } from "./differential.ts";
+export { loadOfficialCorpus, officialCases, parseOfficialTests } from "./official.ts";
+export type { OfficialTest, OfficialTestGroup } from "./official.ts";
+export type {
+  DifferentialCase,
+  DifferentialDiff,
+  DifferentialOptions,
+  DifferentialReport,
+  EngineName,
+  EngineOutcome,
+  FhirPathJs,
+} from "./types.ts";
@@ -0,0 +1,211 @@
+/**
+ * Official FHIRPath Test Suite
+ *
+ * Reads the test XML of the HL7 FHIRPath test suite
+ * (https://github.com/FHIR/fhir-test-cases, e.g. r4/fhirpath/tests-fhir-r4.xml)
+ * as a corpus of differential cases.
+ *
+ * @example
+ * ```typescript
+ * import { loadOfficialCorpus, runDifferential } from "@atollee/fhirpath/conformance";
+ *
+ * const cases = await loadOfficialCorpus("fhir-test-cases/r4/fhirpath/tests-fhir-r4.xml");
+ * const report = runDifferential(cases, { model: r4Model, fhirpathjs, fhirpathjsModel: r4 });
+ * ```
+ */
+
+import type { DifferentialCase } from "./types.ts";
+
+/**
+ * A test of the official test suite
+ */
+export interface OfficialTest {
+  name: string;
+  description?: string;
+  inputfile: string;
+  expression: string;
+  expectedOutputs: Array<{ type: string; value: string }>;
+  predicate?: boolean;
+  invalid?: string;
+}
+
+/**
+ * A group of tests of the official test suite
+ */
+export interface OfficialTestGroup {
+  name: string;
+  description: string;
+  tests: OfficialTest[];
+}
+
+/**
+ * Parse the groups and tests of a test XML file
+ */
+export function parseOfficialTests(xml: string): OfficialTestGroup[] {
+  const groups: OfficialTestGroup[] = [];
+
+  // Match groups
+  const groupRegex = /<group\s+name="([^"]+)"\s+description="([^"]+)"[^>]*>([\s\S]*?)<\/group>/g;
+  let groupMatch;
+
+  while ((groupMatch = groupRegex.exec(xml)) !== null) {
+    const [, name, description, content] = groupMatch;
+    const tests: OfficialTest[] = [];
+
+    // Match tests within group
+    const testRegex =
+      /<test\s+name="([^"]+)"(?:\s+description="([^"]*)")?(?:\s+inputfile="([^"]*)")?(?:\s+predicate="([^"]*)")?[^>]*>([\s\S]*?)<\/test>/g;
+    let testMatch;
+
+    while ((testMatch = testRegex.exec(content)) !== null) {
+      const [, testName, testDesc, inputfile, predicate, testContent] = testMatch;
+
+      // Extract expression
+      const exprMatch = testContent.match(/<expression(?:\s+invalid="([^"]*)")?[^>]*>([\s\S]*?)<\/expression>/);
+      if (!exprMatch) continue;
+
+      const [, invalid, expression] = exprMatch;
+
+      // Extract expected outputs
+      const outputs: Array<{ type: string; value: string }> = [];
+      const outputRegex = /<output\s+type="([^"]+)"[^>]*>([^<]*)<\/output>/g;
+      let outputMatch;
+
+      while ((outputMatch = outputRegex.exec(testContent)) !== null) {
+        outputs.push({ type: outputMatch[1], value: outputMatch[2] });
+      }
+
+      tests.push({
+        name: testName,
+        description: testDesc,
+        inputfile: inputfile || "patient-example.xml",
+        expression: unescapeXml(expression.trim()),
+        expectedOutputs: outputs,
+        predicate: predicate === "true",
+        invalid,
+      });
+    }
+
+    groups.push({ name, description, tests });
+  }
+
+  return groups;
+}
+
+/**
+ * The cases of the tests of a test XML file, with their input resources by file name
+ */
+export function officialCases(groups: OfficialTestGroup[], resources: Record<string, unknown>): DifferentialCase[] {
+  return groups.flatMap(group =>
+    group.tests.map(test => ({
+      name: `${group.name}.${test.name}`,
+      expression: test.expression,
+      resource: resources[test.inputfile] ?? {},
+      expected: test.invalid ? undefined : test.expectedOutputs.map(({ type, value }) => convertExpectedValue(type, value)),
+      invalid: test.invalid !== undefined,
+    }))
+  );
+}
+
+/**
+ * Load the cases of a test XML file. Input files are read from its directory
+ * or the input directory next to it, as JSON if there is a JSON file of the
+ * same name, or else converted from simple XML.
+ */
+export async function loadOfficialCorpus(testFile: string | URL): Promise<DifferentialCase[]> {
+  const groups = parseOfficialTests(await Deno.readTextFile(testFile));
+  const resources: Record<string, unknown> = {};
+  for (const inputfile of new Set(groups.flatMap(group => group.tests.map(test => test.inputfile)))) {
+    resources[inputfile] = await loadResource(testFile, inputfile);
+  }
+  return officialCases(groups, resources);
+}
+
+/**
+ * Load an input file of a test XML file, {} if there is none
+ */
+async function loadResource(testFile: string | URL, inputfile: string): Promise<unknown> {
+  const json = inputfile.replace(/\.xml$/, ".json");
+  for (const candidate of [json, `input/${json}`, inputfile, `input/${inputfile}`]) {
+    try {
+      const content = await Deno.readTextFile(new URL(candidate, toFileUrl(testFile)));
+      return candidate.endsWith(".json") ? JSON.parse(content) : parseSimpleXml(content);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+  }
+  return {};
+}
+
+/** URL of a path, relative to the working directory */
+function toFileUrl(path: string | URL): URL {
+  return path instanceof URL ? path : new URL(path, `file://${Deno.cwd()}/`);
+}
+
+/**
+ * Simple XML parser for FHIR resources
+ * Converts the simple elements of XML to a JSON-like structure
+ */
+function parseSimpleXml(xml: string): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  // Extract resourceType from root element
+  const rootMatch = xml.match(/<(\w+)\s/);
+  if (rootMatch) {
+    result.resourceType = rootMatch[1];
+  }
+
+  // Extract simple elements
+  const elementRegex = /<(\w+)(?:\s+value="([^"]*)")?(?:\s+[^>]*)?(?:\/>|>([^<]*)<\/\1>)/g;
+  let match;
+
+  while ((match = elementRegex.exec(xml)) !== null) {
+    const [, name, attrValue, textContent] = match;
+    if (name === result.resourceType) continue;
+
+    const value = attrValue ?? textContent;
+    if (value !== undefined && value !== "") {
+      if (result[name] === undefined) {
+        result[name] = value;
+      } else if (Array.isArray(result[name])) {
+        (result[name] as unknown[]).push(value);
+      } else {
+        result[name] = [result[name], value];
+      }
+    }
+  }
+
+  return result;
+}
+
+/** Replace the entities of XML text */
+function unescapeXml(text: string): string {
+  return text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Convert expected output to JavaScript value
+ */
+function convertExpectedValue(type: string, value: string): unknown {
+  switch (type) {
+    case "boolean":
+      return value === "true";
+    case "integer":
+      return parseInt(value, 10);
+    case "decimal":
+      return parseFloat(value);
+    case "string":
+    case "code":
+      return value;
+    case "date":
+      // FHIRPath date format: @YYYY-MM-DD
+      return value.replace(/^@/, "");
+    case "dateTime":
+      return value.replace(/^@/, "");
+    case "time":
+      return value.replace(/^@T/, "");
+    default:
+      return value;
+  }
+}
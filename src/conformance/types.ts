@@ -0,0 +1,97 @@
+/**
+ * Conformance Types
+ *
+ * Cases of an expression corpus and the differences between the outcomes
+ * of the engines that evaluate them.
+ */
+
+import type { EvaluationMode, Model, UserInvocationTable } from "../types.ts";
+
+/**
+ * Engine of a differential run:
+ * - interpreter: FhirPathEvaluator
+ * - jit: FhirPathJIT (with the interpreter for the nodes it does not compile)
+ * - fhirpathjs: fhirpath.js, as passed in the options
+ */
+export type EngineName = "interpreter" | "jit" | "fhirpathjs";
+
+/**
+ * An expression evaluated against a resource
+ */
+export interface DifferentialCase {
+  /** Name of the case, e.g. the name of an official test */
+  name?: string;
+  expression: string;
+  resource: unknown;
+  /** Environment variables */
+  context?: Record<string, unknown>;
+  /** Expected result, if known (e.g. the outputs of an official test) */
+  expected?: unknown[];
+  /** Whether the expression is expected to fail (e.g. an invalid official test) */
+  invalid?: boolean;
+}
+
+/**
+ * Result of an engine for a case, or the message of its error
+ */
+export interface EngineOutcome {
+  result?: unknown[];
+  error?: string;
+}
+
+/**
+ * A case the engines disagree on
+ */
+export interface DifferentialDiff {
+  case: DifferentialCase;
+  /** Outcome of each engine */
+  outcomes: Partial<Record<EngineName, EngineOutcome>>;
+  /** Engines whose outcome differs from that of the first engine */
+  differing: EngineName[];
+}
+
+/**
+ * Result of a differential run
+ */
+export interface DifferentialReport {
+  /** Number of cases */
+  total: number;
+  /** Number of cases all engines agree on */
+  agreed: number;
+  diffs: DifferentialDiff[];
+}
+
+/**
+ * The API of fhirpath.js (the default export of npm:fhirpath). It is passed
+ * to a differential run, so that the package does not depend on fhirpath.js.
+ */
+export interface FhirPathJs {
+  evaluate(
+    resource: unknown,
+    expression: string,
+    context?: Record<string, unknown>,
+    model?: unknown,
+    options?: Record<string, unknown>,
+  ): unknown;
+}
+
+/**
+ * Options of a differential run
+ */
+export interface DifferentialOptions {
+  /**
+   * Engines to compare; the first is the reference
+   * (default: interpreter, jit and fhirpathjs if fhirpath.js is given)
+   */
+  engines?: EngineName[];
+  /** fhirpath.js, to compare with (e.g. the default export of "fhirpath") */
+  fhirpathjs?: FhirPathJs;
+  /** Model of the interpreter and the JIT */
+  model?: Model;
+  /** Model of fhirpath.js, e.g. the default export of "fhirpath/fhir-context/r4/index.js" */
+  fhirpathjsModel?: unknown;
+  /** Evaluation mode of the interpreter and the JIT (default: "lenient") */
+  mode?: EvaluationMode;
+  /** User-defined functions, passed to all engines */
+  userInvocationTable?: UserInvocationTable;
+}
@@ -16,8 +16,11 @@
 import { ExpressionCache, globalCache } from "./cache.ts";
 import type {
   ASTNode,
+  BatchOptions,
+  CompiledBatch,
   CompiledExpression,
   EvaluationContext,
+  EvaluationMode,
   Model,
   Options,
   Path,
@@ -26,8 +29,9 @@ import type {
 
 // Native parser and evaluator
 import { parseFhirPath } from "./parser/mod.ts";
-import { evaluateFhirPath } from "./evaluator/mod.ts";
+import { evaluateFhirPath, evaluateFhirPathBatch } from "./evaluator/mod.ts";
 import type { ExpressionNode } from "./parser/ast.ts";
+import { compileBatchJIT, type CompiledFhirPathBatch } from "./jit/mod.ts";
 
 /**
  * Configuration options for FhirPathEngine
@@ -45,6 +49,8 @@ export interface FhirPathEngineOptions {
   traceFn?: (value: unknown, label: string) => void;
   /** Function to check type derivation */
   isDerivedResourceFn?: (resourceType: string, expectedType: string) => boolean;
+  /** Default evaluation mode: "lenient", "strict" or "fhirpathjs-compatible" */
+  mode?: EvaluationMode;
 }
 
 /**
@@ -65,7 +71,8 @@ export interface FhirPathEngineOptions {
 export class FhirPathEngine {
   private readonly cache: ExpressionCache;
   private readonly nativeAstCache = new Map<string, ExpressionNode>();
-  private readonly model?: Model;
+  /** Default FHIR model of the engine */
+  readonly model?: Model;
   private readonly defaultOptions: Options;
 
   constructor(options: FhirPathEngineOptions = {}) {
@@ -75,6 +82,7 @@ export class FhirPathEngine {
       userInvocationTable: options.userInvocationTable,
       traceFn: options.traceFn,
       isDerivedResourceFn: options.isDerivedResourceFn,
+      mode: options.mode,
     };
   }
 
@@ -154,15 +162,12 @@ export class FhirPathEngine {
         : mergedOptions;
       
       // Cast context to evaluator's EvaluationContext (compatible structure)
-      return evaluateFhirPath(nativeAst, resource, (context ?? {}) as Record<string, unknown>, {
-        model: effectiveModel,
-        userInvocationTable: evalOptions.userInvocationTable,
-        traceFn: evalOptions.traceFn,
-        isDerivedResourceFn: evalOptions.isDerivedResourceFn,
-        terminologyService: evalOptions.terminologyService as unknown,
-        referenceResolver: evalOptions.referenceResolver as unknown,
-        async: evalOptions.async,
-      } as Parameters<typeof evaluateFhirPath>[3]);
+      return evaluateFhirPath(
+        nativeAst,
+        resource,
+        (context ?? {}) as Record<string, unknown>,
+        evaluatorOptions(effectiveModel, evalOptions),
+      );
     }) as CompiledExpression;
 
     // Add metadata
@@ -176,6 +181,80 @@ export class FhirPathEngine {
     return compiled;
   }
 
+  /**
+   * Compile several FHIRPath expressions for evaluation against the same resources
+   * 
+   * The expressions are evaluated together: navigation paths they have in
+   * common, like Observation.code.coding or (Observation.value as Quantity),
+   * are evaluated once per resource. With options.jit the batch is compiled
+   * to one fused JIT function, which leaves the functions the JIT does not
+   * compile to the interpreter. The JIT navigates without a model: with a
+   * model, and for async evaluations, the batch is interpreted.
+   * 
+   * @param expressions Expression strings (keyed by themselves) or expressions by key
+   * @param model Optional FHIR model (overrides engine default)
+   * @param options Compilation options
+   * @returns A function returning the results of the expressions by key
+   */
+  compileBatch(
+    expressions: string[] | Record<string, string>,
+    model?: Model,
+    options?: BatchOptions,
+  ): CompiledBatch {
+    const byKey: Record<string, string> = Array.isArray(expressions)
+      ? Object.fromEntries(expressions.map(expression => [expression, expression]))
+      : { ...expressions };
+    const keys = Object.keys(byKey);
+    const effectiveModel = model ?? this.model;
+    const { jit, ...compileOptions } = options ?? {};
+    const mergedOptions: Options = { ...this.defaultOptions, ...compileOptions };
+
+    // Parse with native parser (throws for the first invalid expression)
+    const asts = keys.map(key => this.parseNative(byKey[key]));
+
+    let fused: CompiledFhirPathBatch | undefined;
+    if (jit && !effectiveModel && !mergedOptions.async) {
+      try {
+        fused = compileBatchJIT(Object.fromEntries(keys.map((key, i) => [key, asts[i]])), {
+          ...mergedOptions,
+          interpreterOptions: evaluatorOptions(effectiveModel, mergedOptions),
+        });
+      } catch {
+        // Not compilable (e.g. an invalid literal): evaluate with the interpreter
+      }
+    }
+
+    const compiled = ((
+      resource: unknown,
+      context?: EvaluationContext,
+      additionalOptions?: Options,
+    ) => {
+      const evalOptions = additionalOptions 
+        ? { ...mergedOptions, ...additionalOptions }
+        : mergedOptions;
+      if (fused && !evalOptions.async) {
+        return fused(resource, context as Record<string, unknown>, additionalOptions);
+      }
+      const results = evaluateFhirPathBatch(
+        asts,
+        resource,
+        (context ?? {}) as Record<string, unknown>,
+        evaluatorOptions(effectiveModel, evalOptions),
+      );
+      if (evalOptions.async) {
+        return Promise.all(results).then(collections => byKeys(keys, collections));
+      }
+      return byKeys(keys, results);
+    }) as CompiledBatch;
+
+    Object.defineProperties(compiled, {
+      expressions: { value: Object.freeze(byKey), writable: false },
+      jit: { value: fused !== undefined, writable: false },
+    });
+
+    return compiled;
+  }
+
   /**
    * Evaluate a FHIRPath expression against a FHIR resource
    * 
@@ -200,6 +279,31 @@ export class FhirPathEngine {
     return compiled(resource, context);
   }
 
+  /**
+   * Evaluate a FHIRPath expression asynchronously
+   * 
+   * memberOf(), resolve() with an async reference resolver, async user
+   * functions and %terminologies calls are awaited wherever they occur,
+   * including inside where(), select() and exists().
+   * 
+   * @param resource The FHIR resource to evaluate against
+   * @param path Expression string or Path object
+   * @param context Environment variables for evaluation
+   * @param model Optional FHIR model
+   * @param options Evaluation options
+   * @returns Promise of the results
+   */
+  evaluateAsync(
+    resource: unknown,
+    path: string | Path,
+    context?: EvaluationContext,
+    model?: Model,
+    options?: Options,
+  ): Promise<unknown[]> {
+    const compiled = this.compile(path, model, { ...options, async: true });
+    return Promise.resolve(compiled(resource, context));
+  }
+
   /**
    * Get cache statistics
    */
@@ -223,6 +327,29 @@ export class FhirPathEngine {
   }
 }
 
+/**
+ * Evaluator options for a model and the options of a compiled expression
+ */
+function evaluatorOptions(model: Model | undefined, options: Options): Parameters<typeof evaluateFhirPath>[3] {
+  return {
+    model,
+    userInvocationTable: options.userInvocationTable,
+    traceFn: options.traceFn,
+    isDerivedResourceFn: options.isDerivedResourceFn,
+    terminologyService: options.terminologyService as unknown,
+    referenceResolver: options.referenceResolver as unknown,
+    async: options.async,
+    resolveInternalTypes: options.resolveInternalTypes,
+    limits: options.limits,
+    signal: options.signal,
+    mode: options.mode,
+  } as Parameters<typeof evaluateFhirPath>[3];
+}
+
+function byKeys(keys: string[], collections: unknown[][]): Record<string, unknown[]> {
+  return Object.fromEntries(keys.map((key, i) => [key, collections[i]]));
+}
+
 /**
  * Default global engine instance
  * 
@@ -0,0 +1,112 @@
+/**
+ * FHIRPath Errors
+ *
+ * Lexer, parser and evaluator errors carry a stable code and the span
+ * (start/end offsets) of the offending text in the expression.
+ * toOperationOutcomeIssue() reports any of them, and errors of evaluation
+ * limits, as a FHIR OperationOutcome issue.
+ *
+ * @example
+ * ```typescript
+ * import { toOperationOutcomeIssue } from "@atollee/fhirpath";
+ *
+ * try {
+ *   engine.evaluate(patient, "name.given + 1");
+ * } catch (error) {
+ *   const outcome = { resourceType: "OperationOutcome", issue: [toOperationOutcomeIssue(error)] };
+ * }
+ * ```
+ */
+
+import type { OperationOutcomeIssue } from "./types.ts";
+import { LexerError, type LexerErrorCode } from "./parser/lexer.ts";
+import { ParserError, type ParserErrorCode } from "./parser/parser.ts";
+import { EvaluatorError, type EvaluatorErrorCode } from "./evaluator/errors.ts";
+import { EvaluationLimitError } from "./evaluator/limits.ts";
+
+/**
+ * Stable codes of FHIRPath errors
+ */
+export type FhirPathErrorCode = LexerErrorCode | ParserErrorCode | EvaluatorErrorCode;
+
+/**
+ * Errors with a code and a span in the expression
+ */
+export type FhirPathError = LexerError | ParserError | EvaluatorError;
+
+/**
+ * Whether an error is a lexer, parser or evaluator error
+ */
+export function isFhirPathError(error: unknown): error is FhirPathError {
+  return error instanceof LexerError || error instanceof ParserError || error instanceof EvaluatorError;
+}
+
+/**
+ * Line and column (1-based) of an offset in an expression
+ */
+export function errorPosition(expression: string, offset: number): { line: number; column: number } {
+  const before = expression.slice(0, offset).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/**
+ * Convert a parse or evaluation error to an OperationOutcome issue.
+ * The issue's expression is the FHIRPath expression, its location the line
+ * and column of the offending text.
+ *
+ * @param error The thrown error
+ * @param expression The expression text, if the error does not carry it
+ */
+export function toOperationOutcomeIssue(error: unknown, expression?: string): OperationOutcomeIssue {
+  const message = error instanceof Error ? error.message : String(error);
+  const text = (isFhirPathError(error) || error instanceof EvaluationLimitError ? error.expression : undefined) ??
+    expression;
+
+  if (error instanceof EvaluationLimitError) {
+    return compact({
+      severity: "error",
+      code: error.limit === "timeout" ? "timeout" : error.limit === "aborted" ? "incomplete" : "too-costly",
+      details: { coding: [{ code: `limit-${error.limit}` }], text: message },
+      expression: text !== undefined ? [text] : undefined,
+    });
+  }
+
+  if (!isFhirPathError(error)) {
+    return compact({
+      severity: "error",
+      code: "exception",
+      diagnostics: message,
+      expression: text !== undefined ? [text] : undefined,
+    });
+  }
+
+  let position: { line: number; column: number } | undefined;
+  if (error instanceof LexerError) {
+    position = { line: error.line, column: error.column };
+  } else if (error instanceof ParserError) {
+    position = { line: error.token.line, column: error.token.column };
+  } else if (error.start !== undefined && text !== undefined) {
+    position = errorPosition(text, error.start);
+  }
+
+  const code = error instanceof EvaluatorError
+    ? error.code === "unknown-function" || error.code === "async-required" ? "not-supported" : "processing"
+    : "invalid";
+  const inputType = error instanceof EvaluatorError ? error.inputType : undefined;
+
+  return compact({
+    severity: "error",
+    code,
+    details: { coding: [{ code: error.code }], text: message },
+    diagnostics: inputType ? `${message} (input: ${inputType})` : undefined,
+    expression: text !== undefined ? [text] : undefined,
+    location: position ? [`line ${position.line}, column ${position.column}`] : undefined,
+  });
+}
+
+function compact(issue: OperationOutcomeIssue): OperationOutcomeIssue {
+  for (const key of Object.keys(issue) as (keyof OperationOutcomeIssue)[]) {
+    if (issue[key] === undefined) delete issue[key];
+  }
+  return issue;
+}
@@ -0,0 +1,84 @@
+/**
+ * FHIRPath Async Lookups
+ *
+ * Results of asynchronous operations (memberOf() terminology checks,
+ * resolve() through a reference resolver, async user functions and
+ * %terminologies calls) for an async evaluation.
+ *
+ * An async evaluation runs the evaluator in passes. A pass that needs a
+ * result that is not known yet registers the request under a key and
+ * continues with an empty placeholder; after the pass all registered
+ * requests are started together and awaited, and the expression is evaluated
+ * again with their results. Every node, including the criteria of where(),
+ * select(), exists() and all(), therefore sees settled values, requests made
+ * for several items of a collection are batched into one round trip, and
+ * identical requests (the same code and ValueSet, the same reference) are
+ * only made once. Synchronous results are kept as well, so that no call is
+ * repeated by a later pass. The evaluation is complete when a pass registers
+ * no new request.
+ */
+
+/**
+ * Requests and results of one async evaluation, keyed by request
+ */
+export class AsyncLookups {
+  private readonly results = new Map<string, unknown>();
+  private readonly pending = new Map<string, () => unknown>();
+
+  /**
+   * Returns true if a result is known for the key
+   */
+  has(key: string): boolean {
+    return this.results.has(key);
+  }
+
+  /**
+   * The result for a key, if it is known
+   */
+  get(key: string): unknown {
+    return this.results.get(key);
+  }
+
+  /**
+   * Register a request unless its result is known or it is already registered
+   * in this pass. The request is started when the pass is settled.
+   */
+  request(key: string, start: () => unknown): void {
+    if (!this.results.has(key) && !this.pending.has(key)) {
+      this.pending.set(key, start);
+    }
+  }
+
+  /**
+   * Record the result of a call that did not need to be awaited, so that
+   * later passes reuse it instead of calling again
+   */
+  record(key: string, result: unknown): void {
+    this.results.set(key, result);
+  }
+
+  /**
+   * Returns true if a request is registered for the key in this pass
+   */
+  isPending(key: string): boolean {
+    return this.pending.has(key);
+  }
+
+  /**
+   * Returns true if the last pass registered requests
+   */
+  get hasPending(): boolean {
+    return this.pending.size > 0;
+  }
+
+  /**
+   * Start all registered requests concurrently and record their results.
+   * A request that fails rejects the evaluation.
+   */
+  async settle(): Promise<void> {
+    const requests = [...this.pending];
+    this.pending.clear();
+    const results = await Promise.all(requests.map(([, start]) => start()));
+    requests.forEach(([key], i) => this.results.set(key, results[i]));
+  }
+}
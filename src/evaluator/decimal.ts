@@ -0,0 +1,338 @@
+/**
+ * FHIRPath Decimal Values
+ *
+ * Exact decimal arithmetic for Decimal literals (0.1, 1.50), FHIR decimal
+ * elements and toDecimal() results. A value is an unscaled BigInt with the
+ * number of digits after the decimal point, so 0.1 + 0.2 = 0.3 holds and
+ * trailing zeros (significant digits) survive: 1.50 keeps a scale of 2.
+ * Integers remain JavaScript numbers; arithmetic on two Integers is
+ * Integer arithmetic, any Decimal operand makes the result a Decimal.
+ */
+
+/** Significant digits of the result of a division that does not terminate */
+const DIVISION_DIGITS = 20;
+
+/** Default and greatest precision of lowBoundary() and highBoundary() */
+const DEFAULT_BOUNDARY_PRECISION = 8;
+const MAX_BOUNDARY_PRECISION = 28;
+
+const DECIMAL_REGEX = /^([+-])?(\d+)(?:\.(\d+))?(?:[eE]([+-]?\d+))?$/;
+
+/**
+ * A FHIRPath Decimal: coefficient × 10^-scale
+ */
+export class FhirPathDecimal {
+  readonly kind = "Decimal";
+
+  constructor(
+    /** The digits of the value as an integer */
+    readonly coefficient: bigint,
+    /** Number of digits after the decimal point */
+    readonly scale: number,
+  ) {}
+
+  toString(): string {
+    const negative = this.coefficient < 0n;
+    const digits = (negative ? -this.coefficient : this.coefficient).toString();
+    if (this.scale === 0) return (negative ? "-" : "") + digits;
+    const padded = digits.padStart(this.scale + 1, "0");
+    const point = padded.length - this.scale;
+    return `${negative ? "-" : ""}${padded.slice(0, point)}.${padded.slice(point)}`;
+  }
+
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  /** Allows Decimals in plain numeric contexts (Math functions, Number()) */
+  valueOf(): number {
+    return this.toNumber();
+  }
+
+  /**
+   * Serialize as a number so that results handed to callers and
+   * JSON-based comparisons (distinct, union, ...) see the value
+   */
+  toJSON(): number {
+    return this.toNumber();
+  }
+}
+
+// ============================================================
+// Parsing and conversion
+// ============================================================
+
+/**
+ * Returns true if the value is a Decimal
+ */
+export function isDecimal(value: unknown): value is FhirPathDecimal {
+  return value instanceof FhirPathDecimal;
+}
+
+/**
+ * Returns true if the value is an Integer or a Decimal
+ */
+export function isNumeric(value: unknown): value is number | FhirPathDecimal {
+  return (typeof value === "number" && Number.isFinite(value)) || value instanceof FhirPathDecimal;
+}
+
+/**
+ * Parse a decimal in plain or exponent notation, keeping its digits.
+ * Returns undefined if the text is not a number.
+ */
+export function parseDecimal(text: string): FhirPathDecimal | undefined {
+  const match = DECIMAL_REGEX.exec(text.trim());
+  if (!match) return undefined;
+  const [, sign, whole, fraction = "", exponentText] = match;
+  const exponent = exponentText !== undefined ? parseInt(exponentText, 10) : 0;
+  let coefficient = BigInt(whole + fraction);
+  let scale = fraction.length - exponent;
+  if (scale < 0) {
+    coefficient *= 10n ** BigInt(-scale);
+    scale = 0;
+  }
+  return new FhirPathDecimal(sign === "-" ? -coefficient : coefficient, scale);
+}
+
+/**
+ * The Decimal with the shortest representation of a JavaScript number
+ * (0.1 is 0.1, not the binary approximation)
+ */
+export function decimalFromNumber(value: number): FhirPathDecimal | undefined {
+  return Number.isFinite(value) ? parseDecimal(String(value)) : undefined;
+}
+
+/**
+ * An Integer or Decimal as a Decimal
+ */
+export function toDecimalValue(value: number | FhirPathDecimal): FhirPathDecimal {
+  if (value instanceof FhirPathDecimal) return value;
+  return Number.isInteger(value) ? new FhirPathDecimal(BigInt(value), 0) : decimalFromNumber(value)!;
+}
+
+/**
+ * Parse JSON, reading numbers written with a fraction or an exponent as
+ * Decimals so that FHIR decimal elements keep their significant digits
+ * ("1.50" stays 1.50, which JSON.parse would read as 1.5).
+ */
+export function parseJsonWithDecimals(text: string): unknown {
+  // Third reviver argument: JSON.parse source text access (ES2025)
+  const reviver = (_key: string, value: unknown, context?: { source?: string }) => {
+    if (typeof value !== "number" || context?.source === undefined) return value;
+    if (!/[.eE]/.test(context.source)) return value;
+    return parseDecimal(context.source) ?? value;
+  };
+  return JSON.parse(text, reviver as (key: string, value: unknown) => unknown);
+}
+
+// ============================================================
+// Comparison
+// ============================================================
+
+/**
+ * Coefficients of two Decimals brought to the same scale
+ */
+function align(a: FhirPathDecimal, b: FhirPathDecimal): [bigint, bigint, number] {
+  const scale = Math.max(a.scale, b.scale);
+  return [rescale(a, scale), rescale(b, scale), scale];
+}
+
+function rescale(value: FhirPathDecimal, scale: number): bigint {
+  return value.coefficient * 10n ** BigInt(scale - value.scale);
+}
+
+/**
+ * Order two numbers exactly
+ */
+export function compareDecimals(a: number | FhirPathDecimal, b: number | FhirPathDecimal): number {
+  const [x, y] = align(toDecimalValue(a), toDecimalValue(b));
+  return x === y ? 0 : x < y ? -1 : 1;
+}
+
+/**
+ * FHIRPath equivalence (~) of numbers: equal when rounded to the precision
+ * of the least precise operand, ignoring trailing zeros (1.2 ~ 1.23 and 1.2 ~ 1.20)
+ */
+export function decimalEquivalent(a: number | FhirPathDecimal, b: number | FhirPathDecimal): boolean {
+  const x = stripTrailingZeros(toDecimalValue(a));
+  const y = stripTrailingZeros(toDecimalValue(b));
+  const scale = Math.min(x.scale, y.scale);
+  return compareDecimals(roundDecimal(x, scale), roundDecimal(y, scale)) === 0;
+}
+
+// ============================================================
+// Arithmetic
+// ============================================================
+
+/**
+ * Apply an arithmetic operator to Integer and Decimal operands.
+ * Integer operands give an Integer result, except for "/" which is always
+ * Decimal; div yields an Integer.
+ *
+ * @returns The result; undefined if it is not defined (division by zero);
+ * null if an operand is not a number
+ */
+export function numericArithmetic(
+  operator: string,
+  left: unknown,
+  right: unknown,
+): number | FhirPathDecimal | undefined | null {
+  if (!isNumeric(left) || !isNumeric(right)) return null;
+
+  if (typeof left === "number" && typeof right === "number" && Number.isInteger(left) && Number.isInteger(right)) {
+    switch (operator) {
+      case "+": return left + right;
+      case "-": return left - right;
+      case "*": return left * right;
+      case "div": return right === 0 ? undefined : Math.trunc(left / right);
+      case "mod": return right === 0 ? undefined : left % right;
+    }
+  }
+
+  const a = toDecimalValue(left);
+  const b = toDecimalValue(right);
+  switch (operator) {
+    case "+": {
+      const [x, y, scale] = align(a, b);
+      return new FhirPathDecimal(x + y, scale);
+    }
+    case "-": {
+      const [x, y, scale] = align(a, b);
+      return new FhirPathDecimal(x - y, scale);
+    }
+    case "*":
+      return new FhirPathDecimal(a.coefficient * b.coefficient, a.scale + b.scale);
+    case "/":
+      return b.coefficient === 0n ? undefined : divideDecimals(a, b);
+    case "div": {
+      if (b.coefficient === 0n) return undefined;
+      const [x, y] = align(a, b);
+      return Number(x / y);
+    }
+    case "mod": {
+      if (b.coefficient === 0n) return undefined;
+      const [x, y, scale] = align(a, b);
+      return new FhirPathDecimal(x % y, scale);
+    }
+  }
+  return null;
+}
+
+/**
+ * Divide to DIVISION_DIGITS significant digits, without trailing zeros
+ */
+function divideDecimals(a: FhirPathDecimal, b: FhirPathDecimal): FhirPathDecimal {
+  const [x, y] = align(a, b);
+  // Scale so that the quotient has at least DIVISION_DIGITS + 1 digits
+  const magnitude = digitCount(x) - digitCount(y);
+  const scale = Math.max(0, DIVISION_DIGITS + 1 - magnitude);
+  const quotient = (x * 10n ** BigInt(scale)) / y;
+  const excess = Math.min(scale, Math.max(0, digitCount(quotient) - DIVISION_DIGITS));
+  const rounded = roundCoefficient(quotient, excess);
+  return stripTrailingZeros(new FhirPathDecimal(rounded, scale - excess));
+}
+
+function digitCount(value: bigint): number {
+  return (value < 0n ? -value : value).toString().length;
+}
+
+/**
+ * Drop the given number of trailing digits, rounding half up (toward +∞)
+ */
+function roundCoefficient(coefficient: bigint, digits: number): bigint {
+  if (digits <= 0) return coefficient;
+  const divisor = 10n ** BigInt(digits);
+  let quotient = coefficient / divisor;
+  const remainder = coefficient % divisor;
+  if (remainder < 0n) {
+    // BigInt division truncates; floor first so that .5 always rounds up
+    quotient -= 1n;
+    if ((remainder + divisor) * 2n >= divisor) quotient += 1n;
+  } else if (remainder * 2n >= divisor) {
+    quotient += 1n;
+  }
+  return quotient;
+}
+
+function stripTrailingZeros(value: FhirPathDecimal): FhirPathDecimal {
+  let { coefficient, scale } = value;
+  while (scale > 0 && coefficient % 10n === 0n) {
+    coefficient /= 10n;
+    scale--;
+  }
+  return new FhirPathDecimal(coefficient, scale);
+}
+
+/**
+ * Negate a Decimal
+ */
+export function negateDecimal(value: FhirPathDecimal): FhirPathDecimal {
+  return new FhirPathDecimal(-value.coefficient, value.scale);
+}
+
+/**
+ * Round to the given number of decimal places (.5 rounds up)
+ */
+export function roundDecimal(value: FhirPathDecimal, precision = 0): FhirPathDecimal {
+  if (precision >= value.scale) {
+    return new FhirPathDecimal(rescale(value, precision), precision);
+  }
+  return new FhirPathDecimal(roundCoefficient(value.coefficient, value.scale - precision), precision);
+}
+
+/**
+ * The integer part of a Decimal
+ */
+export function truncateDecimal(value: FhirPathDecimal): number {
+  return Number(value.coefficient / 10n ** BigInt(value.scale));
+}
+
+/**
+ * The largest integer not greater than a Decimal
+ */
+export function floorDecimal(value: FhirPathDecimal): number {
+  const truncated = truncateDecimal(value);
+  return value.coefficient < 0n && compareDecimals(value, truncated) !== 0 ? truncated - 1 : truncated;
+}
+
+/**
+ * The smallest integer not less than a Decimal
+ */
+export function ceilingDecimal(value: FhirPathDecimal): number {
+  const truncated = truncateDecimal(value);
+  return value.coefficient > 0n && compareDecimals(value, truncated) !== 0 ? truncated + 1 : truncated;
+}
+
+/**
+ * The absolute value of a Decimal
+ */
+export function absDecimal(value: FhirPathDecimal): FhirPathDecimal {
+  return value.coefficient < 0n ? negateDecimal(value) : value;
+}
+
+/**
+ * The least (low) or greatest (high) possible value of a Decimal given its
+ * significant digits, to the given number of decimal places:
+ * 1.587.lowBoundary() = 1.58650000, 1.587.highBoundary(2) = 1.59.
+ *
+ * @returns The boundary, or undefined if the precision is out of range
+ */
+export function decimalBoundary(
+  value: FhirPathDecimal,
+  boundary: "low" | "high",
+  precision = DEFAULT_BOUNDARY_PRECISION,
+): FhirPathDecimal | undefined {
+  if (!Number.isInteger(precision) || precision < 0 || precision > MAX_BOUNDARY_PRECISION) return undefined;
+  // Half a unit in the last significant digit, away from the value
+  const edge = new FhirPathDecimal(value.coefficient * 10n + (boundary === "low" ? -5n : 5n), value.scale + 1);
+  if (precision >= edge.scale) {
+    return new FhirPathDecimal(rescale(edge, precision), precision);
+  }
+  const divisor = 10n ** BigInt(edge.scale - precision);
+  let coefficient = edge.coefficient / divisor;
+  const remainder = edge.coefficient % divisor;
+  // BigInt division truncates toward zero; move outward to the boundary
+  if (boundary === "low" && remainder < 0n) coefficient -= 1n;
+  if (boundary === "high" && remainder > 0n) coefficient += 1n;
+  return new FhirPathDecimal(coefficient, precision);
+}
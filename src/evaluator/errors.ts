@@ -0,0 +1,57 @@
+/**
+ * Evaluator Errors
+ */
+
+import type { ASTNode } from "../parser/ast.ts";
+
+/**
+ * Stable codes of evaluation errors
+ */
+export type EvaluatorErrorCode =
+  | "unknown-node"
+  | "invalid-literal"
+  | "unknown-function"
+  | "unknown-operator"
+  | "async-required"
+  | "singleton-expected"
+  | "number-expected"
+  | "integer-expected"
+  | "type-mismatch"
+  | "evaluation-failed";
+
+/**
+ * Error of an evaluation. The evaluator adds the span of the expression node
+ * that failed and the expression text.
+ */
+export class EvaluatorError extends Error {
+  /** Start of the failed expression node in the expression */
+  start?: number;
+  /** End of the failed expression node in the expression */
+  end?: number;
+  /** The expression text */
+  expression?: string;
+  /** Type of the input that caused the failure (e.g. System.String) */
+  inputType?: string;
+
+  constructor(
+    message: string,
+    readonly code: EvaluatorErrorCode = "evaluation-failed",
+    details: { node?: ASTNode; inputType?: string } = {},
+  ) {
+    super(message);
+    this.name = "EvaluatorError";
+    this.start = details.node?.start;
+    this.end = details.node?.end;
+    this.inputType = details.inputType;
+  }
+}
+
+/**
+ * Error for a call that returned a Promise in a synchronous evaluation
+ */
+export function asyncRequired(name: string): EvaluatorError {
+  return new EvaluatorError(
+    `${name}() returned a Promise and requires async evaluation. Set options.async = true`,
+    "async-required",
+  );
+}
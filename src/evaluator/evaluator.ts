@@ -22,7 +22,6 @@ import type {
   ThisNode,
   TotalNode,
   TypeOpNode,
-  TypeSpecifierNode,
   UnaryOpNode,
 } from "../parser/ast.ts";
 
@@ -33,18 +32,75 @@ import type {
   FhirPathCollection,
 } from "./types.ts";
 
-import { getTypeInfo } from "./types.ts";
+import { getTypeInfo, isQuantity } from "./types.ts";
+import {
+  getChildBasePath,
+  getElementInfo,
+  getFhirTypeInfo,
+  isFhirTypeOf,
+  normalizeTypeName,
+  toSystemType,
+} from "./model.ts";
+import { ResourceNode, unwrap, unwrapAll } from "./node.ts";
+import {
+  coerceTemporal,
+  compareTemporal,
+  isTemporal,
+  parseDate,
+  parseDateTime,
+  parseTime,
+  temporalEquals,
+  temporalEquivalent,
+} from "./temporal.ts";
+import type { TemporalValue } from "./temporal.ts";
+import { compareQuantities, quantityArithmetic, quantityEquals, quantityEquivalent } from "./quantity.ts";
+import {
+  compareDecimals,
+  decimalEquivalent,
+  isDecimal,
+  isNumeric,
+  negateDecimal,
+  numericArithmetic,
+  parseDecimal,
+  toDecimalValue,
+} from "./decimal.ts";
+import type { FhirPathDecimal } from "./decimal.ts";
+
+import { AsyncLookups } from "./async.ts";
+import { rootPathKey } from "./shared.ts";
+import { EvaluationGuard, EvaluationLimitError } from "./limits.ts";
+import { asyncRequired, EvaluatorError } from "./errors.ts";
+import { typeSpecifierOf, type UserFunctionArgument, userFunctionParams } from "./invocation.ts";
 
 import * as fn from "./functions.ts";
 
 /**
- * Evaluator error
+ * Functions that pass navigated nodes through unchanged.
+ * All other functions receive the raw JSON values of their input collection.
  */
-export class EvaluatorError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "EvaluatorError";
-  }
+const NODE_FUNCTIONS = new Set([
+  "empty", "exists", "all", "count",
+  "where", "select", "first", "last", "tail", "take", "skip", "single", "distinct",
+  "ofType", "as", "is", "type",
+  "combine", "union", "intersect", "exclude",
+  "repeat", "aggregate", "iif", "trace", "defineVariable",
+  "extension", "hasExtension",
+]);
+
+/**
+ * Scope of a node evaluated for JIT-compiled code (see evaluateNode())
+ */
+export interface NodeScope {
+  /** $index of the compiled code */
+  index?: number;
+  /** $total of the compiled code */
+  total?: unknown;
+  /** Result of the object of a method call, compiled by the JIT */
+  base?: FhirPathCollection;
+  /** Limits of the compiled code's evaluation */
+  guard?: EvaluationGuard;
+  /** Variables of defineVariable(), shared with the compiled code */
+  variables?: Map<string, FhirPathCollection>;
 }
 
 /**
@@ -52,19 +108,116 @@ export class EvaluatorError extends Error {
  */
 export class FhirPathEvaluator {
   private state: EvaluatorState;
+  /** Results of async operations during an async evaluation */
+  private lookups?: AsyncLookups;
+  /** trace() calls of the current pass of an async evaluation */
+  private traces?: [FhirPathCollection, string][];
+
+  /** Limits of the current evaluation */
+  private guard?: EvaluationGuard;
+
+  /** Input collection of the current pass, the focus of shared subexpressions */
+  private input: FhirPathCollection = [];
 
   constructor(
     private readonly ast: ExpressionNode,
     private readonly options: EvaluatorOptions = {},
+    /** Results of navigation paths from the input, shared by the expressions of a batch */
+    private readonly shared?: Map<string, FhirPathCollection>,
   ) {
     this.state = this.createInitialState();
   }
 
   /**
-   * Evaluate against a resource
+   * Evaluate against a resource.
+   * With options.async the result is a Promise (see evaluateAsync()).
    */
   evaluate(resource: unknown, context: EvaluationContext = {}): FhirPathCollection {
-    // Reset state
+    if (this.options.async) {
+      return this.evaluateAsync(resource, context) as unknown as FhirPathCollection;
+    }
+    this.guard = EvaluationGuard.create(this.options.limits, this.options.signal);
+    return this.evaluatePass(resource, context);
+  }
+
+  /**
+   * Evaluate against a resource, awaiting memberOf(), resolve() and other
+   * async operations wherever they occur in the expression.
+   * Passes are repeated until all async results are known (see AsyncLookups);
+   * trace() output is only reported for the final pass.
+   */
+  async evaluateAsync(resource: unknown, context: EvaluationContext = {}): Promise<FhirPathCollection> {
+    const lookups = new AsyncLookups();
+    this.lookups = lookups;
+    this.guard = EvaluationGuard.create(this.options.limits, this.options.signal);
+    try {
+      for (;;) {
+        this.traces = [];
+        const result = this.evaluatePass(resource, context);
+        if (!lookups.hasPending) {
+          for (const [values, label] of this.traces) this.options.traceFn?.(values, label);
+          return result;
+        }
+        await lookups.settle();
+        this.guard?.poll();
+      }
+    } finally {
+      this.lookups = undefined;
+      this.traces = undefined;
+    }
+  }
+
+  /**
+   * Evaluate a node of the expression for JIT-compiled code that does not
+   * compile it: with the focus, $index, $total and variables of the compiled code and,
+   * for a method call, the compiled result of its object.
+   * Returns raw values, keeping Date/Time and Decimal values.
+   */
+  evaluateNode(
+    node: ASTNode,
+    focus: FhirPathCollection,
+    resource: unknown,
+    context: EvaluationContext = {},
+    scope: NodeScope = {},
+  ): FhirPathCollection {
+    this.guard = scope.guard;
+    this.resetState(resource, context);
+    if (scope.variables) this.state.variables = scope.variables;
+    this.state.current = focus;
+    this.state.index = scope.index ?? 0;
+    this.state.total = scope.total;
+    this.input = focus;
+
+    try {
+      if (node.type !== "MethodCall" || !scope.base) {
+        return unwrapAll(this.evalNode(node));
+      }
+      try {
+        return unwrapAll(this.callMethod(node as MethodCallNode, scope.base));
+      } catch (error) {
+        throw this.locate(error, node);
+      }
+    } catch (error) {
+      throw this.withExpression(error);
+    }
+  }
+
+  private evaluatePass(resource: unknown, context: EvaluationContext): FhirPathCollection {
+    this.resetState(resource, context);
+
+    // Start with resource as initial collection
+    this.state.current = resource != null ? [resource] : [];
+    this.input = this.state.current;
+
+    // Evaluate the AST and hand out raw values
+    try {
+      return this.toResult(this.evalNode(this.ast.child));
+    } catch (error) {
+      throw this.withExpression(error);
+    }
+  }
+
+  private resetState(resource: unknown, context: EvaluationContext): void {
     this.state = this.createInitialState();
     this.state.environment = {
       resource,
@@ -72,12 +225,27 @@ export class FhirPathEvaluator {
       context: context.context ?? resource,
       ...context,
     };
+  }
 
-    // Start with resource as initial collection
-    this.state.current = resource != null ? [resource] : [];
+  /** Add the expression text to an evaluation error */
+  private withExpression(error: unknown): unknown {
+    if (error instanceof EvaluatorError || error instanceof EvaluationLimitError) {
+      error.expression ??= this.ast.source;
+    }
+    return error;
+  }
 
-    // Evaluate the AST
-    return this.evalNode(this.ast.child);
+  /**
+   * Unwrap navigated nodes (unless keepNodes is set) and, unless disabled,
+   * render temporal values as strings and Decimals as numbers
+   */
+  private toResult(collection: FhirPathCollection): FhirPathCollection {
+    if (this.options.keepNodes) return collection;
+    const values = unwrapAll(collection);
+    if (this.options.resolveInternalTypes === false || !values.some(v => isTemporal(v) || isDecimal(v))) {
+      return values;
+    }
+    return values.map(v => isTemporal(v) ? v.toString() : isDecimal(v) ? v.toNumber() : v);
   }
 
   private createInitialState(): EvaluatorState {
@@ -96,6 +264,44 @@ export class FhirPathEvaluator {
   // ============================================================
 
   private evalNode(node: ASTNode): FhirPathCollection {
+    try {
+      const guard = this.guard;
+      if (!guard) return this.evalSharedNode(node);
+      guard.enter();
+      const result = this.evalSharedNode(node);
+      guard.leave(result);
+      return result;
+    } catch (error) {
+      throw this.locate(error, node);
+    }
+  }
+
+  /** The innermost node that failed locates an error, a method call by its name */
+  private locate(error: unknown, node: ASTNode): unknown {
+    if (error instanceof EvaluatorError && error.start === undefined) {
+      error.start = node.type === "MethodCall" ? (node as MethodCallNode).method.start : node.start;
+      error.end = node.end;
+    }
+    return error;
+  }
+
+  private evalSharedNode(node: ASTNode): FhirPathCollection {
+    // Paths from the input are evaluated once per batch (variables could shadow identifiers)
+    if (this.shared && this.state.current === this.input && this.state.variables.size === 0) {
+      const key = rootPathKey(node);
+      if (key !== undefined) {
+        let result = this.shared.get(key);
+        if (!result) {
+          result = this.evalNodeType(node);
+          this.shared.set(key, result);
+        }
+        return result;
+      }
+    }
+    return this.evalNodeType(node);
+  }
+
+  private evalNodeType(node: ASTNode): FhirPathCollection {
     switch (node.type) {
       case "Literal":
         return this.evalLiteral(node as LiteralNode);
@@ -128,7 +334,7 @@ export class FhirPathEvaluator {
       case "Paren":
         return this.evalNode((node as ParenNode).expression);
       default:
-        throw new EvaluatorError(`Unknown node type: ${node.type}`);
+        throw new EvaluatorError(`Unknown node type: ${node.type}`, "unknown-node", { node });
     }
   }
 
@@ -141,9 +347,28 @@ export class FhirPathEvaluator {
     if (node.literalType === "quantity") {
       return [{ value: node.value as number, unit: node.unit }];
     }
+    if (node.literalType === "date" || node.literalType === "datetime" || node.literalType === "time") {
+      return [this.parseTemporalLiteral(node)];
+    }
+    if (node.literalType === "decimal") {
+      const value = parseDecimal(String(node.value));
+      if (!value) throw new EvaluatorError(`Invalid decimal literal: ${node.value}`, "invalid-literal", { node });
+      return [value];
+    }
     return [node.value];
   }
 
+  private parseTemporalLiteral(node: LiteralNode): TemporalValue {
+    const text = String(node.value);
+    const value = node.literalType === "time"
+      ? parseTime(text)
+      : node.literalType === "date" ? parseDate(text) : parseDateTime(text);
+    if (!value) {
+      throw new EvaluatorError(`Invalid ${node.literalType} literal: @${text}`, "invalid-literal", { node });
+    }
+    return value;
+  }
+
   // ============================================================
   // Identifier/Member evaluation
   // ============================================================
@@ -156,10 +381,35 @@ export class FhirPathEvaluator {
       return this.state.variables.get(name)!;
     }
 
+    // A type name selects matching resources (e.g. "Patient" in Patient.name)
+    if (/^[A-Z]/.test(name)) {
+      const typed = this.filterByResourceType(this.state.current, name);
+      if (typed) return typed;
+    }
+
     // Navigate from current collection
     return this.getChildren(this.state.current, name);
   }
 
+  /**
+   * Select the resources of a type from a collection.
+   * Returns undefined if the collection contains no resources, so that
+   * the name is navigated as an element instead.
+   */
+  private filterByResourceType(collection: FhirPathCollection, typeName: string): FhirPathCollection | undefined {
+    let hasResources = false;
+    const result = collection.filter(item => {
+      const value = unwrap(item);
+      if (value == null || typeof value !== "object") return false;
+      const resourceType = (value as Record<string, unknown>).resourceType;
+      if (typeof resourceType !== "string") return false;
+      hasResources = true;
+      return isFhirTypeOf(this.options.model, resourceType, typeName) ||
+        (this.options.isDerivedResourceFn?.(resourceType, typeName) ?? false);
+    });
+    return hasResources ? result : undefined;
+  }
+
   private evalMemberAccess(node: MemberAccessNode): FhirPathCollection {
     const base = this.evalNode(node.object);
     return this.getChildren(base, node.member.name);
@@ -167,20 +417,49 @@ export class FhirPathEvaluator {
 
   private getChildren(collection: FhirPathCollection, name: string): FhirPathCollection {
     const result: FhirPathCollection = [];
+    const model = this.options.model;
 
     for (const item of collection) {
-      if (item == null || typeof item !== "object") continue;
+      const node = item instanceof ResourceNode ? item : undefined;
+      const data = node ? node.data : item;
+
+      let obj: Record<string, unknown>;
+      if (data != null && typeof data === "object" && !isDecimal(data)) {
+        obj = data as Record<string, unknown>;
+      } else if (node) {
+        // Primitive element: the value itself, id and extension from "_element"
+        if (name === "value") {
+          if (data != null) result.push(data);
+          continue;
+        }
+        if (!node.extData) continue;
+        obj = node.extData;
+      } else {
+        continue;
+      }
 
-      const obj = item as Record<string, unknown>;
+      // Model-driven navigation when the element's place in the model is known
+      const path = node ? node.path : typeof obj.resourceType === "string" ? obj.resourceType : undefined;
+      if (model && path) {
+        const element = getElementInfo(model, getChildBasePath(path, node?.type), name, node?.type);
+        const jsonPath = node?.jsonPath ?? path;
+        if (element?.choiceTypes) {
+          for (const suffix of element.choiceTypes) {
+            const key = name + suffix;
+            this.pushNodes(result, obj, key, element.path, normalizeTypeName(suffix), path, `${jsonPath}.${key}`);
+          }
+        } else if (element) {
+          this.pushNodes(result, obj, name, element.path, element.type, path, `${jsonPath}.${name}`);
+        } else {
+          // Not defined in the model: plain property access, no choice expansion
+          this.pushNodes(result, obj, name);
+        }
+        continue;
+      }
 
       // Direct property access
-      if (name in obj) {
-        const value = obj[name];
-        if (Array.isArray(value)) {
-          result.push(...value);
-        } else if (value != null) {
-          result.push(value);
-        }
+      if (name in obj || `_${name}` in obj) {
+        this.pushNodes(result, obj, name);
       }
 
       // Check for polymorphic fields (value[x] pattern)
@@ -189,14 +468,7 @@ export class FhirPathEvaluator {
         if (key.startsWith(name) && key !== name) {
           const suffix = key.slice(name.length);
           if (suffix[0] === suffix[0].toUpperCase()) {
-            const value = obj[key];
-            if (value != null) {
-              if (Array.isArray(value)) {
-                result.push(...value);
-              } else {
-                result.push(value);
-              }
-            }
+            this.pushNodes(result, obj, key);
           }
         }
       }
@@ -205,6 +477,47 @@ export class FhirPathEvaluator {
     return result;
   }
 
+  /**
+   * Append the value of a JSON property (single value or array) as nodes.
+   * Primitive values are merged index by index with their "_key" sibling;
+   * contained resources start a new path at their resourceType.
+   * Without model information only primitives are wrapped.
+   */
+  private pushNodes(
+    result: FhirPathCollection,
+    obj: Record<string, unknown>,
+    key: string,
+    path?: string,
+    type?: string,
+    parentPath?: string,
+    jsonPath?: string,
+  ): void {
+    const value = obj[key];
+    const extValue = obj[`_${key}`];
+    const isArray = Array.isArray(value) || Array.isArray(extValue);
+    const values = Array.isArray(value) ? value : [value];
+    const exts = Array.isArray(extValue) ? extValue : [extValue];
+    const count = Math.max(values.length, exts.length);
+
+    for (let i = 0; i < count; i++) {
+      const v = values[i];
+      const ext = exts[i];
+      const itemPath = jsonPath && isArray ? `${jsonPath}[${i}]` : jsonPath;
+
+      if (v != null && typeof v === "object" && !isDecimal(v)) {
+        const resourceType = (v as Record<string, unknown>).resourceType;
+        if (typeof resourceType === "string") {
+          result.push(path ? new ResourceNode(v, resourceType, resourceType, parentPath, itemPath) : v);
+        } else {
+          result.push(path ? new ResourceNode(v, path, type, parentPath, itemPath) : v);
+        }
+      } else if (v != null || (ext != null && typeof ext === "object")) {
+        const extData = ext != null && typeof ext === "object" ? ext as Record<string, unknown> : undefined;
+        result.push(new ResourceNode(v ?? null, path, type, parentPath, itemPath, extData));
+      }
+    }
+  }
+
   // ============================================================
   // Function/Method evaluation
   // ============================================================
@@ -219,11 +532,14 @@ export class FhirPathEvaluator {
     }
 
     // Built-in functions
-    return this.callBuiltinFunction(name, this.state.current, args) as FhirPathCollection;
+    return this.callBuiltinFunction(name, this.state.current, args);
   }
 
   private evalMethodCall(node: MethodCallNode): FhirPathCollection {
-    const base = this.evalNode(node.object);
+    return this.callMethod(node, this.evalNode(node.object));
+  }
+
+  private callMethod(node: MethodCallNode, base: FhirPathCollection): FhirPathCollection {
     const name = node.method.name;
     const args = node.arguments;
 
@@ -232,34 +548,73 @@ export class FhirPathEvaluator {
       return this.callUserFunction(name, base, args);
     }
 
-    // Check if base contains an object with this method (e.g., %factory.string())
-    if (base.length === 1 && base[0] !== null && typeof base[0] === "object") {
+    // Check if base contains an object with this method (e.g., %factory.string()),
+    // not one every object has (e.g. toString() of a quantity)
+    if (base.length === 1 && base[0] !== null && typeof base[0] === "object" && !(base[0] instanceof ResourceNode)) {
       const obj = base[0] as Record<string, unknown>;
-      if (typeof obj[name] === "function") {
+      if (typeof obj[name] === "function" && !(name in Object.prototype)) {
         // Evaluate arguments
         const evaluatedArgs = args.map(arg => {
-          const result = this.evalNode(arg);
+          const result = this.evalValues(arg);
           // Unwrap single values from collections
           return result.length === 1 ? result[0] : result;
         });
         
-        // Call the method on the object
-        const result = (obj[name] as (...args: unknown[]) => unknown)(...evaluatedArgs);
-        return this.toCollection(result);
+        // Call the method on the object (e.g. %terminologies.expand() is async)
+        return this.awaitResult(`${name}(${JSON.stringify(evaluatedArgs)})`, name, () =>
+          (obj[name] as (...args: unknown[]) => unknown)(...evaluatedArgs)
+        );
       }
     }
 
-    return this.callBuiltinFunction(name, base, args) as FhirPathCollection;
+    return this.callBuiltinFunction(name, base, args);
   }
 
   private callUserFunction(name: string, collection: FhirPathCollection, args: ASTNode[]): FhirPathCollection {
     const userFn = this.options.userInvocationTable![name];
-    const evaluatedArgs = args.map(arg => this.evalNode(arg));
-    const result = userFn.fn(collection, ...evaluatedArgs);
-    return this.toCollection(result);
+    const input = unwrapAll(collection);
+    const focus = this.state.current;
+    const params = userFunctionParams(
+      userFn,
+      input,
+      args.map((arg): UserFunctionArgument => ({
+        evaluate: (argFocus) => this.evalWithFocus(arg, argFocus),
+        name: typeSpecifierOf(arg)?.typeName,
+      })),
+      focus,
+      this.toCollection(this.state.environment.resource),
+    );
+    if (!params) return [];
+    return this.awaitResult(`${name}:${JSON.stringify([input, ...params])}`, name, () =>
+      userFn.fn(input, ...params)
+    );
+  }
+
+  /**
+   * The result of a call that may return a Promise, as a collection.
+   * In an async evaluation a Promise is registered under the key and the
+   * result is empty until a later pass; synchronous evaluation cannot
+   * await it. Other results are kept for the later passes of an async
+   * evaluation, so that each call is made once.
+   */
+  private awaitResult(key: string, name: string, call: () => unknown): FhirPathCollection {
+    if (this.lookups?.has(key)) return this.toCollection(this.lookups.get(key));
+    if (this.lookups?.isPending(key)) return [];
+    const result = call();
+    if (!(result instanceof Promise)) {
+      this.lookups?.record(key, result);
+      return this.toCollection(result);
+    }
+    if (!this.lookups) throw asyncRequired(name);
+    this.lookups.request(key, () => result);
+    return [];
   }
 
-  private callBuiltinFunction(name: string, collection: FhirPathCollection, args: ASTNode[]): FhirPathCollection | Promise<FhirPathCollection> {
+  private callBuiltinFunction(name: string, collection: FhirPathCollection, args: ASTNode[]): FhirPathCollection {
+    if (!NODE_FUNCTIONS.has(name)) {
+      collection = unwrapAll(collection);
+    }
+
     switch (name) {
       // Existence
       case "empty":
@@ -275,7 +630,7 @@ export class FhirPathEvaluator {
           this.state.index = i;
           const result = this.evalNode(args[0]);
           this.state.current = saved;
-          return result.length > 0 && result[0] === true;
+          return fn.criterionHolds(unwrapAll(result), "exists", this.options.mode);
         })];
       case "all":
         return [collection.every((_, i) => {
@@ -284,7 +639,7 @@ export class FhirPathEvaluator {
           this.state.index = i;
           const result = this.evalNode(args[0]);
           this.state.current = saved;
-          return result.length > 0 && result[0] === true;
+          return fn.criterionHolds(unwrapAll(result), "all", this.options.mode);
         })];
       case "allTrue":
         return [fn.allTrue(collection)];
@@ -311,7 +666,7 @@ export class FhirPathEvaluator {
           this.state.index = i;
           const result = this.evalNode(args[0]);
           this.state.current = saved;
-          return result.length > 0 && result[0] === true;
+          return fn.criterionHolds(unwrapAll(result), "where", this.options.mode);
         });
       case "select":
         return collection.flatMap((item, i) => {
@@ -337,7 +692,7 @@ export class FhirPathEvaluator {
       case "single":
         return fn.single(collection);
       case "ofType":
-        return this.evalOfType(collection, args[0] as unknown as TypeSpecifierNode);
+        return this.evalOfType(collection, args[0]);
       
       // as(Type) function - type conversion (returns empty if not convertible)
       case "as":
@@ -425,18 +780,18 @@ export class FhirPathEvaluator {
 
       // Math
       case "abs":
-        return this.mapSingle(collection, v => [fn.abs(Number(v))]);
+        return this.mapSingle(collection, v => [fn.abs(this.toNumeric(v))]);
       case "ceiling":
-        return this.mapSingle(collection, v => [fn.ceiling(Number(v))]);
+        return this.mapSingle(collection, v => [fn.ceiling(this.toNumeric(v))]);
       case "floor":
-        return this.mapSingle(collection, v => [fn.floor(Number(v))]);
+        return this.mapSingle(collection, v => [fn.floor(this.toNumeric(v))]);
       case "round":
         return this.mapSingle(collection, v => {
           const precision = args.length > 0 ? this.evalToNumber(args[0]) : undefined;
-          return [fn.round(Number(v), precision)];
+          return [fn.round(this.toNumeric(v), precision)];
         });
       case "truncate":
-        return this.mapSingle(collection, v => [fn.truncate(Number(v))]);
+        return this.mapSingle(collection, v => [fn.truncate(this.toNumeric(v))]);
       case "exp":
         return this.mapSingle(collection, v => [fn.exp(Number(v))]);
       case "ln":
@@ -448,6 +803,27 @@ export class FhirPathEvaluator {
       case "sqrt":
         return this.mapSingle(collection, v => [fn.sqrt(Number(v))]);
 
+      // Precision and boundaries
+      case "lowBoundary":
+      case "highBoundary":
+        return this.mapSingle(collection, v => {
+          const precision = args.length > 0 ? this.evalToNumber(args[0]) : undefined;
+          const r = name === "lowBoundary" ? fn.lowBoundary(v, precision) : fn.highBoundary(v, precision);
+          return r !== undefined ? [r] : [];
+        });
+      case "precision":
+        return this.mapSingle(collection, v => {
+          const r = fn.precision(v);
+          return r !== undefined ? [r] : [];
+        });
+      case "comparable":
+        return this.mapSingle(collection, v => {
+          const other = this.evalValues(args[0]);
+          if (other.length !== 1) return [];
+          const r = fn.comparable(v, other[0]);
+          return r !== undefined ? [r] : [];
+        });
+
       // Conversion
       case "toInteger":
         return this.mapSingle(collection, v => {
@@ -495,8 +871,8 @@ export class FhirPathEvaluator {
       case "not":
         return this.mapSingle(collection, v => [fn.not(v as boolean)]);
       case "iif":
-        const cond = this.evalNode(args[0]);
-        if (cond.length > 0 && cond[0] === true) {
+        const cond = this.evalValues(args[0]);
+        if (fn.iifCondition(cond, this.options.mode)) {
           return this.evalNode(args[1]);
         } else if (args.length > 2) {
           return this.evalNode(args[2]);
@@ -515,21 +891,36 @@ export class FhirPathEvaluator {
       case "trace":
         if (this.options.traceFn) {
           const label = args.length > 0 ? this.evalToString(args[0]) : "";
-          this.options.traceFn(collection, label);
+          if (this.traces) {
+            this.traces.push([unwrapAll(collection), label]);
+          } else {
+            this.options.traceFn(unwrapAll(collection), label);
+          }
         }
         return collection;
 
       // Reflection (STU)
       case "type":
         // Returns TypeInfo for each element in the collection
-        return collection.map(v => getTypeInfo(v));
+        return collection.map(v => this.getItemTypeInfo(v));
 
       // Variable definition
-      case "defineVariable":
+      case "defineVariable": {
         const varName = this.evalToString(args[0]);
-        const varValue = args.length > 1 ? this.evalNode(args[1]) : collection;
+        let varValue = collection;
+        if (args.length > 1) {
+          // The value is evaluated with the input as focus
+          const saved = this.state.current;
+          this.state.current = collection;
+          try {
+            varValue = this.evalNode(args[1]);
+          } finally {
+            this.state.current = saved;
+          }
+        }
         this.state.variables.set(varName, varValue);
         return collection;
+      }
 
       // FHIR-specific functions
       case "extension":
@@ -539,7 +930,7 @@ export class FhirPathEvaluator {
         return [this.evalExtension(collection, args).length > 0];
 
       case "getValue":
-        return this.evalGetValue(collection);
+        return fn.getValue(collection);
 
       case "resolve":
         return this.evalResolve(collection);
@@ -660,8 +1051,8 @@ export class FhirPathEvaluator {
 
       case "convertsToDecimal":
         return [collection.every(v => {
-          if (typeof v === "number") return true;
-          if (typeof v === "string") return !isNaN(parseFloat(v));
+          if (isNumeric(v)) return true;
+          if (typeof v === "string") return parseDecimal(v) !== undefined;
           if (typeof v === "boolean") return true;
           return false;
         })];
@@ -686,28 +1077,14 @@ export class FhirPathEvaluator {
         return [collection.every(v => fn.convertsToQuantity(v))];
 
       default:
-        throw new EvaluatorError(`Unknown function: ${name}`);
+        throw new EvaluatorError(`Unknown function: ${name}`, "unknown-function");
     }
   }
 
-  private evalOfType(collection: FhirPathCollection, typeSpec: TypeSpecifierNode): FhirPathCollection {
-    const typeName = typeSpec.typeName;
-    return collection.filter(item => {
-      if (item == null || typeof item !== "object") return false;
-      const obj = item as Record<string, unknown>;
-      // Check resourceType for FHIR resources
-      if ("resourceType" in obj) {
-        return obj.resourceType === typeName;
-      }
-      // Check type derivation if available
-      if (this.options.isDerivedResourceFn) {
-        const rt = obj.resourceType as string | undefined;
-        if (rt) {
-          return this.options.isDerivedResourceFn(rt, typeName);
-        }
-      }
-      return false;
-    });
+  private evalOfType(collection: FhirPathCollection, arg: ASTNode): FhirPathCollection {
+    const typeSpec = typeSpecifierOf(arg);
+    if (!typeSpec) return [];
+    return collection.filter(item => this.isType(item, typeSpec.typeName, typeSpec.namespace));
   }
 
   /**
@@ -715,11 +1092,10 @@ export class FhirPathEvaluator {
    * Returns the value if it matches the type, otherwise empty
    */
   private evalAsFunction(collection: FhirPathCollection, arg: ASTNode): FhirPathCollection {
-    // Get the type name from the argument
-    const typeName = this.getTypeNameFromArg(arg);
-    if (!typeName) return [];
+    const typeSpec = typeSpecifierOf(arg);
+    if (!typeSpec) return [];
     
-    return collection.filter(item => this.isType(item, typeName));
+    return collection.filter(item => this.isType(item, typeSpec.typeName, typeSpec.namespace));
   }
 
   /**
@@ -727,30 +1103,11 @@ export class FhirPathEvaluator {
    * Returns true/false for each item
    */
   private evalIsFunction(collection: FhirPathCollection, arg: ASTNode): FhirPathCollection {
-    const typeName = this.getTypeNameFromArg(arg);
-    if (!typeName) return [false];
+    const typeSpec = typeSpecifierOf(arg);
+    if (!typeSpec) return [false];
     
     if (collection.length === 0) return [];
-    return [collection.every(item => this.isType(item, typeName))];
-  }
-
-  /**
-   * Extract type name from function argument
-   */
-  private getTypeNameFromArg(arg: ASTNode): string | undefined {
-    // The argument could be an Identifier node with the type name
-    if (arg.type === "Identifier") {
-      return (arg as IdentifierNode).name;
-    }
-    // Or it could be a TypeSpecifier node
-    if (arg.type === "TypeSpecifier") {
-      return (arg as TypeSpecifierNode).typeName;
-    }
-    // Handle string literal (like 'uri')
-    if (arg.type === "Literal" && (arg as LiteralNode).literalType === "string") {
-      return (arg as LiteralNode).value as string;
-    }
-    return undefined;
+    return [collection.every(item => this.isType(item, typeSpec.typeName, typeSpec.namespace))];
   }
 
   // ============================================================
@@ -761,12 +1118,13 @@ export class FhirPathEvaluator {
    * Evaluate memberOf(valueSet) function
    * Checks if a code/coding is a member of a ValueSet
    * 
-   * Returns a Promise if terminologyService is configured (async mode required)
+   * Requires async evaluation if a terminology service is configured:
+   * the checks for all items are made together, once per distinct code.
    * Returns empty array if no terminology service is available
    */
-  private evalMemberOf(collection: FhirPathCollection, valueSetArg: ASTNode): FhirPathCollection | Promise<FhirPathCollection> {
+  private evalMemberOf(collection: FhirPathCollection, valueSetArg: ASTNode): FhirPathCollection {
     // Get the ValueSet URL from the argument
-    const valueSetResult = this.evalNode(valueSetArg);
+    const valueSetResult = this.evalValues(valueSetArg);
     if (valueSetResult.length === 0) return [];
     const valueSetUrl = String(valueSetResult[0]);
 
@@ -781,40 +1139,42 @@ export class FhirPathEvaluator {
     }
 
     // Check if async mode is enabled
-    if (!this.options.async) {
+    const lookups = this.lookups;
+    if (!lookups) {
       // Async not enabled - throw error like fhirpath.js does
       throw new EvaluatorError(
-        "memberOf() requires async evaluation. Set options.async = true or options.async = 'always'"
+        "memberOf() requires async evaluation. Set options.async = true or options.async = 'always'",
+        "async-required",
       );
     }
 
-    // Async evaluation with terminology service
     const service = terminologyService ?? terminologiesProxy?.getService();
-    if (!service) return [];
-
-    // Check each item in the collection
-    const checkPromises = collection.map(async (item) => {
-      if (item == null) return false;
-      
-      // Convert item to CodedValue format
-      const coded = this.toCodedValue(item);
-      if (!coded) return false;
+    if (!service || collection.length === 0) return [];
 
-      try {
-        return await service.memberOf(coded, valueSetUrl);
-      } catch {
-        return false;
+    // memberOf returns true if ALL items are members; empty until all checks are known
+    let known = true;
+    let allMembers = true;
+    for (const item of collection) {
+      const coded = item != null ? this.toCodedValue(item) : undefined;
+      if (!coded) {
+        allMembers = false;
+        continue;
       }
-    });
-
-    // Return Promise that resolves when all checks are done
-    return Promise.all(checkPromises).then((results) => {
-      // memberOf returns true if ALL items are members
-      // or if collection is empty
-      if (collection.length === 0) return [];
-      const allMembers = results.every(r => r === true);
-      return [allMembers];
-    });
+      const key = `memberOf:${valueSetUrl}|${coded.system ?? ""}|${coded.code}|${coded.version ?? ""}`;
+      if (lookups.has(key)) {
+        if (lookups.get(key) !== true) allMembers = false;
+        continue;
+      }
+      known = false;
+      lookups.request(key, async () => {
+        try {
+          return await service.memberOf(coded, valueSetUrl);
+        } catch {
+          return false;
+        }
+      });
+    }
+    return known ? [allMembers] : [];
   }
 
   /**
@@ -891,9 +1251,11 @@ export class FhirPathEvaluator {
 
   /**
    * Evaluate resolve() function
-   * Resolves FHIR references to actual resources
+   * Resolves FHIR references to actual resources; a resolver that returns
+   * Promises requires async evaluation, which resolves each distinct
+   * reference once
    */
-  private evalResolve(collection: FhirPathCollection): FhirPathCollection | Promise<FhirPathCollection> {
+  private evalResolve(collection: FhirPathCollection): FhirPathCollection {
     const resolver = this.options.referenceResolver;
     
     // If no resolver configured, try to resolve within Bundle context
@@ -902,27 +1264,15 @@ export class FhirPathEvaluator {
     }
     
     // Use configured resolver
-    const results: (unknown | Promise<unknown>)[] = [];
-    let hasPromise = false;
-    
+    const results: FhirPathCollection = [];
     for (const item of collection) {
       const ref = this.extractReference(item);
       if (!ref) continue;
-      
-      const resolved = resolver.resolve(ref, this.state.environment);
-      if (resolved instanceof Promise) {
-        hasPromise = true;
-      }
-      results.push(resolved);
+      results.push(...this.awaitResult(`resolve:${ref}`, "resolve", () =>
+        resolver.resolve(ref, this.state.environment)
+      ));
     }
-    
-    if (hasPromise) {
-      return Promise.all(results).then(resolved => 
-        resolved.filter(r => r !== undefined && r !== null)
-      );
-    }
-    
-    return results.filter(r => r !== undefined && r !== null) as FhirPathCollection;
+    return results;
   }
 
   /**
@@ -1108,39 +1458,22 @@ export class FhirPathEvaluator {
 
   /**
    * Evaluate extension(url) function
-   * Filters extensions by URL from the current collection
+   * Filters extensions by URL from the current collection,
+   * including extensions of primitive elements
    */
   private evalExtension(collection: FhirPathCollection, args: ASTNode[]): FhirPathCollection {
     // Get the URL to filter by
-    const urlArg = args.length > 0 ? this.evalNode(args[0]) : [];
+    const urlArg = args.length > 0 ? this.evalValues(args[0]) : [];
     const url = urlArg.length > 0 ? String(urlArg[0]) : undefined;
 
-    const results: FhirPathCollection = [];
+    // Navigate like .extension so primitive extensions ("_element") are included
+    const extensions = this.getChildren(collection, "extension");
+    if (!url) return extensions;
 
-    for (const item of collection) {
-      if (item == null || typeof item !== "object") continue;
-      
-      const obj = item as Record<string, unknown>;
-      
-      // Get extensions from the item
-      const extensions = obj.extension as Array<Record<string, unknown>> | undefined;
-      
-      if (!extensions || !Array.isArray(extensions)) continue;
-
-      if (url) {
-        // Filter by URL
-        for (const ext of extensions) {
-          if (ext && ext.url === url) {
-            results.push(ext);
-          }
-        }
-      } else {
-        // Return all extensions
-        results.push(...extensions);
-      }
-    }
-
-    return results;
+    return extensions.filter(ext => {
+      const value = unwrap(ext);
+      return value != null && typeof value === "object" && (value as Record<string, unknown>).url === url;
+    });
   }
 
   /**
@@ -1150,35 +1483,22 @@ export class FhirPathEvaluator {
   private evalDescendants(collection: FhirPathCollection): FhirPathCollection {
     const results: FhirPathCollection = [];
     const seen = new Set<unknown>();
+    const guard = this.guard;
 
     const collectDescendants = (item: unknown) => {
-      if (item == null || typeof item !== "object") return;
-      if (seen.has(item)) return;
-      seen.add(item);
-
-      if (Array.isArray(item)) {
-        for (const elem of item) {
-          results.push(elem);
-          collectDescendants(elem);
-        }
-      } else {
-        const obj = item as Record<string, unknown>;
-        for (const key of Object.keys(obj)) {
-          if (key.startsWith("_")) continue; // Skip metadata keys
-          const value = obj[key];
-          if (value != null) {
-            if (Array.isArray(value)) {
-              for (const elem of value) {
-                results.push(elem);
-                collectDescendants(elem);
-              }
-            } else {
-              results.push(value);
-              collectDescendants(value);
-            }
-          }
-        }
+      const data = this.elementData(item);
+      if (data === undefined || seen.has(data)) return;
+      seen.add(data);
+      if (guard) {
+        guard.size(results.length);
+        guard.enter();
+      }
+
+      for (const child of this.childNodes(data)) {
+        results.push(child);
+        collectDescendants(child);
       }
+      guard?.leave();
     };
 
     for (const item of collection) {
@@ -1196,26 +1516,38 @@ export class FhirPathEvaluator {
     const results: FhirPathCollection = [];
 
     for (const item of collection) {
-      if (item == null || typeof item !== "object") continue;
+      const data = this.elementData(item);
+      if (data !== undefined) results.push(...this.childNodes(data));
+    }
 
-      if (Array.isArray(item)) {
-        results.push(...item);
-      } else {
-        const obj = item as Record<string, unknown>;
-        for (const key of Object.keys(obj)) {
-          if (key.startsWith("_")) continue; // Skip metadata keys
-          const value = obj[key];
-          if (value != null) {
-            if (Array.isArray(value)) {
-              results.push(...value);
-            } else {
-              results.push(value);
-            }
-          }
-        }
+    return results;
+  }
+
+  /**
+   * The object or array holding the children of an element: for primitives,
+   * the id and extensions of their "_element" sibling
+   */
+  private elementData(item: unknown): object | undefined {
+    const data = unwrap(item);
+    if (data != null && typeof data === "object" && !isDecimal(data)) return data;
+    return item instanceof ResourceNode ? item.extData : undefined;
+  }
+
+  /**
+   * The children of an element's object, primitives merged with their "_element" sibling
+   */
+  private childNodes(data: object): FhirPathCollection {
+    if (Array.isArray(data)) return data;
+    const obj = data as Record<string, unknown>;
+    const results: FhirPathCollection = [];
+    for (const key of Object.keys(obj)) {
+      if (key.startsWith("_")) {
+        // Metadata keys, and the id and extensions of primitives without a value
+        if (!(key.slice(1) in obj)) this.pushNodes(results, obj, key.slice(1));
+        continue;
       }
+      this.pushNodes(results, obj, key);
     }
-
     return results;
   }
 
@@ -1243,6 +1575,7 @@ export class FhirPathEvaluator {
         if (seen.has(key)) continue;
         seen.add(key);
         results.push(item);
+        this.guard?.size(results.length);
 
         // Evaluate expression with item as context
         // Save and restore current collection
@@ -1265,61 +1598,20 @@ export class FhirPathEvaluator {
     return results;
   }
 
-  /**
-   * Evaluate getValue() function
-   * Returns the value of an element (handles value[x] pattern)
-   */
-  private evalGetValue(collection: FhirPathCollection): FhirPathCollection {
-    const results: FhirPathCollection = [];
-
-    // Value property prefixes in FHIR
-    const valueProps = [
-      "valueString", "valueBoolean", "valueInteger", "valueDecimal",
-      "valueDate", "valueDateTime", "valueTime", "valueInstant",
-      "valueUri", "valueUrl", "valueCode", "valueOid", "valueId",
-      "valueUuid", "valueMarkdown", "valueBase64Binary", "valueCanonical",
-      "valueQuantity", "valueCoding", "valueCodeableConcept", "valueReference",
-      "valueIdentifier", "valuePeriod", "valueRange", "valueRatio",
-      "valueAttachment", "valueAnnotation", "valueAddress", "valueContactPoint",
-      "valueHumanName", "valueTiming", "valueMoney", "valueAge", "valueCount",
-      "valueDistance", "valueDuration", "valueSampledData", "valueSignature",
-      "valueContactDetail", "valueContributor", "valueDataRequirement",
-      "valueExpression", "valueParameterDefinition", "valueRelatedArtifact",
-      "valueTriggerDefinition", "valueUsageContext", "valueDosage", "valueMeta",
-    ];
-
-    for (const item of collection) {
-      if (item == null || typeof item !== "object") continue;
-      
-      const obj = item as Record<string, unknown>;
-      
-      // Check each value property
-      for (const prop of valueProps) {
-        if (prop in obj && obj[prop] !== undefined) {
-          results.push(obj[prop]);
-          break; // Only one value[x] per element
-        }
-      }
-      
-      // Also check for simple "value" property
-      if ("value" in obj && obj.value !== undefined) {
-        results.push(obj.value);
-      }
-    }
-
-    return results;
-  }
-
   // ============================================================
   // Indexer evaluation
   // ============================================================
 
   private evalIndexer(node: IndexerNode): FhirPathCollection {
     const base = this.evalNode(node.object);
-    const index = this.evalNode(node.index);
+    const indexItems = this.evalNode(node.index);
+    const index = unwrapAll(indexItems);
 
     if (index.length !== 1 || typeof index[0] !== "number") {
-      throw new EvaluatorError("Indexer requires a single integer");
+      throw new EvaluatorError("Indexer requires a single integer", "integer-expected", {
+        node: node.index,
+        inputType: this.typeNames(indexItems),
+      });
     }
 
     const idx = index[0] as number;
@@ -1337,68 +1629,69 @@ export class FhirPathEvaluator {
   private evalBinaryOp(node: BinaryOpNode): FhirPathCollection {
     const op = node.operator;
 
+    if (fn.isCheckedMode(this.options.mode) && op !== "|") {
+      return this.evalCheckedBinaryOp(node);
+    }
+
     // Short-circuit evaluation for logical operators
     if (op === "and") {
-      const left = this.evalNode(node.left);
+      const left = this.evalValues(node.left);
       if (left.length === 0) return [];
       if (left[0] === false) return [false];
-      const right = this.evalNode(node.right);
+      const right = this.evalValues(node.right);
       if (right.length === 0) return [];
       return [right[0] === true];
     }
 
     if (op === "or") {
-      const left = this.evalNode(node.left);
+      const left = this.evalValues(node.left);
       if (left.length > 0 && left[0] === true) return [true];
-      const right = this.evalNode(node.right);
+      const right = this.evalValues(node.right);
       if (right.length === 0 && left.length === 0) return [];
       return [right[0] === true || left[0] === true];
     }
 
     if (op === "xor") {
-      const left = this.evalNode(node.left);
-      const right = this.evalNode(node.right);
+      const left = this.evalValues(node.left);
+      const right = this.evalValues(node.right);
       if (left.length === 0 || right.length === 0) return [];
       return [(left[0] === true) !== (right[0] === true)];
     }
 
     if (op === "implies") {
-      const left = this.evalNode(node.left);
+      const left = this.evalValues(node.left);
       if (left.length === 0) return [true];
       if (left[0] === false) return [true];
-      const right = this.evalNode(node.right);
+      const right = this.evalValues(node.right);
       if (right.length === 0) return [];
       return [right[0] === true];
     }
 
-    const left = this.evalNode(node.left);
-    const right = this.evalNode(node.right);
-
-    // Union
+    // Union keeps navigated nodes
     if (op === "|") {
-      return fn.union(left, right);
+      return fn.union(this.evalNode(node.left), this.evalNode(node.right));
     }
 
+    const left = this.evalOperand(node.left);
+    const right = this.evalOperand(node.right);
+
     // Membership
     if (op === "in") {
       if (left.length === 0) return [];
-      return [right.some(r => this.equals(left[0], r))];
+      return [right.some(r => this.equals(left[0], r) === true)];
     }
 
     if (op === "contains") {
       if (right.length === 0) return [];
-      return [left.some(l => this.equals(l, right[0]))];
+      return [left.some(l => this.equals(l, right[0]) === true)];
     }
 
-    // Equality
-    if (op === "=") {
+    // Equality (empty if it cannot be determined, e.g. dates of differing precision)
+    if (op === "=" || op === "!=") {
       if (left.length === 0 || right.length === 0) return [];
-      return [this.equals(left[0], right[0])];
-    }
-
-    if (op === "!=") {
-      if (left.length === 0 || right.length === 0) return [];
-      return [!this.equals(left[0], right[0])];
+      const eq = this.equals(left[0], right[0]);
+      if (eq === undefined) return [];
+      return [op === "=" ? eq : !eq];
     }
 
     if (op === "~") {
@@ -1430,11 +1723,23 @@ export class FhirPathEvaluator {
       const l = left[0];
       const r = right[0];
 
+      // Quantity arithmetic, including date/time ± duration (today() - 18 years)
+      const quantityResult = quantityArithmetic(op, l, r);
+      if (quantityResult !== null) {
+        return quantityResult === undefined ? [] : [quantityResult];
+      }
+
       // String concatenation with +
       if (op === "+" && (typeof l === "string" || typeof r === "string")) {
         return [String(l) + String(r)];
       }
 
+      // Integer and Decimal arithmetic (exact for Decimals: 0.1 + 0.2 = 0.3)
+      const numericResult = numericArithmetic(op, l, r);
+      if (numericResult !== null) {
+        return numericResult === undefined ? [] : [numericResult];
+      }
+
       const ln = Number(l);
       const rn = Number(r);
 
@@ -1455,7 +1760,86 @@ export class FhirPathEvaluator {
       return [l + r];
     }
 
-    throw new EvaluatorError(`Unknown binary operator: ${op}`);
+    throw new EvaluatorError(`Unknown binary operator: ${op}`, "unknown-operator");
+  }
+
+  /**
+   * Binary operators in the strict and fhirpathjs-compatible modes: operands
+   * are singletons of types the operator is defined for, = and ~ compare
+   * whole collections. Both operands of and/or/xor/implies are evaluated.
+   */
+  private evalCheckedBinaryOp(node: BinaryOpNode): FhirPathCollection {
+    const op = node.operator;
+    const mode = this.options.mode;
+
+    if (op === "and" || op === "or" || op === "xor" || op === "implies") {
+      const result = fn.logicalOperator(
+        op,
+        fn.booleanOperand(this.evalValues(node.left), op),
+        fn.booleanOperand(this.evalValues(node.right), op),
+      );
+      return result === undefined ? [] : [result];
+    }
+
+    const left = this.evalOperand(node.left);
+    const right = this.evalOperand(node.right);
+
+    switch (op) {
+      case "=":
+      case "!=": {
+        const eq = fn.collectionEquals(left, right, (a, b) => this.equals(a, b));
+        return eq === undefined ? [] : [op === "=" ? eq : !eq];
+      }
+      case "~":
+      case "!~": {
+        const eq = fn.collectionEquivalent(left, right, (a, b) => this.equivalent(a, b), mode);
+        return [op === "~" ? eq : !eq];
+      }
+      case "in": {
+        const item = fn.singletonOperand(left, op, mode);
+        return item === undefined ? [] : [right.some(r => this.equals(item, r) === true)];
+      }
+      case "contains": {
+        const item = fn.singletonOperand(right, op, mode);
+        return item === undefined ? [] : [left.some(l => this.equals(l, item) === true)];
+      }
+      case "&": {
+        const l = fn.singletonOperand(left, op, mode) ?? "";
+        const r = fn.singletonOperand(right, op, mode) ?? "";
+        fn.checkOperandTypes(op, l, r, mode);
+        return [`${l}${r}`];
+      }
+    }
+
+    const l = fn.singletonOperand(left, op, mode);
+    const r = fn.singletonOperand(right, op, mode);
+    if (l === undefined || r === undefined) return [];
+    fn.checkOperandTypes(op, l, r, mode);
+
+    if (op === "<" || op === ">" || op === "<=" || op === ">=") {
+      // Booleans are only ordered in fhirpathjs-compatible mode
+      const cmp = typeof l === "boolean" ? Number(l) - Number(r) : this.compare(l, r);
+      if (cmp === undefined) return [];
+      switch (op) {
+        case "<": return [cmp < 0];
+        case ">": return [cmp > 0];
+        case "<=": return [cmp <= 0];
+        case ">=": return [cmp >= 0];
+      }
+    }
+
+    const quantityResult = quantityArithmetic(op, l, r);
+    if (quantityResult !== null) {
+      return quantityResult === undefined ? [] : [quantityResult];
+    }
+    if (op === "+" && typeof l === "string" && typeof r === "string") {
+      return [l + r];
+    }
+    const numericResult = numericArithmetic(op, l, r);
+    if (numericResult !== null) {
+      return numericResult === undefined ? [] : [numericResult];
+    }
+    throw new EvaluatorError(`Unknown binary operator: ${op}`, "unknown-operator");
   }
 
   // ============================================================
@@ -1463,19 +1847,24 @@ export class FhirPathEvaluator {
   // ============================================================
 
   private evalUnaryOp(node: UnaryOpNode): FhirPathCollection {
-    const operand = this.evalNode(node.operand);
+    const operand = this.evalValues(node.operand);
     if (operand.length === 0) return [];
 
-    const value = operand[0];
+    const value = fn.singletonOperand(operand, node.operator, this.options.mode);
+    if (isDecimal(value)) {
+      return [node.operator === "-" ? negateDecimal(value) : value];
+    }
     if (typeof value !== "number") {
-      throw new EvaluatorError("Unary operator requires a number");
+      throw new EvaluatorError("Unary operator requires a number", "number-expected", {
+        inputType: this.typeNames(operand),
+      });
     }
 
     switch (node.operator) {
       case "+": return [+value];
       case "-": return [-value];
       default:
-        throw new EvaluatorError(`Unknown unary operator: ${node.operator}`);
+        throw new EvaluatorError(`Unknown unary operator: ${node.operator}`, "unknown-operator");
     }
   }
 
@@ -1488,37 +1877,56 @@ export class FhirPathEvaluator {
     if (value.length === 0) return [];
 
     const item = value[0];
-    const typeName = node.targetType.typeName;
+    const { typeName, namespace } = node.targetType;
 
     if (node.operator === "is") {
-      return [this.isType(item, typeName)];
+      return [this.isType(item, typeName, namespace)];
     }
 
     if (node.operator === "as") {
-      return this.isType(item, typeName) ? value : [];
+      return value.filter(v => this.isType(v, typeName, namespace));
     }
 
-    throw new EvaluatorError(`Unknown type operator: ${node.operator}`);
+    throw new EvaluatorError(`Unknown type operator: ${node.operator}`, "unknown-operator");
   }
 
-  private isType(value: unknown, typeName: string): boolean {
+  /**
+   * Check whether a collection item is of a type.
+   * Navigated nodes are checked against their FHIR type from the model;
+   * unqualified System type names also match the FHIR primitives that map to them.
+   */
+  private isType(item: unknown, typeName: string, namespace?: string): boolean {
+    if (item instanceof ResourceNode && item.type) {
+      if (namespace === "System") return false;
+      if (isFhirTypeOf(this.options.model, item.type, typeName)) return true;
+      return namespace === undefined && toSystemType(item.type) === typeName;
+    }
+
+    const value = unwrap(item);
     if (value == null) return false;
 
     // Primitive types
-    switch (typeName) {
-      case "Boolean": return typeof value === "boolean";
-      case "String": return typeof value === "string";
-      case "Integer": return typeof value === "number" && Number.isInteger(value);
-      case "Decimal": return typeof value === "number";
+    if (namespace !== "FHIR") {
+      switch (typeName) {
+        case "Boolean": return typeof value === "boolean";
+        case "String": return typeof value === "string";
+        case "Integer": return typeof value === "number" && Number.isInteger(value);
+        case "Decimal": return typeof value === "number" || isDecimal(value);
+        case "Date":
+        case "DateTime":
+        case "Time":
+          return isTemporal(value) && value.kind === typeName;
+      }
     }
 
     // FHIR resource types
-    if (typeof value === "object" && value !== null) {
+    if (namespace !== "System" && typeof value === "object" && value !== null) {
       const obj = value as Record<string, unknown>;
       if ("resourceType" in obj) {
-        if (obj.resourceType === typeName) return true;
+        const resourceType = obj.resourceType as string;
+        if (isFhirTypeOf(this.options.model, resourceType, typeName)) return true;
         if (this.options.isDerivedResourceFn) {
-          return this.options.isDerivedResourceFn(obj.resourceType as string, typeName);
+          return this.options.isDerivedResourceFn(resourceType, typeName);
         }
       }
     }
@@ -1526,6 +1934,34 @@ export class FhirPathEvaluator {
     return false;
   }
 
+  /**
+   * TypeInfo of a collection item, using the model for navigated nodes and resources
+   */
+  /**
+   * The distinct type names of a collection (e.g. "System.String | FHIR.HumanName")
+   */
+  private typeNames(collection: FhirPathCollection): string {
+    const names = new Set(collection.map(item => {
+      const info = this.getItemTypeInfo(item) as { namespace?: string; name?: string } | undefined;
+      return info?.name ? `${info.namespace}.${info.name}` : typeof unwrap(item);
+    }));
+    return [...names].join(" | ");
+  }
+
+  private getItemTypeInfo(item: unknown): unknown {
+    if (item instanceof ResourceNode && item.type) {
+      return getFhirTypeInfo(this.options.model, item.type);
+    }
+    const value = unwrap(item);
+    if (this.options.model && value != null && typeof value === "object") {
+      const resourceType = (value as Record<string, unknown>).resourceType;
+      if (typeof resourceType === "string") {
+        return getFhirTypeInfo(this.options.model, resourceType);
+      }
+    }
+    return getTypeInfo(value);
+  }
+
   // ============================================================
   // Special nodes
   // ============================================================
@@ -1561,26 +1997,95 @@ export class FhirPathEvaluator {
   // Helpers
   // ============================================================
 
-  private evalToNumber(node: ASTNode): number {
+  /**
+   * Evaluate a node with another focus and return the raw values of the result
+   */
+  private evalWithFocus(node: ASTNode, focus: FhirPathCollection): FhirPathCollection {
+    const saved = this.state.current;
+    this.state.current = focus;
+    try {
+      return this.evalValues(node);
+    } finally {
+      this.state.current = saved;
+    }
+  }
+
+  /**
+   * Evaluate a node and return the raw values of the result
+   */
+  private evalValues(node: ASTNode): FhirPathCollection {
+    return unwrapAll(this.evalNode(node));
+  }
+
+  /**
+   * Evaluate an operand of a binary operator.
+   * Navigated date, dateTime, instant and time elements become temporal values,
+   * decimal elements become Decimals.
+   */
+  private evalOperand(node: ASTNode): FhirPathCollection {
     const result = this.evalNode(node);
-    if (result.length !== 1 || typeof result[0] !== "number") {
-      throw new EvaluatorError("Expected a single number");
+    if (!result.some(item => item instanceof ResourceNode)) return result;
+    const values: FhirPathCollection = [];
+    for (const item of result) {
+      if (!(item instanceof ResourceNode)) {
+        values.push(item);
+      } else if (item.hasValue()) {
+        values.push(this.toSystemOperand(item) ?? item.data);
+      }
+    }
+    return values;
+  }
+
+  private toSystemOperand(node: ResourceNode): TemporalValue | FhirPathDecimal | undefined {
+    if (!node.type) return undefined;
+    const type = toSystemType(node.type);
+    if (type === "Decimal") {
+      return typeof node.data === "number" ? toDecimalValue(node.data) : undefined;
     }
-    return result[0] as number;
+    if (typeof node.data !== "string") return undefined;
+    switch (type) {
+      case "Date": return parseDate(node.data);
+      case "DateTime": return parseDateTime(node.data);
+      case "Time": return parseTime(node.data);
+    }
+    return undefined;
+  }
+
+  private evalToNumber(node: ASTNode): number {
+    const result = this.evalValues(node);
+    if (result.length !== 1 || !isNumeric(result[0])) {
+      throw new EvaluatorError("Expected a single number", "number-expected", {
+        node,
+        inputType: this.typeNames(result),
+      });
+    }
+    return Number(result[0]);
   }
 
   private evalToString(node: ASTNode): string {
-    const result = this.evalNode(node);
+    const result = this.evalValues(node);
     if (result.length !== 1) {
-      throw new EvaluatorError("Expected a single value");
+      throw new EvaluatorError("Expected a single value", "singleton-expected", {
+        node,
+        inputType: this.typeNames(result),
+      });
     }
     return String(result[0]);
   }
 
+  /**
+   * A function input as a number, keeping Decimals exact
+   */
+  private toNumeric(value: unknown): number | FhirPathDecimal {
+    return isDecimal(value) ? value : Number(value);
+  }
+
   private mapSingle(collection: FhirPathCollection, fn: (v: unknown) => FhirPathCollection): FhirPathCollection {
     if (collection.length === 0) return [];
     if (collection.length !== 1) {
-      throw new EvaluatorError("Expected single value");
+      throw new EvaluatorError("Expected single value", "singleton-expected", {
+        inputType: this.typeNames(collection),
+      });
     }
     return fn(collection[0]);
   }
@@ -1592,12 +2097,23 @@ export class FhirPathEvaluator {
   }
 
   /**
-   * Deep structural equality without JSON.stringify - O(n) but much faster
+   * Deep structural equality without JSON.stringify - O(n) but much faster.
+   * Returns undefined if equality of temporal values cannot be determined.
    */
-  private equals(a: unknown, b: unknown): boolean {
+  private equals(a: unknown, b: unknown): boolean | undefined {
     // Fast path: strict equality
     if (a === b) return true;
     if (a == null || b == null) return false;
+    if (isTemporal(a) || isTemporal(b)) {
+      const pair = this.temporalPair(a, b);
+      return pair ? temporalEquals(pair[0], pair[1]) : false;
+    }
+    if (isQuantity(a) && isQuantity(b)) {
+      return quantityEquals(a, b);
+    }
+    if (isDecimal(a) || isDecimal(b)) {
+      return isNumeric(a) && isNumeric(b) && compareDecimals(a, b) === 0;
+    }
     if (typeof a !== typeof b) return false;
     
     // Primitives already checked above
@@ -1608,7 +2124,7 @@ export class FhirPathEvaluator {
       if (!Array.isArray(b)) return false;
       if (a.length !== b.length) return false;
       for (let i = 0; i < a.length; i++) {
-        if (!this.equals(a[i], b[i])) return false;
+        if (this.equals(a[i], b[i]) !== true) return false;
       }
       return true;
     }
@@ -1625,7 +2141,7 @@ export class FhirPathEvaluator {
     
     for (const key of aKeys) {
       if (!(key in bObj)) return false;
-      if (!this.equals(aObj[key], bObj[key])) return false;
+      if (this.equals(aObj[key], bObj[key]) !== true) return false;
     }
     
     return true;
@@ -1639,18 +2155,49 @@ export class FhirPathEvaluator {
     if (typeof a === "string" && typeof b === "string") {
       return a.toLowerCase() === b.toLowerCase();
     }
-    return this.equals(a, b);
+    if (isTemporal(a) || isTemporal(b)) {
+      const pair = this.temporalPair(a, b);
+      return pair ? temporalEquivalent(pair[0], pair[1]) : false;
+    }
+    if (isQuantity(a) && isQuantity(b)) {
+      return quantityEquivalent(a, b);
+    }
+    if ((isDecimal(a) || isDecimal(b)) && isNumeric(a) && isNumeric(b)) {
+      return decimalEquivalent(a, b);
+    }
+    return this.equals(a, b) === true;
   }
 
   private compare(a: unknown, b: unknown): number | undefined {
     if (typeof a === "number" && typeof b === "number") {
       return a - b;
     }
+    if ((isDecimal(a) || isDecimal(b)) && isNumeric(a) && isNumeric(b)) {
+      return compareDecimals(a, b);
+    }
+    if (isTemporal(a) || isTemporal(b)) {
+      const pair = this.temporalPair(a, b);
+      return pair ? compareTemporal(pair[0], pair[1]) : undefined;
+    }
+    if (isQuantity(a) && isQuantity(b)) {
+      return compareQuantities(a, b);
+    }
     if (typeof a === "string" && typeof b === "string") {
       return a.localeCompare(b);
     }
     return undefined;
   }
+
+  /**
+   * Pair a temporal value with another operand, reading strings
+   * (e.g. dates in FHIR data without a model) as the same kind of value
+   */
+  private temporalPair(a: unknown, b: unknown): [TemporalValue, TemporalValue] | undefined {
+    const like = (isTemporal(a) ? a : b) as TemporalValue;
+    const left = coerceTemporal(a, like);
+    const right = coerceTemporal(b, like);
+    return left && right ? [left, right] : undefined;
+  }
 }
 
 /**
@@ -1665,3 +2212,32 @@ export function evaluateFhirPath(
   const evaluator = new FhirPathEvaluator(ast, options);
   return evaluator.evaluate(resource, context);
 }
+
+/**
+ * Evaluate several FHIRPath ASTs against the same resource, evaluating the
+ * navigation paths they have in common (e.g. Observation.code.coding) once.
+ * With options.async the results are Promises.
+ */
+export function evaluateFhirPathBatch(
+  asts: ExpressionNode[],
+  resource: unknown,
+  context: EvaluationContext = {},
+  options: EvaluatorOptions = {},
+): FhirPathCollection[] {
+  const shared = new Map<string, FhirPathCollection>();
+  return asts.map(ast => new FhirPathEvaluator(ast, options, shared).evaluate(resource, context));
+}
+
+/**
+ * Evaluate a FHIRPath AST asynchronously, awaiting memberOf(), resolve(),
+ * async user functions and %terminologies calls wherever they occur
+ */
+export function evaluateFhirPathAsync(
+  ast: ExpressionNode,
+  resource: unknown,
+  context: EvaluationContext = {},
+  options: EvaluatorOptions = {},
+): Promise<FhirPathCollection> {
+  const evaluator = new FhirPathEvaluator(ast, options);
+  return evaluator.evaluateAsync(resource, context);
+}
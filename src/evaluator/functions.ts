@@ -6,6 +6,40 @@
  */
 
 import type { FhirPathCollection, EvaluatorState, FhirPathQuantity } from "./types.ts";
+import type { EvaluationMode } from "../types.ts";
+import { isQuantity } from "./types.ts";
+import { EvaluatorError } from "./errors.ts";
+import {
+  asTemporal,
+  dateTimeFromJSDate,
+  isTemporal,
+  parseDateTime,
+  parseTime,
+  temporalBoundary,
+  temporalPrecision,
+  timeFromJSDate,
+  toDateTimeValue,
+  toDateValue,
+  toTimeValue,
+} from "./temporal.ts";
+import type { FhirPathDate, FhirPathDateTime, FhirPathTime } from "./temporal.ts";
+import { convertQuantity, formatQuantity, quantitiesComparable, quantityEquals } from "./quantity.ts";
+import { unwrap } from "./node.ts";
+import {
+  absDecimal,
+  ceilingDecimal,
+  compareDecimals,
+  decimalBoundary,
+  floorDecimal,
+  isDecimal,
+  isNumeric,
+  numericArithmetic,
+  parseDecimal,
+  roundDecimal,
+  toDecimalValue,
+  truncateDecimal,
+} from "./decimal.ts";
+import type { FhirPathDecimal } from "./decimal.ts";
 
 // ============================================================
 // EXISTENCE FUNCTIONS
@@ -56,13 +90,7 @@ export function hasValue(collection: FhirPathCollection): boolean {
 
 /** Returns true if collection has all distinct elements */
 export function isDistinct(collection: FhirPathCollection): boolean {
-  const seen = new Set();
-  for (const item of collection) {
-    const key = JSON.stringify(item);
-    if (seen.has(key)) return false;
-    seen.add(key);
-  }
-  return true;
+  return distinct(collection).length === collection.length;
 }
 
 /** Returns true if collection is a subset of other */
@@ -80,11 +108,19 @@ export function supersetOf(collection: FhirPathCollection, other: FhirPathCollec
 // FILTERING FUNCTIONS
 // ============================================================
 
-/** Returns distinct elements */
+/** Returns distinct elements; quantities are distinct unless they are equal (1 'g' = 1000 'mg') */
 export function distinct(collection: FhirPathCollection): FhirPathCollection {
   const seen = new Set();
+  const quantities: FhirPathQuantity[] = [];
   const result: FhirPathCollection = [];
   for (const item of collection) {
+    const value = unwrap(item);
+    if (isQuantity(value)) {
+      if (quantities.some(quantity => quantityEquals(quantity, value) === true)) continue;
+      quantities.push(value);
+      result.push(item);
+      continue;
+    }
     const key = JSON.stringify(item);
     if (!seen.has(key)) {
       seen.add(key);
@@ -123,7 +159,7 @@ export function skip(collection: FhirPathCollection, n: number): FhirPathCollect
 export function single(collection: FhirPathCollection): FhirPathCollection {
   if (collection.length === 0) return [];
   if (collection.length === 1) return collection;
-  throw new Error("single() called on collection with multiple elements");
+  throw new EvaluatorError("single() called on collection with multiple elements", "singleton-expected");
 }
 
 // ============================================================
@@ -135,37 +171,40 @@ export function count(collection: FhirPathCollection): number {
   return collection.length;
 }
 
-/** Returns sum of numeric values */
-export function sum(collection: FhirPathCollection): number | undefined {
+/** Returns sum of numeric values (Integer if all values are Integers) */
+export function sum(collection: FhirPathCollection): number | FhirPathDecimal | undefined {
   if (collection.length === 0) return undefined;
-  let total = 0;
+  let total: number | FhirPathDecimal = 0;
   for (const item of collection) {
-    if (typeof item === "number") {
-      total += item;
-    } else {
-      return undefined;
-    }
+    if (!isNumeric(item)) return undefined;
+    total = numericArithmetic("+", total, item) as number | FhirPathDecimal;
   }
   return total;
 }
 
+/** Compares values, numbers exactly */
+function lessThan(a: unknown, b: unknown): boolean {
+  if (isNumeric(a) && isNumeric(b)) return compareDecimals(a, b) < 0;
+  return (a as number) < (b as number);
+}
+
 /** Returns minimum value */
 export function min(collection: FhirPathCollection): unknown {
   if (collection.length === 0) return undefined;
-  return collection.reduce((a, b) => (a as number) < (b as number) ? a : b);
+  return collection.reduce((a, b) => lessThan(a, b) ? a : b);
 }
 
 /** Returns maximum value */
 export function max(collection: FhirPathCollection): unknown {
   if (collection.length === 0) return undefined;
-  return collection.reduce((a, b) => (a as number) > (b as number) ? a : b);
+  return collection.reduce((a, b) => lessThan(b, a) ? a : b);
 }
 
-/** Returns average of numeric values */
-export function avg(collection: FhirPathCollection): number | undefined {
+/** Returns average of numeric values (a Decimal) */
+export function avg(collection: FhirPathCollection): FhirPathDecimal | undefined {
   const s = sum(collection);
   if (s === undefined) return undefined;
-  return s / collection.length;
+  return numericArithmetic("/", s, collection.length) as FhirPathDecimal;
 }
 
 // ============================================================
@@ -281,32 +320,31 @@ export function trim(str: string): string {
 // ============================================================
 
 /** Returns absolute value */
-export function abs(n: number): number {
-  return Math.abs(n);
+export function abs(n: number | FhirPathDecimal): number | FhirPathDecimal {
+  return isDecimal(n) ? absDecimal(n) : Math.abs(n);
 }
 
 /** Returns ceiling */
-export function ceiling(n: number): number {
-  return Math.ceil(n);
+export function ceiling(n: number | FhirPathDecimal): number {
+  return isDecimal(n) ? ceilingDecimal(n) : Math.ceil(n);
 }
 
 /** Returns floor */
-export function floor(n: number): number {
-  return Math.floor(n);
+export function floor(n: number | FhirPathDecimal): number {
+  return isDecimal(n) ? floorDecimal(n) : Math.floor(n);
 }
 
-/** Returns rounded value */
-export function round(n: number, precision?: number): number {
-  if (precision === undefined) {
-    return Math.round(n);
+/** Returns rounded value (.5 rounds up); Decimals are rounded exactly */
+export function round(n: number | FhirPathDecimal, precision?: number): number | FhirPathDecimal {
+  if (typeof n === "number" && Number.isInteger(n) && (precision ?? 0) >= 0) {
+    return n;
   }
-  const factor = Math.pow(10, precision);
-  return Math.round(n * factor) / factor;
+  return roundDecimal(toDecimalValue(n), precision ?? 0);
 }
 
 /** Returns truncated value */
-export function truncate(n: number): number {
-  return Math.trunc(n);
+export function truncate(n: number | FhirPathDecimal): number {
+  return isDecimal(n) ? truncateDecimal(n) : Math.trunc(n);
 }
 
 /** Returns exponent */
@@ -334,6 +372,54 @@ export function sqrt(n: number): number {
   return Math.sqrt(n);
 }
 
+// ============================================================
+// PRECISION AND BOUNDARY FUNCTIONS
+// ============================================================
+
+/**
+ * Returns the least possible value of a Decimal, Date, DateTime, Time or
+ * Quantity given its precision, to the given precision
+ */
+export function lowBoundary(value: unknown, precision?: number): unknown {
+  return boundary(value, "low", precision);
+}
+
+/**
+ * Returns the greatest possible value of a Decimal, Date, DateTime, Time or
+ * Quantity given its precision, to the given precision
+ */
+export function highBoundary(value: unknown, precision?: number): unknown {
+  return boundary(value, "high", precision);
+}
+
+function boundary(value: unknown, side: "low" | "high", precision?: number): unknown {
+  if (isNumeric(value)) return decimalBoundary(toDecimalValue(value), side, precision);
+  if (isQuantity(value)) {
+    const result = decimalBoundary(toDecimalValue(value.value), side, precision);
+    return result !== undefined ? { ...value, value: result.toNumber() } : undefined;
+  }
+  const temporal = asTemporal(value);
+  return temporal ? temporalBoundary(temporal, side, precision) : undefined;
+}
+
+/**
+ * Returns the number of digits of precision: decimal places of a Decimal,
+ * digits of a Date, DateTime or Time (@2014-01 has 6)
+ */
+export function precision(value: unknown): number | undefined {
+  if (isNumeric(value)) return toDecimalValue(value).scale;
+  const temporal = asTemporal(value);
+  return temporal ? temporalPrecision(temporal) : undefined;
+}
+
+/**
+ * Returns true if two quantities have comparable (commensurable) units
+ */
+export function comparable(value: unknown, other: unknown): boolean | undefined {
+  if (!isQuantity(value) || !isQuantity(other)) return undefined;
+  return quantitiesComparable(value, other);
+}
+
 // ============================================================
 // TYPE CONVERSION FUNCTIONS
 // ============================================================
@@ -341,6 +427,7 @@ export function sqrt(n: number): number {
 /** Converts to integer */
 export function toInteger(value: unknown): number | undefined {
   if (typeof value === "number") return Math.trunc(value);
+  if (isDecimal(value)) return truncateDecimal(value);
   if (typeof value === "string") {
     const n = parseInt(value, 10);
     return isNaN(n) ? undefined : n;
@@ -349,14 +436,11 @@ export function toInteger(value: unknown): number | undefined {
   return undefined;
 }
 
-/** Converts to decimal */
-export function toDecimal(value: unknown): number | undefined {
-  if (typeof value === "number") return value;
-  if (typeof value === "string") {
-    const n = parseFloat(value);
-    return isNaN(n) ? undefined : n;
-  }
-  if (typeof value === "boolean") return value ? 1.0 : 0.0;
+/** Converts to decimal, keeping the digits of a string ('1.50' is 1.50) */
+export function toDecimal(value: unknown): FhirPathDecimal | undefined {
+  if (isNumeric(value)) return toDecimalValue(value);
+  if (typeof value === "string") return parseDecimal(value);
+  if (typeof value === "boolean") return parseDecimal(value ? "1.0" : "0.0");
   return undefined;
 }
 
@@ -366,6 +450,8 @@ export function toString(value: unknown): string | undefined {
   if (typeof value === "string") return value;
   if (typeof value === "number") return String(value);
   if (typeof value === "boolean") return String(value);
+  if (isTemporal(value) || isDecimal(value)) return value.toString();
+  if (isQuantity(value)) return formatQuantity(value);
   return undefined;
 }
 
@@ -385,112 +471,73 @@ export function toBoolean(value: unknown): boolean | undefined {
   return undefined;
 }
 
-/** 
- * Converts to FHIR Date (YYYY, YYYY-MM, or YYYY-MM-DD)
- * Per FHIRPath spec: Input can be Date, DateTime or String
+/**
+ * Converts to Date (YYYY, YYYY-MM, or YYYY-MM-DD)
+ * Per FHIRPath spec: Input can be Date, DateTime or String;
+ * the time part of a DateTime is dropped
  */
-export function toDate(value: unknown): string | undefined {
+export function toDate(value: unknown): FhirPathDate | undefined {
   if (value === null || value === undefined) return undefined;
-  
+
+  if (isTemporal(value)) return toDateValue(value);
+
   if (typeof value === "string") {
-    // Already a date string - validate format
-    // FHIR Date: YYYY, YYYY-MM, YYYY-MM-DD
-    const dateRegex = /^(\d{4})(-\d{2})?(-\d{2})?$/;
-    const match = value.match(dateRegex);
-    if (match) {
-      return value;
-    }
-    
-    // Try to parse DateTime string and extract date part
-    const dateTimeRegex = /^(\d{4}(-\d{2}(-\d{2})?)?)([T ].*)?$/;
-    const dtMatch = value.match(dateTimeRegex);
-    if (dtMatch) {
-      return dtMatch[1];
-    }
-    
-    // Try to parse as ISO date
-    const parsed = Date.parse(value);
-    if (!isNaN(parsed)) {
-      return new Date(parsed).toISOString().split("T")[0];
-    }
-    
-    return undefined;
+    const dateTime = parseDateTime(value);
+    return dateTime && toDateValue(dateTime);
   }
-  
+
   // Date object
   if (value instanceof Date) {
-    return value.toISOString().split("T")[0];
+    return toDateValue(dateTimeFromJSDate(value, "day"));
   }
-  
+
   return undefined;
 }
 
 /**
- * Converts to FHIR DateTime (ISO 8601)
+ * Converts to DateTime (ISO 8601, partial values allowed)
  * Per FHIRPath spec: Input can be Date, DateTime or String
  */
-export function toDateTime(value: unknown): string | undefined {
+export function toDateTime(value: unknown): FhirPathDateTime | undefined {
   if (value === null || value === undefined) return undefined;
-  
+
+  if (isTemporal(value)) return toDateTimeValue(value);
+
   if (typeof value === "string") {
-    // FHIR DateTime: YYYY, YYYY-MM, YYYY-MM-DD, YYYY-MM-DDThh:mm:ss+zz:zz
-    const dateTimeRegex = /^(\d{4})(-\d{2})?(-\d{2})?(T\d{2}(:\d{2}(:\d{2}(\.\d+)?)?)?([+-]\d{2}:\d{2}|Z)?)?$/;
-    if (dateTimeRegex.test(value)) {
-      return value;
-    }
-    
-    // Try to parse as ISO date
-    const parsed = Date.parse(value);
-    if (!isNaN(parsed)) {
-      return new Date(parsed).toISOString();
-    }
-    
-    return undefined;
+    return parseDateTime(value);
   }
-  
+
   // Date object
   if (value instanceof Date) {
-    return value.toISOString();
+    return dateTimeFromJSDate(value);
   }
-  
+
   return undefined;
 }
 
 /**
- * Converts to FHIR Time (HH:MM:SS or HH:MM:SS.fff)
+ * Converts to Time (hh, hh:mm, hh:mm:ss or hh:mm:ss.fff)
  * Per FHIRPath spec: Input must be String or Time
  */
-export function toTime(value: unknown): string | undefined {
+export function toTime(value: unknown): FhirPathTime | undefined {
   if (value === null || value === undefined) return undefined;
-  
+
+  if (isTemporal(value)) return toTimeValue(value);
+
   if (typeof value === "string") {
-    // FHIR Time: hh:mm:ss or hh:mm:ss.fff
-    const timeRegex = /^(\d{2}):(\d{2})(:(\d{2})(\.\d+)?)?$/;
-    const match = value.match(timeRegex);
-    if (match) {
-      const hours = parseInt(match[1], 10);
-      const minutes = parseInt(match[2], 10);
-      const seconds = match[4] ? parseInt(match[4], 10) : 0;
-      
-      if (hours >= 0 && hours <= 23 && minutes >= 0 && minutes <= 59 && seconds >= 0 && seconds <= 59) {
-        return value;
-      }
-    }
-    
+    const time = parseTime(value);
+    if (time) return time;
+
     // Try to extract time from DateTime string
     const dateTimeMatch = value.match(/T(\d{2}:\d{2}(:\d{2}(\.\d+)?)?)/);
-    if (dateTimeMatch) {
-      return dateTimeMatch[1];
-    }
-    
-    return undefined;
+    return dateTimeMatch ? parseTime(dateTimeMatch[1]) : undefined;
   }
-  
+
   // Date object - extract time part
   if (value instanceof Date) {
-    return value.toISOString().split("T")[1].split("Z")[0];
+    return timeFromJSDate(value);
   }
-  
+
   return undefined;
 }
 
@@ -498,8 +545,15 @@ export function toTime(value: unknown): string | undefined {
  * Converts to Quantity
  * Per FHIRPath spec: Input can be Integer, Decimal, String, or Quantity
  * String format: number followed by optional unit (e.g., "10 'kg'", "5.5 'cm'")
+ * If a unit is given, the quantity is converted to it (empty if not commensurable)
  */
 export function toQuantity(value: unknown, unit?: string): FhirPathQuantity | undefined {
+  const quantity = parseQuantity(value);
+  if (quantity === undefined || unit === undefined) return quantity;
+  return convertQuantity(quantity, unit);
+}
+
+function parseQuantity(value: unknown): FhirPathQuantity | undefined {
   if (value === null || value === undefined) return undefined;
   
   // Already a Quantity object
@@ -508,14 +562,15 @@ export function toQuantity(value: unknown, unit?: string): FhirPathQuantity | un
     if (typeof q.value === "number") {
       return {
         value: q.value,
-        unit: unit ?? (typeof q.unit === "string" ? q.unit : typeof q.code === "string" ? q.code : undefined)
+        unit: typeof q.unit === "string" ? q.unit : typeof q.code === "string" ? q.code : undefined,
+        ...(typeof q.code === "string" ? { code: q.code } : {}),
       };
     }
   }
   
   // Number
   if (typeof value === "number") {
-    return { value, unit };
+    return { value, unit: undefined };
   }
   
   // String - parse "number unit" format
@@ -525,7 +580,7 @@ export function toQuantity(value: unknown, unit?: string): FhirPathQuantity | un
     // Try to parse as plain number
     const num = parseFloat(trimmed);
     if (!isNaN(num) && String(num) === trimmed) {
-      return { value: num, unit };
+      return { value: num, unit: undefined };
     }
     
     // Parse "number 'unit'" or "number unit" format
@@ -534,7 +589,7 @@ export function toQuantity(value: unknown, unit?: string): FhirPathQuantity | un
     const match = trimmed.match(quantityRegex);
     if (match) {
       const parsedValue = parseFloat(match[1]);
-      const parsedUnit = match[2] || match[3] || unit;
+      const parsedUnit = match[2] || match[3];
       if (!isNaN(parsedValue)) {
         return { value: parsedValue, unit: parsedUnit };
       }
@@ -545,7 +600,7 @@ export function toQuantity(value: unknown, unit?: string): FhirPathQuantity | un
   
   // Boolean - per spec, true=1, false=0
   if (typeof value === "boolean") {
-    return { value: value ? 1 : 0, unit };
+    return { value: value ? 1 : 0, unit: undefined };
   }
   
   return undefined;
@@ -579,6 +634,58 @@ export function convertsToQuantity(value: unknown): boolean {
   return toQuantity(value) !== undefined;
 }
 
+// ============================================================
+// FHIR FUNCTIONS
+// ============================================================
+
+/** Value properties of FHIR elements (the value[x] pattern) */
+const VALUE_PROPS = [
+  "valueString", "valueBoolean", "valueInteger", "valueDecimal",
+  "valueDate", "valueDateTime", "valueTime", "valueInstant",
+  "valueUri", "valueUrl", "valueCode", "valueOid", "valueId",
+  "valueUuid", "valueMarkdown", "valueBase64Binary", "valueCanonical",
+  "valueUnsignedInt", "valuePositiveInt", "valueQuantity", "valueCoding", "valueCodeableConcept", "valueReference",
+  "valueIdentifier", "valuePeriod", "valueRange", "valueRatio",
+  "valueAttachment", "valueAnnotation", "valueAddress", "valueContactPoint",
+  "valueHumanName", "valueTiming", "valueMoney", "valueAge", "valueCount",
+  "valueDistance", "valueDuration", "valueSampledData", "valueSignature",
+  "valueContactDetail", "valueContributor", "valueDataRequirement",
+  "valueExpression", "valueParameterDefinition", "valueRelatedArtifact",
+  "valueTriggerDefinition", "valueUsageContext", "valueDosage", "valueMeta",
+];
+
+/**
+ * Returns the values of elements: primitives themselves, else their value[x]
+ * and value properties. Expects unwrapped items (primitive elements with only
+ * extensions dropped).
+ */
+export function getValue(collection: FhirPathCollection): FhirPathCollection {
+  const results: FhirPathCollection = [];
+
+  for (const item of collection) {
+    if (item == null) continue;
+
+    // Primitive elements: the value itself
+    if (typeof item !== "object" || isDecimal(item)) {
+      results.push(item);
+      continue;
+    }
+
+    const obj = item as Record<string, unknown>;
+
+    // Only one value[x] per element
+    const prop = VALUE_PROPS.find(prop => obj[prop] !== undefined);
+    if (prop) results.push(obj[prop]);
+
+    // Also check for simple "value" property
+    if (obj.value !== undefined) {
+      results.push(obj.value);
+    }
+  }
+
+  return results;
+}
+
 // ============================================================
 // LOGIC FUNCTIONS
 // ============================================================
@@ -593,21 +700,199 @@ export function iif(condition: boolean, trueValue: FhirPathCollection, falseValu
   return condition ? trueValue : falseValue;
 }
 
+// ============================================================
+// EVALUATION MODES
+// ============================================================
+
+/** Whether a mode checks singletons and operand types ("strict", "fhirpathjs-compatible") */
+export function isCheckedMode(mode: EvaluationMode | undefined): boolean {
+  return mode === "strict" || mode === "fhirpathjs-compatible";
+}
+
+/**
+ * The single item of an operand (undefined if empty).
+ * Throws for several items in checked modes, lenient mode uses the first item.
+ */
+export function singletonOperand(collection: FhirPathCollection, operator: string, mode?: EvaluationMode): unknown {
+  if (collection.length > 1 && isCheckedMode(mode)) {
+    throw new EvaluatorError(
+      `Operator '${operator}' expects a single item, got ${collection.length}`,
+      "singleton-expected",
+    );
+  }
+  return collection[0];
+}
+
+/**
+ * Singleton evaluation of a collection as a Boolean: undefined if empty,
+ * true for a single non-Boolean item, an error for several items
+ */
+export function booleanOperand(collection: FhirPathCollection, operator: string): boolean | undefined {
+  if (collection.length === 0) return undefined;
+  const value = singletonOperand(collection, operator, "strict");
+  return typeof value === "boolean" ? value : true;
+}
+
+/** Three-valued logic of and, or, xor and implies (undefined is empty) */
+export function logicalOperator(
+  operator: string,
+  left: boolean | undefined,
+  right: boolean | undefined,
+): boolean | undefined {
+  switch (operator) {
+    case "and":
+      if (left === false || right === false) return false;
+      return left === undefined || right === undefined ? undefined : true;
+    case "or":
+      if (left === true || right === true) return true;
+      return left === undefined || right === undefined ? undefined : false;
+    case "xor":
+      return left === undefined || right === undefined ? undefined : left !== right;
+    case "implies":
+      if (left === false || right === true) return true;
+      return left === undefined || right === undefined ? undefined : false;
+  }
+  throw new EvaluatorError(`Unknown logical operator: ${operator}`, "unknown-operator");
+}
+
+/**
+ * Whether a where(), exists() or all() criterion holds for an item.
+ * Strict mode uses singleton evaluation, fhirpath.js accepts anything but
+ * false in where() and exists() and only true in all().
+ */
+export function criterionHolds(result: FhirPathCollection, name: string, mode?: EvaluationMode): boolean {
+  switch (mode) {
+    case "strict":
+      return booleanOperand(result, `${name}()`) === true;
+    case "fhirpathjs-compatible":
+      return name === "all"
+        ? result.length === 1 && result[0] === true
+        : result.length > 0 && result[0] !== false;
+    default:
+      return result.length > 0 && result[0] === true;
+  }
+}
+
+/**
+ * Whether the criterion of iif() holds. Strict mode uses singleton
+ * evaluation, fhirpath.js only accepts a single true.
+ */
+export function iifCondition(condition: FhirPathCollection, mode?: EvaluationMode): boolean {
+  switch (mode) {
+    case "strict":
+      return booleanOperand(condition, "iif()") === true;
+    case "fhirpathjs-compatible":
+      return condition.length === 1 && condition[0] === true;
+    default:
+      return condition.length > 0 && condition[0] === true;
+  }
+}
+
+/**
+ * Equality (=) of collections: empty if either is empty, false for differing
+ * sizes, else whether the items are pairwise equal
+ */
+export function collectionEquals(
+  left: FhirPathCollection,
+  right: FhirPathCollection,
+  equals: (a: unknown, b: unknown) => boolean | undefined,
+): boolean | undefined {
+  if (left.length === 0 || right.length === 0) return undefined;
+  if (left.length !== right.length) return false;
+  let result: boolean | undefined = true;
+  for (let i = 0; i < left.length; i++) {
+    const eq = equals(left[i], right[i]);
+    if (eq === false) return false;
+    if (eq === undefined) result = undefined;
+  }
+  return result;
+}
+
+/**
+ * Equivalence (~) of collections: same size and each item equivalent to
+ * another item of the other collection, in any order (in order for fhirpath.js)
+ */
+export function collectionEquivalent(
+  left: FhirPathCollection,
+  right: FhirPathCollection,
+  equivalent: (a: unknown, b: unknown) => boolean,
+  mode?: EvaluationMode,
+): boolean {
+  if (left.length !== right.length) return false;
+  if (mode === "fhirpathjs-compatible") return left.every((l, i) => equivalent(l, right[i]));
+  const unmatched = [...right];
+  return left.every(l => {
+    const i = unmatched.findIndex(r => equivalent(l, r));
+    if (i < 0) return false;
+    unmatched.splice(i, 1);
+    return true;
+  });
+}
+
+/**
+ * Throw a type-mismatch error for operands an operator is not defined for,
+ * e.g. 'a' + 1, true + 1 or 'a' < 1. Strings stand in for dates and times,
+ * which FHIR resources hold as strings.
+ */
+export function checkOperandTypes(operator: string, left: unknown, right: unknown, mode?: EvaluationMode): void {
+  const l = operandKind(left);
+  const r = operandKind(right);
+  const numeric = (l === "Number" || l === "Quantity") && (r === "Number" || r === "Quantity");
+  const temporal = (l === "Temporal" || l === "String") && r === "Quantity";
+
+  let defined: boolean;
+  switch (operator) {
+    case "&":
+      defined = l === "String" && r === "String";
+      break;
+    case "+":
+      defined = numeric || temporal || (l === "String" && r === "String");
+      break;
+    case "-":
+      defined = numeric || temporal;
+      break;
+    case "*":
+    case "/":
+    case "div":
+    case "mod":
+      defined = numeric;
+      break;
+    default:
+      // Comparison, fhirpath.js also orders Booleans
+      defined = l === r
+        ? l !== "Object" && (l !== "Boolean" || mode === "fhirpathjs-compatible")
+        : numeric || ((l === "Temporal" || l === "String") && (r === "Temporal" || r === "String"));
+  }
+
+  if (!defined) {
+    throw new EvaluatorError(`Operator '${operator}' is not defined for ${l} and ${r}`, "type-mismatch");
+  }
+}
+
+function operandKind(value: unknown): "String" | "Boolean" | "Number" | "Quantity" | "Temporal" | "Object" {
+  if (typeof value === "string") return "String";
+  if (typeof value === "boolean") return "Boolean";
+  if (isNumeric(value)) return "Number";
+  if (isQuantity(value)) return "Quantity";
+  if (isTemporal(value)) return "Temporal";
+  return "Object";
+}
+
 // ============================================================
 // UTILITY FUNCTIONS
 // ============================================================
 
 /** Returns current date */
-export function today(): string {
-  return new Date().toISOString().split("T")[0];
+export function today(): FhirPathDate {
+  return toDateValue(dateTimeFromJSDate(new Date(), "day"))!;
 }
 
-/** Returns current datetime */
-export function now(): string {
-  return new Date().toISOString();
+/** Returns current datetime (local timezone) */
+export function now(): FhirPathDateTime {
+  return dateTimeFromJSDate(new Date());
 }
 
 /** Returns current time */
-export function timeOfDay(): string {
-  return new Date().toISOString().split("T")[1].split(".")[0];
+export function timeOfDay(): FhirPathTime {
+  return timeFromJSDate(new Date());
 }
@@ -0,0 +1,88 @@
+/**
+ * User-defined Functions
+ *
+ * Calls of the functions of Options.userInvocationTable, shared by the
+ * interpreter and JIT-compiled code. A function receives its input and one
+ * parameter per argument, depending on the ParamTypes of its arity:
+ * - Expr: a function evaluating the argument with a focus, e.g. once per item
+ * - AnyAtRoot: the argument evaluated with %resource as focus
+ * - Identifier, TypeSpecifier: the name the argument spells, e.g. ["Patient"]
+ * - any other type: the argument evaluated with the focus of the call
+ */
+
+import type { ASTNode, IdentifierNode, LiteralNode, MemberAccessNode, TypeSpecifierNode } from "../parser/ast.ts";
+import type { UserFunction } from "./types.ts";
+
+/**
+ * An argument of a call of a user-defined function
+ */
+export interface UserFunctionArgument {
+  /** Evaluate the argument with a focus, returning raw values */
+  evaluate(focus: unknown[]): unknown[];
+  /** The identifier or type name the argument spells, if any */
+  name?: string;
+}
+
+/**
+ * The type specifier an argument spells: an identifier, a qualified name
+ * (FHIR.Quantity, System.String), a type specifier or a string literal
+ */
+export function typeSpecifierOf(arg: ASTNode): { namespace?: string; typeName: string } | undefined {
+  if (arg.type === "Identifier") {
+    return { typeName: (arg as IdentifierNode).name };
+  }
+  // A qualified name is parsed as member access
+  if (arg.type === "MemberAccess") {
+    const access = arg as MemberAccessNode;
+    if (access.object.type === "Identifier") {
+      return { namespace: (access.object as IdentifierNode).name, typeName: access.member.name };
+    }
+    return undefined;
+  }
+  if (arg.type === "TypeSpecifier") {
+    const spec = arg as TypeSpecifierNode;
+    return { namespace: spec.namespace, typeName: spec.typeName };
+  }
+  if (arg.type === "Literal" && (arg as LiteralNode).literalType === "string") {
+    return { typeName: (arg as LiteralNode).value as string };
+  }
+  return undefined;
+}
+
+/**
+ * The parameters of a call of a user-defined function, following the
+ * ParamTypes of its arity for the number of arguments.
+ * Undefined if the function is nullable and its input or a parameter is empty.
+ *
+ * @param userFn The function
+ * @param input The input collection of the call
+ * @param args The arguments of the call
+ * @param focus The focus the arguments are evaluated with
+ * @param root The focus of AnyAtRoot arguments (%resource)
+ */
+export function userFunctionParams(
+  userFn: UserFunction,
+  input: unknown[],
+  args: UserFunctionArgument[],
+  focus: unknown[],
+  root: unknown[],
+): unknown[] | undefined {
+  const paramTypes = userFn.arity?.[args.length];
+  const params = args.map((arg, i): unknown => {
+    switch (paramTypes?.[i]) {
+      case "Expr":
+        return (data: unknown) => arg.evaluate(data == null ? [] : Array.isArray(data) ? data : [data]);
+      case "AnyAtRoot":
+        return arg.evaluate(root);
+      case "Identifier":
+      case "TypeSpecifier":
+        return arg.name !== undefined ? [arg.name] : [];
+      default:
+        return arg.evaluate(focus);
+    }
+  });
+  if (userFn.nullable && [input, ...params].some(param => Array.isArray(param) && param.length === 0)) {
+    return undefined;
+  }
+  return params;
+}
@@ -0,0 +1,118 @@
+/**
+ * Evaluation Limits
+ *
+ * Guards an evaluation against pathological expressions and inputs, e.g.
+ * descendants() on huge resources or endless aggregate() loops in
+ * expressions written by end users. The interpreter and JIT-generated code
+ * report their progress to an EvaluationGuard, which throws an
+ * EvaluationLimitError once a limit is exceeded.
+ */
+
+import type { EvaluationLimits } from "../types.ts";
+
+/**
+ * The limit that stopped an evaluation
+ */
+export type EvaluationLimit = "steps" | "collectionSize" | "depth" | "timeout" | "aborted";
+
+/**
+ * Error for an evaluation stopped by its limits or its abort signal
+ */
+export class EvaluationLimitError extends Error {
+  /** The expression text */
+  expression?: string;
+
+  constructor(
+    /** The exceeded limit */
+    readonly limit: EvaluationLimit,
+    message: string,
+  ) {
+    super(message);
+    this.name = "EvaluationLimitError";
+  }
+}
+
+/** Steps between checks of the deadline and the abort signal */
+const POLL_INTERVAL = 64;
+
+/**
+ * Enforces the limits of one evaluation
+ */
+export class EvaluationGuard {
+  private steps = 0;
+  private depth = 0;
+  private readonly deadline?: number;
+
+  private constructor(
+    private readonly limits: EvaluationLimits,
+    private readonly signal?: AbortSignal,
+  ) {
+    if (limits.timeout !== undefined) this.deadline = Date.now() + limits.timeout;
+  }
+
+  /**
+   * A guard for the limits and abort signal, undefined if there is nothing to enforce
+   */
+  static create(limits?: EvaluationLimits, signal?: AbortSignal): EvaluationGuard | undefined {
+    if (!signal && !limits) return undefined;
+    const guard = new EvaluationGuard(limits ?? {}, signal);
+    guard.poll();
+    return guard;
+  }
+
+  /**
+   * Count an evaluation step (a visited expression node or a repeat()/descendants() item)
+   */
+  step(): void {
+    const { maxSteps } = this.limits;
+    this.steps++;
+    if (maxSteps !== undefined && this.steps > maxSteps) {
+      throw new EvaluationLimitError("steps", `Evaluation exceeded ${maxSteps} steps`);
+    }
+    if (this.steps % POLL_INTERVAL === 0) this.poll();
+  }
+
+  /**
+   * Check the size of a (intermediate) collection
+   */
+  size(length: number): void {
+    const { maxCollectionSize } = this.limits;
+    if (maxCollectionSize !== undefined && length > maxCollectionSize) {
+      throw new EvaluationLimitError(
+        "collectionSize",
+        `Evaluation exceeded the maximum collection size of ${maxCollectionSize}`,
+      );
+    }
+  }
+
+  /**
+   * Enter a nested expression node (counts as a step)
+   */
+  enter(): void {
+    const { maxDepth } = this.limits;
+    if (maxDepth !== undefined && ++this.depth > maxDepth) {
+      throw new EvaluationLimitError("depth", `Evaluation exceeded the maximum depth of ${maxDepth}`);
+    }
+    this.step();
+  }
+
+  /**
+   * Leave a nested expression node with its result
+   */
+  leave(result?: unknown): void {
+    if (this.limits.maxDepth !== undefined) this.depth--;
+    if (Array.isArray(result)) this.size(result.length);
+  }
+
+  /**
+   * Check the deadline and the abort signal
+   */
+  poll(): void {
+    if (this.signal?.aborted) {
+      throw new EvaluationLimitError("aborted", "Evaluation was aborted");
+    }
+    if (this.deadline !== undefined && Date.now() > this.deadline) {
+      throw new EvaluationLimitError("timeout", `Evaluation exceeded the timeout of ${this.limits.timeout} ms`);
+    }
+  }
+}
@@ -4,6 +4,22 @@
  * Native TypeScript implementation of the FHIRPath evaluator.
  */
 
-export { FhirPathEvaluator, EvaluatorError, evaluateFhirPath } from "./evaluator.ts";
+export {
+  FhirPathEvaluator,
+  type NodeScope,
+  evaluateFhirPath,
+  evaluateFhirPathAsync,
+  evaluateFhirPathBatch,
+} from "./evaluator.ts";
+export {
+  TemporalValue,
+  FhirPathDate,
+  FhirPathDateTime,
+  FhirPathTime,
+  type TemporalPrecision,
+} from "./temporal.ts";
+export { EvaluatorError, type EvaluatorErrorCode } from "./errors.ts";
+export { EvaluationLimitError, type EvaluationLimit } from "./limits.ts";
+export { FhirPathDecimal, parseDecimal, parseJsonWithDecimals } from "./decimal.ts";
 export type * from "./types.ts";
 export * as functions from "./functions.ts";
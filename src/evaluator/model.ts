@@ -0,0 +1,196 @@
+/**
+ * FHIR Model Lookups
+ *
+ * Helpers that resolve element paths and types against a loaded Model
+ * (choiceTypePaths, path2Type, pathsDefinedElsewhere, type2Parent).
+ * Used by the evaluator to navigate FHIR data the way the specification
+ * describes it instead of guessing from JSON property names.
+ */
+
+import type { Model } from "../types.ts";
+import type { TypeInfo } from "./types.ts";
+import { createClassInfo, createSimpleTypeInfo } from "./types.ts";
+
+/**
+ * FHIR primitive type names in their canonical spelling.
+ * Keyed by lower case so that R6-style capitalized entries ("Date", "String")
+ * and choice suffixes ("DateTime") normalize to the same name as R4 ("dateTime").
+ */
+const FHIR_PRIMITIVE_TYPES = new Map(
+  [
+    "base64Binary", "boolean", "canonical", "code", "date", "dateTime",
+    "decimal", "id", "instant", "integer", "integer64", "markdown", "oid",
+    "positiveInt", "string", "time", "unsignedInt", "uri", "url", "uuid", "xhtml",
+  ].map(t => [t.toLowerCase(), t]),
+);
+
+/**
+ * System types that FHIR primitive types map to
+ */
+const SYSTEM_TYPES: Record<string, string> = {
+  boolean: "Boolean",
+  string: "String",
+  code: "String",
+  id: "String",
+  markdown: "String",
+  uri: "String",
+  url: "String",
+  canonical: "String",
+  oid: "String",
+  uuid: "String",
+  base64Binary: "String",
+  xhtml: "String",
+  integer: "Integer",
+  integer64: "Integer",
+  positiveInt: "Integer",
+  unsignedInt: "Integer",
+  decimal: "Decimal",
+  date: "Date",
+  dateTime: "DateTime",
+  instant: "DateTime",
+  time: "Time",
+};
+
+/**
+ * Types whose children are defined on the element path rather than on the type
+ */
+const ELEMENT_CONTAINER_TYPES = new Set(["Element", "BackboneElement"]);
+
+/**
+ * Resolved model information for a single element
+ */
+export interface ElementInfo {
+  /** Element path in the model (after applying pathsDefinedElsewhere) */
+  path: string;
+  /** FHIR type of the element (undefined for choice elements) */
+  type?: string;
+  /** Allowed type suffixes if the element is a choice ([x]) element */
+  choiceTypes?: string[];
+}
+
+/**
+ * Normalize a type name from the model to its canonical FHIR spelling
+ */
+export function normalizeTypeName(type: string): string {
+  if (type.startsWith("System.")) return type;
+  return FHIR_PRIMITIVE_TYPES.get(type.toLowerCase()) ?? type;
+}
+
+/**
+ * Returns true if the type is a FHIR primitive type
+ */
+export function isPrimitiveType(type: string): boolean {
+  return type.startsWith("System.") || FHIR_PRIMITIVE_TYPES.has(type.toLowerCase());
+}
+
+/**
+ * Returns the System type name (e.g. "String") a FHIR type maps to, if any
+ */
+export function toSystemType(type: string): string | undefined {
+  if (type.startsWith("System.")) return type.slice(7);
+  return SYSTEM_TYPES[type];
+}
+
+/**
+ * Returns the type followed by its ancestors from type2Parent
+ * (e.g. Age, Quantity, Element)
+ */
+export function getTypeAncestors(model: Model | undefined, type: string): string[] {
+  const result = [type];
+  let parent = model?.type2Parent[type];
+  while (parent && !result.includes(parent)) {
+    result.push(parent);
+    parent = model!.type2Parent[parent];
+  }
+  return result;
+}
+
+/**
+ * Returns true if the FHIR type is the given type or derives from it
+ */
+export function isFhirTypeOf(model: Model | undefined, type: string, target: string): boolean {
+  return getTypeAncestors(model, type).includes(target);
+}
+
+/**
+ * Build the TypeInfo of a FHIR type for type()
+ */
+export function getFhirTypeInfo(model: Model | undefined, type: string): TypeInfo {
+  if (type.startsWith("System.")) {
+    return createSimpleTypeInfo(type.slice(7));
+  }
+  const parent = model?.type2Parent[type];
+  const baseType = parent && parent !== type ? `FHIR.${parent}` : "FHIR.Base";
+  if (isPrimitiveType(type)) {
+    return createSimpleTypeInfo(type, baseType, "FHIR");
+  }
+  return createClassInfo("FHIR", type, baseType);
+}
+
+/**
+ * Get the type name recorded for a path, if any
+ */
+function getPathType(model: Model, path: string): string | undefined {
+  const entry = model.path2Type[path];
+  if (entry === undefined) return undefined;
+  return normalizeTypeName(typeof entry === "string" ? entry : entry.code);
+}
+
+/**
+ * Returns the path under which the children of an element are defined.
+ * Complex data types define their children on the type itself
+ * (HumanName.given), backbone elements on the element path (Patient.contact.name).
+ */
+export function getChildBasePath(path: string, type?: string): string {
+  if (type && !ELEMENT_CONTAINER_TYPES.has(type) && !isPrimitiveType(type)) {
+    return type;
+  }
+  return path;
+}
+
+/**
+ * Look up a child element of a parent element in the model.
+ *
+ * @param model The FHIR model
+ * @param parentPath Path under which the parent's children are defined
+ * @param name The child element name (without choice suffix)
+ * @param parentType Type of the parent, used to find inherited elements
+ * @returns Element info, or undefined if the model does not define the element
+ */
+export function getElementInfo(
+  model: Model,
+  parentPath: string,
+  name: string,
+  parentType?: string,
+): ElementInfo | undefined {
+  let path = `${parentPath}.${name}`;
+  path = model.pathsDefinedElsewhere[path] ?? path;
+
+  const choiceTypes = model.choiceTypePaths[path];
+  if (choiceTypes) {
+    return { path, choiceTypes };
+  }
+
+  const type = getPathType(model, path);
+  if (type !== undefined) {
+    return { path, type };
+  }
+
+  // Inherited elements (id, extension, ...) are defined on an ancestor type
+  const ancestors = parentPath.includes(".")
+    ? (parentType ? getTypeAncestors(model, parentType) : [])
+    : getTypeAncestors(model, parentPath).slice(1);
+  for (const ancestor of ancestors) {
+    const inherited = `${ancestor}.${name}`;
+    const inheritedChoice = model.choiceTypePaths[inherited];
+    if (inheritedChoice) {
+      return { path: inherited, choiceTypes: inheritedChoice };
+    }
+    const inheritedType = getPathType(model, inherited);
+    if (inheritedType !== undefined) {
+      return { path: inherited, type: inheritedType };
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,76 @@
+/**
+ * FHIRPath Resource Nodes
+ *
+ * Internal wrapper for values reached by navigating FHIR data.
+ * A node keeps the raw JSON value together with the model path it was
+ * reached by, its FHIR type and its location in the JSON document, so that
+ * navigation and the type functions (is, as, ofType, type()) can be driven
+ * by the model. Primitive elements also keep the id and extensions from their
+ * underscore sibling (e.g. "_birthDate"). Nodes only escape the evaluator
+ * with the keepNodes option: results are unwrapped before they are returned.
+ */
+
+/**
+ * A navigated FHIR value together with its model information
+ */
+export class ResourceNode {
+  constructor(
+    /** The raw JSON value (null for primitives that only have extensions) */
+    readonly data: unknown,
+    /** Element path in the model (e.g. "Patient.name"), if known */
+    readonly path: string | undefined,
+    /** FHIR type of the element (e.g. "HumanName"), if known */
+    readonly type?: string,
+    /** Element path of the parent node (e.g. "Patient") */
+    readonly parentPath?: string,
+    /** Location in the JSON document (e.g. "Patient.name[0].given[1]") */
+    readonly jsonPath?: string,
+    /** Primitive element id and extensions from the "_element" sibling */
+    readonly extData?: Record<string, unknown>,
+  ) {}
+
+  /**
+   * Returns true if the node holds a value (primitives may only have extensions)
+   */
+  hasValue(): boolean {
+    return this.data != null;
+  }
+
+  /**
+   * Serialize as the raw value so that JSON-based comparisons
+   * (distinct, union, subsetOf, ...) treat nodes like their data
+   */
+  toJSON(): unknown {
+    return this.data;
+  }
+}
+
+/**
+ * Returns the raw value of a collection item
+ */
+export function unwrap(value: unknown): unknown {
+  return value instanceof ResourceNode ? value.data : value;
+}
+
+/**
+ * Returns a collection with all nodes replaced by their raw values.
+ * Primitive elements without a value are dropped.
+ * The input array is returned as-is if it contains no nodes.
+ */
+export function unwrapAll(collection: unknown[]): unknown[] {
+  for (let i = 0; i < collection.length; i++) {
+    if (collection[i] instanceof ResourceNode) {
+      const result: unknown[] = collection.slice(0, i);
+      for (let j = i; j < collection.length; j++) {
+        const item = collection[j];
+        if (!(item instanceof ResourceNode)) {
+          result.push(item);
+        } else if (item.hasValue()) {
+          result.push(item.data);
+        }
+      }
+      return result;
+    }
+  }
+  return collection;
+}
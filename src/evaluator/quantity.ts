@@ -0,0 +1,188 @@
+/**
+ * FHIRPath Quantity Semantics
+ *
+ * Equality, equivalence, ordering, arithmetic and unit conversion of
+ * quantities (literals such as 5 'mg', toQuantity() results and FHIR Quantity
+ * elements), using the offline UCUM engine so that commensurable units
+ * compare and combine: 5 'mg' = 0.005 'g'.
+ */
+
+import type { FhirPathQuantity } from "./types.ts";
+import { isQuantity } from "./types.ts";
+import { convertUnit, isCommensurable, isValidUnit, toBaseValue } from "../ucum/mod.ts";
+import { addDuration, asTemporal } from "./temporal.ts";
+import type { TemporalValue } from "./temporal.ts";
+
+/**
+ * Calendar duration keywords and the UCUM units they correspond to
+ */
+const CALENDAR_UNITS = new Map([
+  ["year", "a"], ["years", "a"],
+  ["month", "mo"], ["months", "mo"],
+  ["week", "wk"], ["weeks", "wk"],
+  ["day", "d"], ["days", "d"],
+  ["hour", "h"], ["hours", "h"],
+  ["minute", "min"], ["minutes", "min"],
+  ["second", "s"], ["seconds", "s"],
+  ["millisecond", "ms"], ["milliseconds", "ms"],
+]);
+
+/**
+ * Calendar durations that are not equal to a definite UCUM duration
+ * (1 year = 1 'a' is empty, 1 year ~ 1 'a' is true)
+ */
+const NON_DEFINITE_CALENDAR_UNITS = new Set(["year", "years", "month", "months"]);
+
+/**
+ * The unit of a quantity as written: the UCUM code of a FHIR Quantity,
+ * otherwise its unit; "1" for quantities without a unit
+ */
+function unitOf(quantity: FhirPathQuantity): string {
+  return quantity.code ?? quantity.unit ?? "1";
+}
+
+/**
+ * The UCUM unit of a quantity, mapping calendar duration keywords to UCUM
+ */
+export function toUcumUnit(unit: string): string {
+  return CALENDAR_UNITS.get(unit) ?? (unit === "" ? "1" : unit);
+}
+
+/**
+ * Values of two quantities in the same unit, or undefined if the units
+ * are not commensurable
+ */
+function commonValues(a: FhirPathQuantity, b: FhirPathQuantity): [number, number] | undefined {
+  const aUnit = toUcumUnit(unitOf(a));
+  const bUnit = toUcumUnit(unitOf(b));
+  if (aUnit === bUnit) return [a.value, b.value];
+  if (!isCommensurable(aUnit, bUnit)) return undefined;
+  return [toBaseValue(a.value, aUnit)!, toBaseValue(b.value, bUnit)!];
+}
+
+/**
+ * The string of a quantity (toString()): calendar durations as written
+ * (2 years), other units quoted (5.5 'mg')
+ */
+export function formatQuantity(quantity: FhirPathQuantity): string {
+  const unit = unitOf(quantity);
+  return CALENDAR_UNITS.has(unit) ? `${quantity.value} ${unit}` : `${quantity.value} '${unit}'`;
+}
+
+/**
+ * FHIRPath equality (=) of quantities.
+ * Returns undefined (empty) if the units are not comparable.
+ */
+export function quantityEquals(a: FhirPathQuantity, b: FhirPathQuantity): boolean | undefined {
+  const aUnit = unitOf(a);
+  const bUnit = unitOf(b);
+  if (
+    CALENDAR_UNITS.has(aUnit) !== CALENDAR_UNITS.has(bUnit) &&
+    (NON_DEFINITE_CALENDAR_UNITS.has(aUnit) || NON_DEFINITE_CALENDAR_UNITS.has(bUnit))
+  ) {
+    return undefined;
+  }
+  const values = commonValues(a, b);
+  return values ? values[0] === values[1] : undefined;
+}
+
+/**
+ * FHIRPath equivalence (~) of quantities.
+ * Quantities with units that are not comparable are not equivalent.
+ */
+export function quantityEquivalent(a: FhirPathQuantity, b: FhirPathQuantity): boolean {
+  const values = commonValues(a, b);
+  return values ? values[0] === values[1] : false;
+}
+
+/**
+ * Order two quantities. Returns undefined if the units are not comparable.
+ */
+export function compareQuantities(a: FhirPathQuantity, b: FhirPathQuantity): number | undefined {
+  const values = commonValues(a, b);
+  if (!values) return undefined;
+  return values[0] === values[1] ? 0 : values[0] < values[1] ? -1 : 1;
+}
+
+/**
+ * Returns true if two quantities can be compared, i.e. their units are
+ * commensurable (quantity.comparable())
+ */
+export function quantitiesComparable(a: FhirPathQuantity, b: FhirPathQuantity): boolean {
+  return isCommensurable(toUcumUnit(unitOf(a)), toUcumUnit(unitOf(b)));
+}
+
+/**
+ * Convert a quantity to another unit.
+ * Returns undefined if the units are not commensurable.
+ */
+export function convertQuantity(quantity: FhirPathQuantity, unit: string): FhirPathQuantity | undefined {
+  const from = toUcumUnit(unitOf(quantity));
+  const to = toUcumUnit(unit);
+  if (from === to) return { value: quantity.value, unit };
+  const value = convertUnit(quantity.value, from, to);
+  return value !== undefined ? { value, unit } : undefined;
+}
+
+/**
+ * Returns true if the unit is a calendar duration keyword or a valid UCUM unit
+ */
+export function isValidQuantityUnit(unit: string): boolean {
+  return CALENDAR_UNITS.has(unit) || isValidUnit(unit);
+}
+
+/**
+ * Apply an arithmetic operator to operands involving quantities:
+ * date/time ± time-valued quantity, quantity ± quantity (converted to the
+ * unit of the left operand), and quantity * or / quantity or number.
+ *
+ * @returns The result; undefined if the operation is not defined for the
+ * operands (e.g. incommensurable units); null if no operand is a quantity
+ */
+export function quantityArithmetic(
+  operator: string,
+  left: unknown,
+  right: unknown,
+): FhirPathQuantity | TemporalValue | undefined | null {
+  const leftQuantity = isQuantity(left);
+  const rightQuantity = isQuantity(right);
+  if (!leftQuantity && !rightQuantity) return null;
+
+  if (operator === "+" || operator === "-") {
+    const sign = operator === "-" ? -1 : 1;
+    if (rightQuantity) {
+      const date = asTemporal(left);
+      if (date) return addDuration(date, right, sign);
+    }
+    if (!leftQuantity || !rightQuantity) return undefined;
+    const converted = convertQuantity(right, unitOf(left));
+    if (!converted) return undefined;
+    return { value: left.value + sign * converted.value, unit: unitOf(left) };
+  }
+
+  if (operator === "*" || operator === "/") {
+    const leftValue = leftQuantity ? left.value : left;
+    const rightValue = rightQuantity ? right.value : right;
+    if (typeof leftValue !== "number" || typeof rightValue !== "number") return undefined;
+    const leftUnit = leftQuantity ? toUcumUnit(unitOf(left)) : "1";
+    const rightUnit = rightQuantity ? toUcumUnit(unitOf(right)) : "1";
+    if (operator === "*") {
+      return { value: leftValue * rightValue, unit: combineUnits(leftUnit, rightUnit, ".") };
+    }
+    if (rightValue === 0) return undefined;
+    return { value: leftValue / rightValue, unit: combineUnits(leftUnit, rightUnit, "/") };
+  }
+
+  return null;
+}
+
+/**
+ * Build the unit of a product or quotient of two quantities
+ */
+function combineUnits(a: string, b: string, operator: "." | "/"): string {
+  if (b === "1") return a;
+  if (operator === "/" && a === b) return "1";
+  const right = /[./]/.test(b) ? `(${b})` : b;
+  if (a === "1") return operator === "." ? b : `/${right}`;
+  return `${a}${operator}${right}`;
+}
@@ -0,0 +1,70 @@
+/**
+ * Shared Subexpressions
+ *
+ * Expressions that are evaluated together against the same resource (e.g.
+ * the SearchParameters of a resource type) often start with the same
+ * navigation: Observation.code.coding, (Observation.value as Quantity).
+ * Such paths only depend on the input resource, so a batch evaluation
+ * computes them once and shares the result between its expressions.
+ */
+
+import type {
+  ASTNode,
+  IdentifierNode,
+  MemberAccessNode,
+  MethodCallNode,
+  ParenNode,
+  TypeOpNode,
+  TypeSpecifierNode,
+} from "../parser/ast.ts";
+
+const keys = new WeakMap<ASTNode, string | null>();
+
+/**
+ * A structural key for navigation paths from the input: identifiers, member
+ * access, parentheses, `as` and ofType(). Equal paths of different
+ * expressions have equal keys; other nodes have none.
+ */
+export function rootPathKey(node: ASTNode): string | undefined {
+  let key = keys.get(node);
+  if (key === undefined) {
+    key = computeKey(node);
+    keys.set(node, key);
+  }
+  return key ?? undefined;
+}
+
+function computeKey(node: ASTNode): string | null {
+  switch (node.type) {
+    case "Identifier":
+      return (node as IdentifierNode).name;
+    case "MemberAccess": {
+      const { object, member } = node as MemberAccessNode;
+      const base = rootPathKey(object);
+      return base !== undefined ? `${base}.${member.name}` : null;
+    }
+    case "Paren": {
+      const inner = rootPathKey((node as ParenNode).expression);
+      return inner !== undefined ? `(${inner})` : null;
+    }
+    case "TypeOp": {
+      const { operator, expression, targetType } = node as TypeOpNode;
+      const base = rootPathKey(expression);
+      return operator === "as" && base !== undefined ? `${base} as ${typeKey(targetType)}` : null;
+    }
+    case "MethodCall": {
+      const { object, method, arguments: args } = node as MethodCallNode;
+      if ((method.name !== "ofType" && method.name !== "as") || args.length !== 1) return null;
+      const base = rootPathKey(object);
+      // Type names are parsed as identifiers (Quantity) or member access (FHIR.Quantity)
+      const type = args[0].type === "TypeSpecifier" ? typeKey(args[0] as TypeSpecifierNode) : rootPathKey(args[0]);
+      return base !== undefined && type !== undefined ? `${base}.${method.name}(${type})` : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function typeKey(type: TypeSpecifierNode): string {
+  return type.namespace ? `${type.namespace}.${type.typeName}` : type.typeName;
+}
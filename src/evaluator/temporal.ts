@@ -0,0 +1,582 @@
+/**
+ * FHIRPath Date, DateTime and Time Values
+ *
+ * Temporal values produced by date/time literals, toDate(), toDateTime(),
+ * toTime(), today(), now() and timeOfDay(). A value keeps the precision it
+ * was written with and its timezone offset, so that equality, equivalence
+ * and ordering can follow the FHIRPath rules for partial dates:
+ * comparing values of differing precision is empty when the result cannot
+ * be determined (e.g. @2024-01 < @2024-01-15).
+ */
+
+/**
+ * Precision of a temporal value, from coarsest to finest
+ */
+export type TemporalPrecision =
+  | "year"
+  | "month"
+  | "day"
+  | "hour"
+  | "minute"
+  | "second"
+  | "millisecond";
+
+/** Temporal precisions in order; a value's precisionIndex points into this list */
+export const TEMPORAL_PRECISIONS: readonly TemporalPrecision[] = [
+  "year", "month", "day", "hour", "minute", "second", "millisecond",
+];
+
+const YEAR = 0;
+const DAY = 2;
+const HOUR = 3;
+const SECOND = 5;
+const MILLISECOND = 6;
+
+const DATE_REGEX = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+const DATETIME_REGEX =
+  /^(\d{4})(?:-(\d{2})(?:-(\d{2})(?:T(?:(\d{2})(?::(\d{2})(?::(\d{2})(?:\.(\d+))?)?)?(Z|[+-]\d{2}:\d{2})?)?)?)?)?T?$/;
+const TIME_REGEX = /^T?(\d{2})(?::(\d{2})(?::(\d{2})(?:\.(\d+))?)?)?$/;
+
+/** Upper bounds of the month, day, hour, minute and second components */
+const MAX_VALUES = [9999, 12, 31, 23, 59, 59, 999];
+
+/**
+ * Base class of Date, DateTime and Time values.
+ *
+ * Components are stored from year to millisecond; components below the
+ * precision (and the date components of a Time) are 0.
+ */
+export abstract class TemporalValue {
+  abstract readonly kind: "Date" | "DateTime" | "Time";
+
+  constructor(
+    /** year, month, day, hour, minute, second, millisecond */
+    readonly fields: readonly number[],
+    /** Index of the finest specified component in TEMPORAL_PRECISIONS */
+    readonly precisionIndex: number,
+    /** Timezone offset in minutes, if specified */
+    readonly timezoneOffset?: number,
+    /** Original text, used as the string form of the value */
+    protected readonly text?: string,
+  ) {}
+
+  /** Index of the coarsest component of this kind of value */
+  abstract get startIndex(): number;
+
+  get precision(): TemporalPrecision {
+    return TEMPORAL_PRECISIONS[this.precisionIndex];
+  }
+
+  toString(): string {
+    return this.text ?? this.format();
+  }
+
+  /**
+   * Serialize as the string form so that JSON-based comparisons
+   * (distinct, union, ...) and results handed to callers use the text
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+
+  protected abstract format(): string;
+}
+
+/**
+ * A FHIRPath Date (year, month or day precision)
+ */
+export class FhirPathDate extends TemporalValue {
+  readonly kind = "Date";
+
+  get startIndex(): number {
+    return YEAR;
+  }
+
+  protected format(): string {
+    return formatDate(this.fields, this.precisionIndex);
+  }
+}
+
+/**
+ * A FHIRPath DateTime (year to millisecond precision, optional timezone)
+ */
+export class FhirPathDateTime extends TemporalValue {
+  readonly kind = "DateTime";
+
+  get startIndex(): number {
+    return YEAR;
+  }
+
+  protected format(): string {
+    const date = formatDate(this.fields, Math.min(this.precisionIndex, DAY));
+    if (this.precisionIndex < HOUR) return date;
+    return `${date}T${formatTime(this.fields, this.precisionIndex)}${formatOffset(this.timezoneOffset)}`;
+  }
+}
+
+/**
+ * A FHIRPath Time (hour to millisecond precision)
+ */
+export class FhirPathTime extends TemporalValue {
+  readonly kind = "Time";
+
+  get startIndex(): number {
+    return HOUR;
+  }
+
+  protected format(): string {
+    return formatTime(this.fields, this.precisionIndex);
+  }
+}
+
+// ============================================================
+// Parsing
+// ============================================================
+
+/**
+ * Returns true if the value is a Date, DateTime or Time
+ */
+export function isTemporal(value: unknown): value is TemporalValue {
+  return value instanceof TemporalValue;
+}
+
+/**
+ * Parse a Date (YYYY, YYYY-MM or YYYY-MM-DD)
+ */
+export function parseDate(text: string): FhirPathDate | undefined {
+  const match = DATE_REGEX.exec(text);
+  if (!match) return undefined;
+  const parsed = toFields(match.slice(1, 4), 0);
+  return parsed && new FhirPathDate(parsed.fields, parsed.precision, undefined, text);
+}
+
+/**
+ * Parse a DateTime. Partial values (YYYY, YYYY-MM, ...) are allowed,
+ * a time part requires a full date; a trailing "T" is ignored.
+ */
+export function parseDateTime(text: string): FhirPathDateTime | undefined {
+  const match = DATETIME_REGEX.exec(text);
+  if (!match) return undefined;
+  const parsed = toFields(match.slice(1, 7), 0, match[7]);
+  if (!parsed) return undefined;
+  const offset = match[8] !== undefined ? parseOffset(match[8]) : undefined;
+  if (offset === null) return undefined;
+  return new FhirPathDateTime(parsed.fields, parsed.precision, offset, text.replace(/T$/, ""));
+}
+
+/**
+ * Parse a Time (hh, hh:mm, hh:mm:ss or hh:mm:ss.fff, optionally prefixed with "T")
+ */
+export function parseTime(text: string): FhirPathTime | undefined {
+  const match = TIME_REGEX.exec(text);
+  if (!match) return undefined;
+  const parsed = toFields(match.slice(1, 4), HOUR, match[4]);
+  return parsed && new FhirPathTime(parsed.fields, parsed.precision, undefined, text.replace(/^T/, ""));
+}
+
+/**
+ * Create a DateTime from a JavaScript Date in the local timezone
+ */
+export function dateTimeFromJSDate(date: Date, precision: TemporalPrecision = "millisecond"): FhirPathDateTime {
+  return new FhirPathDateTime(
+    [
+      date.getFullYear(), date.getMonth() + 1, date.getDate(),
+      date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds(),
+    ],
+    TEMPORAL_PRECISIONS.indexOf(precision),
+    -date.getTimezoneOffset(),
+  );
+}
+
+/**
+ * Create a Time from the local time of a JavaScript Date
+ */
+export function timeFromJSDate(date: Date): FhirPathTime {
+  return new FhirPathTime(
+    [0, 0, 0, date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()],
+    MILLISECOND,
+  );
+}
+
+/**
+ * Convert a DateTime-like value to a Date, truncating the time part
+ */
+export function toDateValue(value: TemporalValue): FhirPathDate | undefined {
+  if (value instanceof FhirPathDate) return value;
+  if (!(value instanceof FhirPathDateTime)) return undefined;
+  const precision = Math.min(value.precisionIndex, DAY);
+  return new FhirPathDate(truncate(value.fields, precision), precision);
+}
+
+/**
+ * Convert a Date-like value to a DateTime of the same precision
+ */
+export function toDateTimeValue(value: TemporalValue): FhirPathDateTime | undefined {
+  if (value instanceof FhirPathDateTime) return value;
+  if (!(value instanceof FhirPathDate)) return undefined;
+  return new FhirPathDateTime(value.fields, value.precisionIndex);
+}
+
+/**
+ * Convert a Time-like value to a Time
+ */
+export function toTimeValue(value: TemporalValue): FhirPathTime | undefined {
+  return value instanceof FhirPathTime ? value : undefined;
+}
+
+/**
+ * Interpret a value as a temporal value of the same kind as another one,
+ * so that strings from FHIR data can be compared with temporal literals.
+ * Date-like strings are read as DateTime, which is comparable with Date.
+ */
+export function coerceTemporal(value: unknown, like: TemporalValue): TemporalValue | undefined {
+  if (value instanceof TemporalValue) return value;
+  if (typeof value !== "string") return undefined;
+  return like.kind === "Time" ? parseTime(value) : parseDateTime(value);
+}
+
+function toFields(
+  parts: (string | undefined)[],
+  start: number,
+  fraction?: string,
+): { fields: number[]; precision: number } | undefined {
+  const fields = [0, 0, 0, 0, 0, 0, 0];
+  let precision = start - 1;
+  for (let i = 0; i < parts.length && parts[i] !== undefined; i++) {
+    const index = start + i;
+    const value = parseInt(parts[i]!, 10);
+    const min = index === 1 || index === 2 ? 1 : 0;
+    if (value < min || value > MAX_VALUES[index]) return undefined;
+    fields[index] = value;
+    precision = index;
+  }
+  if (fraction !== undefined) {
+    fields[MILLISECOND] = parseInt(fraction.slice(0, 3).padEnd(3, "0"), 10);
+    precision = MILLISECOND;
+  }
+  if (precision >= DAY && start === 0 && fields[2] > daysInMonth(fields[0], fields[1])) {
+    return undefined;
+  }
+  return { fields, precision };
+}
+
+function parseOffset(text: string): number | null {
+  if (text === "Z") return 0;
+  const hours = parseInt(text.slice(1, 3), 10);
+  const minutes = parseInt(text.slice(4, 6), 10);
+  if (hours > 14 || minutes > 59) return null;
+  const offset = hours * 60 + minutes;
+  return text[0] === "-" ? -offset : offset;
+}
+
+/**
+ * Number of days in a month of a year
+ */
+export function daysInMonth(year: number, month: number): number {
+  return [31, isLeapYear(year) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][month - 1];
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+function truncate(fields: readonly number[], precision: number): number[] {
+  return fields.map((value, i) => (i <= precision ? value : 0));
+}
+
+// ============================================================
+// Formatting
+// ============================================================
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+function formatDate(fields: readonly number[], precision: number): string {
+  let result = pad(fields[0], 4);
+  if (precision >= 1) result += `-${pad(fields[1])}`;
+  if (precision >= 2) result += `-${pad(fields[2])}`;
+  return result;
+}
+
+function formatTime(fields: readonly number[], precision: number): string {
+  let result = pad(fields[3]);
+  if (precision >= 4) result += `:${pad(fields[4])}`;
+  if (precision >= 5) result += `:${pad(fields[5])}`;
+  if (precision >= 6) result += `.${pad(fields[6], 3)}`;
+  return result;
+}
+
+function formatOffset(offset: number | undefined): string {
+  if (offset === undefined) return "";
+  if (offset === 0) return "Z";
+  const abs = Math.abs(offset);
+  return `${offset < 0 ? "-" : "+"}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+// ============================================================
+// Comparison
+// ============================================================
+
+/**
+ * Returns true if two temporal values can be compared
+ * (Date with DateTime, Time with Time)
+ */
+function comparableKinds(a: TemporalValue, b: TemporalValue): boolean {
+  return (a.kind === "Time") === (b.kind === "Time");
+}
+
+/**
+ * Components used for comparison, normalized to UTC when a timezone applies.
+ * Seconds and milliseconds form a single component, so that 10:00:00 equals 10:00:00.000.
+ */
+function comparisonComponents(value: TemporalValue, otherHasOffset: boolean): number[] {
+  let fields = value.fields;
+  const precision = value.precisionIndex;
+  if (value.kind === "DateTime" && precision >= HOUR) {
+    const offset = value.timezoneOffset ?? (otherHasOffset ? localOffset(fields) : undefined);
+    if (offset) fields = shiftMinutes(fields, -offset);
+  }
+  const end = Math.min(precision, SECOND);
+  const components = fields.slice(value.startIndex, end + 1);
+  if (precision >= SECOND) {
+    components[components.length - 1] = fields[SECOND] * 1000 + fields[MILLISECOND];
+  }
+  return components;
+}
+
+function localOffset(fields: readonly number[]): number {
+  return -new Date(fields[0], fields[1] - 1, fields[2], fields[3], fields[4]).getTimezoneOffset();
+}
+
+function shiftMinutes(fields: readonly number[], minutes: number): number[] {
+  return fromEpochMillis(toEpochMillis(fields) + minutes * 60_000);
+}
+
+/**
+ * Milliseconds since the epoch of the components, read as UTC
+ */
+function toEpochMillis(fields: readonly number[]): number {
+  const date = new Date(0);
+  date.setUTCFullYear(fields[0], fields[1] - 1, fields[2]);
+  date.setUTCHours(fields[3], fields[4], fields[5], fields[6]);
+  return date.getTime();
+}
+
+function fromEpochMillis(millis: number): number[] {
+  const date = new Date(millis);
+  return [
+    date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(),
+    date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds(), date.getUTCMilliseconds(),
+  ];
+}
+
+function compareComponents(a: TemporalValue, b: TemporalValue): { order: number; samePrecision: boolean } {
+  const left = comparisonComponents(a, b.timezoneOffset !== undefined);
+  const right = comparisonComponents(b, a.timezoneOffset !== undefined);
+  const length = Math.min(left.length, right.length);
+  for (let i = 0; i < length; i++) {
+    if (left[i] !== right[i]) {
+      return { order: left[i] < right[i] ? -1 : 1, samePrecision: left.length === right.length };
+    }
+  }
+  return { order: 0, samePrecision: left.length === right.length };
+}
+
+/**
+ * Order two temporal values.
+ * Returns undefined if the values are not comparable or if the order
+ * cannot be determined because of differing precisions.
+ */
+export function compareTemporal(a: TemporalValue, b: TemporalValue): number | undefined {
+  if (!comparableKinds(a, b)) return undefined;
+  const { order, samePrecision } = compareComponents(a, b);
+  if (order === 0 && !samePrecision) return undefined;
+  return order;
+}
+
+/**
+ * FHIRPath equality (=) of temporal values.
+ * Returns undefined (empty) if equality cannot be determined.
+ */
+export function temporalEquals(a: TemporalValue, b: TemporalValue): boolean | undefined {
+  if (!comparableKinds(a, b)) return false;
+  const order = compareTemporal(a, b);
+  return order === undefined ? undefined : order === 0;
+}
+
+/**
+ * FHIRPath equivalence (~) of temporal values.
+ * Values of differing precision are not equivalent.
+ */
+export function temporalEquivalent(a: TemporalValue, b: TemporalValue): boolean {
+  if (!comparableKinds(a, b)) return false;
+  const { order, samePrecision } = compareComponents(a, b);
+  return order === 0 && samePrecision;
+}
+
+// ============================================================
+// Arithmetic
+// ============================================================
+
+/**
+ * Time-valued quantity units: calendar duration keywords and UCUM codes
+ */
+const DURATION_UNITS: Record<string, TemporalPrecision | "week"> = {
+  year: "year", years: "year", a: "year",
+  month: "month", months: "month", mo: "month",
+  week: "week", weeks: "week", wk: "week",
+  day: "day", days: "day", d: "day",
+  hour: "hour", hours: "hour", h: "hour",
+  minute: "minute", minutes: "minute", min: "minute",
+  second: "second", seconds: "second", s: "second",
+  millisecond: "millisecond", milliseconds: "millisecond", ms: "millisecond",
+};
+
+/**
+ * Length of the duration units in milliseconds, used to convert a quantity
+ * to a coarser unit (a year counts as 365 days, a month as 30 days)
+ */
+const UNIT_MILLIS = [365 * 86_400_000, 30 * 86_400_000, 86_400_000, 3_600_000, 60_000, 1000, 1];
+
+/**
+ * A quantity added to or subtracted from a date/time
+ */
+export interface DurationQuantity {
+  value: number;
+  unit?: string;
+  code?: string;
+}
+
+/**
+ * Read an arithmetic operand as a date/time value.
+ * Strings (e.g. dates in FHIR data without a model) are read as DateTime or Time.
+ */
+export function asTemporal(value: unknown): TemporalValue | undefined {
+  if (value instanceof TemporalValue) return value;
+  if (typeof value !== "string") return undefined;
+  return parseDateTime(value) ?? parseTime(value);
+}
+
+/**
+ * Add a time-valued quantity to a date/time (sign -1 subtracts it).
+ *
+ * Follows the FHIRPath rules: the result keeps the precision of the input,
+ * a quantity finer than that precision is converted to it and truncated
+ * (@2014 + 24 months = @2016), the decimal portion is ignored above seconds,
+ * month and year arithmetic clamps to the last day of the month
+ * (@2024-01-31 + 1 month = @2024-02-29) and Time values wrap around midnight.
+ *
+ * @returns The result, or undefined if the quantity is not a duration that
+ * applies to the value or the result is out of range
+ */
+export function addDuration(value: TemporalValue, quantity: DurationQuantity, sign = 1): TemporalValue | undefined {
+  const code = quantity.code ?? quantity.unit ?? "";
+  const unit = Object.hasOwn(DURATION_UNITS, code) ? DURATION_UNITS[code] : undefined;
+  if (!unit || typeof quantity.value !== "number") return undefined;
+
+  let amount = quantity.value * sign;
+  let index: number;
+  if (unit === "week") {
+    amount *= 7;
+    index = DAY;
+  } else {
+    index = TEMPORAL_PRECISIONS.indexOf(unit);
+  }
+  if (value.kind === "Time" && index < HOUR) return undefined;
+
+  // A quantity finer than the value is converted to the value's precision
+  const precision = value.precisionIndex;
+  if (index > precision) {
+    amount = index <= 1 && precision === YEAR
+      ? amount / 12
+      : amount * UNIT_MILLIS[index] / UNIT_MILLIS[precision];
+    index = precision;
+  } else if (index === SECOND && precision === MILLISECOND) {
+    amount *= 1000;
+    index = MILLISECOND;
+  }
+  amount = Math.trunc(amount);
+
+  let fields: number[];
+  if (index <= 1) {
+    const months = toMonths(value.fields) + (index === YEAR ? amount * 12 : amount);
+    fields = [...value.fields];
+    fields[0] = Math.floor(months / 12);
+    fields[1] = (months % 12 + 12) % 12 + 1;
+    if (precision >= DAY) {
+      fields[2] = Math.min(fields[2], daysInMonth(fields[0], fields[1]));
+    }
+  } else if (value.kind === "Time") {
+    const dayMillis = UNIT_MILLIS[DAY];
+    const millis = toEpochMillis([1970, 1, 1, ...value.fields.slice(HOUR)]) + amount * UNIT_MILLIS[index];
+    fields = [0, 0, 0, ...fromEpochMillis((millis % dayMillis + dayMillis) % dayMillis).slice(HOUR)];
+  } else {
+    fields = fromEpochMillis(toEpochMillis(value.fields) + amount * UNIT_MILLIS[index]);
+  }
+
+  if (value.kind !== "Time" && (fields[0] < 1 || fields[0] > 9999)) return undefined;
+  return withFields(value, truncate(fields, precision));
+}
+
+function toMonths(fields: readonly number[]): number {
+  return fields[0] * 12 + Math.max(fields[1], 1) - 1;
+}
+
+function withFields(value: TemporalValue, fields: number[]): TemporalValue {
+  if (value instanceof FhirPathDate) return new FhirPathDate(fields, value.precisionIndex);
+  if (value instanceof FhirPathTime) return new FhirPathTime(fields, value.precisionIndex);
+  return new FhirPathDateTime(fields, value.precisionIndex, value.timezoneOffset);
+}
+
+// ============================================================
+// Precision and boundaries
+// ============================================================
+
+/** Number of digits of a value at each precision, from year to millisecond */
+const PRECISION_DIGITS = [4, 6, 8, 10, 12, 14, 17];
+
+/** Time digits are counted from the hour */
+const TIME_DIGIT_OFFSET = PRECISION_DIGITS[DAY];
+
+/**
+ * The number of digits of precision of a value (@2014 is 4,
+ * @2014-01-05T10:30:00.000 is 17, @T10:30 is 4)
+ */
+export function temporalPrecision(value: TemporalValue): number {
+  const digits = PRECISION_DIGITS[value.precisionIndex];
+  return value.kind === "Time" ? digits - TIME_DIGIT_OFFSET : digits;
+}
+
+/**
+ * The least (low) or greatest (high) possible value of a date/time at the
+ * given precision in digits: @2014.lowBoundary(6) = @2014-01 and
+ * @2014-02.highBoundary(8) = @2014-02-28. The precision defaults to the
+ * finest precision of the kind of value; the timezone is kept as specified.
+ *
+ * @returns The boundary, or undefined if the precision is not valid for the kind of value
+ */
+export function temporalBoundary(
+  value: TemporalValue,
+  boundary: "low" | "high",
+  precision?: number,
+): TemporalValue | undefined {
+  const offset = value.kind === "Time" ? TIME_DIGIT_OFFSET : 0;
+  const last = value.kind === "Date" ? DAY : MILLISECOND;
+  const digits = precision ?? PRECISION_DIGITS[last] - offset;
+  const index = PRECISION_DIGITS.indexOf(digits + offset);
+  if (index < value.startIndex || index > last) return undefined;
+
+  const fields = [...value.fields];
+  for (let i = value.precisionIndex + 1; i <= index; i++) {
+    if (boundary === "low") {
+      fields[i] = i <= DAY ? 1 : 0;
+    } else {
+      fields[i] = i === DAY ? daysInMonth(fields[0], fields[1]) : MAX_VALUES[i];
+    }
+  }
+  const truncated = truncate(fields, index);
+  if (value instanceof FhirPathDate) return new FhirPathDate(truncated, index);
+  if (value instanceof FhirPathTime) return new FhirPathTime(truncated, index);
+  return new FhirPathDateTime(truncated, index, value.timezoneOffset);
+}
@@ -4,9 +4,11 @@
  * Types for the native FHIRPath evaluator.
  */
 
-import type { Model } from "../types.ts";
+import type { EvaluationLimits, EvaluationMode, Model } from "../types.ts";
 import type { ITerminologyService, TerminologiesProxy } from "../terminology/mod.ts";
 import type { ITypeFactory } from "../factory/mod.ts";
+import { isTemporal } from "./temporal.ts";
+import { isDecimal } from "./decimal.ts";
 
 /**
  * A FHIRPath collection is always an array (can be empty)
@@ -65,6 +67,19 @@ export interface EvaluatorOptions {
   async?: boolean | "always";
   /** Reference resolver for resolve() function */
   referenceResolver?: IReferenceResolver;
+  /** Return Date, DateTime and Time values as strings (default: true) */
+  resolveInternalTypes?: boolean;
+  /**
+   * Return navigated elements as ResourceNodes, so that they keep their model
+   * type when they are the input of another evaluation (default: false)
+   */
+  keepNodes?: boolean;
+  /** Limits of the evaluation (see EvaluationLimitError) */
+  limits?: EvaluationLimits;
+  /** Abort signal, polled during the evaluation */
+  signal?: AbortSignal;
+  /** Semantics of operators and criteria (default: "lenient") */
+  mode?: EvaluationMode;
 }
 
 /**
@@ -195,10 +210,10 @@ export interface TupleTypeInfo extends TypeInfo {
 /**
  * Create a SimpleTypeInfo
  */
-export function createSimpleTypeInfo(name: string, baseType = "System.Any"): SimpleTypeInfo {
+export function createSimpleTypeInfo(name: string, baseType = "System.Any", namespace = "System"): SimpleTypeInfo {
   return {
     _typeInfo: true,
-    namespace: "System",
+    namespace,
     name,
     baseType,
   };
@@ -254,17 +269,10 @@ export function getTypeInfo(value: unknown): TypeInfo {
   if (typeof value === "boolean") {
     return createSimpleTypeInfo("Boolean");
   }
+  if (isTemporal(value) || isDecimal(value)) {
+    return createSimpleTypeInfo(value.kind);
+  }
   if (typeof value === "string") {
-    // Check if it's a date/time string
-    if (/^\d{4}(-\d{2}(-\d{2})?)?$/.test(value)) {
-      return createSimpleTypeInfo("Date");
-    }
-    if (/^\d{4}-\d{2}-\d{2}T/.test(value)) {
-      return createSimpleTypeInfo("DateTime");
-    }
-    if (/^\d{2}:\d{2}(:\d{2})?/.test(value)) {
-      return createSimpleTypeInfo("Time");
-    }
     return createSimpleTypeInfo("String");
   }
   if (typeof value === "number") {
@@ -316,6 +324,7 @@ function getTypeString(value: unknown): string {
     return "System.Any";
   }
   if (typeof value === "boolean") return "System.Boolean";
+  if (isTemporal(value) || isDecimal(value)) return `System.${value.kind}`;
   if (typeof value === "string") return "System.String";
   if (typeof value === "number") {
     return Number.isInteger(value) ? "System.Integer" : "System.Decimal";
@@ -26,26 +26,41 @@ import type {
   EmptySetNode,
   ParenNode,
 } from "../parser/ast.ts";
+import { isCheckedMode } from "../evaluator/functions.ts";
+import { rootPathKey } from "../evaluator/shared.ts";
+import { typeSpecifierOf } from "../evaluator/invocation.ts";
+import { parseDecimal } from "../evaluator/decimal.ts";
+import { EvaluatorError } from "../evaluator/errors.ts";
+import type { EvaluationMode } from "../types.ts";
+import {
+  compiledBatch,
+  compiledFunction,
+  type CompiledFhirPath,
+  type CompiledFhirPathBatch,
+  type Fallback,
+  type GeneratedCode,
+  type GeneratedFunction,
+  type JITOptions,
+  RUNTIME_HELPERS,
+} from "./runtime.ts";
+
+export type { CompiledFhirPath, CompiledFhirPathBatch, JITOptions };
 
 /**
- * Compiled FHIRPath function type
+ * Options of a module compiled ahead of time (see compileModule())
  */
-export type CompiledFhirPath<T = unknown> = (
-  resource: unknown,
-  context?: Record<string, unknown>,
-  options?: JITOptions
-) => T[];
-
-/**
- * JIT compilation options
- */
-export interface JITOptions {
-  /** Enable debug mode with generated code output */
-  debug?: boolean;
-  /** Strict type checking (slower but safer) */
-  strict?: boolean;
-  /** Enable optimizations for known patterns */
-  optimize?: boolean;
+export interface ModuleOptions {
+  /** Semantics of operators and criteria (default: "lenient") */
+  mode?: EvaluationMode;
+  /**
+   * Evaluate nodes the JIT does not compile with the interpreter of the
+   * runtime (default: true); false throws for them when compiling
+   */
+  fallback?: boolean;
+  /** Compile code that checks the limits and signal passed to each call */
+  guarded?: boolean;
+  /** Import specifier of the runtime (default: "@atollee/fhirpath/jit/runtime") */
+  runtime?: string;
 }
 
 /**
@@ -104,91 +119,309 @@ function hashAST(node: ASTNode): string {
   return (hash >>> 0).toString(16);
 }
 
+/** Options that only shape the generated code, so that compiled functions can be shared */
+const CODE_OPTIONS = new Set(["debug", "strict", "optimize", "mode", "fallback"]);
+
+/** Functions of single items, whose input FhirPathEvaluator requires to be a singleton */
+const SINGLETON_FUNCTIONS = new Set([
+  "single", "indexOf", "substring", "startsWith", "endsWith", "contains", "upper", "lower", "replace", "matches",
+  "replaceMatches", "length", "toChars", "split", "trim", "encode", "decode", "abs", "ceiling", "floor", "round",
+  "truncate", "exp", "ln", "log", "power", "sqrt", "lowBoundary", "highBoundary", "precision", "comparable",
+  "toInteger", "toDecimal", "toString", "toBoolean", "toDate", "toDateTime", "toTime", "toQuantity", "not",
+]);
+
 /**
- * Shared runtime helpers - created once, passed to all JIT functions
- * This avoids re-creating helper functions in every generated function body
+ * Cache key prefix of the options compiled into the code: the evaluation
+ * mode, the fallback and the names of user-defined functions
  */
-const RUNTIME_HELPERS = {
-  /** Convert value to array */
-  toArray: (v: unknown): unknown[] => v == null ? [] : Array.isArray(v) ? v : [v],
-  
-  /** Flatten nested arrays */
-  flatten: (arr: unknown[][]): unknown[] => arr.flat(),
-  
-  /** Deep equality check without JSON.stringify */
-  equals: (a: unknown, b: unknown): boolean => {
-    if (a === b) return true;
-    if (a == null || b == null) return false;
-    if (typeof a !== typeof b) return false;
-    if (typeof a !== 'object') return false;
-    
-    if (Array.isArray(a)) {
-      if (!Array.isArray(b) || a.length !== b.length) return false;
-      for (let i = 0; i < a.length; i++) {
-        if (!RUNTIME_HELPERS.equals(a[i], b[i])) return false;
-      }
+function variantKey(options: JITOptions): string {
+  const userFunctions = Object.keys(options.userInvocationTable ?? {}).sort();
+  return (isCheckedMode(options.mode) ? `${options.mode}:` : "") + (options.fallback === false ? "compiled:" : "") +
+    (userFunctions.length > 0 ? `user(${userFunctions.join(",")}):` : "");
+}
+
+/**
+ * Whether an expression defines variables with defineVariable()
+ */
+function definesVariables(node: ASTNode): boolean {
+  const stack: unknown[] = [node];
+  while (stack.length > 0) {
+    const item = stack.pop();
+    if (item === null || typeof item !== "object") continue;
+    if (Array.isArray(item)) {
+      stack.push(...item);
+      continue;
+    }
+    const call = item as { type?: string; method?: IdentifierNode; function?: IdentifierNode };
+    if (
+      (call.type === "MethodCall" && call.method?.name === "defineVariable") ||
+      (call.type === "FunctionCall" && call.function?.name === "defineVariable")
+    ) {
       return true;
     }
-    
-    if (Array.isArray(b)) return false;
-    
-    const aKeys = Object.keys(a);
-    const bKeys = Object.keys(b as object);
-    if (aKeys.length !== bKeys.length) return false;
-    
-    for (const key of aKeys) {
-      if (!(key in (b as object))) return false;
-      if (!RUNTIME_HELPERS.equals((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])) return false;
+    stack.push(...Object.values(item));
+  }
+  return false;
+}
+
+/**
+ * Whether expressions navigate to the id or extensions of elements
+ */
+function usesElements(nodes: ASTNode[]): boolean {
+  const stack: unknown[] = [...nodes];
+  while (stack.length > 0) {
+    const item = stack.pop();
+    if (item === null || typeof item !== "object") continue;
+    if (Array.isArray(item)) {
+      stack.push(...item);
+      continue;
     }
-    return true;
-  },
-  
-  /** Compare two values */
-  compare: (a: unknown, b: unknown): number => {
-    if (a === b) return 0;
-    if ((a as number) < (b as number)) return -1;
-    return 1;
-  },
-};
+    const node = item as { type?: string; name?: string; member?: IdentifierNode; method?: IdentifierNode; function?: IdentifierNode };
+    const name = node.type === "Identifier" ? node.name : node.member?.name ?? node.method?.name ?? node.function?.name;
+    if (name === "extension" || name === "id" || name === "hasExtension") return true;
+    stack.push(...Object.values(item));
+  }
+  return false;
+}
+
+/**
+ * Whether the arguments of a function call use $index or $total where the
+ * generated code does not declare them (only where() declares $index and
+ * aggregate() $index and $total)
+ */
+function usesUndeclaredScope(
+  call: MethodCallNode | FunctionCallNode,
+  scope: { index: boolean; total: boolean },
+): boolean {
+  const declaredArgs = (node: MethodCallNode | FunctionCallNode) => {
+    const name = node.type === "MethodCall" ? node.method.name : node.function.name;
+    return name === "where" ? node.arguments : name === "aggregate" ? node.arguments.slice(0, 1) : [];
+  };
+  const stack: unknown[] = call.arguments.filter(arg => !declaredArgs(call).includes(arg));
+  while (stack.length > 0) {
+    const item = stack.pop();
+    if (item === null || typeof item !== "object") continue;
+    if (Array.isArray(item)) {
+      stack.push(...item);
+      continue;
+    }
+    const node = item as ASTNode;
+    if ((node.type === "Index" && !scope.index) || (node.type === "Total" && !scope.total)) return true;
+    if (node.type === "MethodCall" || node.type === "FunctionCall") {
+      const declared = declaredArgs(node as MethodCallNode | FunctionCallNode);
+      stack.push(...Object.entries(node).flatMap(([key, value]) =>
+        key === "arguments" ? (value as ASTNode[]).filter(arg => !declared.includes(arg)) : [value]
+      ));
+      continue;
+    }
+    stack.push(...Object.values(item));
+  }
+  return false;
+}
 
 /**
  * JIT Compiler for FHIRPath expressions
  */
 export class FhirPathJIT {
   private cache = new Map<string, CompiledFhirPath>();
+  private generatedCache = new Map<string, GeneratedCode>();
+  private guardedCache = new Map<string, GeneratedCode>();
+  private batchCache = new Map<string, GeneratedCode>();
   private varCounter = 0;
-
-  /**
-   * Compile a FHIRPath AST to a native JavaScript function
+  /** Whether the generated code checks evaluation limits */
+  private guarded = false;
+  /** Paths from the resource generated once for a batch, by rootPathKey() */
+  private shared?: { lines: string[]; vars: Map<string, string> };
+  /** Nodes of the generated code left to the interpreter */
+  private fallbacks: Fallback[] = [];
+  /** The expression being generated */
+  private root?: ASTNode;
+  /** Whether $index and $total are declared where code is generated */
+  private scope = { index: false, total: false };
+  /** Whether the expression being generated has variables of defineVariable() ($v) */
+  private variables = false;
+
+  /**
+   * Compile a FHIRPath AST to a native JavaScript function.
+   * Nodes the JIT does not compile are evaluated by the interpreter.
    */
   compile<T = unknown>(ast: ASTNode, options: JITOptions = {}): CompiledFhirPath<T> {
+    if (options.limits || options.signal) {
+      return this.compileGuarded<T>(ast, options);
+    }
+
     // Use fast hash instead of JSON.stringify
-    const cacheKey = hashAST(ast);
+    const cacheKey = variantKey(options) + hashAST(ast);
     
+    // Functions compiled with evaluation options (userInvocationTable, ...) are not shared
+    const shareable = Object.keys(options).every(key => CODE_OPTIONS.has(key));
     const cached = this.cache.get(cacheKey);
-    if (cached) {
+    if (cached && shareable) {
       return cached as CompiledFhirPath<T>;
     }
 
-    this.varCounter = 0;
-    const code = this.generateFunction(ast, options);
+    const generated = this.generate(this.generatedCache, cacheKey, options, false, () =>
+      this.generateFunction(ast, options)
+    );
+    const fn = compiledFunction<T>(generated, options, false, () => this.generateGuarded(ast, options));
     
+    if (shareable) this.cache.set(cacheKey, fn);
+    return fn;
+  }
+
+  /**
+   * Compile with checks of the evaluation limits. The generated code reports
+   * its progress to an EvaluationGuard ($g) created for each call, with the
+   * limits and signal of the call or else of the compilation.
+   */
+  private compileGuarded<T>(ast: ASTNode, options: JITOptions): CompiledFhirPath<T> {
+    return compiledFunction<T>(this.generateGuarded(ast, options), options, true);
+  }
+
+  /**
+   * Generate the code of compileGuarded(), also for calls with limits or a
+   * signal of functions compiled without them
+   */
+  private generateGuarded(ast: ASTNode, options: JITOptions): GeneratedCode {
+    const cacheKey = `guarded:${variantKey(options)}${hashAST(ast)}`;
+    return this.generate(this.guardedCache, cacheKey, options, true, () => this.generateFunction(ast, options));
+  }
+
+  /**
+   * Compile several FHIRPath ASTs to one fused function. Navigation paths
+   * from the resource that the expressions have in common are computed once.
+   */
+  compileBatch<T = unknown>(asts: Record<string, ASTNode>, options: JITOptions = {}): CompiledFhirPathBatch<T> {
+    const keys = Object.keys(asts);
+    const guarded = options.limits !== undefined || options.signal !== undefined;
+    const cacheKey = variantKey(options) + keys.map(key => `${JSON.stringify(key)}:${hashAST(asts[key])}`).join(",");
+    const generate = (guardedCode: boolean) =>
+      this.generate(this.batchCache, (guardedCode ? "guarded:" : "") + cacheKey, options, guardedCode, () =>
+        this.generateBatch(asts, options)
+      );
+
+    return compiledBatch<T>(generate(guarded), keys, options, guarded, () => generate(true));
+  }
+
+  /**
+   * Compile FHIRPath ASTs ahead of time to the source of an ES module. Its
+   * default export holds a compiled function per key; it imports the runtime
+   * instead of the compiler and creates no functions with eval or new Function.
+   */
+  compileModule(asts: Record<string, ASTNode>, options: ModuleOptions = {}): string {
+    const { runtime = "@atollee/fhirpath/jit/runtime", guarded = false, ...compileOptions } = options;
+    const lines = [
+      "// FHIRPath expressions compiled ahead of time by @atollee/fhirpath. Do not edit.",
+      `import { compiledFunction } from ${JSON.stringify(runtime)};`,
+      "",
+      `const compileOptions = ${JSON.stringify(compileOptions)};`,
+      "",
+      "export default {",
+    ];
+    for (const [key, ast] of Object.entries(asts)) {
+      const { code, fallbacks } = this.generateCode(compileOptions, guarded, () =>
+        this.generateFunction(ast, compileOptions)
+      );
+      const interpreted = fallbacks.map(({ node }) => `{ node: ${JSON.stringify(node)}, root: ast }`);
+      lines.push(
+        `  ${JSON.stringify(key)}: ((ast) => compiledFunction({`,
+        `    fn: function (resource, context, options, $rt, $g, $fb) {`,
+        code,
+        `    },`,
+        `    fallbacks: [${interpreted.join(", ")}],`,
+        `  }, compileOptions, ${guarded}))(${fallbacks.length > 0 ? JSON.stringify(ast) : "undefined"}),`,
+      );
+    }
+    lines.push("};", "");
+    return lines.join("\n");
+  }
+
+  /**
+   * Generate the function body of a batch
+   */
+  private generateBatch(asts: Record<string, ASTNode>, options: JITOptions): string {
+    this.shared = { lines: [], vars: new Map() };
+    try {
+      const lines: string[] = [];
+      const shared = this.shared;
+      for (const key of Object.keys(asts)) {
+        this.root = asts[key];
+        this.variables = definesVariables(asts[key]);
+        if (!this.variables) {
+          const resultVar = this.generateNode(asts[key], "resource", lines, options);
+          lines.push(`$results[${JSON.stringify(key)}] = toArray(${resultVar});`);
+          continue;
+        }
+        // Variables could shadow paths from the resource, which are not shared then
+        this.shared = undefined;
+        lines.push(`{`, `const $v = new Map();`);
+        const resultVar = this.generateNode(asts[key], "resource", lines, options);
+        lines.push(`$results[${JSON.stringify(key)}] = toArray(${resultVar});`, `}`);
+        this.shared = shared;
+      }
+      return [
+        "const {toArray, flatten, equals, compare} = $rt;",
+        "const $results = {};",
+        ...shared.lines,
+        ...lines,
+        "return $results;",
+      ].join("\n");
+    } finally {
+      this.shared = undefined;
+    }
+  }
+
+  /**
+   * Generated code from a cache, or else generate it with the function body of generateBody()
+   */
+  private generate(
+    cache: Map<string, GeneratedCode>,
+    cacheKey: string,
+    options: JITOptions,
+    guarded: boolean,
+    generateBody: () => string,
+  ): GeneratedCode {
+    const cached = cache.get(cacheKey);
+    if (cached) return cached;
+
+    const { code, fallbacks } = this.generateCode(options, guarded, generateBody);
+
+    // Create the function with shared runtime helpers ($rt), the guard ($g) and the interpreter ($fb)
+    const generated = {
+      fn: new Function("resource", "context", "options", "$rt", "$g", "$fb", code) as GeneratedFunction,
+      fallbacks,
+    };
+    cache.set(cacheKey, generated);
+    return generated;
+  }
+
+  /**
+   * Generate the function body of generateBody(), with the nodes it leaves to the interpreter
+   */
+  private generateCode(
+    options: JITOptions,
+    guarded: boolean,
+    generateBody: () => string,
+  ): { code: string; fallbacks: Fallback[] } {
+    this.varCounter = 0;
+    this.guarded = guarded;
+    this.fallbacks = [];
+    this.scope = { index: false, total: false };
+    let code: string;
+    try {
+      code = generateBody();
+    } finally {
+      this.guarded = false;
+      this.root = undefined;
+      this.variables = false;
+    }
+
     if (options.debug) {
       // Debug output for generated JIT code - only when explicitly requested
       // deno-lint-ignore no-console
       console.log("Generated JIT code:\n", code);
     }
-
-    // Create the function with shared runtime helpers
-    const innerFn = new Function("resource", "context", "options", "$rt", code);
-    
-    // Wrap to inject runtime helpers
-    const fn = ((resource: unknown, context?: Record<string, unknown>, opts?: JITOptions) => 
-      innerFn(resource, context, opts, RUNTIME_HELPERS)
-    ) as CompiledFhirPath<T>;
-    
-    this.cache.set(cacheKey, fn);
-    return fn;
+    return { code, fallbacks: this.fallbacks };
   }
 
   /**
@@ -196,6 +429,9 @@ export class FhirPathJIT {
    */
   clearCache(): void {
     this.cache.clear();
+    this.generatedCache.clear();
+    this.guardedCache.clear();
+    this.batchCache.clear();
   }
 
   /**
@@ -210,7 +446,10 @@ export class FhirPathJIT {
 const {toArray, flatten, equals, compare} = $rt;
 `);
 
-    // Generate the expression code
+    // Generate the expression code, with the variables of defineVariable() of this evaluation
+    this.root = ast;
+    this.variables = definesVariables(ast);
+    if (this.variables) lines.push(`const $v = new Map();`);
     const resultVar = this.generateNode(ast, "resource", lines, options);
     
     // Return as array
@@ -234,6 +473,45 @@ const {toArray, flatten, equals, compare} = $rt;
     inputVar: string,
     lines: string[],
     options: JITOptions
+  ): string {
+    // In a batch, paths from the resource are hoisted and generated once
+    if (this.shared && inputVar === "resource") {
+      const key = rootPathKey(node);
+      if (key !== undefined) {
+        let resultVar = this.shared.vars.get(key);
+        if (!resultVar) {
+          resultVar = this.generateGuardedNode(node, inputVar, this.shared.lines, options);
+          this.shared.vars.set(key, resultVar);
+        }
+        return resultVar;
+      }
+    }
+    return this.generateGuardedNode(node, inputVar, lines, options);
+  }
+
+  /**
+   * Generate code for an AST node, reporting it to the EvaluationGuard ($g) in guarded code
+   */
+  private generateGuardedNode(
+    node: ASTNode,
+    inputVar: string,
+    lines: string[],
+    options: JITOptions
+  ): string {
+    if (!this.guarded) {
+      return this.generateNodeType(node, inputVar, lines, options);
+    }
+    lines.push(`$g.enter();`);
+    const resultVar = this.generateNodeType(node, inputVar, lines, options);
+    lines.push(`$g.leave(${resultVar});`);
+    return resultVar;
+  }
+
+  private generateNodeType(
+    node: ASTNode,
+    inputVar: string,
+    lines: string[],
+    options: JITOptions
   ): string {
     switch (node.type) {
       case "Expression":
@@ -243,6 +521,16 @@ const {toArray, flatten, equals, compare} = $rt;
         return this.generateLiteral(node as LiteralNode);
 
       case "Identifier":
+        if (this.variables) {
+          // A variable of defineVariable() shadows the identifier, as in the interpreter
+          const name = JSON.stringify((node as IdentifierNode).name);
+          return this.generateBranch(
+            `$v.has(${name})`,
+            lines,
+            () => `$rt.unwrapAll($v.get(${name}))`,
+            (navigationLines) => this.generateIdentifier(node as IdentifierNode, inputVar, navigationLines),
+          );
+        }
         return this.generateIdentifier(node as IdentifierNode, inputVar, lines);
 
       case "MemberAccess":
@@ -270,10 +558,10 @@ const {toArray, flatten, equals, compare} = $rt;
         return inputVar;
 
       case "Index":
-        return "$$index";
+        return this.scope.index ? "$$index" : this.generateScopeFallback(node, inputVar, lines, options);
 
       case "Total":
-        return "$$total";
+        return this.scope.total ? "$$total" : this.generateScopeFallback(node, inputVar, lines, options);
 
       case "EnvVariable":
         return this.generateEnvVariable(node as EnvVariableNode);
@@ -285,7 +573,8 @@ const {toArray, flatten, equals, compare} = $rt;
         return this.generateNode((node as ParenNode).expression, inputVar, lines, options);
 
       default:
-        throw new Error(`JIT: Unsupported node type: ${node.type}`);
+        if (options.fallback === false) throw new Error(`JIT: Unsupported node type: ${node.type}`);
+        return this.generateFallback(node, inputVar, lines);
     }
   }
 
@@ -298,6 +587,13 @@ const {toArray, flatten, equals, compare} = $rt;
         return JSON.stringify(node.value);
       case "number":
         return String(node.value);
+      case "decimal": {
+        const text = String(node.value);
+        if (!parseDecimal(text)) {
+          throw this.invalidLiteral(`Invalid decimal literal: ${text}`, node);
+        }
+        return `$rt.parseDecimal(${JSON.stringify(text)})`;
+      }
       case "boolean":
         return String(node.value);
       case "null":
@@ -306,13 +602,30 @@ const {toArray, flatten, equals, compare} = $rt;
         return `{ value: ${node.value}, unit: ${JSON.stringify(node.unit)} }`;
       case "date":
       case "time":
-      case "datetime":
-        return JSON.stringify(node.value);
+      case "datetime": {
+        const text = String(node.value);
+        const parser = node.literalType === "time"
+          ? "parseTime"
+          : node.literalType === "date" ? "parseDate" : "parseDateTime";
+        if (!RUNTIME_HELPERS[parser](text)) {
+          throw this.invalidLiteral(`Invalid ${node.literalType} literal: @${text}`, node);
+        }
+        return `$rt.${parser}(${JSON.stringify(text)})`;
+      }
       default:
         return JSON.stringify(node.value);
     }
   }
 
+  /**
+   * The error of an invalid literal, as the interpreter reports it
+   */
+  private invalidLiteral(message: string, node: LiteralNode): EvaluatorError {
+    const error = new EvaluatorError(message, "invalid-literal", { node });
+    error.expression = (this.root as ExpressionNode | undefined)?.source;
+    return error;
+  }
+
   /**
    * Generate identifier (property access on input)
    */
@@ -325,10 +638,25 @@ const {toArray, flatten, equals, compare} = $rt;
       return resultVar;
     }
 
+    // A type name selects matching resources (e.g. "Patient" in Patient.name);
+    // without a model only the resource type itself and Resource/DomainResource match
+    const typeFilter = /^[A-Z]/.test(node.name)
+      ? `
+  if (input.some(item => typeof item?.resourceType === 'string')) {
+    return input.filter(item => typeof item?.resourceType === 'string' && (${
+        node.name === "Resource"
+          ? "true"
+          : node.name === "DomainResource"
+          ? "!['Bundle', 'Binary', 'Parameters'].includes(item.resourceType)"
+          : `item.resourceType === ${JSON.stringify(node.name)}`
+      }));
+  }`
+      : "";
+
     // General property access with collection handling
     lines.push(`
 const ${resultVar} = (() => {
-  const input = toArray(${inputVar});
+  const input = toArray(${inputVar});${typeFilter}
   const results = [];
   for (const item of input) {
     if (item != null && typeof item === 'object') {
@@ -357,12 +685,22 @@ const ${resultVar} = (() => {
     lines: string[],
     options: JITOptions
   ): string {
+    // The id and extensions of primitives are in their "_element" sibling
+    if ((node.member.name === "extension" || node.member.name === "id") && this.fromChildren(node.object)) {
+      return this.generateElementFallback(node, inputVar, lines, options);
+    }
+    if ((node.member.name === "extension" || node.member.name === "id") && this.propertyName(node.object)) {
+      const holdersVar = this.generateElementHolders(node.object, undefined, inputVar, lines, options);
+      return this.generateIdentifier(node.member, holdersVar, lines);
+    }
     const objectVar = this.generateNode(node.object, inputVar, lines, options);
     return this.generateIdentifier(node.member, objectVar, lines);
   }
 
   /**
-   * Generate method call: expr.method(args)
+   * Generate method call: expr.method(args). As in the interpreter, a
+   * user-defined function comes first, then a method of an environment
+   * object (e.g. %factory.Coding()), then the built-in function.
    */
   private generateMethodCall(
     node: MethodCallNode,
@@ -370,9 +708,43 @@ const ${resultVar} = (() => {
     lines: string[],
     options: JITOptions
   ): string {
+    const elementFunction = node.method.name === "extension" || node.method.name === "hasExtension";
+    if ((elementFunction || usesElements(node.arguments)) && this.fromChildren(node.object)) {
+      return this.generateElementFallback(node, inputVar, lines, options);
+    }
     const objectVar = this.generateNode(node.object, inputVar, lines, options);
+    if (usesUndeclaredScope(node, this.scope)) {
+      return this.generateScopeFallback(node, inputVar, lines, options, `toArray(${objectVar})`);
+    }
+    const generateBuiltin = (callLines: string[]) =>
+      this.generateBuiltinMethodCall(node, objectVar, inputVar, callLines, options);
+    const generateCall = node.object.type === "EnvVariable"
+      ? (callLines: string[]) => this.generateObjectMethodCall(node, objectVar, inputVar, callLines, options, generateBuiltin)
+      : generateBuiltin;
+
+    // Built-in functions are only overridden by user-defined functions known when compiling
+    if (options.userInvocationTable?.[node.method.name]) {
+      return this.generateUserFunctionCall(node, objectVar, inputVar, lines, options, generateCall);
+    }
+    return generateCall(lines);
+  }
+
+  /**
+   * Generate a call of a built-in function as a method
+   */
+  private generateBuiltinMethodCall(
+    node: MethodCallNode,
+    objectVar: string,
+    inputVar: string,
+    lines: string[],
+    options: JITOptions
+  ): string {
     const methodName = node.method.name;
 
+    if (isCheckedMode(options.mode) && SINGLETON_FUNCTIONS.has(methodName)) {
+      lines.push(`$rt.singletonInput(toArray(${objectVar}), ${JSON.stringify(methodName)});`);
+    }
+
     switch (methodName) {
       case "where":
         return this.generateWhere(node, objectVar, inputVar, lines, options);
@@ -482,17 +854,25 @@ const ${resultVar} = (() => {
         return this.generateSupersetOf(node, objectVar, inputVar, lines, options);
       // Math functions
       case "abs":
-        return this.generateMathSingle(objectVar, lines, "abs", "Math.abs");
+        return this.generateMathSingle(objectVar, lines, "abs", "$rt.abs");
       case "ceiling":
-        return this.generateMathSingle(objectVar, lines, "ceil", "Math.ceil");
+        return this.generateMathSingle(objectVar, lines, "ceil", "$rt.ceiling");
       case "floor":
-        return this.generateMathSingle(objectVar, lines, "floor", "Math.floor");
+        return this.generateMathSingle(objectVar, lines, "floor", "$rt.floor");
       case "round":
         return this.generateRound(node, objectVar, inputVar, lines, options);
       case "truncate":
-        return this.generateMathSingle(objectVar, lines, "trunc", "Math.trunc");
+        return this.generateMathSingle(objectVar, lines, "trunc", "$rt.truncate");
       case "sqrt":
         return this.generateMathSingle(objectVar, lines, "sqrt", "Math.sqrt");
+      // Precision and boundaries
+      case "lowBoundary":
+      case "highBoundary":
+        return this.generateBoundary(node, objectVar, inputVar, lines, options);
+      case "precision":
+        return this.generatePrecision(objectVar, lines);
+      case "comparable":
+        return this.generateComparable(node, objectVar, inputVar, lines, options);
       case "exp":
         return this.generateMathSingle(objectVar, lines, "exp", "Math.exp");
       case "ln":
@@ -575,11 +955,24 @@ const ${resultVar} = (() => {
       case "timeOfDay":
         return this.generateTimeOfDay(lines);
       default:
-        // Fall back to runtime for complex/uncommon methods
-        return this.generateRuntimeMethodCall(node, objectVar, inputVar, lines, options);
+        return this.generateUncompiledCall(node, objectVar, inputVar, lines, options);
     }
   }
 
+  /**
+   * Condition that a where(), exists(), all() or iif() criterion holds.
+   * Checked evaluation modes decide with the runtime (see criterionHolds()).
+   */
+  private criterion(resultVar: string, name: string, options: JITOptions): string {
+    if (!isCheckedMode(options.mode)) {
+      return `${resultVar}.length === 1 && ${resultVar}[0] === true`;
+    }
+    const mode = JSON.stringify(options.mode);
+    return name === "iif"
+      ? `$rt.iifCondition(${resultVar}, ${mode})`
+      : `$rt.criterionHolds(${resultVar}, ${JSON.stringify(name)}, ${mode})`;
+  }
+
   /**
    * Generate where() filter
    */
@@ -606,10 +999,13 @@ const ${resultVar} = (() => {
     lines.push(`  const $$index = ${indexVar}++;`);
     
     // Generate the predicate
+    const scope = this.scope;
+    this.scope = { ...scope, index: true };
     const predicateVar = this.generateNode(node.arguments[0], itemVar, lines, options);
+    this.scope = scope;
     
     lines.push(`  const predResult = toArray(${predicateVar});`);
-    lines.push(`  if (predResult.length === 1 && predResult[0] === true) {`);
+    lines.push(`  if (${this.criterion("predResult", "where", options)}) {`);
     lines.push(`    ${resultVar}.push(${itemVar});`);
     lines.push(`  }`);
     lines.push(`}`);
@@ -732,7 +1128,7 @@ const ${resultVar} = (() => {
       const predicateVar = this.generateNode(node.arguments[0], itemVar, lines, options);
       
       lines.push(`  const predResult = toArray(${predicateVar});`);
-      lines.push(`  if (predResult.length === 1 && predResult[0] === true) {`);
+      lines.push(`  if (${this.criterion("predResult", "exists", options)}) {`);
       lines.push(`    ${resultVar} = true;`);
       lines.push(`    break;`);
       lines.push(`  }`);
@@ -764,7 +1160,7 @@ const ${resultVar} = (() => {
       const predicateVar = this.generateNode(node.arguments[0], itemVar, lines, options);
       
       lines.push(`  const predResult = toArray(${predicateVar});`);
-      lines.push(`  if (predResult.length !== 1 || predResult[0] !== true) {`);
+      lines.push(`  if (!(${this.criterion("predResult", "all", options)})) {`);
       lines.push(`    ${resultVar} = false;`);
       lines.push(`    break;`);
       lines.push(`  }`);
@@ -808,7 +1204,7 @@ const ${resultVar} = (() => {
    */
   private generateDistinct(objectVar: string, lines: string[]): string {
     const resultVar = this.newVar("distinct");
-    lines.push(`const ${resultVar} = [...new Set(toArray(${objectVar}).map(x => JSON.stringify(x)))].map(x => JSON.parse(x));`);
+    lines.push(`const ${resultVar} = $rt.distinct(toArray(${objectVar}));`);
     return resultVar;
   }
 
@@ -856,7 +1252,7 @@ const ${resultVar} = (() => {
       : "[]";
 
     lines.push(`const ${resultVar}_cond = toArray(${conditionVar});`);
-    lines.push(`const ${resultVar} = ${resultVar}_cond.length === 1 && ${resultVar}_cond[0] === true ? ${trueVar} : ${falseVar};`);
+    lines.push(`const ${resultVar} = ${this.criterion(`${resultVar}_cond`, "iif", options)} ? ${trueVar} : ${falseVar};`);
     
     return resultVar;
   }
@@ -893,6 +1289,7 @@ const ${resultVar} = (() => {
         return x.resourceType === ${JSON.stringify(typeName)} || x.resourceType === ${JSON.stringify(simpleTypeName)};
       }
       // Check primitive types
+      if ($rt.isDecimal(x)) return x.kind === ${JSON.stringify(typeName)};
       const jsType = typeof x;
       const typeMap = { 'string': ['String'], 'number': ['Integer', 'Decimal', 'Number'], 'boolean': ['Boolean'] };
       return (typeMap[jsType] || []).includes(${JSON.stringify(typeName)});
@@ -907,7 +1304,7 @@ const ${resultVar} = (() => {
   private generateToString(objectVar: string, lines: string[]): string {
     const resultVar = this.newVar("str");
     lines.push(`const ${resultVar}_arr = toArray(${objectVar});`);
-    lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 ? String(${resultVar}_arr[0]) : undefined;`);
+    lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 ? $rt.toStringValue(${resultVar}_arr[0]) : undefined;`);
     return resultVar;
   }
 
@@ -917,8 +1314,7 @@ const ${resultVar} = (() => {
   private generateToInteger(objectVar: string, lines: string[]): string {
     const resultVar = this.newVar("int");
     lines.push(`const ${resultVar}_arr = toArray(${objectVar});`);
-    lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 ? parseInt(${resultVar}_arr[0], 10) : undefined;`);
-    lines.push(`if (isNaN(${resultVar})) ${resultVar} = undefined;`);
+    lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 ? $rt.toInteger(${resultVar}_arr[0]) : undefined;`);
     return resultVar;
   }
 
@@ -928,8 +1324,7 @@ const ${resultVar} = (() => {
   private generateToDecimal(objectVar: string, lines: string[]): string {
     const resultVar = this.newVar("dec");
     lines.push(`const ${resultVar}_arr = toArray(${objectVar});`);
-    lines.push(`let ${resultVar} = ${resultVar}_arr.length === 1 ? parseFloat(${resultVar}_arr[0]) : undefined;`);
-    lines.push(`if (isNaN(${resultVar})) ${resultVar} = undefined;`);
+    lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 ? $rt.toDecimal(${resultVar}_arr[0]) : undefined;`);
     return resultVar;
   }
 
@@ -1204,15 +1599,7 @@ const ${resultVar} = (() => {
 
     const otherVar = this.generateNode(node.arguments[0], inputVar, lines, options);
     
-    lines.push(`const ${resultVar}_set = new Set();`);
-    lines.push(`const ${resultVar} = [];`);
-    lines.push(`for (const x of [...toArray(${objectVar}), ...toArray(${otherVar})]) {`);
-    lines.push(`  const key = JSON.stringify(x);`);
-    lines.push(`  if (!${resultVar}_set.has(key)) {`);
-    lines.push(`    ${resultVar}_set.add(key);`);
-    lines.push(`    ${resultVar}.push(x);`);
-    lines.push(`  }`);
-    lines.push(`}`);
+    lines.push(`const ${resultVar} = $rt.distinct([...toArray(${objectVar}), ...toArray(${otherVar})]);`);
     
     return resultVar;
   }
@@ -1319,6 +1706,7 @@ const ${resultVar} = (() => {
     lines.push(`  if (${resultVar}_seen.has(${itemVar}_key)) continue;`);
     lines.push(`  ${resultVar}_seen.add(${itemVar}_key);`);
     lines.push(`  ${resultVar}.push(${itemVar});`);
+    if (this.guarded) lines.push(`  $g.size(${resultVar}.length);`);
     
     const projectionVar = this.generateNode(node.arguments[0], itemVar, lines, options);
     
@@ -1333,20 +1721,7 @@ const ${resultVar} = (() => {
    */
   private generateChildren(objectVar: string, lines: string[]): string {
     const resultVar = this.newVar("children");
-    
-    lines.push(`const ${resultVar} = [];`);
-    lines.push(`for (const item of toArray(${objectVar})) {`);
-    lines.push(`  if (item != null && typeof item === 'object') {`);
-    lines.push(`    for (const key of Object.keys(item)) {`);
-    lines.push(`      const val = item[key];`);
-    lines.push(`      if (val != null) {`);
-    lines.push(`        if (Array.isArray(val)) ${resultVar}.push(...val);`);
-    lines.push(`        else ${resultVar}.push(val);`);
-    lines.push(`      }`);
-    lines.push(`    }`);
-    lines.push(`  }`);
-    lines.push(`}`);
-    
+    lines.push(`const ${resultVar} = $rt.children(toArray(${objectVar}));`);
     return resultVar;
   }
 
@@ -1355,27 +1730,7 @@ const ${resultVar} = (() => {
    */
   private generateDescendants(objectVar: string, lines: string[]): string {
     const resultVar = this.newVar("desc");
-    
-    lines.push(`const ${resultVar} = [];`);
-    lines.push(`const ${resultVar}_queue = [...toArray(${objectVar})];`);
-    lines.push(`while (${resultVar}_queue.length > 0) {`);
-    lines.push(`  const item = ${resultVar}_queue.shift();`);
-    lines.push(`  if (item != null && typeof item === 'object') {`);
-    lines.push(`    for (const key of Object.keys(item)) {`);
-    lines.push(`      const val = item[key];`);
-    lines.push(`      if (val != null) {`);
-    lines.push(`        if (Array.isArray(val)) {`);
-    lines.push(`          ${resultVar}.push(...val);`);
-    lines.push(`          ${resultVar}_queue.push(...val);`);
-    lines.push(`        } else {`);
-    lines.push(`          ${resultVar}.push(val);`);
-    lines.push(`          ${resultVar}_queue.push(val);`);
-    lines.push(`        }`);
-    lines.push(`      }`);
-    lines.push(`    }`);
-    lines.push(`  }`);
-    lines.push(`}`);
-    
+    lines.push(`const ${resultVar} = $rt.descendants(toArray(${objectVar})${this.guarded ? ", $g" : ""});`);
     return resultVar;
   }
 
@@ -1388,8 +1743,8 @@ const ${resultVar} = (() => {
    */
   private generateSum(objectVar: string, lines: string[]): string {
     const resultVar = this.newVar("sum");
-    lines.push(`const ${resultVar}_arr = toArray(${objectVar}).filter(x => typeof x === 'number');`);
-    lines.push(`const ${resultVar} = ${resultVar}_arr.length > 0 ? ${resultVar}_arr.reduce((a, b) => a + b, 0) : undefined;`);
+    lines.push(`const ${resultVar}_arr = toArray(${objectVar}).filter(x => $rt.isNumeric(x));`);
+    lines.push(`const ${resultVar} = $rt.sum(${resultVar}_arr);`);
     return resultVar;
   }
 
@@ -1398,14 +1753,7 @@ const ${resultVar} = (() => {
    */
   private generateMin(objectVar: string, lines: string[]): string {
     const resultVar = this.newVar("min");
-    lines.push(`const ${resultVar}_arr = toArray(${objectVar});`);
-    lines.push(`let ${resultVar} = undefined;`);
-    lines.push(`if (${resultVar}_arr.length > 0) {`);
-    lines.push(`  ${resultVar} = ${resultVar}_arr[0];`);
-    lines.push(`  for (let i = 1; i < ${resultVar}_arr.length; i++) {`);
-    lines.push(`    if (${resultVar}_arr[i] < ${resultVar}) ${resultVar} = ${resultVar}_arr[i];`);
-    lines.push(`  }`);
-    lines.push(`}`);
+    lines.push(`const ${resultVar} = $rt.min(toArray(${objectVar}));`);
     return resultVar;
   }
 
@@ -1414,14 +1762,7 @@ const ${resultVar} = (() => {
    */
   private generateMax(objectVar: string, lines: string[]): string {
     const resultVar = this.newVar("max");
-    lines.push(`const ${resultVar}_arr = toArray(${objectVar});`);
-    lines.push(`let ${resultVar} = undefined;`);
-    lines.push(`if (${resultVar}_arr.length > 0) {`);
-    lines.push(`  ${resultVar} = ${resultVar}_arr[0];`);
-    lines.push(`  for (let i = 1; i < ${resultVar}_arr.length; i++) {`);
-    lines.push(`    if (${resultVar}_arr[i] > ${resultVar}) ${resultVar} = ${resultVar}_arr[i];`);
-    lines.push(`  }`);
-    lines.push(`}`);
+    lines.push(`const ${resultVar} = $rt.max(toArray(${objectVar}));`);
     return resultVar;
   }
 
@@ -1430,8 +1771,8 @@ const ${resultVar} = (() => {
    */
   private generateAvg(objectVar: string, lines: string[]): string {
     const resultVar = this.newVar("avg");
-    lines.push(`const ${resultVar}_arr = toArray(${objectVar}).filter(x => typeof x === 'number');`);
-    lines.push(`const ${resultVar} = ${resultVar}_arr.length > 0 ? ${resultVar}_arr.reduce((a, b) => a + b, 0) / ${resultVar}_arr.length : undefined;`);
+    lines.push(`const ${resultVar}_arr = toArray(${objectVar}).filter(x => $rt.isNumeric(x));`);
+    lines.push(`const ${resultVar} = $rt.avg(${resultVar}_arr);`);
     return resultVar;
   }
 
@@ -1484,9 +1825,7 @@ const ${resultVar} = (() => {
    */
   private generateIsDistinct(objectVar: string, lines: string[]): string {
     const resultVar = this.newVar("isDistinct");
-    lines.push(`const ${resultVar}_arr = toArray(${objectVar});`);
-    lines.push(`const ${resultVar}_set = new Set(${resultVar}_arr.map(x => JSON.stringify(x)));`);
-    lines.push(`const ${resultVar} = ${resultVar}_set.size === ${resultVar}_arr.length;`);
+    lines.push(`const ${resultVar} = $rt.isDistinct(toArray(${objectVar}));`);
     return resultVar;
   }
 
@@ -1550,7 +1889,7 @@ const ${resultVar} = (() => {
   private generateMathSingle(objectVar: string, lines: string[], name: string, jsFunc: string): string {
     const resultVar = this.newVar(name);
     lines.push(`const ${resultVar}_arr = toArray(${objectVar});`);
-    lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 && typeof ${resultVar}_arr[0] === 'number' ? ${jsFunc}(${resultVar}_arr[0]) : undefined;`);
+    lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 && $rt.isNumeric(${resultVar}_arr[0]) ? ${jsFunc}(${resultVar}_arr[0]) : undefined;`);
     return resultVar;
   }
 
@@ -1570,16 +1909,73 @@ const ${resultVar} = (() => {
     
     if (node.arguments.length > 0) {
       const precisionVar = this.generateNode(node.arguments[0], inputVar, lines, options);
-      lines.push(`const ${resultVar}_prec = toArray(${precisionVar})[0] || 0;`);
-      lines.push(`const ${resultVar}_factor = Math.pow(10, ${resultVar}_prec);`);
-      lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 && typeof ${resultVar}_arr[0] === 'number' ? Math.round(${resultVar}_arr[0] * ${resultVar}_factor) / ${resultVar}_factor : undefined;`);
+      lines.push(`const ${resultVar}_prec = Number(toArray(${precisionVar})[0] || 0);`);
+      lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 && $rt.isNumeric(${resultVar}_arr[0]) ? $rt.round(${resultVar}_arr[0], ${resultVar}_prec) : undefined;`);
     } else {
-      lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 && typeof ${resultVar}_arr[0] === 'number' ? Math.round(${resultVar}_arr[0]) : undefined;`);
+      lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 && $rt.isNumeric(${resultVar}_arr[0]) ? $rt.round(${resultVar}_arr[0]) : undefined;`);
     }
     
     return resultVar;
   }
 
+  /**
+   * Generate lowBoundary() / highBoundary() with optional precision
+   */
+  private generateBoundary(
+    node: MethodCallNode,
+    objectVar: string,
+    inputVar: string,
+    lines: string[],
+    options: JITOptions
+  ): string {
+    const name = node.method.name;
+    const resultVar = this.newVar(name);
+    
+    lines.push(`const ${resultVar}_arr = toArray(${objectVar});`);
+    
+    if (node.arguments.length > 0) {
+      const precisionVar = this.generateNode(node.arguments[0], inputVar, lines, options);
+      lines.push(`const ${resultVar}_prec = toArray(${precisionVar})[0];`);
+      lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 && typeof ${resultVar}_prec === 'number' ? $rt.${name}(${resultVar}_arr[0], ${resultVar}_prec) : undefined;`);
+    } else {
+      lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 ? $rt.${name}(${resultVar}_arr[0]) : undefined;`);
+    }
+    
+    return resultVar;
+  }
+
+  /**
+   * Generate precision()
+   */
+  private generatePrecision(objectVar: string, lines: string[]): string {
+    const resultVar = this.newVar("precision");
+    
+    lines.push(`const ${resultVar}_arr = toArray(${objectVar});`);
+    lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 ? $rt.precision(${resultVar}_arr[0]) : undefined;`);
+    
+    return resultVar;
+  }
+
+  /**
+   * Generate comparable()
+   */
+  private generateComparable(
+    node: MethodCallNode,
+    objectVar: string,
+    inputVar: string,
+    lines: string[],
+    options: JITOptions
+  ): string {
+    const resultVar = this.newVar("comparable");
+    const otherVar = this.generateNode(node.arguments[0], inputVar, lines, options);
+    
+    lines.push(`const ${resultVar}_arr = toArray(${objectVar});`);
+    lines.push(`const ${resultVar}_other = toArray(${otherVar});`);
+    lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 && ${resultVar}_other.length === 1 ? $rt.comparable(${resultVar}_arr[0], ${resultVar}_other[0]) : undefined;`);
+    
+    return resultVar;
+  }
+
   /**
    * Generate log() with base
    */
@@ -1597,9 +1993,9 @@ const ${resultVar} = (() => {
     if (node.arguments.length > 0) {
       const baseVar = this.generateNode(node.arguments[0], inputVar, lines, options);
       lines.push(`const ${resultVar}_base = toArray(${baseVar})[0];`);
-      lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 && typeof ${resultVar}_arr[0] === 'number' && typeof ${resultVar}_base === 'number' ? Math.log(${resultVar}_arr[0]) / Math.log(${resultVar}_base) : undefined;`);
+      lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 && $rt.isNumeric(${resultVar}_arr[0]) && $rt.isNumeric(${resultVar}_base) ? Math.log(Number(${resultVar}_arr[0])) / Math.log(Number(${resultVar}_base)) : undefined;`);
     } else {
-      lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 && typeof ${resultVar}_arr[0] === 'number' ? Math.log10(${resultVar}_arr[0]) : undefined;`);
+      lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 && $rt.isNumeric(${resultVar}_arr[0]) ? Math.log10(Number(${resultVar}_arr[0])) : undefined;`);
     }
     
     return resultVar;
@@ -1626,7 +2022,7 @@ const ${resultVar} = (() => {
     
     lines.push(`const ${resultVar}_arr = toArray(${objectVar});`);
     lines.push(`const ${resultVar}_exp = toArray(${expVar})[0];`);
-    lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 && typeof ${resultVar}_arr[0] === 'number' && typeof ${resultVar}_exp === 'number' ? Math.pow(${resultVar}_arr[0], ${resultVar}_exp) : undefined;`);
+    lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 && $rt.isNumeric(${resultVar}_arr[0]) && $rt.isNumeric(${resultVar}_exp) ? Math.pow(Number(${resultVar}_arr[0]), Number(${resultVar}_exp)) : undefined;`);
     
     return resultVar;
   }
@@ -1689,10 +2085,7 @@ const ${resultVar} = (() => {
     lines.push(`let ${resultVar} = undefined;`);
     lines.push(`if (${resultVar}_arr.length === 1) {`);
     lines.push(`  const v = ${resultVar}_arr[0];`);
-    lines.push(`  if (typeof v === 'string') {`);
-    lines.push(`    const match = v.match(/^(\\d{4})(-\\d{2})?(-\\d{2})?/);`);
-    lines.push(`    if (match) ${resultVar} = match[0];`);
-    lines.push(`  }`);
+    lines.push(`  ${resultVar} = $rt.toDate(v);`);
     lines.push(`}`);
     return resultVar;
   }
@@ -1706,10 +2099,7 @@ const ${resultVar} = (() => {
     lines.push(`let ${resultVar} = undefined;`);
     lines.push(`if (${resultVar}_arr.length === 1) {`);
     lines.push(`  const v = ${resultVar}_arr[0];`);
-    lines.push(`  if (typeof v === 'string') {`);
-    lines.push(`    const d = new Date(v);`);
-    lines.push(`    if (!isNaN(d.getTime())) ${resultVar} = d.toISOString();`);
-    lines.push(`  }`);
+    lines.push(`  ${resultVar} = $rt.toDateTime(v);`);
     lines.push(`}`);
     return resultVar;
   }
@@ -1723,10 +2113,7 @@ const ${resultVar} = (() => {
     lines.push(`let ${resultVar} = undefined;`);
     lines.push(`if (${resultVar}_arr.length === 1) {`);
     lines.push(`  const v = ${resultVar}_arr[0];`);
-    lines.push(`  if (typeof v === 'string') {`);
-    lines.push(`    const match = v.match(/T?(\\d{2}:\\d{2}(:\\d{2})?)/);`);
-    lines.push(`    if (match) ${resultVar} = match[1];`);
-    lines.push(`  }`);
+    lines.push(`  ${resultVar} = $rt.toTime(v);`);
     lines.push(`}`);
     return resultVar;
   }
@@ -1735,6 +2122,83 @@ const ${resultVar} = (() => {
   // FHIR-specific Functions
   // ============================================
 
+  /**
+   * Generate the elements whose id and extensions extension(), hasExtension()
+   * and the navigation to id and extension inspect. When the object is a
+   * property (e.g. name.given), primitive values are merged index by index
+   * with their "_given" sibling, which holds the id and extensions of the
+   * primitive (see pushNodes() of the interpreter).
+   */
+  private generateElementHolders(
+    object: ASTNode,
+    objectVar: string | undefined,
+    inputVar: string,
+    lines: string[],
+    options: JITOptions
+  ): string {
+    const resultVar = this.newVar("holders");
+    const name = this.propertyName(object);
+
+    if (name === undefined) {
+      objectVar ??= this.generateNode(object, inputVar, lines, options);
+      lines.push(`const ${resultVar} = toArray(${objectVar}).filter(item => item != null && typeof item === 'object');`);
+      return resultVar;
+    }
+
+    const parentVar = object.type === "Identifier"
+      ? inputVar
+      : this.generateNode((object as MemberAccessNode).object, inputVar, lines, options);
+
+    lines.push(`const ${resultVar} = [];`);
+    lines.push(`for (const parent of toArray(${parentVar})) {`);
+    lines.push(`  if (parent == null || typeof parent !== 'object') continue;`);
+    lines.push(`  const values = toArray(parent[${JSON.stringify(name)}]);`);
+    lines.push(`  const exts = toArray(parent[${JSON.stringify("_" + name)}]);`);
+    lines.push(`  const count = Math.max(values.length, exts.length);`);
+    lines.push(`  for (let i = 0; i < count; i++) {`);
+    lines.push(`    const holder = values[i] != null && typeof values[i] === 'object' && !$rt.isDecimal(values[i]) ? values[i] : exts[i];`);
+    lines.push(`    if (holder != null && typeof holder === 'object') ${resultVar}.push(holder);`);
+    lines.push(`  }`);
+    lines.push(`}`);
+
+    return resultVar;
+  }
+
+  /**
+   * Whether a node navigates from the result of children() or descendants(),
+   * whose primitives the generated code has without their "_element" sibling
+   */
+  private fromChildren(node: ASTNode): boolean {
+    for (;;) {
+      if (node.type === "FunctionCall") {
+        const name = (node as FunctionCallNode).function.name;
+        return name === "children" || name === "descendants";
+      }
+      if (node.type === "MethodCall") {
+        const name = (node as MethodCallNode).method.name;
+        if (name === "children" || name === "descendants") return true;
+        node = (node as MethodCallNode).object;
+      } else if (node.type === "MemberAccess") {
+        node = (node as MemberAccessNode).object;
+      } else {
+        return false;
+      }
+    }
+  }
+
+  /**
+   * The property a node navigates to from its input, if it is a plain
+   * property: not a type name (e.g. Patient) or a variable of defineVariable()
+   */
+  private propertyName(node: ASTNode): string | undefined {
+    const name = node.type === "Identifier"
+      ? (this.variables ? undefined : (node as IdentifierNode).name)
+      : node.type === "MemberAccess"
+      ? (node as MemberAccessNode).member.name
+      : undefined;
+    return name !== undefined && name !== "resourceType" && !/^[A-Z]/.test(name) ? name : undefined;
+  }
+
   /**
    * Generate extension()
    */
@@ -1746,9 +2210,11 @@ const ${resultVar} = (() => {
     options: JITOptions
   ): string {
     const resultVar = this.newVar("ext");
+    const holdersVar = this.generateElementHolders(node.object, objectVar, inputVar, lines, options);
     
     if (node.arguments.length === 0) {
       lines.push(`const ${resultVar} = [];`);
+      lines.push(`for (const item of ${holdersVar}) ${resultVar}.push(...toArray(item.extension));`);
       return resultVar;
     }
 
@@ -1756,8 +2222,8 @@ const ${resultVar} = (() => {
     
     lines.push(`const ${resultVar}_url = toArray(${urlVar})[0];`);
     lines.push(`const ${resultVar} = [];`);
-    lines.push(`for (const item of toArray(${objectVar})) {`);
-    lines.push(`  if (item?.extension) {`);
+    lines.push(`for (const item of ${holdersVar}) {`);
+    lines.push(`  if (item.extension) {`);
     lines.push(`    for (const ext of toArray(item.extension)) {`);
     lines.push(`      if (ext?.url === ${resultVar}_url) ${resultVar}.push(ext);`);
     lines.push(`    }`);
@@ -1784,12 +2250,13 @@ const ${resultVar} = (() => {
       return resultVar;
     }
 
+    const holdersVar = this.generateElementHolders(node.object, objectVar, inputVar, lines, options);
     const urlVar = this.generateNode(node.arguments[0], inputVar, lines, options);
     
     lines.push(`const ${resultVar}_url = toArray(${urlVar})[0];`);
     lines.push(`let ${resultVar} = false;`);
-    lines.push(`for (const item of toArray(${objectVar})) {`);
-    lines.push(`  if (item?.extension) {`);
+    lines.push(`for (const item of ${holdersVar}) {`);
+    lines.push(`  if (item.extension) {`);
     lines.push(`    for (const ext of toArray(item.extension)) {`);
     lines.push(`      if (ext?.url === ${resultVar}_url) { ${resultVar} = true; break; }`);
     lines.push(`    }`);
@@ -1805,25 +2272,7 @@ const ${resultVar} = (() => {
    */
   private generateGetValue(objectVar: string, lines: string[]): string {
     const resultVar = this.newVar("getValue");
-    const valueProps = ['valueString', 'valueInteger', 'valueDecimal', 'valueBoolean', 
-      'valueDate', 'valueDateTime', 'valueTime', 'valueCode', 'valueCoding', 
-      'valueQuantity', 'valueReference', 'valueIdentifier', 'valueCodeableConcept',
-      'valueUri', 'valueUrl', 'valueCanonical', 'valueBase64Binary', 'valueInstant',
-      'valueOid', 'valueUuid', 'valueId', 'valueMarkdown', 'valueUnsignedInt',
-      'valuePositiveInt', 'valueAddress', 'valueAge', 'valueAnnotation', 
-      'valueAttachment', 'valueContactPoint', 'valueCount', 'valueDistance',
-      'valueDuration', 'valueHumanName', 'valueMoney', 'valuePeriod', 'valueRange',
-      'valueRatio', 'valueSampledData', 'valueSignature', 'valueTiming'];
-    
-    lines.push(`const ${resultVar} = [];`);
-    lines.push(`for (const item of toArray(${objectVar})) {`);
-    lines.push(`  if (item != null && typeof item === 'object') {`);
-    for (const prop of valueProps) {
-      lines.push(`    if (item.${prop} !== undefined) { ${resultVar}.push(item.${prop}); continue; }`);
-    }
-    lines.push(`  }`);
-    lines.push(`}`);
-    
+    lines.push(`const ${resultVar} = $rt.getValue(toArray(${objectVar}));`);
     return resultVar;
   }
 
@@ -1861,13 +2310,14 @@ const ${resultVar} = (() => {
         break;
       case "Integer":
         lines.push(`  if (typeof v === 'number') ${resultVar} = Number.isInteger(v);`);
+        lines.push(`  else if ($rt.isDecimal(v)) ${resultVar} = false;`);
         lines.push(`  else if (typeof v === 'string') ${resultVar} = /^-?\\d+$/.test(v);`);
         lines.push(`  else if (typeof v === 'boolean') ${resultVar} = true;`);
         lines.push(`  else ${resultVar} = false;`);
         break;
       case "Decimal":
-        lines.push(`  if (typeof v === 'number') ${resultVar} = !isNaN(v);`);
-        lines.push(`  else if (typeof v === 'string') ${resultVar} = !isNaN(parseFloat(v));`);
+        lines.push(`  if ($rt.isNumeric(v)) ${resultVar} = true;`);
+        lines.push(`  else if (typeof v === 'string') ${resultVar} = $rt.parseDecimal(v) !== undefined;`);
         lines.push(`  else if (typeof v === 'boolean') ${resultVar} = true;`);
         lines.push(`  else ${resultVar} = false;`);
         break;
@@ -1917,27 +2367,14 @@ const ${resultVar} = (() => {
     
     lines.push(`const ${resultVar}_arr = toArray(${objectVar});`);
     lines.push(`let ${resultVar} = undefined;`);
-    lines.push(`if (${resultVar}_arr.length === 1) {`);
-    lines.push(`  const v = ${resultVar}_arr[0];`);
-    lines.push(`  if (typeof v === 'number') {`);
-    
     if (node.arguments.length > 0) {
       const unitVar = this.generateNode(node.arguments[0], inputVar, lines, options);
-      lines.push(`    const unit = toArray(${unitVar})[0] || '1';`);
-      lines.push(`    ${resultVar} = { value: v, unit: unit };`);
+      lines.push(`const ${resultVar}_unit = toArray(${unitVar})[0];`);
+      lines.push(`if (${resultVar}_arr.length === 1) ${resultVar} = $rt.toQuantity(${resultVar}_arr[0], ${resultVar}_unit);`);
     } else {
-      lines.push(`    ${resultVar} = { value: v, unit: '1' };`);
+      lines.push(`if (${resultVar}_arr.length === 1) ${resultVar} = $rt.toQuantity(${resultVar}_arr[0]);`);
     }
     
-    lines.push(`  } else if (typeof v === 'object' && v?.value !== undefined) {`);
-    lines.push(`    ${resultVar} = v;`);
-    lines.push(`  } else if (typeof v === 'string') {`);
-    lines.push(`    const match = v.match(/^(-?\\d+(?:\\.\\d+)?)\\s*'([^']*)'$/);`);
-    lines.push(`    if (match) ${resultVar} = { value: parseFloat(match[1]), unit: match[2] };`);
-    lines.push(`    else if (/^-?\\d+(\\.\\d+)?$/.test(v)) ${resultVar} = { value: parseFloat(v), unit: '1' };`);
-    lines.push(`  }`);
-    lines.push(`}`);
-    
     return resultVar;
   }
 
@@ -2012,7 +2449,7 @@ const ${resultVar} = (() => {
   }
 
   /**
-   * Generate trace() - debugging helper
+   * Generate trace() - reports the input to options.traceFn with the label
    */
   private generateTrace(
     node: MethodCallNode,
@@ -2024,14 +2461,14 @@ const ${resultVar} = (() => {
     const resultVar = this.newVar("trace");
     
     lines.push(`const ${resultVar} = toArray(${objectVar});`);
-    
+    lines.push(`if (options?.traceFn) {`);
     if (node.arguments.length > 0) {
       const labelVar = this.generateNode(node.arguments[0], inputVar, lines, options);
-      lines.push(`const ${resultVar}_label = toArray(${labelVar})[0] || 'trace';`);
-      lines.push(`if (options?.traceFn) options.traceFn(${resultVar}, ${resultVar}_label);`);
+      lines.push(`  options.traceFn(${resultVar}, String(toArray(${labelVar})[0] ?? ''));`);
     } else {
-      lines.push(`if (options?.traceFn) options.traceFn(${resultVar}, 'trace');`);
+      lines.push(`  options.traceFn(${resultVar}, '');`);
     }
+    lines.push(`}`);
     
     return resultVar;
   }
@@ -2063,6 +2500,7 @@ const ${resultVar} = (() => {
     lines.push(`  const val = ${resultVar}_arr[0];`);
     lines.push(`  const isType = (typeof val === 'object' && val?.resourceType === ${JSON.stringify(typeName)}) ||`);
     lines.push(`    (['String'].includes(${JSON.stringify(typeName)}) && typeof val === 'string') ||`);
+    lines.push(`    ($rt.isDecimal(val) && val.kind === ${JSON.stringify(typeName)}) ||`);
     lines.push(`    (['Integer', 'Decimal'].includes(${JSON.stringify(typeName)}) && typeof val === 'number') ||`);
     lines.push(`    (${JSON.stringify(typeName)} === 'Boolean' && typeof val === 'boolean');`);
     lines.push(`  if (isType) ${resultVar} = val;`);
@@ -2097,6 +2535,7 @@ const ${resultVar} = (() => {
     lines.push(`if (${resultVar}_arr.length === 1) {`);
     lines.push(`  const val = ${resultVar}_arr[0];`);
     lines.push(`  if (typeof val === 'object' && val?.resourceType === ${JSON.stringify(typeName)}) ${resultVar} = true;`);
+    lines.push(`  else if ($rt.isDecimal(val)) ${resultVar} = val.kind === ${JSON.stringify(typeName)};`);
     lines.push(`  else {`);
     lines.push(`    const typeMap = { 'string': ['String'], 'number': ['Integer', 'Decimal'], 'boolean': ['Boolean'] };`);
     lines.push(`    ${resultVar} = (typeMap[typeof val] || []).includes(${JSON.stringify(typeName)});`);
@@ -2140,7 +2579,10 @@ const ${resultVar} = (() => {
     lines.push(`  const $$index = ${indexVar}++;`);
     
     // Generate the aggregation expression
+    const scope = this.scope;
+    this.scope = { index: true, total: true };
     const exprVar = this.generateNode(node.arguments[0], itemVar, lines, options);
+    this.scope = scope;
     
     lines.push(`  const ${resultVar}_val = toArray(${exprVar});`);
     lines.push(`  if (${resultVar}_val.length === 1) $$total = ${resultVar}_val[0];`);
@@ -2162,6 +2604,7 @@ const ${resultVar} = (() => {
     lines.push(`  if (typeof item === 'string') typeName = 'System.String';`);
     lines.push(`  else if (typeof item === 'number') typeName = Number.isInteger(item) ? 'System.Integer' : 'System.Decimal';`);
     lines.push(`  else if (typeof item === 'boolean') typeName = 'System.Boolean';`);
+    lines.push(`  else if ($rt.isTemporal(item) || $rt.isDecimal(item)) typeName = 'System.' + item.kind;`);
     lines.push(`  else if (typeof item === 'object') {`);
     lines.push(`    if (item.resourceType) typeName = 'FHIR.' + item.resourceType;`);
     lines.push(`    else if (item.value !== undefined && item.unit !== undefined) typeName = 'System.Quantity';`);
@@ -2173,7 +2616,8 @@ const ${resultVar} = (() => {
   }
 
   /**
-   * Generate defineVariable() - defines a variable for subsequent expressions
+   * Generate defineVariable() - defines a variable ($v) for the rest of the
+   * evaluation, with the value of the second argument for the input or the input
    */
   private generateDefineVariable(
     node: MethodCallNode,
@@ -2189,26 +2633,21 @@ const ${resultVar} = (() => {
       return resultVar;
     }
 
-    // Get variable name
+    // A name that is not a string literal is left to the interpreter
     const nameArg = node.arguments[0];
-    let varName = "";
-    if (nameArg.type === "Literal") {
-      varName = String((nameArg as LiteralNode).value);
-    } else if (nameArg.type === "Identifier") {
-      varName = (nameArg as IdentifierNode).name;
+    if (nameArg.type !== "Literal" || (nameArg as LiteralNode).literalType !== "string") {
+      return this.generateUncompiledCall(node, objectVar, inputVar, lines, options);
     }
-    
-    // Get variable value (optional second argument, defaults to input)
+    const varName = JSON.stringify(String((nameArg as LiteralNode).value));
+
+    // The value (optional second argument, defaults to input)
     if (node.arguments.length > 1) {
       const valueVar = this.generateNode(node.arguments[1], objectVar, lines, options);
-      lines.push(`const ${resultVar}_value = toArray(${valueVar});`);
+      lines.push(`$v.set(${varName}, toArray(${valueVar}));`);
     } else {
-      lines.push(`const ${resultVar}_value = toArray(${objectVar});`);
+      lines.push(`$v.set(${varName}, toArray(${objectVar}));`);
     }
-    
-    // Store in context for later use
-    lines.push(`if (context) context[${JSON.stringify(varName)}] = ${resultVar}_value.length === 1 ? ${resultVar}_value[0] : ${resultVar}_value;`);
-    lines.push(`const ${resultVar} = ${resultVar}_value;`);
+    lines.push(`const ${resultVar} = toArray(${objectVar});`);
     
     return resultVar;
   }
@@ -2299,7 +2738,7 @@ const ${resultVar} = (() => {
    */
   private generateNow(lines: string[]): string {
     const resultVar = this.newVar("now");
-    lines.push(`const ${resultVar} = new Date().toISOString();`);
+    lines.push(`const ${resultVar} = $rt.now();`);
     return resultVar;
   }
 
@@ -2308,7 +2747,7 @@ const ${resultVar} = (() => {
    */
   private generateToday(lines: string[]): string {
     const resultVar = this.newVar("today");
-    lines.push(`const ${resultVar} = new Date().toISOString().split('T')[0];`);
+    lines.push(`const ${resultVar} = $rt.today();`);
     return resultVar;
   }
 
@@ -2317,43 +2756,221 @@ const ${resultVar} = (() => {
    */
   private generateTimeOfDay(lines: string[]): string {
     const resultVar = this.newVar("timeOfDay");
-    lines.push(`const ${resultVar} = new Date().toISOString().split('T')[1].split('.')[0];`);
+    lines.push(`const ${resultVar} = $rt.timeOfDay();`);
     return resultVar;
   }
 
   /**
-   * Fallback: generate runtime method call for complex methods
+   * Generate a call of a function the JIT does not compile: a user-defined
+   * function of the evaluation's options, or else the interpreter
    */
-  private generateRuntimeMethodCall(
-    node: MethodCallNode,
+  private generateUncompiledCall(
+    node: MethodCallNode | FunctionCallNode,
     objectVar: string,
     inputVar: string,
     lines: string[],
     options: JITOptions
   ): string {
-    // For methods we don't JIT-compile, we could fall back to the interpreter
-    // For now, throw an error
-    throw new Error(`JIT: Method '${node.method.name}' not yet supported. Use interpreted mode.`);
+    const isMethod = node.type === "MethodCall";
+    const name = isMethod ? node.method.name : node.function.name;
+    const baseExpr = isMethod ? `toArray(${objectVar})` : "undefined";
+    const userFunction = options.userInvocationTable?.[name] !== undefined;
+
+    if (options.fallback === false) {
+      if (!userFunction && !(isMethod && node.object.type === "EnvVariable")) {
+        throw new Error(
+          isMethod
+            ? `JIT: Method '${name}' not yet supported. Use interpreted mode.`
+            : `JIT: Function '${name}' not yet supported.`,
+        );
+      }
+      // Throws for an unknown function when evaluating
+      return this.generateUserFunctionCall(node, objectVar, inputVar, lines, options);
+    }
+    // A user-defined function known when compiling is checked for by the caller
+    if (userFunction) return this.generateFallback(node, inputVar, lines, baseExpr);
+    return this.generateUserFunctionCall(
+      node,
+      objectVar,
+      inputVar,
+      lines,
+      options,
+      (fallbackLines) => this.generateFallback(node, inputVar, fallbackLines, baseExpr),
+    );
+  }
+
+  /**
+   * Generate a call of a function of the evaluation's userInvocationTable with
+   * the input of objectVar, or else the code of generateOtherwise() if there
+   * is none. Arguments are compiled to functions evaluating them with a focus
+   * (see userFunctionParams()).
+   */
+  private generateUserFunctionCall(
+    node: MethodCallNode | FunctionCallNode,
+    objectVar: string,
+    inputVar: string,
+    lines: string[],
+    options: JITOptions,
+    generateOtherwise?: (lines: string[]) => string
+  ): string {
+    const name = JSON.stringify(node.type === "MethodCall" ? node.method.name : node.function.name);
+    const args = node.arguments.map(arg => {
+      const focusVar = this.newVar("focus");
+      const argLines: string[] = [];
+      const resultVar = this.generateNode(arg, focusVar, argLines, options);
+      const argName = typeSpecifierOf(arg)?.typeName;
+      return `{ evaluate: (${focusVar}) => {\n${argLines.join("\n")}\nreturn toArray(${resultVar});\n}` +
+        (argName !== undefined ? `, name: ${JSON.stringify(argName)} }` : " }");
+    });
+    const call = `$rt.callUserFunction(options, ${name}, toArray(${objectVar}), [${args.join(", ")}], ` +
+      `toArray(${inputVar}), toArray(context?.resource ?? resource))`;
+
+    if (!generateOtherwise) {
+      const resultVar = this.newVar("user");
+      lines.push(`const ${resultVar} = ${call};`);
+      return resultVar;
+    }
+    return this.generateBranch(`options?.userInvocationTable?.[${name}]`, lines, () => call, generateOtherwise);
+  }
+
+  /**
+   * Generate a call of a method of the single object of objectVar if it has
+   * one (e.g. %factory.Coding()), or else the code of generateOtherwise()
+   */
+  private generateObjectMethodCall(
+    node: MethodCallNode,
+    objectVar: string,
+    inputVar: string,
+    lines: string[],
+    options: JITOptions,
+    generateOtherwise: (lines: string[]) => string
+  ): string {
+    const name = JSON.stringify(node.method.name);
+    const itemsVar = this.newVar("object");
+    lines.push(`const ${itemsVar} = toArray(${objectVar});`);
+    return this.generateBranch(
+      `${itemsVar}.length === 1 && ${itemsVar}[0] !== null && typeof ${itemsVar}[0] === 'object' && ` +
+        `typeof ${itemsVar}[0][${name}] === 'function' && !(${name} in Object.prototype)`,
+      lines,
+      (callLines) => {
+        const args = node.arguments.map(arg => `toArray(${this.generateNode(arg, inputVar, callLines, options)})`);
+        return `$rt.callObjectMethod(${itemsVar}[0], ${name}, [${args.join(", ")}])`;
+      },
+      generateOtherwise,
+    );
+  }
+
+  /**
+   * Generate code that takes one of two branches, depending on a condition
+   * when evaluating; returns the variable with the result of the branch taken
+   */
+  private generateBranch(
+    condition: string,
+    lines: string[],
+    generateThen: (lines: string[]) => string,
+    generateElse: (lines: string[]) => string
+  ): string {
+    const resultVar = this.newVar("branch");
+    const thenLines: string[] = [];
+    const thenVar = generateThen(thenLines);
+    const elseLines: string[] = [];
+    const elseVar = generateElse(elseLines);
+    lines.push(
+      `let ${resultVar};`,
+      `if (${condition}) {`,
+      ...thenLines,
+      `${resultVar} = ${thenVar};`,
+      `} else {`,
+      ...elseLines,
+      `${resultVar} = ${elseVar};`,
+      `}`,
+    );
+    return resultVar;
+  }
+
+  /**
+   * Generate a call into the interpreter for a node that uses $index or $total
+   * outside where() and aggregate(), where the generated code does not declare them
+   */
+  private generateScopeFallback(
+    node: ASTNode,
+    inputVar: string,
+    lines: string[],
+    options: JITOptions,
+    baseExpr?: string,
+  ): string {
+    if (options.fallback === false) {
+      throw new Error("JIT: $index and $total are only supported in where() and aggregate(). Use interpreted mode.");
+    }
+    return this.generateFallback(node, inputVar, lines, baseExpr);
+  }
+
+  /**
+   * Generate a call into the interpreter for the id and extensions of
+   * primitives reached by children() or descendants()
+   */
+  private generateElementFallback(node: ASTNode, inputVar: string, lines: string[], options: JITOptions): string {
+    if (options.fallback === false) {
+      throw new Error("JIT: Extensions of primitives from children() and descendants() are not supported. Use interpreted mode.");
+    }
+    return this.generateFallback(node, inputVar, lines);
   }
 
   /**
-   * Generate function call (not a method)
+   * Generate a call into the interpreter ($fb) for a node the JIT does not
+   * compile, with the focus, $index, $total and variables of the generated
+   * code and the (compiled) object of a method call
+   */
+  private generateFallback(node: ASTNode, inputVar: string, lines: string[], baseExpr = "undefined"): string {
+    const resultVar = this.newVar("interp");
+    const id = this.fallbacks.push({ node, root: this.root ?? node }) - 1;
+    const index = this.scope.index ? "$$index" : "undefined";
+    // Outside aggregate(), $total is 0 as in the interpreter
+    const total = this.scope.total ? "$$total" : "0";
+    const variables = this.variables ? ", $v" : "";
+    lines.push(`const ${resultVar} = $fb(${id}, toArray(${inputVar}), ${index}, ${total}, ${baseExpr}${variables});`);
+    return resultVar;
+  }
+
+  /**
+   * Generate function call (not a method), a user-defined function first
    */
   private generateFunctionCall(
     node: FunctionCallNode,
     inputVar: string,
     lines: string[],
     options: JITOptions
+  ): string {
+    if (usesUndeclaredScope(node, this.scope)) {
+      return this.generateScopeFallback(node, inputVar, lines, options);
+    }
+    // Built-in functions are only overridden by user-defined functions known when compiling
+    if (options.userInvocationTable?.[node.function.name]) {
+      return this.generateUserFunctionCall(node, inputVar, inputVar, lines, options, (callLines) =>
+        this.generateBuiltinFunctionCall(node, inputVar, callLines, options)
+      );
+    }
+    return this.generateBuiltinFunctionCall(node, inputVar, lines, options);
+  }
+
+  /**
+   * Generate a call of a built-in function (not a method)
+   */
+  private generateBuiltinFunctionCall(
+    node: FunctionCallNode,
+    inputVar: string,
+    lines: string[],
+    options: JITOptions
   ): string {
     const funcName = node.function.name;
 
     switch (funcName) {
       case "now":
-        return `new Date().toISOString()`;
+        return `$rt.now()`;
       case "today":
-        return `new Date().toISOString().split('T')[0]`;
+        return `$rt.today()`;
       case "timeOfDay":
-        return `new Date().toISOString().split('T')[1].split('.')[0]`;
+        return `$rt.timeOfDay()`;
       case "true":
         return "true";
       case "false":
@@ -2365,7 +2982,7 @@ const ${resultVar} = (() => {
       case "descendants":
         return this.generateDescendants(inputVar, lines);
       default:
-        throw new Error(`JIT: Function '${funcName}' not yet supported.`);
+        return this.generateUncompiledCall(node, inputVar, inputVar, lines, options);
     }
   }
 
@@ -2392,7 +3009,7 @@ const ${resultVar} = (() => {
       : "[]";
 
     lines.push(`const ${resultVar}_cond = toArray(${conditionVar});`);
-    lines.push(`const ${resultVar} = ${resultVar}_cond.length === 1 && ${resultVar}_cond[0] === true ? ${trueVar} : ${falseVar};`);
+    lines.push(`const ${resultVar} = ${this.criterion(`${resultVar}_cond`, "iif", options)} ? ${trueVar} : ${falseVar};`);
     
     return resultVar;
   }
@@ -2434,12 +3051,14 @@ const ${resultVar} = (() => {
 
     // Handle union operator specially
     if (op === "|") {
-      lines.push(`const ${resultVar}_set = new Set();`);
-      lines.push(`const ${resultVar} = [];`);
-      lines.push(`for (const x of [...toArray(${leftVar}), ...toArray(${rightVar})]) {`);
-      lines.push(`  const key = JSON.stringify(x);`);
-      lines.push(`  if (!${resultVar}_set.has(key)) { ${resultVar}_set.add(key); ${resultVar}.push(x); }`);
-      lines.push(`}`);
+      lines.push(`const ${resultVar} = $rt.distinct([...toArray(${leftVar}), ...toArray(${rightVar})]);`);
+      return resultVar;
+    }
+
+    if (isCheckedMode(options.mode)) {
+      lines.push(
+        `const ${resultVar} = $rt.checkedBinaryOp(${JSON.stringify(op)}, toArray(${leftVar}), toArray(${rightVar}), ${JSON.stringify(options.mode)});`,
+      );
       return resultVar;
     }
 
@@ -2452,46 +3071,57 @@ const ${resultVar} = (() => {
         lines.push(`${resultVar} = ${resultVar}_l.length === 1 && ${resultVar}_r.length === 1 ? equals(${resultVar}_l[0], ${resultVar}_r[0]) : (${resultVar}_l.length === 0 || ${resultVar}_r.length === 0 ? undefined : false);`);
         break;
       case "!=":
-        lines.push(`${resultVar} = ${resultVar}_l.length === 1 && ${resultVar}_r.length === 1 ? !equals(${resultVar}_l[0], ${resultVar}_r[0]) : (${resultVar}_l.length === 0 || ${resultVar}_r.length === 0 ? undefined : true);`);
+        lines.push(`${resultVar} = ${resultVar}_l.length === 1 && ${resultVar}_r.length === 1 ? equals(${resultVar}_l[0], ${resultVar}_r[0]) : (${resultVar}_l.length === 0 || ${resultVar}_r.length === 0 ? undefined : false);`);
+        lines.push(`if (${resultVar} !== undefined) ${resultVar} = !${resultVar};`);
         break;
       case "~":
-        lines.push(`${resultVar} = ${resultVar}_l.length === 1 && ${resultVar}_r.length === 1 ? equals(${resultVar}_l[0], ${resultVar}_r[0]) : (${resultVar}_l.length === 0 && ${resultVar}_r.length === 0);`);
+        lines.push(`${resultVar} = ${resultVar}_l.length === 1 && ${resultVar}_r.length === 1 ? $rt.equivalent(${resultVar}_l[0], ${resultVar}_r[0]) : (${resultVar}_l.length === 0 && ${resultVar}_r.length === 0);`);
         break;
       case "!~":
-        lines.push(`${resultVar} = ${resultVar}_l.length === 1 && ${resultVar}_r.length === 1 ? !equals(${resultVar}_l[0], ${resultVar}_r[0]) : !(${resultVar}_l.length === 0 && ${resultVar}_r.length === 0);`);
+        lines.push(`${resultVar} = ${resultVar}_l.length === 1 && ${resultVar}_r.length === 1 ? !$rt.equivalent(${resultVar}_l[0], ${resultVar}_r[0]) : !(${resultVar}_l.length === 0 && ${resultVar}_r.length === 0);`);
         break;
       case "<":
-        lines.push(`${resultVar} = ${resultVar}_l.length === 1 && ${resultVar}_r.length === 1 ? ${resultVar}_l[0] < ${resultVar}_r[0] : undefined;`);
-        break;
       case "<=":
-        lines.push(`${resultVar} = ${resultVar}_l.length === 1 && ${resultVar}_r.length === 1 ? ${resultVar}_l[0] <= ${resultVar}_r[0] : undefined;`);
-        break;
       case ">":
-        lines.push(`${resultVar} = ${resultVar}_l.length === 1 && ${resultVar}_r.length === 1 ? ${resultVar}_l[0] > ${resultVar}_r[0] : undefined;`);
-        break;
       case ">=":
-        lines.push(`${resultVar} = ${resultVar}_l.length === 1 && ${resultVar}_r.length === 1 ? ${resultVar}_l[0] >= ${resultVar}_r[0] : undefined;`);
+        lines.push(`const ${resultVar}_c = ${resultVar}_l.length === 1 && ${resultVar}_r.length === 1 ? compare(${resultVar}_l[0], ${resultVar}_r[0]) : undefined;`);
+        lines.push(`${resultVar} = ${resultVar}_c === undefined ? undefined : ${resultVar}_c ${op} 0;`);
         break;
       case "+":
         lines.push(`if (${resultVar}_l.length === 1 && ${resultVar}_r.length === 1) {`);
-        lines.push(`  if (typeof ${resultVar}_l[0] === 'string' || typeof ${resultVar}_r[0] === 'string') ${resultVar} = String(${resultVar}_l[0]) + String(${resultVar}_r[0]);`);
-        lines.push(`  else ${resultVar} = ${resultVar}_l[0] + ${resultVar}_r[0];`);
+        lines.push(`  const ${resultVar}_d = $rt.quantityArithmetic('+', ${resultVar}_l[0], ${resultVar}_r[0]);`);
+        lines.push(`  if (${resultVar}_d !== null) ${resultVar} = ${resultVar}_d;`);
+        lines.push(`  else if (typeof ${resultVar}_l[0] === 'string' || typeof ${resultVar}_r[0] === 'string') ${resultVar} = String(${resultVar}_l[0]) + String(${resultVar}_r[0]);`);
+        lines.push(`  else {`);
+        lines.push(`    const ${resultVar}_n = $rt.numericArithmetic('+', ${resultVar}_l[0], ${resultVar}_r[0]);`);
+        lines.push(`    ${resultVar} = ${resultVar}_n !== null ? ${resultVar}_n : ${resultVar}_l[0] + ${resultVar}_r[0];`);
+        lines.push(`  }`);
         lines.push(`}`);
         break;
       case "-":
-        lines.push(`${resultVar} = ${resultVar}_l.length === 1 && ${resultVar}_r.length === 1 ? ${resultVar}_l[0] - ${resultVar}_r[0] : undefined;`);
+        lines.push(`if (${resultVar}_l.length === 1 && ${resultVar}_r.length === 1) {`);
+        lines.push(`  const ${resultVar}_d = $rt.quantityArithmetic('-', ${resultVar}_l[0], ${resultVar}_r[0]);`);
+        lines.push(`  const ${resultVar}_n = ${resultVar}_d !== null ? null : $rt.numericArithmetic('-', ${resultVar}_l[0], ${resultVar}_r[0]);`);
+        lines.push(`  ${resultVar} = ${resultVar}_d !== null ? ${resultVar}_d : ${resultVar}_n !== null ? ${resultVar}_n : ${resultVar}_l[0] - ${resultVar}_r[0];`);
+        lines.push(`}`);
         break;
       case "*":
-        lines.push(`${resultVar} = ${resultVar}_l.length === 1 && ${resultVar}_r.length === 1 ? ${resultVar}_l[0] * ${resultVar}_r[0] : undefined;`);
+        lines.push(`if (${resultVar}_l.length === 1 && ${resultVar}_r.length === 1) {`);
+        lines.push(`  const ${resultVar}_q = $rt.quantityArithmetic('*', ${resultVar}_l[0], ${resultVar}_r[0]);`);
+        lines.push(`  const ${resultVar}_n = ${resultVar}_q !== null ? null : $rt.numericArithmetic('*', ${resultVar}_l[0], ${resultVar}_r[0]);`);
+        lines.push(`  ${resultVar} = ${resultVar}_q !== null ? ${resultVar}_q : ${resultVar}_n !== null ? ${resultVar}_n : ${resultVar}_l[0] * ${resultVar}_r[0];`);
+        lines.push(`}`);
         break;
       case "/":
-        lines.push(`${resultVar} = ${resultVar}_l.length === 1 && ${resultVar}_r.length === 1 && ${resultVar}_r[0] !== 0 ? ${resultVar}_l[0] / ${resultVar}_r[0] : undefined;`);
+        lines.push(`if (${resultVar}_l.length === 1 && ${resultVar}_r.length === 1) {`);
+        lines.push(`  const ${resultVar}_q = $rt.quantityArithmetic('/', ${resultVar}_l[0], ${resultVar}_r[0]);`);
+        lines.push(`  const ${resultVar}_n = ${resultVar}_q !== null ? null : $rt.numericArithmetic('/', ${resultVar}_l[0], ${resultVar}_r[0]);`);
+        lines.push(`  ${resultVar} = ${resultVar}_q !== null ? ${resultVar}_q : ${resultVar}_n !== null ? ${resultVar}_n : ${resultVar}_r[0] !== 0 ? ${resultVar}_l[0] / ${resultVar}_r[0] : undefined;`);
+        lines.push(`}`);
         break;
       case "div":
-        lines.push(`${resultVar} = ${resultVar}_l.length === 1 && ${resultVar}_r.length === 1 && ${resultVar}_r[0] !== 0 ? Math.trunc(${resultVar}_l[0] / ${resultVar}_r[0]) : undefined;`);
-        break;
       case "mod":
-        lines.push(`${resultVar} = ${resultVar}_l.length === 1 && ${resultVar}_r.length === 1 && ${resultVar}_r[0] !== 0 ? ${resultVar}_l[0] % ${resultVar}_r[0] : undefined;`);
+        lines.push(`${resultVar} = ${resultVar}_l.length === 1 && ${resultVar}_r.length === 1 ? $rt.numericArithmetic(${JSON.stringify(op)}, ${resultVar}_l[0], ${resultVar}_r[0]) ?? undefined : undefined;`);
         break;
       case "&":
         lines.push(`${resultVar} = (${resultVar}_l[0] ?? '') + '' + (${resultVar}_r[0] ?? '');`);
@@ -2544,11 +3174,11 @@ const ${resultVar} = (() => {
     
     switch (node.operator) {
       case "-":
-        lines.push(`const ${resultVar}_arr = toArray(${operandVar});`);
-        lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 ? -${resultVar}_arr[0] : undefined;`);
+        lines.push(`const ${resultVar}_arr = ${this.unaryOperand(operandVar, node.operator, options)};`);
+        lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 ? $rt.negate(${resultVar}_arr[0]) : undefined;`);
         break;
       case "+":
-        lines.push(`const ${resultVar}_arr = toArray(${operandVar});`);
+        lines.push(`const ${resultVar}_arr = ${this.unaryOperand(operandVar, node.operator, options)};`);
         lines.push(`const ${resultVar} = ${resultVar}_arr.length === 1 ? +${resultVar}_arr[0] : undefined;`);
         break;
       default:
@@ -2558,6 +3188,14 @@ const ${resultVar} = (() => {
     return resultVar;
   }
 
+  /**
+   * Operand of a unary operator, checked to be a singleton in checked evaluation modes
+   */
+  private unaryOperand(operandVar: string, operator: string, options: JITOptions): string {
+    if (!isCheckedMode(options.mode)) return `toArray(${operandVar})`;
+    return `toArray($rt.singletonOperand(toArray(${operandVar}), ${JSON.stringify(operator)}, ${JSON.stringify(options.mode)}))`;
+  }
+
   /**
    * Generate type operation (is, as)
    */
@@ -2577,6 +3215,7 @@ const ${resultVar} = (() => {
       lines.push(`if (${resultVar}_arr.length === 1) {`);
       lines.push(`  const val = ${resultVar}_arr[0];`);
       lines.push(`  if (typeof val === 'object' && val?.resourceType === ${JSON.stringify(typeName)}) ${resultVar} = true;`);
+      lines.push(`  else if ($rt.isTemporal(val) || $rt.isDecimal(val)) ${resultVar} = val.kind === ${JSON.stringify(typeName)};`);
       lines.push(`  else {`);
       lines.push(`    const typeMap = { 'string': ['String'], 'number': ['Integer', 'Decimal'], 'boolean': ['Boolean'] };`);
       lines.push(`    ${resultVar} = (typeMap[typeof val] || []).includes(${JSON.stringify(typeName)});`);
@@ -2589,7 +3228,9 @@ const ${resultVar} = (() => {
       lines.push(`if (${resultVar}_arr.length === 1) {`);
       lines.push(`  const val = ${resultVar}_arr[0];`);
       lines.push(`  const isType = (typeof val === 'object' && val?.resourceType === ${JSON.stringify(typeName)}) ||`);
+      lines.push(`    ($rt.isTemporal(val) && val.kind === ${JSON.stringify(typeName)}) ||`);
       lines.push(`    (['String'].includes(${JSON.stringify(typeName)}) && typeof val === 'string') ||`);
+      lines.push(`    ($rt.isDecimal(val) && val.kind === ${JSON.stringify(typeName)}) ||`);
       lines.push(`    (['Integer', 'Decimal'].includes(${JSON.stringify(typeName)}) && typeof val === 'number') ||`);
       lines.push(`    (${JSON.stringify(typeName)} === 'Boolean' && typeof val === 'boolean');`);
       lines.push(`  if (isType) ${resultVar} = val;`);
@@ -2600,10 +3241,16 @@ const ${resultVar} = (() => {
   }
 
   /**
-   * Generate environment variable access
+   * Generate environment variable access. As in the interpreter, variables
+   * of defineVariable() come first and %resource, %rootResource and %context
+   * default to the resource.
    */
   private generateEnvVariable(node: EnvVariableNode): string {
-    return `(context?.[${JSON.stringify(node.name)}])`;
+    const name = JSON.stringify(node.name);
+    const value = ["resource", "rootResource", "context"].includes(node.name)
+      ? `(context?.[${name}] ?? resource)`
+      : `(context?.[${name}])`;
+    return this.variables ? `($v.has(${name}) ? $rt.unwrapAll($v.get(${name})) : ${value})` : value;
   }
 }
 
@@ -2620,6 +3267,23 @@ export function compileJIT<T = unknown>(
   return jitCompiler.compile<T>(ast, options);
 }
 
+/**
+ * Compile several FHIRPath expressions using JIT into one fused function
+ */
+export function compileBatchJIT<T = unknown>(
+  asts: Record<string, ASTNode>,
+  options?: JITOptions
+): CompiledFhirPathBatch<T> {
+  return jitCompiler.compileBatch<T>(asts, options);
+}
+
+/**
+ * Compile FHIRPath expressions ahead of time to the source of an ES module
+ */
+export function compileModule(asts: Record<string, ASTNode>, options?: ModuleOptions): string {
+  return jitCompiler.compileModule(asts, options);
+}
+
 /**
  * Clear the JIT compilation cache
  */
@@ -2,14 +2,19 @@
  * FHIRPath JIT Compiler Module
  * 
  * Provides high-performance JIT compilation of FHIRPath expressions
- * to native JavaScript functions.
+ * to native JavaScript functions, and ahead-of-time compilation to ES
+ * modules that import the runtime (./runtime.ts) instead of the compiler.
  */
 
 export {
   FhirPathJIT,
   compileJIT,
+  compileBatchJIT,
+  compileModule,
   clearJITCache,
   jitCompiler,
   type CompiledFhirPath,
+  type CompiledFhirPathBatch,
   type JITOptions,
+  type ModuleOptions,
 } from "./compiler.ts";
@@ -0,0 +1,616 @@
+/**
+ * FHIRPath JIT Runtime
+ *
+ * The runtime of generated code: the helpers it calls ($rt), the interpreter
+ * for the nodes it does not compile ($fb) and the wrappers that make it a
+ * compiled function. Modules compiled ahead of time (see compileModule())
+ * import it instead of the compiler, so that they run without eval.
+ */
+
+import type { ASTNode, ExpressionNode } from "../parser/ast.ts";
+import {
+  coerceTemporal,
+  compareTemporal,
+  isTemporal,
+  parseDate,
+  parseDateTime,
+  parseTime,
+  temporalEquals,
+  temporalEquivalent,
+} from "../evaluator/temporal.ts";
+import type { TemporalValue } from "../evaluator/temporal.ts";
+import {
+  abs,
+  avg,
+  booleanOperand,
+  ceiling,
+  checkOperandTypes,
+  collectionEquals,
+  collectionEquivalent,
+  comparable,
+  criterionHolds,
+  distinct,
+  floor,
+  getValue,
+  highBoundary,
+  iifCondition,
+  isDistinct,
+  logicalOperator,
+  lowBoundary,
+  max,
+  min,
+  now,
+  precision,
+  round,
+  single,
+  singletonOperand,
+  sum,
+  timeOfDay,
+  toDate,
+  toDateTime,
+  toDecimal,
+  toInteger,
+  toQuantity,
+  toString as toStringValue,
+  toTime,
+  today,
+  truncate,
+} from "../evaluator/functions.ts";
+import { isQuantity } from "../evaluator/types.ts";
+import { EvaluationGuard } from "../evaluator/limits.ts";
+import { asyncRequired, EvaluatorError } from "../evaluator/errors.ts";
+import { FhirPathEvaluator } from "../evaluator/evaluator.ts";
+import { type UserFunctionArgument, userFunctionParams } from "../evaluator/invocation.ts";
+import { unwrapAll } from "../evaluator/node.ts";
+import type { EvaluatorOptions, IReferenceResolver } from "../evaluator/types.ts";
+import type { ITerminologyService } from "../terminology/mod.ts";
+import type { EvaluationLimits, EvaluationMode, Options } from "../types.ts";
+import {
+  compareQuantities,
+  quantityArithmetic,
+  quantityEquals,
+  quantityEquivalent,
+} from "../evaluator/quantity.ts";
+import {
+  compareDecimals,
+  decimalEquivalent,
+  isDecimal,
+  isNumeric,
+  negateDecimal,
+  numericArithmetic,
+  parseDecimal,
+} from "../evaluator/decimal.ts";
+
+/**
+ * Compiled FHIRPath function type
+ */
+export type CompiledFhirPath<T = unknown> = (
+  resource: unknown,
+  context?: Record<string, unknown>,
+  options?: JITOptions
+) => T[];
+
+/**
+ * Compiled batch of FHIRPath expressions, returning the results by key
+ */
+export type CompiledFhirPathBatch<T = unknown> = (
+  resource: unknown,
+  context?: Record<string, unknown>,
+  options?: JITOptions
+) => Record<string, T[]>;
+
+/** Generated function body: (resource, context, options, $rt, $g, $fb) */
+export type GeneratedFunction = (...args: unknown[]) => unknown;
+
+/** A node of generated code that the interpreter evaluates, with the root of its expression */
+export interface Fallback {
+  node: ASTNode;
+  root: ASTNode;
+}
+
+/** Generated function and the nodes it leaves to the interpreter */
+export interface GeneratedCode {
+  fn: GeneratedFunction;
+  fallbacks: Fallback[];
+}
+
+/**
+ * JIT compilation options. The evaluation options (userInvocationTable,
+ * traceFn, ...) apply to the compiled code as in the interpreter; options
+ * passed to a compiled function override them for that evaluation.
+ */
+export interface JITOptions extends Options {
+  /** Enable debug mode with generated code output */
+  debug?: boolean;
+  /** Strict type checking (slower but safer) */
+  strict?: boolean;
+  /** Enable optimizations for known patterns */
+  optimize?: boolean;
+  /** Limits of each evaluation; compiles code that checks them (also when passed to a call) */
+  limits?: EvaluationLimits;
+  /** Abort signal, polled during each evaluation; compiles code that checks it (also when passed to a call) */
+  signal?: AbortSignal;
+  /** Semantics of operators and criteria (default: "lenient"); compiled into the code */
+  mode?: EvaluationMode;
+  /**
+   * Evaluate nodes the JIT does not compile (e.g. resolve(), memberOf()) with
+   * the interpreter (default: true); false throws for them when compiling
+   */
+  fallback?: boolean;
+  /** Options of the interpreter for these nodes (model, referenceResolver, ...) */
+  interpreterOptions?: EvaluatorOptions;
+}
+
+/**
+ * The interpreter callback ($fb) of generated code for one evaluation with
+ * its options, undefined if the code compiles all nodes
+ */
+function interpreter(
+  fallbacks: Fallback[],
+  options: JITOptions,
+): ((
+  resource: unknown,
+  context: Record<string, unknown> | undefined,
+  evaluationOptions: JITOptions,
+  guard?: EvaluationGuard,
+) => unknown) | undefined {
+  if (fallbacks.length === 0) return undefined;
+
+  const evaluatorsFor = (evaluationOptions: JITOptions) => {
+    const { interpreterOptions } = evaluationOptions;
+    const evaluatorOptions: EvaluatorOptions = {
+      ...interpreterOptions,
+      userInvocationTable: evaluationOptions.userInvocationTable ?? interpreterOptions?.userInvocationTable,
+      traceFn: evaluationOptions.traceFn ?? interpreterOptions?.traceFn,
+      isDerivedResourceFn: evaluationOptions.isDerivedResourceFn ?? interpreterOptions?.isDerivedResourceFn,
+      terminologyService: evaluationOptions.terminologyService as ITerminologyService | undefined ??
+        interpreterOptions?.terminologyService,
+      referenceResolver: evaluationOptions.referenceResolver as IReferenceResolver | undefined ??
+        interpreterOptions?.referenceResolver,
+      mode: evaluationOptions.mode ?? interpreterOptions?.mode,
+    };
+    const evaluators = new Map<ASTNode, FhirPathEvaluator>();
+    const evaluatorOf = (root: ASTNode) => {
+      let evaluator = evaluators.get(root);
+      if (!evaluator) {
+        const expression = root.type === "Expression"
+          ? root as ExpressionNode
+          : { type: "Expression" as const, child: root, start: root.start, end: root.end };
+        evaluator = new FhirPathEvaluator(expression, evaluatorOptions);
+        evaluators.set(root, evaluator);
+      }
+      return evaluator;
+    };
+    return fallbacks.map(({ node, root }) => ({ node, evaluator: evaluatorOf(root) }));
+  };
+  const compiledNodes = evaluatorsFor(options);
+
+  return (resource, context, evaluationOptions, guard) => {
+    const nodes = evaluationOptions === options ? compiledNodes : evaluatorsFor(evaluationOptions);
+    return (
+      id: number,
+      focus: unknown[],
+      index?: number,
+      total?: unknown,
+      base?: unknown[],
+      variables?: Map<string, unknown[]>,
+    ) => nodes[id].evaluator.evaluateNode(nodes[id].node, focus, resource, context, { index, total, base, guard, variables });
+  };
+}
+
+/**
+ * Call a function of the userInvocationTable of an evaluation's options
+ */
+function callUserFunction(
+  options: JITOptions | undefined,
+  name: string,
+  input: unknown[],
+  args: UserFunctionArgument[],
+  focus: unknown[],
+  root: unknown[],
+): unknown[] {
+  const userFn = options?.userInvocationTable?.[name];
+  if (!userFn) throw new EvaluatorError(`Unknown function: ${name}`, "unknown-function");
+  const params = userFunctionParams(userFn, input, args, focus, root);
+  if (!params) return [];
+  const result = userFn.fn(input, ...params);
+  if (result instanceof Promise) throw asyncRequired(name);
+  return RUNTIME_HELPERS.toArray(result);
+}
+
+/**
+ * Call a method of an environment object (e.g. %factory.Coding()), passing
+ * single values unwrapped
+ */
+function callObjectMethod(object: Record<string, unknown>, name: string, args: unknown[][]): unknown[] {
+  const result = (object[name] as (...args: unknown[]) => unknown)(...args.map(arg => arg.length === 1 ? arg[0] : arg));
+  if (result instanceof Promise) throw asyncRequired(name);
+  return RUNTIME_HELPERS.toArray(result);
+}
+
+/**
+ * Reject collections as input of functions of single items (e.g. single(),
+ * upper()) in the strict and fhirpathjs-compatible modes, as FhirPathEvaluator does
+ */
+function singletonInput(collection: unknown[], name: string): void {
+  if (collection.length <= 1) return;
+  if (name === "single") single(collection);
+  throw new EvaluatorError("Expected single value", "singleton-expected");
+}
+
+/**
+ * The children of an object or array as pairs of a value and the "_element"
+ * sibling of a primitive, which holds its id and extensions
+ */
+function childElements(data: object): [unknown, unknown][] {
+  if (Array.isArray(data)) return data.map(item => [item, undefined]);
+  const obj = data as Record<string, unknown>;
+  const elements: [unknown, unknown][] = [];
+  for (const key of Object.keys(obj)) {
+    // Metadata keys, and the id and extensions of primitives without a value
+    if (key.startsWith("_") && key.slice(1) in obj) continue;
+    const name = key.startsWith("_") ? key.slice(1) : key;
+    const value = obj[name];
+    const extValue = obj[`_${name}`];
+    const values = Array.isArray(value) ? value : [value];
+    const exts = Array.isArray(extValue) ? extValue : [extValue];
+    for (let i = 0; i < Math.max(values.length, exts.length); i++) elements.push([values[i], exts[i]]);
+  }
+  return elements;
+}
+
+function isElementObject(value: unknown): value is object {
+  return value != null && typeof value === "object" && !isDecimal(value);
+}
+
+/**
+ * children() of raw values, as in FhirPathEvaluator
+ */
+function children(collection: unknown[]): unknown[] {
+  const results: unknown[] = [];
+  for (const item of collection) {
+    if (!isElementObject(item)) continue;
+    for (const [value] of childElements(item)) {
+      if (value != null) results.push(value);
+    }
+  }
+  return results;
+}
+
+/**
+ * descendants() of raw values, in the order of FhirPathEvaluator: a primitive
+ * is followed by the descendants of the id and extensions in its "_element"
+ * sibling, which is not a descendant itself
+ */
+function descendants(collection: unknown[], guard?: EvaluationGuard): unknown[] {
+  const results: unknown[] = [];
+  const seen = new Set<object>();
+
+  const collect = (data: unknown) => {
+    if (!isElementObject(data) || seen.has(data)) return;
+    seen.add(data);
+    if (guard) {
+      guard.size(results.length);
+      guard.enter();
+    }
+    for (const [value, ext] of childElements(data)) {
+      if (value != null) results.push(value);
+      collect(isElementObject(value) ? value : ext);
+    }
+    guard?.leave();
+  };
+
+  for (const item of collection) collect(item);
+  return results;
+}
+
+/**
+ * Pair a temporal value with another operand, reading strings as the same kind of value
+ */
+function temporalPair(a: unknown, b: unknown): [TemporalValue, TemporalValue] | undefined {
+  const like = (isTemporal(a) ? a : b) as TemporalValue;
+  const left = coerceTemporal(a, like);
+  const right = coerceTemporal(b, like);
+  return left && right ? [left, right] : undefined;
+}
+
+/**
+ * Binary operators in the strict and fhirpathjs-compatible modes, as in
+ * FhirPathEvaluator: operands are singletons of types the operator is
+ * defined for, = and ~ compare whole collections
+ */
+function checkedBinaryOp(op: string, left: unknown[], right: unknown[], mode: EvaluationMode): unknown {
+  const { equals, equivalent, compare } = RUNTIME_HELPERS;
+
+  switch (op) {
+    case "and":
+    case "or":
+    case "xor":
+    case "implies":
+      return logicalOperator(op, booleanOperand(left, op), booleanOperand(right, op));
+    case "=":
+    case "!=": {
+      const eq = collectionEquals(left, right, equals);
+      return eq === undefined ? undefined : op === "=" ? eq : !eq;
+    }
+    case "~":
+    case "!~": {
+      const eq = collectionEquivalent(left, right, equivalent, mode);
+      return op === "~" ? eq : !eq;
+    }
+    case "in": {
+      const item = singletonOperand(left, op, mode);
+      return item === undefined ? undefined : right.some(r => equals(item, r) === true);
+    }
+    case "contains": {
+      const item = singletonOperand(right, op, mode);
+      return item === undefined ? undefined : left.some(l => equals(l, item) === true);
+    }
+    case "&": {
+      const l = singletonOperand(left, op, mode) ?? "";
+      const r = singletonOperand(right, op, mode) ?? "";
+      checkOperandTypes(op, l, r, mode);
+      return `${l}${r}`;
+    }
+  }
+
+  const l = singletonOperand(left, op, mode);
+  const r = singletonOperand(right, op, mode);
+  if (l === undefined || r === undefined) return undefined;
+  checkOperandTypes(op, l, r, mode);
+
+  if (op === "<" || op === ">" || op === "<=" || op === ">=") {
+    const cmp = typeof l === "boolean" ? Number(l) - Number(r) : compare(l, r);
+    if (cmp === undefined) return undefined;
+    return op === "<" ? cmp < 0 : op === ">" ? cmp > 0 : op === "<=" ? cmp <= 0 : cmp >= 0;
+  }
+
+  const quantityResult = quantityArithmetic(op, l, r);
+  if (quantityResult !== null) return quantityResult;
+  if (op === "+" && typeof l === "string" && typeof r === "string") return l + r;
+  const numericResult = numericArithmetic(op, l, r);
+  if (numericResult !== null) return numericResult;
+  throw new EvaluatorError(`Unknown binary operator: ${op}`, "unknown-operator");
+}
+
+/**
+ * Shared runtime helpers - created once, passed to all JIT functions
+ * This avoids re-creating helper functions in every generated function body
+ */
+export const RUNTIME_HELPERS = {
+  /** Convert value to array */
+  toArray: (v: unknown): unknown[] => v == null ? [] : Array.isArray(v) ? v : [v],
+  
+  /** Flatten nested arrays */
+  flatten: (arr: unknown[][]): unknown[] => arr.flat(),
+  
+  /**
+   * Deep equality check without JSON.stringify.
+   * Returns undefined if equality of temporal values cannot be determined.
+   */
+  equals: (a: unknown, b: unknown): boolean | undefined => {
+    if (a === b) return true;
+    if (a == null || b == null) return false;
+    if (isTemporal(a) || isTemporal(b)) {
+      const pair = temporalPair(a, b);
+      return pair ? temporalEquals(pair[0], pair[1]) : false;
+    }
+    if (isQuantity(a) && isQuantity(b)) return quantityEquals(a, b);
+    if (isDecimal(a) || isDecimal(b)) return isNumeric(a) && isNumeric(b) && compareDecimals(a, b) === 0;
+    if (typeof a !== typeof b) return false;
+    if (typeof a !== 'object') return false;
+    
+    if (Array.isArray(a)) {
+      if (!Array.isArray(b) || a.length !== b.length) return false;
+      for (let i = 0; i < a.length; i++) {
+        if (RUNTIME_HELPERS.equals(a[i], b[i]) !== true) return false;
+      }
+      return true;
+    }
+    
+    if (Array.isArray(b)) return false;
+    
+    const aKeys = Object.keys(a);
+    const bKeys = Object.keys(b as object);
+    if (aKeys.length !== bKeys.length) return false;
+    
+    for (const key of aKeys) {
+      if (!(key in (b as object))) return false;
+      if (RUNTIME_HELPERS.equals((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]) !== true) return false;
+    }
+    return true;
+  },
+
+  /** Equivalence (~): case-insensitive strings, temporal values of equal precision, rounded Decimals */
+  equivalent: (a: unknown, b: unknown): boolean => {
+    if (typeof a === 'string' && typeof b === 'string') return a.toLowerCase() === b.toLowerCase();
+    if (isTemporal(a) || isTemporal(b)) {
+      const pair = temporalPair(a, b);
+      return pair ? temporalEquivalent(pair[0], pair[1]) : false;
+    }
+    if (isQuantity(a) && isQuantity(b)) return quantityEquivalent(a, b);
+    if ((isDecimal(a) || isDecimal(b)) && isNumeric(a) && isNumeric(b)) return decimalEquivalent(a, b);
+    return RUNTIME_HELPERS.equals(a, b) === true;
+  },
+  
+  /**
+   * Compare two values.
+   * Returns undefined if the values are not comparable or the order
+   * of temporal values cannot be determined.
+   */
+  compare: (a: unknown, b: unknown): number | undefined => {
+    if (isTemporal(a) || isTemporal(b)) {
+      const pair = temporalPair(a, b);
+      return pair ? compareTemporal(pair[0], pair[1]) : undefined;
+    }
+    if (isQuantity(a) && isQuantity(b)) return compareQuantities(a, b);
+    if ((isDecimal(a) || isDecimal(b)) && isNumeric(a) && isNumeric(b)) return compareDecimals(a, b);
+    if ((typeof a === 'number' && typeof b === 'number') || (typeof a === 'string' && typeof b === 'string')) {
+      return a === b ? 0 : a < b ? -1 : 1;
+    }
+    return undefined;
+  },
+
+  /**
+   * Arithmetic involving quantities (including date/time ± duration).
+   * Returns null if no operand is a quantity.
+   */
+  quantityArithmetic,
+  toQuantity,
+
+  /**
+   * Integer and Decimal arithmetic.
+   * Returns null if an operand is not a number.
+   */
+  numericArithmetic,
+
+  /** User-defined functions, methods of environment objects and variables set by the interpreter */
+  callUserFunction,
+  callObjectMethod,
+  unwrapAll,
+
+  /** Operators and criteria of the strict and fhirpathjs-compatible modes */
+  checkedBinaryOp,
+  singletonOperand,
+  singletonInput,
+  criterionHolds,
+  iifCondition,
+
+  /** Decimal literals and numeric functions that keep Decimals exact */
+  isDecimal,
+  isNumeric,
+  parseDecimal,
+  negate: (v: unknown): unknown => isDecimal(v) ? negateDecimal(v) : -(v as number),
+  abs,
+  ceiling,
+  floor,
+  round,
+  truncate,
+  sum,
+  min,
+  max,
+  avg,
+  toInteger,
+  toDecimal,
+
+  /** Precision and boundaries of Decimals, dates/times and quantities */
+  lowBoundary,
+  highBoundary,
+  precision,
+  comparable,
+
+  /** Distinct items (distinct(), union() and |) and string conversion */
+  distinct,
+  isDistinct,
+  toStringValue,
+
+  /** Values of FHIR elements (getValue()) and their children, with the "_element" siblings of primitives */
+  getValue,
+  children,
+  descendants,
+
+  /** Date, DateTime and Time literals and functions */
+  isTemporal,
+  parseDate,
+  parseDateTime,
+  parseTime,
+  toDate,
+  toDateTime,
+  toTime,
+  today,
+  now,
+  timeOfDay,
+};
+
+/**
+ * Render temporal values in a result as strings and Decimals as numbers
+ */
+function toResult(result: unknown[]): unknown[] {
+  if (!result.some(v => isTemporal(v) || isDecimal(v))) return result;
+  return result.map(v => isTemporal(v) ? v.toString() : isDecimal(v) ? v.toNumber() : v);
+}
+
+/**
+ * The guarded code of a function for a call with limits or a signal.
+ * Modules compiled ahead of time only have it if they are guarded.
+ */
+function guardedCode(generateGuarded: (() => GeneratedCode) | undefined): GeneratedCode {
+  if (!generateGuarded) {
+    throw new Error("JIT: Limits and signal need code compiled with guarded: true");
+  }
+  return generateGuarded();
+}
+
+/**
+ * Make generated code a compiled function. Guarded code reports its progress
+ * to an EvaluationGuard ($g) created for each call, with the limits and signal
+ * of the call or else of the compilation. A call of unguarded code with
+ * limits or a signal runs the guarded code of generateGuarded() instead.
+ */
+export function compiledFunction<T = unknown>(
+  generated: GeneratedCode,
+  options: JITOptions,
+  guarded: boolean,
+  generateGuarded?: () => GeneratedCode,
+): CompiledFhirPath<T> {
+  const { fn } = generated;
+  const interpret = interpreter(generated.fallbacks, options);
+  let guardedFn: CompiledFhirPath<T> | undefined;
+
+  return ((resource: unknown, context?: Record<string, unknown>, opts?: JITOptions) => {
+    if (!guarded && (opts?.limits || opts?.signal)) {
+      guardedFn ??= compiledFunction<T>(guardedCode(generateGuarded), options, true);
+      return guardedFn(resource, context, opts);
+    }
+    const evaluationOptions = opts ? { ...options, ...opts } : options;
+    const guard = guarded
+      ? EvaluationGuard.create(opts?.limits ?? options.limits ?? {}, opts?.signal ?? options.signal)
+      : undefined;
+    return toResult(fn(
+      resource,
+      context,
+      evaluationOptions,
+      RUNTIME_HELPERS,
+      guard,
+      interpret?.(resource, context, evaluationOptions, guard),
+    ) as unknown[]);
+  }) as CompiledFhirPath<T>;
+}
+
+/**
+ * Make generated code of a batch a compiled function returning the results by key
+ */
+export function compiledBatch<T = unknown>(
+  generated: GeneratedCode,
+  keys: string[],
+  options: JITOptions,
+  guarded: boolean,
+  generateGuarded?: () => GeneratedCode,
+): CompiledFhirPathBatch<T> {
+  const { fn } = generated;
+  const interpret = interpreter(generated.fallbacks, options);
+  let guardedFn: CompiledFhirPathBatch<T> | undefined;
+
+  return ((resource: unknown, context?: Record<string, unknown>, opts?: JITOptions) => {
+    if (!guarded && (opts?.limits || opts?.signal)) {
+      guardedFn ??= compiledBatch<T>(guardedCode(generateGuarded), keys, options, true);
+      return guardedFn(resource, context, opts);
+    }
+    const evaluationOptions = opts ? { ...options, ...opts } : options;
+    const guard = guarded
+      ? EvaluationGuard.create(opts?.limits ?? options.limits ?? {}, opts?.signal ?? options.signal)
+      : undefined;
+    const results = fn(
+      resource,
+      context,
+      evaluationOptions,
+      RUNTIME_HELPERS,
+      guard,
+      interpret?.(resource, context, evaluationOptions, guard),
+    ) as Record<string, unknown[]>;
+    for (const key of keys) {
+      results[key] = toResult(results[key]);
+    }
+    return results;
+  }) as CompiledFhirPathBatch<T>;
+}
@@ -0,0 +1,196 @@
+/**
+ * Model Builder
+ *
+ * Builds a Model (path2Type, choiceTypePaths, pathsDefinedElsewhere,
+ * type2Parent) from StructureDefinitions in memory, the same tables that
+ * scripts/generate-fhir-context.ts writes for the core specification.
+ *
+ * - Specializations (resources, data types, logical models) define a type
+ *   named after their root element, deriving from their base definition.
+ * - Constraints (profiles) define a type named after the profile that
+ *   derives from the constrained type, with the profile's narrowed element
+ *   types (e.g. a choice element restricted to Quantity). Slices and
+ *   prohibited elements (max = 0) are left out.
+ *
+ * @example
+ * ```typescript
+ * import { buildModel } from "@atollee/fhirpath/model";
+ * import r4Model from "./fhir-context/r4/mod.ts";
+ *
+ * const model = buildModel(igBundle, { base: r4Model });
+ * const engine = new FhirPathEngine({ model });
+ * ```
+ */
+
+import type { Model } from "../types.ts";
+import type { ModelBuilderOptions, StructureDefinition, StructureDefinitionSource } from "./types.ts";
+
+/** Type codes of System types: http://hl7.org/fhirpath/System.String */
+const SYSTEM_TYPE_URL = "http://hl7.org/fhirpath/System.";
+
+/**
+ * Model versions by FHIR version prefix
+ */
+const FHIR_VERSIONS: Array<[string, Model["version"]]> = [
+  ["1.0", "dstu2"],
+  ["3.0", "stu3"],
+  ["4.0", "r4"],
+  ["4.3", "r4b"],
+  ["5.", "r5"],
+  ["6.", "r6"],
+];
+
+/**
+ * Build a Model from StructureDefinitions
+ */
+export function buildModel(source: StructureDefinitionSource, options: ModelBuilderOptions = {}): Model {
+  const definitions = collectStructureDefinitions(source);
+  const base = options.base;
+
+  const model: Model = {
+    version: options.version ?? detectVersion(definitions) ?? base?.version ?? "r4",
+    choiceTypePaths: { ...base?.choiceTypePaths },
+    pathsDefinedElsewhere: { ...base?.pathsDefinedElsewhere },
+    type2Parent: { ...base?.type2Parent },
+    path2Type: { ...base?.path2Type },
+  };
+  const score = options.score ?? base?.score;
+  if (score) model.score = score;
+
+  // Type names by canonical URL, for base definitions and logical model types
+  const typeNames = new Map<string, string>();
+  for (const definition of definitions) {
+    if (definition.url) typeNames.set(definition.url, getTypeName(definition));
+  }
+  const resolve = (code: string) => resolveTypeCode(code, typeNames);
+
+  if (base) {
+    removeTypes(model, new Set(definitions.map(getTypeName)));
+  }
+  for (const definition of definitions) {
+    addDefinition(model, definition, resolve);
+  }
+
+  return model;
+}
+
+/**
+ * The StructureDefinitions of a source; Bundles may be nested in arrays
+ */
+export function collectStructureDefinitions(source: StructureDefinitionSource): StructureDefinition[] {
+  const result: StructureDefinition[] = [];
+  const visit = (item: unknown) => {
+    if (item == null || typeof item !== "object") return;
+    if (Array.isArray(item)) {
+      item.forEach(visit);
+      return;
+    }
+    const resource = item as { resourceType?: unknown; entry?: Array<{ resource?: unknown }> };
+    if (resource.resourceType === "StructureDefinition") {
+      result.push(item as StructureDefinition);
+    } else if (resource.resourceType === "Bundle") {
+      resource.entry?.forEach(entry => visit(entry.resource));
+    }
+  };
+  visit(source);
+  return result;
+}
+
+/**
+ * Add the type and elements of a StructureDefinition to a model
+ */
+function addDefinition(model: Model, definition: StructureDefinition, resolve: (code: string) => string): void {
+  const elements = definition.snapshot?.element ?? definition.differential?.element ?? [];
+  const typeName = getTypeName(definition);
+  // Root of the element paths, the constrained type for profiles
+  const root = elements[0]?.path.split(".")[0] ?? typeName;
+
+  if (definition.derivation === "constraint") {
+    const parent = resolve(definition.type);
+    // A profile that is named like its type cannot be told apart from it
+    if (parent === typeName) return;
+    model.type2Parent[typeName] = parent;
+  } else if (definition.baseDefinition) {
+    const parent = resolve(definition.baseDefinition);
+    if (parent !== typeName) model.type2Parent[typeName] = parent;
+  }
+
+  for (const element of elements) {
+    if (element.sliceName || element.id?.includes(":") || element.max === "0") continue;
+
+    const path = rebase(element.path, root, typeName);
+    if (path === typeName) continue;
+
+    if (element.contentReference) {
+      const reference = element.contentReference.slice(element.contentReference.indexOf("#") + 1);
+      model.pathsDefinedElsewhere[path] = rebase(reference, root, typeName);
+      continue;
+    }
+
+    const types = element.type ?? [];
+    if (types.length === 0) continue;
+
+    if (path.endsWith("[x]")) {
+      const suffixes = types.map(type => capitalize(resolve(type.code)));
+      model.choiceTypePaths[path.slice(0, -3)] = [...new Set(suffixes)];
+    } else {
+      const code = resolve(types[0].code);
+      const targets = types.flatMap(type => type.targetProfile ?? []).map(resolve);
+      model.path2Type[path] = targets.length > 0 ? { code, refType: [...new Set(targets)] } : code;
+    }
+  }
+}
+
+/**
+ * Remove the elements of types that are redefined from a model
+ */
+function removeTypes(model: Model, types: Set<string>): void {
+  const tables = [model.path2Type, model.choiceTypePaths, model.pathsDefinedElsewhere];
+  for (const table of tables) {
+    for (const path of Object.keys(table)) {
+      if (types.has(path.split(".")[0])) delete table[path];
+    }
+  }
+}
+
+/**
+ * Name of the type a StructureDefinition defines.
+ * Profiles are named after the profile, other definitions after the root
+ * element (which for logical models differs from their type URL).
+ */
+function getTypeName(definition: StructureDefinition): string {
+  if (definition.derivation === "constraint") return definition.name;
+  const elements = definition.snapshot?.element ?? definition.differential?.element;
+  return elements?.[0]?.path.split(".")[0] ?? lastSegment(definition.type);
+}
+
+/**
+ * Resolve a type code or canonical URL to a type name
+ */
+function resolveTypeCode(code: string, typeNames: Map<string, string>): string {
+  const url = code.split("|")[0];
+  if (url.startsWith(SYSTEM_TYPE_URL)) return `System.${url.slice(SYSTEM_TYPE_URL.length)}`;
+  return typeNames.get(url) ?? lastSegment(url);
+}
+
+function detectVersion(definitions: StructureDefinition[]): Model["version"] | undefined {
+  const fhirVersion = definitions.find(definition => definition.fhirVersion)?.fhirVersion;
+  return fhirVersion ? FHIR_VERSIONS.find(([prefix]) => fhirVersion.startsWith(prefix))?.[1] : undefined;
+}
+
+/**
+ * Replace the root of an element path (Observation.value -> MyObservation.value)
+ */
+function rebase(path: string, root: string, typeName: string): string {
+  if (root === typeName) return path;
+  if (path === root || path.startsWith(`${root}.`)) return typeName + path.slice(root.length);
+  return path;
+}
+
+function lastSegment(url: string): string {
+  return url.slice(url.lastIndexOf("/") + 1);
+}
+
+function capitalize(type: string): string {
+  return type.charAt(0).toUpperCase() + type.slice(1);
+}
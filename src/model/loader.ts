@@ -0,0 +1,170 @@
+/**
+ * Model Loader
+ *
+ * Reads StructureDefinitions from the local file system and builds a
+ * Model from them, without network access:
+ * - a JSON file (Bundle, StructureDefinition or array of resources)
+ * - a directory of JSON files, such as an extracted FHIR NPM package
+ *   (the files of its package/ folder are read as well)
+ * - a FHIR NPM package tarball (.tgz)
+ *
+ * @example
+ * ```typescript
+ * import { loadModel } from "@atollee/fhirpath/model";
+ *
+ * const model = await loadModel("./packages/hl7.fhir.us.core-6.1.0.tgz", { base: r4Model });
+ * ```
+ */
+
+import type { Model } from "../types.ts";
+import { buildModel, collectStructureDefinitions } from "./builder.ts";
+import type { ModelBuilderOptions } from "./types.ts";
+
+const decoder = new TextDecoder();
+
+/** Tar block size */
+const BLOCK = 512;
+
+/**
+ * Model loading error
+ */
+export class ModelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModelError";
+  }
+}
+
+/**
+ * Build a Model from the StructureDefinitions in a file, directory or package tarball
+ */
+export async function loadModel(path: string | URL, options: ModelBuilderOptions = {}): Promise<Model> {
+  const resources = await readResources(path);
+  if (collectStructureDefinitions(resources).length === 0) {
+    throw new ModelError(`No StructureDefinitions found in ${path}`);
+  }
+  return buildModel(resources, options);
+}
+
+/**
+ * Read the JSON resources of a file, directory or tarball
+ */
+async function readResources(path: string | URL): Promise<unknown[]> {
+  let info: Deno.FileInfo;
+  try {
+    info = await Deno.stat(path);
+  } catch (error) {
+    throw new ModelError(`Cannot read ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (info.isDirectory) {
+    return await readDirectory(path);
+  }
+
+  const name = String(path);
+  if (/\.(tgz|tar\.gz|tar)$/.test(name)) {
+    const data = await Deno.readFile(path);
+    return readTarball(name.endsWith(".tar") ? data : await gunzip(data));
+  }
+
+  return [parseResource(await Deno.readTextFile(path), name)];
+}
+
+/**
+ * Read the JSON files of a directory and of its package/ folder
+ */
+async function readDirectory(path: string | URL): Promise<unknown[]> {
+  const dir = String(path instanceof URL ? path.pathname : path).replace(/\/$/, "");
+  const resources: unknown[] = [];
+  for await (const entry of Deno.readDir(dir)) {
+    const file = `${dir}/${entry.name}`;
+    if (entry.isDirectory && entry.name === "package") {
+      resources.push(...await readDirectory(file));
+    } else if (entry.isFile && isResourceFile(entry.name)) {
+      const text = await Deno.readTextFile(file);
+      if (mayContainDefinitions(text)) resources.push(parseResource(text, file));
+    }
+  }
+  return resources;
+}
+
+/**
+ * Read the JSON files at the top of a tar archive or of its package/ folder
+ */
+function readTarball(data: Uint8Array): unknown[] {
+  const resources: unknown[] = [];
+  for (const { name, content } of readTar(data)) {
+    const match = name.match(/^(?:package\/)?([^/]+)$/);
+    if (!match || !isResourceFile(match[1])) continue;
+    const text = decoder.decode(content);
+    if (mayContainDefinitions(text)) resources.push(parseResource(text, name));
+  }
+  return resources;
+}
+
+/**
+ * Iterate over the regular files of a tar archive (ustar, with GNU and pax long names)
+ */
+function* readTar(data: Uint8Array): Generator<{ name: string; content: Uint8Array }> {
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + BLOCK <= data.length) {
+    const header = data.subarray(offset, offset + BLOCK);
+    if (header.every(byte => byte === 0)) break;
+
+    const size = parseInt(readField(header, 124, 12).trim() || "0", 8);
+    const type = String.fromCharCode(header[156]);
+    const content = data.subarray(offset + BLOCK, offset + BLOCK + size);
+    offset += BLOCK + Math.ceil(size / BLOCK) * BLOCK;
+
+    if (type === "L") {
+      longName = decoder.decode(content).replace(/\0[\s\S]*$/, "");
+      continue;
+    }
+    if (type === "x") {
+      longName = decoder.decode(content).match(/^\d+ path=(.*)$/m)?.[1] ?? longName;
+      continue;
+    }
+    if (type !== "0" && type !== "\0") {
+      longName = undefined;
+      continue;
+    }
+
+    const prefix = readField(header, 345, 155);
+    const name = longName ?? (prefix ? `${prefix}/${readField(header, 0, 100)}` : readField(header, 0, 100));
+    longName = undefined;
+    yield { name, content };
+  }
+}
+
+function readField(header: Uint8Array, start: number, length: number): string {
+  return decoder.decode(header.subarray(start, start + length)).replace(/\0[\s\S]*$/, "");
+}
+
+async function gunzip(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * JSON files other than hidden files (.index.json) and package.json
+ */
+function isResourceFile(name: string): boolean {
+  return name.endsWith(".json") && !name.startsWith(".") && name !== "package.json";
+}
+
+/**
+ * Cheap check before parsing, as packages also contain large examples
+ */
+function mayContainDefinitions(text: string): boolean {
+  return text.includes("StructureDefinition");
+}
+
+function parseResource(text: string, name: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new ModelError(`Invalid JSON in ${name}: ${error instanceof Error ? error.message : error}`);
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * FHIR Model Builder
+ *
+ * Builds Model objects from local StructureDefinitions at runtime,
+ * including profiles and logical models, for use with FhirPathEngine.
+ *
+ * @example
+ * ```typescript
+ * import { loadModel } from "@atollee/fhirpath/model";
+ *
+ * const model = await loadModel("./my-ig/package", { base: r4Model });
+ * const engine = new FhirPathEngine({ model });
+ * engine.evaluate(observation, "value.ofType(Quantity).value");
+ * ```
+ */
+
+export { buildModel, collectStructureDefinitions } from "./builder.ts";
+export { loadModel, ModelError } from "./loader.ts";
+export type {
+  ElementDefinition,
+  ElementDefinitionConstraint,
+  ElementDefinitionType,
+  ModelBuilderOptions,
+  StructureDefinition,
+  StructureDefinitionSource,
+} from "./types.ts";
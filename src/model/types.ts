@@ -0,0 +1,88 @@
+/**
+ * Model Builder Types
+ *
+ * The parts of StructureDefinition and ElementDefinition that are needed
+ * to build a Model, and the options of the builder.
+ */
+
+import type { Model } from "../types.ts";
+
+/**
+ * Type of an element
+ */
+export interface ElementDefinitionType {
+  /** Type code: a FHIR type name, a System type URL or a logical model URL */
+  code: string;
+  /** Allowed targets of Reference and canonical elements */
+  targetProfile?: string[];
+}
+
+/**
+ * Invariant of an element
+ */
+export interface ElementDefinitionConstraint {
+  key: string;
+  severity: "error" | "warning";
+  human: string;
+  /** FHIRPath expression that must evaluate to true */
+  expression?: string;
+  /** Canonical URL of the StructureDefinition that defined the invariant */
+  source?: string;
+}
+
+/**
+ * Element of a StructureDefinition
+ */
+export interface ElementDefinition {
+  id?: string;
+  path: string;
+  sliceName?: string;
+  max?: string;
+  type?: ElementDefinitionType[];
+  /** "#Questionnaire.item", or "<url>#Questionnaire.item" since R5 */
+  contentReference?: string;
+  constraint?: ElementDefinitionConstraint[];
+}
+
+/**
+ * StructureDefinition of a resource, data type, profile or logical model
+ */
+export interface StructureDefinition {
+  resourceType: "StructureDefinition";
+  url?: string;
+  name: string;
+  fhirVersion?: string;
+  kind: "primitive-type" | "complex-type" | "resource" | "logical";
+  abstract?: boolean;
+  /** Type defined or constrained (a URL for logical models) */
+  type: string;
+  baseDefinition?: string;
+  derivation?: "specialization" | "constraint";
+  snapshot?: { element: ElementDefinition[] };
+  differential?: { element: ElementDefinition[] };
+}
+
+/**
+ * StructureDefinitions to build a model from: a Bundle, a single
+ * StructureDefinition, or an array of resources. Other resources are ignored.
+ */
+export type StructureDefinitionSource =
+  | { resourceType: string; entry?: ReadonlyArray<{ resource?: unknown }> }
+  | StructureDefinition
+  | readonly unknown[];
+
+/**
+ * Options for buildModel() and loadModel()
+ */
+export interface ModelBuilderOptions {
+  /**
+   * Model to extend, e.g. the core R4 model when loading the profiles of an
+   * implementation guide. Types defined by the loaded definitions replace
+   * their entries in the base model.
+   */
+  base?: Model;
+  /** Model version (default: from fhirVersion, else the base model's, else "r4") */
+  version?: Model["version"];
+  /** Score configuration for weight() (default: the base model's) */
+  score?: Model["score"];
+}
@@ -2,9 +2,11 @@
  * FHIRPath Diagnostics Provider for Monaco Editor
  * 
  * Provides syntax validation and error markers for FHIRPath expressions.
+ * When a FHIR model is given, expressions are also type checked against it.
  */
 
 import { parseFhirPath } from "../parser/mod.ts";
+import { typeCheck, type TypeCheckOptions } from "../optimizer/typecheck.ts";
 import { FHIRPATH_FUNCTIONS } from "./language.ts";
 
 /**
@@ -37,9 +39,11 @@ export interface Diagnostic {
 const KNOWN_FUNCTIONS = new Set(FHIRPATH_FUNCTIONS.map(f => f.name));
 
 /**
- * Validate a FHIRPath expression and return diagnostics
+ * Validate a FHIRPath expression and return diagnostics.
+ * With a model, unknown elements, impossible casts and incompatible
+ * function inputs are reported as well.
  */
-export function validateFhirPath(expression: string): Diagnostic[] {
+export function validateFhirPath(expression: string, options?: TypeCheckOptions): Diagnostic[] {
   const diagnostics: Diagnostic[] = [];
   
   if (!expression.trim()) {
@@ -52,6 +56,10 @@ export function validateFhirPath(expression: string): Diagnostic[] {
     
     // If parsing succeeds, check for warnings
     diagnostics.push(...checkWarnings(expression));
+
+    if (options?.model) {
+      diagnostics.push(...checkTypes(expression, options));
+    }
     
   } catch (error) {
     // Parse error - extract position and message
@@ -140,6 +148,34 @@ function checkWarnings(expression: string): Diagnostic[] {
   return warnings;
 }
 
+/**
+ * Type check against the model
+ */
+function checkTypes(expression: string, options: TypeCheckOptions): Diagnostic[] {
+  return typeCheck(expression, options).issues.map(issue => {
+    const start = offsetToPosition(expression, issue.start);
+    const end = offsetToPosition(expression, issue.end);
+    return {
+      severity: issue.severity === "error" ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning,
+      message: issue.message,
+      startLineNumber: start.line,
+      startColumn: start.column,
+      endLineNumber: end.line,
+      endColumn: end.column,
+      code: issue.code.toUpperCase().replace(/-/g, "_"),
+      source: "fhirpath",
+    };
+  });
+}
+
+/**
+ * Convert an offset in the expression to a 1-based line and column
+ */
+function offsetToPosition(expression: string, offset: number): { line: number; column: number } {
+  const lines = expression.slice(0, offset).split("\n");
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
 /**
  * Check for deprecated patterns
  */
@@ -285,8 +321,8 @@ function checkUnknownFunctions(expression: string): Diagnostic[] {
  * monaco.editor.setModelMarkers(model, 'fhirpath', diagnostics);
  * ```
  */
-export function provideFhirPathDiagnostics(expression: string): Diagnostic[] {
-  return validateFhirPath(expression);
+export function provideFhirPathDiagnostics(expression: string, options?: TypeCheckOptions): Diagnostic[] {
+  return validateFhirPath(expression, options);
 }
 
 /**
@@ -89,6 +89,10 @@ export const FHIRPATH_FUNCTIONS: FunctionDefinition[] = [
   { name: "round", signature: "round([precision]) : Decimal", description: "Rounds to specified precision", category: "Math" },
   { name: "sqrt", signature: "sqrt() : Decimal", description: "Returns square root", category: "Math" },
   { name: "truncate", signature: "truncate() : Integer", description: "Truncates to integer", category: "Math" },
+  { name: "lowBoundary", signature: "lowBoundary([precision]) : Decimal | Date | DateTime | Time | Quantity", description: "Returns the least possible value given the precision", category: "Math" },
+  { name: "highBoundary", signature: "highBoundary([precision]) : Decimal | Date | DateTime | Time | Quantity", description: "Returns the greatest possible value given the precision", category: "Math" },
+  { name: "precision", signature: "precision() : Integer", description: "Returns the number of digits of precision", category: "Math" },
+  { name: "comparable", signature: "comparable(quantity) : Boolean", description: "Returns true if the quantities have comparable units", category: "Math" },
   
   // Tree navigation
   { name: "children", signature: "children() : Collection", description: "Returns all direct children", category: "Navigation" },
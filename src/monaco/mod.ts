@@ -74,6 +74,7 @@ import {
 import { provideFhirPathCompletions, getSnippetCompletions } from "./completion.ts";
 import { provideFhirPathHover } from "./hover.ts";
 import { provideFhirPathDiagnostics } from "./diagnostics.ts";
+import type { TypeCheckOptions } from "../optimizer/typecheck.ts";
 
 /**
  * Monaco Editor type (minimal interface for registration)
@@ -169,18 +170,20 @@ export function registerFhirPathLanguage(
  * @param monaco - The Monaco Editor namespace
  * @param model - The editor model to validate
  * @param debounceMs - Debounce delay in milliseconds
+ * @param typeCheckOptions - FHIR model and base type to type check against
  * @returns Disposable to stop validation
  */
 export function setupFhirPathValidation(
   monaco: Monaco,
   model: EditorModel,
-  debounceMs: number = 500
+  debounceMs: number = 500,
+  typeCheckOptions?: TypeCheckOptions,
 ): { dispose(): void } {
   let timeoutId: ReturnType<typeof setTimeout> | null = null;
   
   const validate = () => {
     const expression = model.getValue();
-    const diagnostics = provideFhirPathDiagnostics(expression);
+    const diagnostics = provideFhirPathDiagnostics(expression, typeCheckOptions);
     monaco.editor.setModelMarkers(model, FHIRPATH_LANGUAGE_ID, diagnostics);
   };
   
@@ -536,6 +536,8 @@ function checkJitNode(node: ASTNode, unsupported: string[]): void {
         // Math
         "abs", "ceiling", "floor", "round", "truncate",
         "sqrt", "exp", "ln", "log", "power",
+        // Precision and boundaries
+        "lowBoundary", "highBoundary", "precision", "comparable",
         // String
         "startsWith", "endsWith", "contains", "matches", "replace",
         "replaceMatches", "length", "substring", "upper", "lower",
@@ -25,3 +25,13 @@ export {
   type OptimizationHint,
   type AnalysisResult,
 } from "./hints.ts";
+
+export {
+  typeCheck,
+  type Cardinality,
+  type InferredType,
+  type TypeCheckIssue,
+  type TypeCheckIssueCode,
+  type TypeCheckOptions,
+  type TypeCheckResult,
+} from "./typecheck.ts";
@@ -0,0 +1,808 @@
+/**
+ * FHIRPath Static Type Checker
+ *
+ * Infers the type and cardinality of every node of an expression against a
+ * FHIR Model (path2Type, type2Parent, choiceTypePaths) without evaluating it,
+ * and reports unknown elements, impossible casts and functions applied to
+ * input of an incompatible type.
+ *
+ * The checker is conservative: whenever a type cannot be inferred (user
+ * functions, resolve(), unknown variables, ...) the node is typed as Any and
+ * nothing downstream of it is reported.
+ *
+ * @example
+ * ```typescript
+ * import { typeCheck } from "@atollee/fhirpath/optimizer";
+ *
+ * const result = typeCheck("Patient.nmae.given", { model: r4Model });
+ * // result.issues[0]: { code: "unknown-element", message: "Unknown element 'nmae' on FHIR.Patient", start: 8, end: 12, ... }
+ * ```
+ */
+
+import type {
+  ASTNode,
+  BinaryOpNode,
+  EnvVariableNode,
+  ExpressionNode,
+  FunctionCallNode,
+  IdentifierNode,
+  IndexerNode,
+  LiteralNode,
+  MemberAccessNode,
+  MethodCallNode,
+  ParenNode,
+  TypeOpNode,
+  UnaryOpNode,
+} from "../parser/ast.ts";
+import { parseFhirPath } from "../parser/mod.ts";
+import type { Model } from "../types.ts";
+import {
+  getChildBasePath,
+  getElementInfo,
+  isFhirTypeOf,
+  isPrimitiveType,
+  normalizeTypeName,
+  toSystemType,
+} from "../evaluator/model.ts";
+
+/**
+ * Cardinality of an inferred collection
+ */
+export type Cardinality = "0..0" | "0..1" | "1..1" | "0..*";
+
+/**
+ * Inferred type of an expression node
+ */
+export interface InferredType {
+  /**
+   * Possible types of the items, qualified with their namespace
+   * (e.g. "FHIR.HumanName", "System.String"). Empty if unknown (Any).
+   */
+  types: string[];
+  /** Cardinality of the collection */
+  cardinality: Cardinality;
+}
+
+/**
+ * Type checker issue codes
+ */
+export type TypeCheckIssueCode =
+  | "unknown-element"
+  | "unknown-type"
+  | "impossible-cast"
+  | "incompatible-input";
+
+/**
+ * Issue found by the type checker
+ */
+export interface TypeCheckIssue {
+  severity: "error" | "warning";
+  code: TypeCheckIssueCode;
+  message: string;
+  /** Start offset in the expression */
+  start: number;
+  /** End offset in the expression */
+  end: number;
+}
+
+/**
+ * Type checker options
+ */
+export interface TypeCheckOptions {
+  /** FHIR model to check against */
+  model: Model;
+  /**
+   * Type or element path the expression is evaluated on
+   * (e.g. "Patient" or "Patient.contact"). Without a base, the root type is
+   * taken from a leading type name (Patient.name) or left unknown.
+   */
+  base?: string;
+}
+
+/**
+ * Type checker result
+ */
+export interface TypeCheckResult {
+  /** False if the expression does not parse or has errors */
+  valid: boolean;
+  /** Parse error (if the expression does not parse) */
+  error?: string;
+  /** Type of the whole expression */
+  type: InferredType;
+  /** Errors and warnings with source positions */
+  issues: TypeCheckIssue[];
+  /** Inferred type of every AST node */
+  nodeTypes: Map<ASTNode, InferredType>;
+}
+
+/**
+ * A possible item type: a FHIR type name, or "System.X" for System types,
+ * with the model path of the element when known (needed for the children
+ * of backbone elements)
+ */
+interface ItemType {
+  type: string;
+  path?: string;
+}
+
+/**
+ * Item types of a collection; undefined if unknown (Any)
+ */
+interface Inferred {
+  items?: ItemType[];
+  cardinality: Cardinality;
+}
+
+interface Scope {
+  /** $this */
+  focus: Inferred;
+  /** %resource, %context */
+  root: Inferred;
+}
+
+interface CheckContext {
+  model: Model;
+  issues: TypeCheckIssue[];
+  nodeTypes: Map<ASTNode, InferredType>;
+  /** Names defined with defineVariable(), typed as Any */
+  variables: Set<string>;
+}
+
+/**
+ * How a function types its result
+ */
+interface FunctionType {
+  /** System types the input must have (items of other types are an error) */
+  input?: readonly string[];
+  /**
+   * Result type: a System type name, "input" for the input's type,
+   * "arguments" for the union of the input and argument types,
+   * "first-argument" for the type of the first argument, "branches" for
+   * the union of the iif() branches, or "Extension"
+   */
+  result: string;
+  cardinality: Cardinality;
+  /** Arguments are evaluated for each input item ($this) */
+  iterates?: boolean;
+}
+
+const STRING = ["String"] as const;
+const NUMBER = ["Integer", "Decimal"] as const;
+const NUMBER_OR_QUANTITY = ["Integer", "Decimal", "Quantity"] as const;
+const BOOLEAN = ["Boolean"] as const;
+const BOUNDED = ["Integer", "Decimal", "Quantity", "Date", "DateTime", "Time"] as const;
+
+/**
+ * Result and input types of the built-in functions
+ */
+const FUNCTION_TYPES = new Map<string, FunctionType>([
+  // Existence
+  ["empty", { result: "Boolean", cardinality: "1..1" }],
+  ["exists", { result: "Boolean", cardinality: "1..1", iterates: true }],
+  ["all", { result: "Boolean", cardinality: "1..1", iterates: true }],
+  ["allTrue", { input: BOOLEAN, result: "Boolean", cardinality: "1..1" }],
+  ["anyTrue", { input: BOOLEAN, result: "Boolean", cardinality: "1..1" }],
+  ["allFalse", { input: BOOLEAN, result: "Boolean", cardinality: "1..1" }],
+  ["anyFalse", { input: BOOLEAN, result: "Boolean", cardinality: "1..1" }],
+  ["subsetOf", { result: "Boolean", cardinality: "1..1" }],
+  ["supersetOf", { result: "Boolean", cardinality: "1..1" }],
+  ["isDistinct", { result: "Boolean", cardinality: "1..1" }],
+  ["count", { result: "Integer", cardinality: "1..1" }],
+  ["distinct", { result: "input", cardinality: "0..*" }],
+  ["hasValue", { result: "Boolean", cardinality: "1..1" }],
+
+  // Filtering and projection
+  ["where", { result: "input", cardinality: "0..*", iterates: true }],
+  ["select", { result: "first-argument", cardinality: "0..*", iterates: true }],
+  ["repeat", { result: "first-argument", cardinality: "0..*", iterates: true }],
+
+  // Subsetting
+  ["single", { result: "input", cardinality: "0..1" }],
+  ["first", { result: "input", cardinality: "0..1" }],
+  ["last", { result: "input", cardinality: "0..1" }],
+  ["tail", { result: "input", cardinality: "0..*" }],
+  ["skip", { result: "input", cardinality: "0..*" }],
+  ["take", { result: "input", cardinality: "0..*" }],
+  ["intersect", { result: "input", cardinality: "0..*" }],
+  ["exclude", { result: "input", cardinality: "0..*" }],
+
+  // Combining
+  ["union", { result: "arguments", cardinality: "0..*" }],
+  ["combine", { result: "arguments", cardinality: "0..*" }],
+
+  // Conversion
+  ["iif", { result: "branches", cardinality: "0..*" }],
+  ["toBoolean", { result: "Boolean", cardinality: "0..1" }],
+  ["convertsToBoolean", { result: "Boolean", cardinality: "0..1" }],
+  ["toInteger", { result: "Integer", cardinality: "0..1" }],
+  ["convertsToInteger", { result: "Boolean", cardinality: "0..1" }],
+  ["toDecimal", { result: "Decimal", cardinality: "0..1" }],
+  ["convertsToDecimal", { result: "Boolean", cardinality: "0..1" }],
+  ["toString", { result: "String", cardinality: "0..1" }],
+  ["convertsToString", { result: "Boolean", cardinality: "0..1" }],
+  ["toDate", { result: "Date", cardinality: "0..1" }],
+  ["convertsToDate", { result: "Boolean", cardinality: "0..1" }],
+  ["toDateTime", { result: "DateTime", cardinality: "0..1" }],
+  ["convertsToDateTime", { result: "Boolean", cardinality: "0..1" }],
+  ["toTime", { result: "Time", cardinality: "0..1" }],
+  ["convertsToTime", { result: "Boolean", cardinality: "0..1" }],
+  ["toQuantity", { result: "Quantity", cardinality: "0..1" }],
+  ["convertsToQuantity", { result: "Boolean", cardinality: "0..1" }],
+
+  // String manipulation
+  ["indexOf", { input: STRING, result: "Integer", cardinality: "0..1" }],
+  ["substring", { input: STRING, result: "String", cardinality: "0..1" }],
+  ["startsWith", { input: STRING, result: "Boolean", cardinality: "0..1" }],
+  ["endsWith", { input: STRING, result: "Boolean", cardinality: "0..1" }],
+  ["contains", { input: STRING, result: "Boolean", cardinality: "0..1" }],
+  ["upper", { input: STRING, result: "String", cardinality: "0..1" }],
+  ["lower", { input: STRING, result: "String", cardinality: "0..1" }],
+  ["replace", { input: STRING, result: "String", cardinality: "0..1" }],
+  ["matches", { input: STRING, result: "Boolean", cardinality: "0..1" }],
+  ["replaceMatches", { input: STRING, result: "String", cardinality: "0..1" }],
+  ["length", { input: STRING, result: "Integer", cardinality: "0..1" }],
+  ["toChars", { input: STRING, result: "String", cardinality: "0..*" }],
+  ["split", { input: STRING, result: "String", cardinality: "0..*" }],
+  ["trim", { input: STRING, result: "String", cardinality: "0..1" }],
+  ["encode", { input: STRING, result: "String", cardinality: "0..1" }],
+  ["decode", { input: STRING, result: "String", cardinality: "0..1" }],
+  ["join", { input: STRING, result: "String", cardinality: "0..1" }],
+
+  // Math
+  ["abs", { input: NUMBER_OR_QUANTITY, result: "input", cardinality: "0..1" }],
+  ["ceiling", { input: NUMBER, result: "Integer", cardinality: "0..1" }],
+  ["floor", { input: NUMBER, result: "Integer", cardinality: "0..1" }],
+  ["truncate", { input: NUMBER, result: "Integer", cardinality: "0..1" }],
+  ["round", { input: NUMBER, result: "Decimal", cardinality: "0..1" }],
+  ["exp", { input: NUMBER, result: "Decimal", cardinality: "0..1" }],
+  ["ln", { input: NUMBER, result: "Decimal", cardinality: "0..1" }],
+  ["log", { input: NUMBER, result: "Decimal", cardinality: "0..1" }],
+  ["power", { input: NUMBER, result: "input", cardinality: "0..1" }],
+  ["sqrt", { input: NUMBER, result: "Decimal", cardinality: "0..1" }],
+  ["lowBoundary", { input: BOUNDED, result: "input", cardinality: "0..1" }],
+  ["highBoundary", { input: BOUNDED, result: "input", cardinality: "0..1" }],
+  ["precision", { input: BOUNDED, result: "Integer", cardinality: "0..1" }],
+  ["comparable", { input: ["Quantity"], result: "Boolean", cardinality: "0..1" }],
+
+  // Aggregates
+  ["sum", { input: NUMBER_OR_QUANTITY, result: "input", cardinality: "0..1" }],
+  ["min", { result: "input", cardinality: "0..1" }],
+  ["max", { result: "input", cardinality: "0..1" }],
+  ["avg", { input: NUMBER_OR_QUANTITY, result: "Decimal", cardinality: "0..1" }],
+
+  // Boolean and utility
+  ["not", { input: BOOLEAN, result: "Boolean", cardinality: "0..1" }],
+  ["now", { result: "DateTime", cardinality: "1..1" }],
+  ["today", { result: "Date", cardinality: "1..1" }],
+  ["timeOfDay", { result: "Time", cardinality: "1..1" }],
+  ["trace", { result: "input", cardinality: "0..*" }],
+  ["memberOf", { result: "Boolean", cardinality: "0..1" }],
+  ["htmlChecks", { result: "Boolean", cardinality: "1..1" }],
+  ["hasExtension", { result: "Boolean", cardinality: "1..1" }],
+  ["extension", { result: "Extension", cardinality: "0..*" }],
+]);
+
+/**
+ * System types, for type specifiers without namespace that are no FHIR type
+ */
+const SYSTEM_TYPE_NAMES = new Set([
+  "Any", "Boolean", "String", "Integer", "Decimal", "Date", "DateTime", "Time", "Quantity",
+]);
+
+/**
+ * Abstract types whose instances are resources of any type: their
+ * children cannot be known statically
+ */
+const OPEN_TYPES = new Set(["Resource", "DomainResource"]);
+
+const ANY: Inferred = { cardinality: "0..*" };
+
+/**
+ * Type check a FHIRPath expression against a FHIR model
+ */
+export function typeCheck(expression: string, options: TypeCheckOptions): TypeCheckResult {
+  const nodeTypes = new Map<ASTNode, InferredType>();
+
+  let ast: ExpressionNode;
+  try {
+    ast = parseFhirPath(expression);
+  } catch (error) {
+    return {
+      valid: false,
+      error: error instanceof Error ? error.message : "Unknown parse error",
+      type: { types: [], cardinality: "0..*" },
+      issues: [],
+      nodeTypes,
+    };
+  }
+
+  const context: CheckContext = {
+    model: options.model,
+    issues: [],
+    nodeTypes,
+    variables: new Set(),
+  };
+  const root = resolveBase(options.model, options.base);
+  const result = checkNode(ast, { focus: root, root }, context);
+
+  return {
+    valid: !context.issues.some(issue => issue.severity === "error"),
+    type: toInferredType(result),
+    issues: context.issues,
+    nodeTypes,
+  };
+}
+
+/**
+ * Type of the context the expression is evaluated on
+ */
+function resolveBase(model: Model, base: string | undefined): Inferred {
+  if (!base) return ANY;
+  const entry = base.includes(".") ? model.path2Type[base] : undefined;
+  if (entry !== undefined) {
+    const type = normalizeTypeName(typeof entry === "string" ? entry : entry.code);
+    return { items: [{ type, path: base }], cardinality: "1..1" };
+  }
+  return { items: [{ type: base }], cardinality: "1..1" };
+}
+
+// ============================================================
+// Node inference
+// ============================================================
+
+function checkNode(node: ASTNode, scope: Scope, context: CheckContext): Inferred {
+  const result = inferNode(node, scope, context);
+  context.nodeTypes.set(node, toInferredType(result));
+  return result;
+}
+
+function inferNode(node: ASTNode, scope: Scope, context: CheckContext): Inferred {
+  switch (node.type) {
+    case "Expression":
+      return checkNode((node as ExpressionNode).child, scope, context);
+
+    case "Literal":
+      return inferLiteral(node as LiteralNode);
+
+    case "Identifier":
+      return inferIdentifier(node as IdentifierNode, scope.focus, context, true);
+
+    case "MemberAccess": {
+      const member = node as MemberAccessNode;
+      const object = checkNode(member.object, scope, context);
+      const result = inferIdentifier(member.member, object, context, false);
+      context.nodeTypes.set(member.member, toInferredType(result));
+      return result;
+    }
+
+    case "FunctionCall": {
+      const call = node as FunctionCallNode;
+      return inferFunction(call.function, call.arguments, scope.focus, scope, context);
+    }
+
+    case "MethodCall": {
+      const call = node as MethodCallNode;
+      const object = checkNode(call.object, scope, context);
+      return inferFunction(call.method, call.arguments, object, scope, context);
+    }
+
+    case "Indexer": {
+      const indexer = node as IndexerNode;
+      const object = checkNode(indexer.object, scope, context);
+      checkNode(indexer.index, scope, context);
+      return { items: object.items, cardinality: "0..1" };
+    }
+
+    case "BinaryOp":
+      return inferBinaryOp(node as BinaryOpNode, scope, context);
+
+    case "UnaryOp": {
+      const operand = checkNode((node as UnaryOpNode).operand, scope, context);
+      return { items: operand.items, cardinality: "0..1" };
+    }
+
+    case "TypeOp": {
+      const typeOp = node as TypeOpNode;
+      const input = checkNode(typeOp.expression, scope, context);
+      const target = typeOp.targetType;
+      const type = resolveTypeSpecifier(target.typeName, target.namespace, target, context);
+      if (typeOp.operator === "is") {
+        if (type) checkCast(input, type, "is", target, context);
+        return system("Boolean", "0..1");
+      }
+      return type ? castTo(input, type, "as", target, context) : ANY;
+    }
+
+    case "Paren":
+      return checkNode((node as ParenNode).expression, scope, context);
+
+    case "This":
+      return { items: scope.focus.items, cardinality: "1..1" };
+
+    case "Index":
+      return system("Integer", "1..1");
+
+    case "EmptySet":
+      return { items: [], cardinality: "0..0" };
+
+    case "EnvVariable": {
+      const name = (node as EnvVariableNode).name;
+      if (name === "resource" || name === "rootResource" || name === "context") {
+        return scope.root;
+      }
+      if (name === "ucum" || name === "sct" || name === "loinc" || /^(vs|ext)-/.test(name)) {
+        return system("String", "1..1");
+      }
+      return ANY;
+    }
+
+    default:
+      return ANY;
+  }
+}
+
+function inferLiteral(node: LiteralNode): Inferred {
+  switch (node.literalType) {
+    case "string": return system("String", "1..1");
+    case "number": return system(Number.isInteger(node.value) ? "Integer" : "Decimal", "1..1");
+    case "decimal": return system("Decimal", "1..1");
+    case "boolean": return system("Boolean", "1..1");
+    case "date": return system("Date", "1..1");
+    case "datetime": return system("DateTime", "1..1");
+    case "time": return system("Time", "1..1");
+    case "quantity": return system("Quantity", "1..1");
+    default: return ANY;
+  }
+}
+
+/**
+ * A name at the start of an expression or after a dot: a type name
+ * selecting resources (Patient.name), a variable, or a child element
+ */
+function inferIdentifier(node: IdentifierNode, input: Inferred, context: CheckContext, leading: boolean): Inferred {
+  const { model } = context;
+  const name = node.name;
+
+  if (leading && context.variables.has(name)) return ANY;
+
+  if (leading && /^[A-Z]/.test(name) && isModelType(model, name)) {
+    const match = input.items?.find(item => isFhirTypeOf(model, item.type, name));
+    return { items: [{ type: name, path: match?.path }], cardinality: input.items ? input.cardinality : "0..*" };
+  }
+
+  if (!input.items) return ANY;
+
+  const items: ItemType[] = [];
+  let open = false;
+  for (const item of input.items) {
+    const children = getChildTypes(model, item, name);
+    if (children === undefined) open = true;
+    else items.push(...children);
+  }
+  if (open) return ANY;
+
+  if (items.length === 0 && input.items.length > 0) {
+    report(context, "error", "unknown-element", `Unknown element '${name}' on ${describe(input.items)}`, node);
+    return ANY;
+  }
+  return { items: dedupe(items), cardinality: "0..*" };
+}
+
+/**
+ * Types of the children of an item type; undefined if they cannot be known
+ */
+function getChildTypes(model: Model, item: ItemType, name: string): ItemType[] | undefined {
+  if (item.type.startsWith("System.")) {
+    // Primitive elements typed as System types in the model (Resource.id)
+    // still have a value and the children of Element
+    if (!item.path) return [];
+    if (name === "value") return [{ type: item.type }];
+    const element = getElementInfo(model, "Element", name);
+    return element?.type ? [{ type: element.type, path: element.path }] : [];
+  }
+  if (OPEN_TYPES.has(item.type)) return undefined;
+
+  // The value of a primitive element is its System value
+  if (name === "value" && isPrimitiveType(item.type)) {
+    const systemType = toSystemType(item.type);
+    return systemType ? [{ type: `System.${systemType}` }] : undefined;
+  }
+
+  const basePath = item.path ? getChildBasePath(item.path, item.type) : item.type;
+  const element = getElementInfo(model, basePath, name, item.type);
+  if (element?.choiceTypes) {
+    return element.choiceTypes.map(suffix => ({ type: normalizeTypeName(suffix), path: element.path }));
+  }
+  if (element?.type) {
+    return [{ type: element.type, path: element.path }];
+  }
+
+  // A choice element addressed with its type suffix (valueQuantity)
+  const choice = findChoiceByKey(model, basePath, name);
+  return choice ? [choice] : [];
+}
+
+/**
+ * Find the choice element a JSON key such as "valueQuantity" belongs to
+ */
+function findChoiceByKey(model: Model, basePath: string, key: string): ItemType | undefined {
+  for (let i = key.length - 1; i > 0; i--) {
+    if (key[i] !== key[i].toUpperCase() || key[i] === key[i].toLowerCase()) continue;
+    const path = `${basePath}.${key.slice(0, i)}`;
+    const suffixes = model.choiceTypePaths[path];
+    if (suffixes?.includes(key.slice(i))) {
+      return { type: normalizeTypeName(key.slice(i)), path };
+    }
+  }
+  return undefined;
+}
+
+// ============================================================
+// Functions
+// ============================================================
+
+function inferFunction(
+  nameNode: IdentifierNode,
+  args: ASTNode[],
+  input: Inferred,
+  scope: Scope,
+  context: CheckContext,
+): Inferred {
+  const name = nameNode.name;
+
+  // Type functions take a type specifier instead of an expression
+  if (name === "ofType" || name === "as" || name === "is") {
+    const specifier = args[0] && getTypeSpecifier(args[0]);
+    if (!specifier) return name === "is" ? system("Boolean", "0..1") : ANY;
+    const type = resolveTypeSpecifier(specifier.typeName, specifier.namespace, args[0], context);
+    if (name === "is") {
+      if (type) checkCast(input, type, "is", nameNode, context);
+      return system("Boolean", "0..1");
+    }
+    return type ? castTo(input, type, name, nameNode, context) : ANY;
+  }
+
+  if (name === "defineVariable") {
+    const variable = args[0] as LiteralNode | undefined;
+    if (variable?.type === "Literal" && typeof variable.value === "string") {
+      context.variables.add(variable.value);
+    }
+    for (const arg of args) checkNode(arg, scope, context);
+    return input;
+  }
+
+  const definition = FUNCTION_TYPES.get(name);
+  const itemScope: Scope = { focus: { items: input.items, cardinality: "1..1" }, root: scope.root };
+  const argTypes = args.map(arg => checkNode(arg, definition?.iterates ? itemScope : scope, context));
+
+  if (!definition) return ANY;
+
+  if (definition.input && input.items && input.items.length > 0 && !input.items.some(item => acceptsInput(context.model, item, definition.input!))) {
+    report(
+      context,
+      "error",
+      "incompatible-input",
+      `Function '${name}' expects ${definition.input.join(" | ")} input, got ${describe(input.items)}`,
+      nameNode,
+    );
+  }
+
+  switch (definition.result) {
+    case "input":
+      return { items: input.items, cardinality: definition.cardinality };
+    case "arguments":
+      return { items: unionItems([input, ...argTypes]), cardinality: definition.cardinality };
+    case "first-argument":
+      return { items: argTypes[0]?.items, cardinality: definition.cardinality };
+    case "branches":
+      return { items: unionItems(argTypes.slice(1)), cardinality: definition.cardinality };
+    case "Extension":
+      return { items: [{ type: "Extension" }], cardinality: definition.cardinality };
+    default:
+      return system(definition.result, definition.cardinality);
+  }
+}
+
+/**
+ * True if an item of the type can be used where one of the System types is expected
+ */
+function acceptsInput(model: Model, item: ItemType, expected: readonly string[]): boolean {
+  const systemType = getSystemType(model, item.type);
+  if (!systemType) return false;
+  return expected.includes(systemType) || (systemType === "Integer" && expected.includes("Decimal"));
+}
+
+/**
+ * System type an item converts to, if any
+ */
+function getSystemType(model: Model, type: string): string | undefined {
+  if (type.startsWith("System.")) return type.slice(7);
+  if (isFhirTypeOf(model, type, "Quantity")) return "Quantity";
+  return toSystemType(type);
+}
+
+// ============================================================
+// Operators
+// ============================================================
+
+function inferBinaryOp(node: BinaryOpNode, scope: Scope, context: CheckContext): Inferred {
+  const left = checkNode(node.left, scope, context);
+  const right = checkNode(node.right, scope, context);
+
+  switch (node.operator) {
+    case "|":
+      return { items: unionItems([left, right]), cardinality: "0..*" };
+    case "&":
+      return system("String", "1..1");
+    case "+":
+    case "-":
+    case "*":
+    case "/":
+    case "div":
+    case "mod": {
+      if (!left.items) return { cardinality: "0..1" };
+      const types = left.items.map(item => {
+        const systemType = getSystemType(context.model, item.type) ?? item.type;
+        if (node.operator === "/" && systemType === "Integer") return "Decimal";
+        if ((node.operator === "div" || node.operator === "mod") && systemType === "Decimal") return "Integer";
+        return systemType;
+      });
+      return { items: dedupe(types.map(type => ({ type: `System.${type}` }))), cardinality: "0..1" };
+    }
+    default:
+      // Boolean logic, comparison, equality and membership
+      return system("Boolean", "0..1");
+  }
+}
+
+// ============================================================
+// Types and casts
+// ============================================================
+
+/**
+ * Read a type specifier passed as function argument: Patient, FHIR.Patient
+ */
+function getTypeSpecifier(node: ASTNode): { typeName: string; namespace?: string } | undefined {
+  if (node.type === "Identifier") {
+    return { typeName: (node as IdentifierNode).name };
+  }
+  if (node.type === "MemberAccess") {
+    const member = node as MemberAccessNode;
+    if (member.object.type === "Identifier") {
+      return { typeName: member.member.name, namespace: (member.object as IdentifierNode).name };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve a type specifier to an item type; reports unknown types
+ */
+function resolveTypeSpecifier(
+  typeName: string,
+  namespace: string | undefined,
+  node: ASTNode,
+  context: CheckContext,
+): string | undefined {
+  const { model } = context;
+  if (namespace !== "System" && isModelType(model, typeName)) {
+    return normalizeTypeName(typeName);
+  }
+  if (namespace !== "FHIR" && SYSTEM_TYPE_NAMES.has(typeName)) {
+    return `System.${typeName}`;
+  }
+  const qualified = namespace ? `${namespace}.${typeName}` : typeName;
+  report(context, "error", "unknown-type", `Unknown type '${qualified}'`, node);
+  return undefined;
+}
+
+/**
+ * Narrow the input to a type for ofType() and as
+ */
+function castTo(input: Inferred, type: string, operator: string, node: ASTNode, context: CheckContext): Inferred {
+  const matches = checkCast(input, type, operator, node, context);
+  const path = matches?.find(item => item.type === type)?.path ?? matches?.[0]?.path;
+  return {
+    items: [{ type, path: isFhirTypeOf(context.model, type, "Resource") ? undefined : path }],
+    cardinality: input.cardinality === "1..1" ? "0..1" : input.cardinality,
+  };
+}
+
+/**
+ * Report a cast that can never succeed.
+ * Returns the input types compatible with the target type.
+ */
+function checkCast(
+  input: Inferred,
+  type: string,
+  operator: string,
+  node: ASTNode,
+  context: CheckContext,
+): ItemType[] | undefined {
+  if (!input.items || input.items.length === 0 || type === "System.Any") return input.items;
+  const matches = input.items.filter(item => castable(context.model, item.type, type));
+  if (matches.length === 0) {
+    report(
+      context,
+      operator === "is" ? "warning" : "error",
+      "impossible-cast",
+      `${describe(input.items)} can never be ${qualify(type)} ('${operator}' ${operator === "is" ? "is always false" : "is always empty"})`,
+      node,
+    );
+  }
+  return matches;
+}
+
+/**
+ * True if a value of one type may be an instance of another
+ * (same type, subtype, or a supertype that a subtype narrows to)
+ */
+function castable(model: Model, from: string, to: string): boolean {
+  if (to.startsWith("System.") || from.startsWith("System.")) {
+    return getSystemType(model, from) === getSystemType(model, to);
+  }
+  return isFhirTypeOf(model, from, to) || isFhirTypeOf(model, to, from);
+}
+
+/**
+ * True if the model knows the type
+ */
+function isModelType(model: Model, name: string): boolean {
+  return name in model.type2Parent || isPrimitiveType(name) || OPEN_TYPES.has(name) ||
+    Object.values(model.type2Parent).includes(name);
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function system(type: string, cardinality: Cardinality): Inferred {
+  return { items: [{ type: `System.${type}` }], cardinality };
+}
+
+/**
+ * Union of item types; unknown if any of the collections is unknown
+ */
+function unionItems(collections: Inferred[]): ItemType[] | undefined {
+  const items: ItemType[] = [];
+  for (const collection of collections) {
+    if (!collection.items) return undefined;
+    items.push(...collection.items);
+  }
+  return dedupe(items);
+}
+
+function dedupe(items: ItemType[]): ItemType[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = `${item.type}|${item.path ?? ""}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function qualify(type: string): string {
+  return type.startsWith("System.") ? type : `FHIR.${type}`;
+}
+
+function describe(items: ItemType[]): string {
+  return [...new Set(items.map(item => qualify(item.type)))].join(" | ");
+}
+
+function toInferredType(inferred: Inferred): InferredType {
+  return {
+    types: inferred.items ? [...new Set(inferred.items.map(item => qualify(item.type)))] : [],
+    cardinality: inferred.cardinality,
+  };
+}
+
+function report(
+  context: CheckContext,
+  severity: TypeCheckIssue["severity"],
+  code: TypeCheckIssueCode,
+  message: string,
+  node: ASTNode,
+): void {
+  context.issues.push({ severity, code, message, start: node.start ?? 0, end: node.end ?? 0 });
+}
@@ -22,6 +22,8 @@ export interface ASTNode {
 export interface ExpressionNode extends ASTNode {
   type: "Expression";
   child: ASTNode;
+  /** The expression text (for error reporting) */
+  source?: string;
 }
 
 /**
@@ -29,9 +31,10 @@ export interface ExpressionNode extends ASTNode {
  */
 export interface LiteralNode extends ASTNode {
   type: "Literal";
-  literalType: "string" | "number" | "boolean" | "date" | "time" | "datetime" | "quantity" | "null";
-  value: unknown;
+  literalType: "string" | "number" | "decimal" | "boolean" | "date" | "time" | "datetime" | "quantity" | "null";
+  value: unknown;  // Source text for decimal, date and time literals
   unit?: string;  // For quantities
+  valueText?: string;  // Source text of the value of quantities (1.50 'mg')
 }
 
 /**
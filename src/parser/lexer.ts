@@ -19,19 +19,35 @@ import {
   getKeywordType 
 } from "./tokens.ts";
 
+/**
+ * Stable codes of lexer errors
+ */
+export type LexerErrorCode = "unexpected-character" | "unterminated-string" | "unterminated-identifier";
+
 /**
  * Lexer error with position information
  */
 export class LexerError extends Error {
+  /** The expression text (set by the parser) */
+  expression?: string;
+
   constructor(
     message: string,
     public readonly position: number,
     public readonly line: number,
     public readonly column: number,
+    public readonly code: LexerErrorCode = "unexpected-character",
+    /** End of the offending text in the expression */
+    public readonly end: number = position + 1,
   ) {
     super(`${message} at line ${line}, column ${column}`);
     this.name = "LexerError";
   }
+
+  /** Start of the offending text in the expression */
+  get start(): number {
+    return this.position;
+  }
 }
 
 /**
@@ -220,14 +236,14 @@ export class FhirPathLexer {
           }
         }
       } else if (this.peek() === "\n") {
-        throw new LexerError("Unterminated string", start, startLine, startColumn);
+        throw new LexerError("Unterminated string", start, startLine, startColumn, "unterminated-string", this.pos);
       } else {
         value += this.advance();
       }
     }
     
     if (this.isAtEnd()) {
-      throw new LexerError("Unterminated string", start, startLine, startColumn);
+      throw new LexerError("Unterminated string", start, startLine, startColumn, "unterminated-string", this.pos);
     }
     
     this.advance(); // consume closing quote
@@ -311,7 +327,7 @@ export class FhirPathLexer {
       value = "T";
       // Read time part
       while (!this.isAtEnd() && (this.isDigit(this.peek()) || this.peek() === ":" || 
-             this.peek() === "." || this.peek() === "+" || this.peek() === "-" || this.peek() === "Z")) {
+             (this.peek() === "." && this.isDigit(this.peekNext())) || this.peek() === "+" || this.peek() === "-" || this.peek() === "Z")) {
         value += this.advance();
       }
       return this.makeTokenAt(TokenType.TIME, value, start, startLine, startColumn);
@@ -327,7 +343,7 @@ export class FhirPathLexer {
       value += this.advance();
       // Read time part
       while (!this.isAtEnd() && (this.isDigit(this.peek()) || this.peek() === ":" || 
-             this.peek() === "." || this.peek() === "+" || this.peek() === "-" || this.peek() === "Z")) {
+             (this.peek() === "." && this.isDigit(this.peekNext())) || this.peek() === "+" || this.peek() === "-" || this.peek() === "Z")) {
         value += this.advance();
       }
       return this.makeTokenAt(TokenType.DATETIME, value, start, startLine, startColumn);
@@ -402,7 +418,7 @@ export class FhirPathLexer {
     }
     
     if (this.isAtEnd()) {
-      throw new LexerError("Unterminated delimited identifier", start, startLine, startColumn);
+      throw new LexerError("Unterminated delimited identifier", start, startLine, startColumn, "unterminated-identifier", this.pos);
     }
     
     this.advance(); // consume closing `
@@ -5,7 +5,8 @@
  * This replaces the ANTLR4-based parser with a faster, more maintainable solution.
  */
 
-export { FhirPathLexer, LexerError } from "./lexer.ts";
-export { FhirPathParser, ParserError, parseFhirPath } from "./parser.ts";
+export { FhirPathLexer, LexerError, type LexerErrorCode } from "./lexer.ts";
+export { FhirPathParser, ParserError, type ParserErrorCode, parseFhirPath } from "./parser.ts";
+export { type PrintOptions, printFhirPath } from "./printer.ts";
 export { TokenType, type Token, KEYWORDS, isKeyword, getKeywordType } from "./tokens.ts";
 export type * from "./ast.ts";
@@ -19,7 +19,7 @@
  * 12. invocation (., [], ())
  */
 
-import { FhirPathLexer } from "./lexer.ts";
+import { FhirPathLexer, LexerError } from "./lexer.ts";
 import { Token, TokenType } from "./tokens.ts";
 import type {
   ASTNode,
@@ -42,17 +42,36 @@ import type {
   UnaryOpNode,
 } from "./ast.ts";
 
+/**
+ * Stable codes of parser errors
+ */
+export type ParserErrorCode = "unexpected-token" | "expected-token" | "expected-identifier" | "invalid-quantity";
+
 /**
  * Parser error with position information
  */
 export class ParserError extends Error {
+  /** The expression text (set by parse()) */
+  expression?: string;
+
   constructor(
     message: string,
     public readonly token: Token,
+    public readonly code: ParserErrorCode = "unexpected-token",
   ) {
     super(`${message} at line ${token.line}, column ${token.column}`);
     this.name = "ParserError";
   }
+
+  /** Start of the offending token in the expression */
+  get start(): number {
+    return this.token.start;
+  }
+
+  /** End of the offending token in the expression */
+  get end(): number {
+    return this.token.end;
+  }
 }
 
 /**
@@ -66,17 +85,25 @@ export class FhirPathParser {
    * Parse a FHIRPath expression string
    */
   parse(input: string): ExpressionNode {
-    const lexer = new FhirPathLexer(input);
-    this.tokens = lexer.tokenize();
-    this.pos = 0;
-
-    const child = this.parseExpression();
-
-    if (!this.isAtEnd()) {
-      throw new ParserError(
-        `Unexpected token: ${this.peek().value}`,
-        this.peek(),
-      );
+    let child: ASTNode;
+    try {
+      const lexer = new FhirPathLexer(input);
+      this.tokens = lexer.tokenize();
+      this.pos = 0;
+
+      child = this.parseExpression();
+
+      if (!this.isAtEnd()) {
+        throw new ParserError(
+          `Unexpected token: ${this.peek().value}`,
+          this.peek(),
+        );
+      }
+    } catch (error) {
+      if (error instanceof ParserError || error instanceof LexerError) {
+        error.expression = input;
+      }
+      throw error;
     }
 
     return {
@@ -84,6 +111,7 @@ export class FhirPathParser {
       child,
       start: 0,
       end: input.length,
+      source: input,
     };
   }
 
@@ -194,6 +222,8 @@ export class FhirPathParser {
         operator,
         expression: left,
         targetType,
+        start: left.start,
+        end: targetType.end,
       } as TypeOpNode;
     }
 
@@ -250,13 +280,13 @@ export class FhirPathParser {
   // +expr, -expr
   private parseUnary(): ASTNode {
     if (this.check(TokenType.PLUS) || this.check(TokenType.MINUS)) {
-      const operator = this.advance().value;
+      const { value: operator, start } = this.advance();
       const operand = this.parseUnary();
-      return {
+      return this.span({
         type: "UnaryOp",
         operator,
         operand,
-      } as UnaryOpNode;
+      } as UnaryOpNode, start);
     }
 
     return this.parseInvocation();
@@ -269,36 +299,38 @@ export class FhirPathParser {
     while (true) {
       if (this.match(TokenType.DOT)) {
         // Member access or method call
+        const nameStart = this.peek().start;
         const name = this.expectIdentifier();
+        const identifier = this.span({ type: "Identifier", name } as IdentifierNode, nameStart);
 
         if (this.check(TokenType.LPAREN)) {
           // Method call: expr.method(args)
           this.advance(); // consume (
           const args = this.parseArgumentList();
           this.expect(TokenType.RPAREN, "Expected ')' after arguments");
-          left = {
+          left = this.span({
             type: "MethodCall",
             object: left,
-            method: { type: "Identifier", name } as IdentifierNode,
+            method: identifier,
             arguments: args,
-          } as MethodCallNode;
+          } as MethodCallNode, left.start!);
         } else {
           // Member access: expr.member
-          left = {
+          left = this.span({
             type: "MemberAccess",
             object: left,
-            member: { type: "Identifier", name } as IdentifierNode,
-          } as MemberAccessNode;
+            member: identifier,
+          } as MemberAccessNode, left.start!);
         }
       } else if (this.match(TokenType.LBRACKET)) {
         // Indexer: expr[index]
         const index = this.parseExpression();
         this.expect(TokenType.RBRACKET, "Expected ']' after index");
-        left = {
+        left = this.span({
           type: "Indexer",
           object: left,
           index,
-        } as IndexerNode;
+        } as IndexerNode, left.start!);
       } else {
         break;
       }
@@ -309,6 +341,11 @@ export class FhirPathParser {
 
   // Primary expressions
   private parsePrimary(): ASTNode {
+    const start = this.peek().start;
+    return this.span(this.parsePrimaryNode(), start);
+  }
+
+  private parsePrimaryNode(): ASTNode {
     const token = this.peek();
 
     // Literals
@@ -323,6 +360,10 @@ export class FhirPathParser {
 
     if (this.check(TokenType.NUMBER)) {
       this.advance();
+      // Decimal literals keep their text so that significant digits survive (1.50)
+      if (token.value.includes(".")) {
+        return { type: "Literal", literalType: "decimal", value: token.value } as LiteralNode;
+      }
       return {
         type: "Literal",
         literalType: "number",
@@ -339,9 +380,10 @@ export class FhirPathParser {
           literalType: "quantity",
           value: parseFloat(match[1]),
           unit: match[2].replace(/^'|'$/g, ""),
+          valueText: match[1],
         } as LiteralNode;
       }
-      throw new ParserError(`Invalid quantity: ${token.value}`, token);
+      throw new ParserError(`Invalid quantity: ${token.value}`, token, "invalid-quantity");
     }
 
     if (this.check(TokenType.TRUE)) {
@@ -411,7 +453,7 @@ export class FhirPathParser {
         this.expect(TokenType.RPAREN, "Expected ')' after arguments");
         return {
           type: "FunctionCall",
-          function: { type: "Identifier", name } as IdentifierNode,
+          function: { type: "Identifier", name, start: token.start, end: token.end } as IdentifierNode,
           arguments: args,
         } as FunctionCallNode;
       }
@@ -428,7 +470,7 @@ export class FhirPathParser {
       this.expect(TokenType.RPAREN, "Expected ')' after arguments");
       return {
         type: "FunctionCall",
-        function: { type: "Identifier", name } as IdentifierNode,
+        function: { type: "Identifier", name, start: token.start, end: token.end } as IdentifierNode,
         arguments: args,
       } as FunctionCallNode;
     }
@@ -453,6 +495,7 @@ export class FhirPathParser {
   }
 
   private parseTypeSpecifier(): TypeSpecifierNode {
+    const start = this.peek().start;
     let namespace: string | undefined;
     let typeName = this.expectIdentifier();
 
@@ -462,11 +505,11 @@ export class FhirPathParser {
       typeName = this.expectIdentifier();
     }
 
-    return {
+    return this.span({
       type: "TypeSpecifier",
       namespace,
       typeName,
-    };
+    }, start);
   }
 
   private expectIdentifier(): string {
@@ -482,7 +525,7 @@ export class FhirPathParser {
       this.advance();
       return token.value;
     }
-    throw new ParserError(`Expected identifier, got ${token.value}`, token);
+    throw new ParserError(`Expected identifier, got ${token.value}`, token, "expected-identifier");
   }
 
   private isKeywordToken(type: TokenType): boolean {
@@ -506,9 +549,21 @@ export class FhirPathParser {
       operator,
       left,
       right,
+      start: left.start,
+      end: right.end,
     };
   }
 
+  /**
+   * Set the source range of a node: from the given offset to the end of
+   * the last consumed token
+   */
+  private span<T extends ASTNode>(node: T, start: number): T {
+    node.start = start;
+    node.end = this.tokens[this.pos - 1].end;
+    return node;
+  }
+
   private peek(): Token {
     return this.tokens[this.pos];
   }
@@ -543,7 +598,7 @@ export class FhirPathParser {
     if (this.check(type)) {
       return this.advance();
     }
-    throw new ParserError(message, this.peek());
+    throw new ParserError(message, this.peek(), "expected-token");
   }
 
   private isAtEnd(): boolean {
@@ -0,0 +1,313 @@
+/**
+ * FHIRPath Printer - AST to Source
+ *
+ * Turns a native AST back into FHIRPath text that parses to the same AST.
+ * Parentheses are printed where the precedence of the operators requires
+ * them (see parser.ts), whether or not the AST has Paren nodes. Literals keep
+ * their form: quantities with calendar or UCUM units, date and time literals,
+ * decimals and quantities with their digits and strings with escapes. Names that are no
+ * plain identifiers (e.g. keywords or names with spaces) are delimited.
+ *
+ * @example
+ * ```typescript
+ * import { parseFhirPath, printFhirPath } from "@atollee/fhirpath-atollee";
+ *
+ * printFhirPath(parseFhirPath("((a+b))*c"));  // "(a + b) * c"
+ *
+ * printFhirPath(ast, { style: "multiline" });
+ * // Bundle.entry.resource
+ * //   .where(resourceType = 'Observation' and status = 'final')
+ * //   .select(code.coding.where(system = 'http://loinc.org').code)
+ * ```
+ */
+
+import { isKeyword } from "./tokens.ts";
+import type {
+  ASTNode,
+  BinaryOpNode,
+  EnvVariableNode,
+  ExpressionNode,
+  FunctionCallNode,
+  IdentifierNode,
+  IndexerNode,
+  LiteralNode,
+  MemberAccessNode,
+  MethodCallNode,
+  ParenNode,
+  TypeOpNode,
+  TypeSpecifierNode,
+  UnaryOpNode,
+} from "./ast.ts";
+
+/**
+ * Options of printFhirPath()
+ */
+export interface PrintOptions {
+  /**
+   * "compact" prints the expression on one line; "multiline" breaks method
+   * chains that are longer than the line width before each method call,
+   * e.g. long where()/select() chains (default: "compact")
+   */
+  style?: "compact" | "multiline";
+  /** Line width of the multiline style (default: 80) */
+  lineWidth?: number;
+  /** Indentation of the multiline style (default: two spaces) */
+  indent?: string;
+}
+
+/** Precedence of the binary operators, from implies (lowest) to multiplicative */
+const BINARY_PRECEDENCE: Record<string, number> = {
+  "implies": 1,
+  "or": 2,
+  "xor": 2,
+  "and": 3,
+  "in": 4,
+  "contains": 4,
+  "=": 5,
+  "!=": 5,
+  "~": 5,
+  "!~": 5,
+  "<": 6,
+  ">": 6,
+  "<=": 6,
+  ">=": 6,
+  "|": 8,
+  "+": 9,
+  "-": 9,
+  "&": 9,
+  "*": 10,
+  "/": 10,
+  "div": 10,
+  "mod": 10,
+};
+
+const TYPE_PRECEDENCE = 7;
+const UNARY_PRECEDENCE = 11;
+const INVOCATION_PRECEDENCE = 12;
+
+/** Units of quantities that are written without quotes */
+const CALENDAR_UNITS = new Set([
+  "year", "years", "month", "months", "week", "weeks", "day", "days",
+  "hour", "hours", "minute", "minutes", "second", "seconds", "millisecond", "milliseconds",
+]);
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Print a FHIRPath AST as expression text
+ *
+ * @param ast The AST (e.g. of parseFhirPath())
+ * @param options Formatting options
+ * @returns Expression text that parses to the same AST, apart from Paren nodes
+ */
+export function printFhirPath(ast: ASTNode, options: PrintOptions = {}): string {
+  return new FhirPathPrinter(options).print(ast, 0);
+}
+
+/**
+ * Printer of AST nodes, at an indentation level for the multiline style
+ */
+class FhirPathPrinter {
+  private readonly multiline: boolean;
+  private readonly lineWidth: number;
+  private readonly indent: string;
+
+  constructor(options: PrintOptions) {
+    this.multiline = options.style === "multiline";
+    this.lineWidth = options.lineWidth ?? 80;
+    this.indent = options.indent ?? "  ";
+  }
+
+  print(node: ASTNode, level: number): string {
+    switch (node.type) {
+      case "Expression":
+        return this.print((node as ExpressionNode).child, level);
+      case "Paren":
+        return this.print((node as ParenNode).expression, level);
+      case "Literal":
+        return printLiteral(node as LiteralNode);
+      case "Identifier":
+        return printName((node as IdentifierNode).name, true);
+      case "This":
+        return "$this";
+      case "Index":
+        return "$index";
+      case "Total":
+        return "$total";
+      case "EnvVariable":
+        return printEnvVariable(node as EnvVariableNode);
+      case "EmptySet":
+        return "{}";
+      case "TypeSpecifier":
+        return printTypeSpecifier(node as TypeSpecifierNode);
+      case "FunctionCall": {
+        const call = node as FunctionCallNode;
+        return `${printName(call.function.name, false)}(${this.printArguments(call.arguments, level)})`;
+      }
+      case "MemberAccess":
+      case "MethodCall":
+      case "Indexer":
+        return this.printChain(node, level);
+      case "UnaryOp": {
+        const { operator, operand } = node as UnaryOpNode;
+        const text = this.printOperand(operand, UNARY_PRECEDENCE, level);
+        // Keep "- -x" from reading as one token
+        return text.startsWith(operator) ? `${operator} ${text}` : `${operator}${text}`;
+      }
+      case "TypeOp": {
+        const { operator, expression, targetType } = node as TypeOpNode;
+        return `${this.printOperand(expression, TYPE_PRECEDENCE, level)} ${operator} ${printTypeSpecifier(targetType)}`;
+      }
+      case "BinaryOp": {
+        const { operator, left, right } = node as BinaryOpNode;
+        const precedence = BINARY_PRECEDENCE[operator];
+        if (precedence === undefined) throw new Error(`Unknown operator: ${operator}`);
+        // Operators are left-associative: a right operand of the same precedence is parenthesized
+        return `${this.printOperand(left, precedence, level)} ${operator} ${
+          this.printOperand(right, precedence + 1, level)
+        }`;
+      }
+      default:
+        throw new Error(`Unknown node type: ${node.type}`);
+    }
+  }
+
+  /**
+   * Print an operand, parenthesized if it binds less tightly than required
+   */
+  private printOperand(node: ASTNode, precedence: number, level: number): string {
+    const text = this.print(node, level);
+    return precedenceOf(node) < precedence ? `(${text})` : text;
+  }
+
+  private printArguments(args: ASTNode[], level: number): string {
+    return args.map(arg => this.print(arg, level)).join(", ");
+  }
+
+  /**
+   * Print a chain of member accesses, method calls and indexers. In the
+   * multiline style, a chain longer than the line width is broken before
+   * each method call.
+   */
+  private printChain(node: ASTNode, level: number): string {
+    const links: ASTNode[] = [];
+    let head = node;
+    while (head.type === "MemberAccess" || head.type === "MethodCall" || head.type === "Indexer") {
+      links.unshift(head);
+      head = (head as MemberAccessNode | MethodCallNode | IndexerNode).object;
+    }
+    const headText = this.printOperand(head, INVOCATION_PRECEDENCE, level);
+
+    const compact = headText + links.map(link => this.printLink(link, level)).join("");
+    const breaks = this.multiline && links.some(link => link.type === "MethodCall") &&
+      this.indent.length * level + compact.length > this.lineWidth;
+    if (!breaks) return compact;
+
+    const newline = "\n" + this.indent.repeat(level + 1);
+    return headText + links.map(link =>
+      (link.type === "MethodCall" ? newline : "") + this.printLink(link, level + 1)
+    ).join("");
+  }
+
+  private printLink(link: ASTNode, level: number): string {
+    switch (link.type) {
+      case "MemberAccess":
+        return `.${printName((link as MemberAccessNode).member.name, false)}`;
+      case "MethodCall": {
+        const call = link as MethodCallNode;
+        return `.${printName(call.method.name, false)}(${this.printArguments(call.arguments, level)})`;
+      }
+      default:
+        return `[${this.print((link as IndexerNode).index, level)}]`;
+    }
+  }
+}
+
+/**
+ * Precedence of the operator of a node (of its expression for Paren nodes)
+ */
+function precedenceOf(node: ASTNode): number {
+  switch (node.type) {
+    case "Expression":
+      return precedenceOf((node as ExpressionNode).child);
+    case "Paren":
+      return precedenceOf((node as ParenNode).expression);
+    case "BinaryOp":
+      return BINARY_PRECEDENCE[(node as BinaryOpNode).operator] ?? 0;
+    case "TypeOp":
+      return TYPE_PRECEDENCE;
+    case "UnaryOp":
+      return UNARY_PRECEDENCE;
+    case "Literal": {
+      // A negative number (of a rewritten AST) is printed with a sign
+      const { value } = node as LiteralNode;
+      return typeof value === "number" && (value < 0 || Object.is(value, -0)) ? UNARY_PRECEDENCE : INVOCATION_PRECEDENCE;
+    }
+    default:
+      return INVOCATION_PRECEDENCE;
+  }
+}
+
+function printLiteral(node: LiteralNode): string {
+  switch (node.literalType) {
+    case "string":
+      return printString(String(node.value));
+    case "number":
+    case "decimal":
+    case "boolean":
+      return String(node.value);
+    case "date":
+    case "datetime":
+      return `@${node.value}`;
+    case "time": {
+      const value = String(node.value);
+      return value.startsWith("T") ? `@${value}` : `@T${value}`;
+    }
+    case "quantity": {
+      const unit = node.unit ?? "1";
+      return `${node.valueText ?? node.value} ${CALENDAR_UNITS.has(unit) ? unit : printString(unit)}`;
+    }
+    case "null":
+      return "{}";
+    default:
+      throw new Error(`Unknown literal type: ${node.literalType}`);
+  }
+}
+
+/**
+ * Print a string literal with the escapes the lexer reads
+ */
+function printString(value: string): string {
+  const escaped = value.replace(/[\\'\p{Cc}]/gu, char => {
+    switch (char) {
+      case "\\": return "\\\\";
+      case "'": return "\\'";
+      case "\n": return "\\n";
+      case "\r": return "\\r";
+      case "\t": return "\\t";
+      case "\f": return "\\f";
+      default: return `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`;
+    }
+  });
+  return `'${escaped}'`;
+}
+
+/**
+ * Print a name, delimited if it is no identifier. Keywords are names after
+ * a dot and of function calls, but need to be delimited elsewhere.
+ */
+function printName(name: string, delimitKeywords: boolean): string {
+  if (IDENTIFIER.test(name) && !(delimitKeywords && isKeyword(name))) return name;
+  return `\`${name.replace(/`/g, "\\`")}\``;
+}
+
+function printEnvVariable(node: EnvVariableNode): string {
+  // The parser keeps the backticks of %`name`
+  if (node.name.startsWith("`") || node.name === "") return `%${node.name}`;
+  return `%${IDENTIFIER.test(node.name) ? node.name : `\`${node.name}\``}`;
+}
+
+function printTypeSpecifier(node: TypeSpecifierNode): string {
+  const typeName = printName(node.typeName, false);
+  return node.namespace ? `${printName(node.namespace, false)}.${typeName}` : typeName;
+}
@@ -673,6 +673,54 @@ const FUNCTIONS: FunctionDefinition[] = [
     signatures: [{ parameters: [], returnType: "Boolean" }],
   },
   
+  // ============================================================
+  // PRECISION AND BOUNDARY FUNCTIONS
+  // ============================================================
+  {
+    name: "lowBoundary",
+    category: "Math",
+    description: "Returns the least possible value of the input given its precision",
+    signatures: [
+      {
+        parameters: [{ name: "precision", type: "Integer", optional: true, description: "Digits of precision of the result" }],
+        returnType: "Decimal | Date | DateTime | Time | Quantity",
+      },
+    ],
+    specVersion: "3.0.0-ballot",
+    example: "1.587.lowBoundary(2)",
+  },
+  {
+    name: "highBoundary",
+    category: "Math",
+    description: "Returns the greatest possible value of the input given its precision",
+    signatures: [
+      {
+        parameters: [{ name: "precision", type: "Integer", optional: true, description: "Digits of precision of the result" }],
+        returnType: "Decimal | Date | DateTime | Time | Quantity",
+      },
+    ],
+    specVersion: "3.0.0-ballot",
+    example: "@2014-01.highBoundary()",
+  },
+  {
+    name: "precision",
+    category: "Math",
+    description: "Returns the number of digits of precision of a Decimal, Date, DateTime or Time",
+    signatures: [{ parameters: [], returnType: "Integer" }],
+    specVersion: "3.0.0-ballot",
+    example: "@2014-01.precision()",
+  },
+  {
+    name: "comparable",
+    category: "Math",
+    description: "Returns true if the quantities have comparable units",
+    signatures: [
+      { parameters: [{ name: "quantity", type: "Quantity" }], returnType: "Boolean" },
+    ],
+    specVersion: "3.0.0-ballot",
+    example: "Observation.value.comparable(1 'mg')",
+  },
+  
   // ============================================================
   // DATETIME FUNCTIONS
   // ============================================================
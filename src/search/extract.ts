@@ -0,0 +1,369 @@
+/**
+ * Search Value Extraction
+ *
+ * Evaluates the expression of a SearchParameter against a resource and
+ * normalizes the results into index values for its search type:
+ * - token: system and code of Codings, CodeableConcepts, Identifiers,
+ *   ContactPoints, codes and booleans
+ * - reference: target type and id of references, url and version of canonicals
+ * - date: the low and high instant of dates, Periods and Timings
+ * - quantity: value and unit, and the value in canonical UCUM units
+ * - string: lower case without accents, including the parts of names and addresses
+ * - number, uri and composite
+ *
+ * The `.where(resolve() is Patient)` idiom of reference parameters is
+ * answered from the reference itself, without resolving it.
+ *
+ * @example
+ * ```typescript
+ * import { extractSearchValues } from "@atollee/fhirpath/search";
+ *
+ * extractSearchValues(observation, observationCodeParameter);
+ * // [{ type: "token", system: "http://loinc.org", code: "8867-4", value: "http://loinc.org|8867-4" }]
+ * ```
+ */
+
+import { FhirPathEngine } from "../engine.ts";
+import { evaluateFhirPath } from "../evaluator/mod.ts";
+import { ResourceNode, unwrap } from "../evaluator/node.ts";
+import { parseDateTime, temporalBoundary } from "../evaluator/temporal.ts";
+import { canonicalUnitString, isValidUnit, toBaseValue } from "../ucum/mod.ts";
+import type { Model, UserInvocationTable } from "../types.ts";
+import type {
+  DateSearchValue,
+  ReferenceSearchValue,
+  SearchExtractionOptions,
+  SearchParameter,
+  SearchParamType,
+  SearchValue,
+  StringSearchValue,
+  TokenSearchValue,
+} from "./types.ts";
+
+const UCUM = "http://unitsofmeasure.org";
+
+/** Relative or absolute literal reference: [base/]Type/id[/_history/version] */
+const REFERENCE = /^(?:(.*)\/)?([A-Z][A-Za-z]+)\/([A-Za-z0-9\-.]{1,64})(?:\/_history\/([^/]+))?$/;
+
+/** ContactPoint.system codes, to tell ContactPoints from Identifiers without a model */
+const CONTACT_POINT_SYSTEMS = new Set(["phone", "fax", "email", "pager", "url", "sms", "other"]);
+
+/** Search type of the values of a FHIR type, for composite components */
+const SEARCH_TYPES: Record<string, SearchParamType> = {
+  CodeableConcept: "token",
+  Coding: "token",
+  Identifier: "token",
+  ContactPoint: "token",
+  code: "token",
+  boolean: "token",
+  id: "token",
+  Reference: "reference",
+  canonical: "reference",
+  Quantity: "quantity",
+  Age: "quantity",
+  Count: "quantity",
+  Distance: "quantity",
+  Duration: "quantity",
+  Money: "quantity",
+  SimpleQuantity: "quantity",
+  date: "date",
+  dateTime: "date",
+  instant: "date",
+  Period: "date",
+  Timing: "date",
+  integer: "number",
+  decimal: "number",
+  positiveInt: "number",
+  unsignedInt: "number",
+  uri: "uri",
+  url: "uri",
+  oid: "uri",
+  uuid: "uri",
+};
+
+/**
+ * resolve() answered from the reference: a stub of the target with its
+ * resourceType, so that `resolve() is Patient` needs no reference resolver
+ */
+const SEARCH_FUNCTIONS: UserInvocationTable = {
+  resolve: {
+    fn: (references: unknown) =>
+      (references as unknown[]).flatMap(reference => {
+        const target = isObject(reference) ? parseReference(reference) : undefined;
+        return target?.resourceType ? [{ resourceType: target.resourceType, id: target.id }] : [];
+      }),
+    arity: { 0: [] },
+  },
+};
+
+const defaultEngine = new FhirPathEngine();
+const modelEngines = new WeakMap<Model, FhirPathEngine>();
+
+/**
+ * Extract the normalized index values of a search parameter from a resource
+ *
+ * @param resource The resource to index
+ * @param searchParameter SearchParameter with expression and type
+ * @returns The index values; empty if the parameter does not apply to the resource type
+ */
+export function extractSearchValues(
+  resource: unknown,
+  searchParameter: SearchParameter,
+  options: SearchExtractionOptions = {},
+): SearchValue[] {
+  if (!isObject(resource) || typeof resource.resourceType !== "string") return [];
+  if (!appliesTo(searchParameter, resource.resourceType)) return [];
+  if (!searchParameter.expression || searchParameter.type === "special") return [];
+
+  const engine = options.engine ?? getEngine(options.model);
+  const model = options.model ?? engine.model;
+  const evaluate = (expression: string, focus: unknown) =>
+    evaluateFhirPath(engine.parseNative(expression), focus, { resource, rootResource: resource }, {
+      model,
+      userInvocationTable: SEARCH_FUNCTIONS,
+      keepNodes: true,
+    });
+
+  const items = evaluate(searchParameter.expression, resource);
+  if (searchParameter.type !== "composite") {
+    return items.flatMap(item => normalize(item, searchParameter.type, searchParameter.target)).map(compact);
+  }
+
+  return items.map(item => ({
+    type: "composite",
+    components: (searchParameter.component ?? []).map(component => {
+      const definition = options.definitions?.find(definition => definition.url === component.definition);
+      return evaluate(component.expression, item).flatMap(value => {
+        const type = definition?.type ?? SEARCH_TYPES[fhirTypeOf(value)] ?? "string";
+        return normalize(value, type, definition?.target).map(compact);
+      });
+    }),
+  }));
+}
+
+function getEngine(model: Model | undefined): FhirPathEngine {
+  if (!model) return defaultEngine;
+  let engine = modelEngines.get(model);
+  if (!engine) {
+    engine = new FhirPathEngine({ model });
+    modelEngines.set(model, engine);
+  }
+  return engine;
+}
+
+function appliesTo(searchParameter: SearchParameter, resourceType: string): boolean {
+  return searchParameter.base.some(base =>
+    base === resourceType || base === "Resource" || base === "DomainResource"
+  );
+}
+
+/**
+ * Index values of one result
+ */
+function normalize(item: unknown, type: SearchParamType, target?: string[]): SearchValue[] {
+  const data = unwrap(item);
+  if (data == null) return [];
+  const fhirType = fhirTypeOf(item);
+
+  switch (type) {
+    case "number":
+      return typeof data === "number" ? [{ type: "number", value: data }] : [];
+    case "date":
+      return dateValues(data, fhirType);
+    case "string":
+      return stringValues(data);
+    case "token":
+      return tokenValues(data, fhirType);
+    case "reference": {
+      const values = referenceValues(data);
+      return target ? values.filter(value => !value.resourceType || target.includes(value.resourceType)) : values;
+    }
+    case "quantity":
+      return quantityValues(data);
+    case "uri":
+      return typeof data === "string" ? [{ type: "uri", value: data }] : [];
+    default:
+      return [];
+  }
+}
+
+// ============================================================
+// Search types
+// ============================================================
+
+function dateValues(data: unknown, fhirType: string): DateSearchValue[] {
+  if (typeof data === "string") {
+    const range = dateRange(data);
+    return range ? [{ type: "date", ...range }] : [];
+  }
+  if (!isObject(data)) return [];
+
+  if (fhirType === "Timing" || Array.isArray(data.event) || isObject(data.repeat)) {
+    const events = Array.isArray(data.event) ? data.event : [];
+    const bounds = isObject(data.repeat) ? data.repeat.boundsPeriod : undefined;
+    return [...events.flatMap(event => dateValues(event, "dateTime")), ...dateValues(bounds, "Period")];
+  }
+
+  // Period
+  const low = typeof data.start === "string" ? dateRange(data.start)?.low : undefined;
+  const high = typeof data.end === "string" ? dateRange(data.end)?.high : undefined;
+  return low || high ? [{ type: "date", low, high }] : [];
+}
+
+function dateRange(text: string): { low: string; high: string } | undefined {
+  const value = parseDateTime(text);
+  const low = value && temporalBoundary(value, "low");
+  const high = value && temporalBoundary(value, "high");
+  return low && high ? { low: low.toString(), high: high.toString() } : undefined;
+}
+
+function stringValues(data: unknown): StringSearchValue[] {
+  if (typeof data === "string") {
+    return [{ type: "string", value: normalizeString(data), original: data }];
+  }
+  if (!isObject(data)) return [];
+
+  // Parts of HumanName and Address
+  const parts = [
+    "text", "family", "given", "prefix", "suffix",
+    "line", "city", "district", "state", "postalCode", "country",
+  ].flatMap(key => data[key] ?? []);
+  return parts.flatMap(part => stringValues(part));
+}
+
+/**
+ * Lower case, without accents and with collapsed whitespace
+ */
+function normalizeString(text: string): string {
+  return text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function tokenValues(data: unknown, fhirType: string): TokenSearchValue[] {
+  if (typeof data === "string" || typeof data === "boolean" || typeof data === "number") {
+    return [token(undefined, String(data))];
+  }
+  if (!isObject(data)) return [];
+
+  if (fhirType === "CodeableConcept" || Array.isArray(data.coding)) {
+    const text = typeof data.text === "string" ? data.text : undefined;
+    const codings = (Array.isArray(data.coding) ? data.coding : []).flatMap(coding =>
+      tokenValues(coding, "Coding").map(value => ({ ...value, text: text ?? value.text }))
+    );
+    return codings.length > 0 ? codings : text ? [{ type: "token", text }] : [];
+  }
+  if (fhirType === "ContactPoint" || (fhirType !== "Identifier" && CONTACT_POINT_SYSTEMS.has(data.system as string))) {
+    return typeof data.value === "string" ? [token(undefined, data.value)] : [];
+  }
+  if (fhirType === "Identifier" || (data.value !== undefined && data.code === undefined)) {
+    const typeText = isObject(data.type) && typeof data.type.text === "string" ? data.type.text : undefined;
+    return typeof data.value === "string"
+      ? [{ ...token(data.system as string | undefined, data.value), text: typeText }]
+      : [];
+  }
+
+  // Coding
+  const display = typeof data.display === "string" ? data.display : undefined;
+  return typeof data.code === "string" || data.system !== undefined
+    ? [{ ...token(data.system as string | undefined, data.code as string | undefined), text: display }]
+    : [];
+}
+
+function token(system: string | undefined, code: string | undefined): TokenSearchValue {
+  const value = code === undefined ? undefined : system ? `${system}|${code}` : code;
+  return { type: "token", system, code, value };
+}
+
+function referenceValues(data: unknown): ReferenceSearchValue[] {
+  // canonical and uri: url|version
+  if (typeof data === "string") {
+    const [reference, version] = data.split("|");
+    return [{ type: "reference", reference, ...parseLiteral(reference), ...version ? { version } : {} }];
+  }
+  if (!isObject(data)) return [];
+
+  const target = parseReference(data);
+  const identifier = isObject(data.identifier)
+    ? { system: data.identifier.system as string | undefined, value: data.identifier.value as string | undefined }
+    : undefined;
+  if (!target.reference && !identifier) return [];
+  return [{ type: "reference", ...target, ...identifier ? { identifier } : {} }];
+}
+
+function quantityValues(data: unknown): SearchValue[] {
+  if (!isObject(data) || typeof data.value !== "number") return [];
+  const value = data.value;
+  // Money has a currency instead of a unit
+  const code = (data.code ?? data.currency) as string | undefined;
+  const system = data.system as string | undefined;
+
+  let canonical: { value: number; code: string } | undefined;
+  if (code && (system === UCUM || system === undefined) && isValidUnit(code)) {
+    const base = toBaseValue(value, code);
+    if (base !== undefined) canonical = { value: base, code: canonicalUnitString(code) };
+  }
+
+  return [{
+    type: "quantity",
+    value,
+    system,
+    code,
+    unit: data.unit as string | undefined,
+    ...canonical ? { canonical } : {},
+  }];
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/**
+ * FHIR type of a result: from the model if the result was navigated,
+ * else guessed from the JSON
+ */
+function fhirTypeOf(item: unknown): string {
+  if (item instanceof ResourceNode && item.type) {
+    const type = item.type.replace(/^FHIR\./, "");
+    return type.startsWith("System.") ? type[7].toLowerCase() + type.slice(8) : type;
+  }
+
+  const data = unwrap(item);
+  if (typeof data === "number") return Number.isInteger(data) ? "integer" : "decimal";
+  if (typeof data !== "object" || data === null) return typeof data;
+  const has = (key: string) => key in data;
+  if (has("coding")) return "CodeableConcept";
+  if (has("reference") || (has("identifier") && !has("value"))) return "Reference";
+  if (has("start") || has("end")) return "Period";
+  if (typeof (data as Record<string, unknown>).value === "number") return "Quantity";
+  if (has("value") && has("system")) {
+    return CONTACT_POINT_SYSTEMS.has((data as Record<string, unknown>).system as string) ? "ContactPoint" : "Identifier";
+  }
+  if (has("code")) return "Coding";
+  return "Element";
+}
+
+/**
+ * Target of a Reference: the literal reference, else Reference.type
+ */
+function parseReference(reference: Record<string, unknown>): Omit<ReferenceSearchValue, "type"> {
+  const literal = typeof reference.reference === "string" ? reference.reference : undefined;
+  const parsed = literal ? parseLiteral(literal) : {};
+  const type = typeof reference.type === "string" ? reference.type.replace(/^.*\//, "") : undefined;
+  return { reference: literal, ...parsed, resourceType: parsed.resourceType ?? type };
+}
+
+function parseLiteral(reference: string): Omit<ReferenceSearchValue, "type" | "reference"> {
+  const match = reference.match(REFERENCE);
+  if (!match) return {};
+  return { resourceType: match[2], id: match[3], ...match[4] ? { version: match[4] } : {} };
+}
+
+/**
+ * The value without undefined properties
+ */
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === "object" && !Array.isArray(value);
+}
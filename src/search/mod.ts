@@ -0,0 +1,30 @@
+/**
+ * Search
+ *
+ * Extracts normalized index values from resources for FHIR SearchParameters.
+ *
+ * @example
+ * ```typescript
+ * import { extractSearchValues } from "@atollee/fhirpath/search";
+ *
+ * for (const parameter of searchParameters) {
+ *   index.add(resource.id, parameter.code, extractSearchValues(resource, parameter, { model: r4Model }));
+ * }
+ * ```
+ */
+
+export { extractSearchValues } from "./extract.ts";
+export type {
+  CompositeSearchValue,
+  DateSearchValue,
+  NumberSearchValue,
+  QuantitySearchValue,
+  ReferenceSearchValue,
+  SearchExtractionOptions,
+  SearchParameter,
+  SearchParamType,
+  SearchValue,
+  StringSearchValue,
+  TokenSearchValue,
+  UriSearchValue,
+} from "./types.ts";
@@ -0,0 +1,155 @@
+/**
+ * Search Types
+ *
+ * The parts of the SearchParameter resource that are needed to extract
+ * index values, and the normalized values per search parameter type.
+ */
+
+import type { FhirPathEngine } from "../engine.ts";
+import type { Model } from "../types.ts";
+
+/**
+ * Type of a search parameter
+ */
+export type SearchParamType =
+  | "number"
+  | "date"
+  | "string"
+  | "token"
+  | "reference"
+  | "composite"
+  | "quantity"
+  | "uri"
+  | "special";
+
+/**
+ * SearchParameter resource
+ */
+export interface SearchParameter {
+  resourceType: "SearchParameter";
+  url?: string;
+  name?: string;
+  code: string;
+  /** Resource types the parameter applies to */
+  base: string[];
+  type: SearchParamType;
+  expression?: string;
+  /** Allowed target types of reference parameters */
+  target?: string[];
+  /** Components of a composite parameter, relative to the results of its expression */
+  component?: Array<{ definition: string; expression: string }>;
+}
+
+/**
+ * Value of a number parameter
+ */
+export interface NumberSearchValue {
+  type: "number";
+  value: number;
+}
+
+/**
+ * Value of a date parameter: the range the value covers at its precision.
+ * An open Period has no low or high.
+ */
+export interface DateSearchValue {
+  type: "date";
+  /** Least instant of the range (e.g. "2020-01-01T00:00:00.000" for 2020) */
+  low?: string;
+  /** Greatest instant of the range (e.g. "2020-12-31T23:59:59.999" for 2020) */
+  high?: string;
+}
+
+/**
+ * Value of a string parameter
+ */
+export interface StringSearchValue {
+  type: "string";
+  /** Lower case, without accents and with collapsed whitespace */
+  value: string;
+  original: string;
+}
+
+/**
+ * Value of a token parameter
+ */
+export interface TokenSearchValue {
+  type: "token";
+  system?: string;
+  code?: string;
+  /** "system|code", or the code alone if there is no system */
+  value?: string;
+  /** CodeableConcept.text, Coding.display or Identifier.type.text, for :text searches */
+  text?: string;
+}
+
+/**
+ * Value of a reference parameter
+ */
+export interface ReferenceSearchValue {
+  type: "reference";
+  /** Reference as written, without a canonical version */
+  reference?: string;
+  /** Target type, from the reference or Reference.type */
+  resourceType?: string;
+  /** Target id of a literal reference */
+  id?: string;
+  /** Version of a versioned literal or canonical reference */
+  version?: string;
+  /** Logical reference, for :identifier searches */
+  identifier?: { system?: string; value?: string };
+}
+
+/**
+ * Value of a quantity parameter
+ */
+export interface QuantitySearchValue {
+  type: "quantity";
+  value: number;
+  system?: string;
+  code?: string;
+  unit?: string;
+  /** Value in canonical UCUM units (e.g. 5 mg becomes 0.005 g) */
+  canonical?: { value: number; code: string };
+}
+
+/**
+ * Value of a uri parameter
+ */
+export interface UriSearchValue {
+  type: "uri";
+  value: string;
+}
+
+/**
+ * Value of a composite parameter: the values of each component
+ */
+export interface CompositeSearchValue {
+  type: "composite";
+  components: SearchValue[][];
+}
+
+/**
+ * Normalized value of a search parameter
+ */
+export type SearchValue =
+  | NumberSearchValue
+  | DateSearchValue
+  | StringSearchValue
+  | TokenSearchValue
+  | ReferenceSearchValue
+  | QuantitySearchValue
+  | UriSearchValue
+  | CompositeSearchValue;
+
+/**
+ * Options for extractSearchValues()
+ */
+export interface SearchExtractionOptions {
+  /** Engine used to parse the expressions (its model and AST cache are used) */
+  engine?: FhirPathEngine;
+  /** FHIR model, when no engine is given (needed for choice elements such as value[x]) */
+  model?: Model;
+  /** SearchParameters that the components of composite parameters refer to */
+  definitions?: SearchParameter[];
+}
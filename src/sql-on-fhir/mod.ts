@@ -0,0 +1,30 @@
+/**
+ * SQL on FHIR
+ *
+ * Runs SQL on FHIR v2 ViewDefinitions to flatten FHIR resources into
+ * tabular rows, streamed as row objects, NDJSON or CSV.
+ *
+ * @example
+ * ```typescript
+ * import { compileView } from "@atollee/fhirpath/sql-on-fhir";
+ *
+ * const view = compileView({
+ *   resourceType: "ViewDefinition",
+ *   resource: "Patient",
+ *   select: [{ column: [{ name: "id", path: "getResourceKey()" }, { name: "gender", path: "gender" }] }],
+ * });
+ * view.evaluate(patient); // [{ id: "123", gender: "female" }]
+ * ```
+ */
+
+export { compileView, type CompiledView, runView, ViewDefinitionError, ViewRowStream } from "./view.ts";
+export type {
+  ViewDefinition,
+  ViewDefinitionColumn,
+  ViewDefinitionConstant,
+  ViewDefinitionSelect,
+  ViewOptions,
+  ViewRow,
+  ViewSource,
+  ViewStreamOptions,
+} from "./types.ts";
@@ -0,0 +1,101 @@
+/**
+ * SQL on FHIR Types
+ *
+ * ViewDefinition structure of SQL on FHIR v2
+ * (https://sql-on-fhir.org/ig/latest/StructureDefinition-ViewDefinition.html)
+ * and the options of the view runner.
+ */
+
+import type { FhirPathEngine } from "../engine.ts";
+import type { Model } from "../types.ts";
+
+/**
+ * Column of a view
+ */
+export interface ViewDefinitionColumn {
+  name: string;
+  /** FHIRPath expression for the column value */
+  path: string;
+  description?: string;
+  /** If true, the value is an array of all results, else at most one result is allowed */
+  collection?: boolean;
+  /** FHIR type of the column (informational) */
+  type?: string;
+  tag?: Array<{ name: string; value: string }>;
+}
+
+/**
+ * Selection of columns and nested selections
+ */
+export interface ViewDefinitionSelect {
+  column?: ViewDefinitionColumn[];
+  select?: ViewDefinitionSelect[];
+  /** Produce a row for each result of the expression */
+  forEach?: string;
+  /** Like forEach, but produce a row of nulls if there are no results */
+  forEachOrNull?: string;
+  /** Selections whose rows are combined into one set (same columns) */
+  unionAll?: ViewDefinitionSelect[];
+}
+
+/**
+ * Constant available as %name in the expressions of a view
+ */
+export interface ViewDefinitionConstant {
+  name: string;
+  /** The value, as valueString, valueInteger, valueCode, ... */
+  [value: `value${string}`]: unknown;
+}
+
+/**
+ * SQL on FHIR v2 ViewDefinition
+ */
+export interface ViewDefinition {
+  resourceType: "ViewDefinition";
+  url?: string;
+  name?: string;
+  status?: string;
+  /** Resource type the view applies to */
+  resource: string;
+  constant?: ViewDefinitionConstant[];
+  select: ViewDefinitionSelect[];
+  /** Expressions that must be true for a resource to be included */
+  where?: Array<{ path: string; description?: string }>;
+}
+
+/**
+ * Row of a view, by column name
+ */
+export type ViewRow = Record<string, unknown>;
+
+/**
+ * Input of runView(): resources, NDJSON lines or an NDJSON byte stream
+ */
+export type ViewSource =
+  | Iterable<unknown>
+  | AsyncIterable<unknown>
+  | ReadableStream<Uint8Array>;
+
+/**
+ * Options for compileView()
+ */
+export interface ViewOptions {
+  /** Engine used to parse the expressions (its model and AST cache are used) */
+  engine?: FhirPathEngine;
+  /** FHIR model, when no engine is given */
+  model?: Model;
+  /**
+   * Compile column and where expressions with the JIT where it supports them
+   * (default: false). The JIT does not resolve choice elements (value[x])
+   * from the model, so only enable it for views without them.
+   */
+  jit?: boolean;
+}
+
+/**
+ * Options for runView()
+ */
+export interface ViewStreamOptions extends ViewOptions {
+  /** Abort signal for cancellation */
+  signal?: AbortSignal;
+}
@@ -0,0 +1,358 @@
+/**
+ * ViewDefinition Runner
+ *
+ * Flattens FHIR resources into rows as defined by SQL on FHIR v2
+ * ViewDefinitions: select, column, forEach, forEachOrNull, unionAll,
+ * where and constant, with the getResourceKey() and getReferenceKey()
+ * functions.
+ *
+ * All expressions of a view are compiled once by compileView(); runView()
+ * streams the rows of a large input (resources or NDJSON) without loading
+ * it into memory.
+ *
+ * @example
+ * ```typescript
+ * import { runView } from "@atollee/fhirpath/sql-on-fhir";
+ *
+ * const file = await Deno.open("Patient.ndjson");
+ * await runView(patientView, file.readable).toCsv()
+ *   .pipeThrough(new TextEncoderStream())
+ *   .pipeTo((await Deno.create("patients.csv")).writable);
+ * ```
+ */
+
+import { FhirPathEngine } from "../engine.ts";
+import { evaluateFhirPath } from "../evaluator/mod.ts";
+import { unwrap } from "../evaluator/node.ts";
+import { compileJIT } from "../jit/mod.ts";
+import { iterableToStream, readLines, StreamWrapper } from "../streaming.ts";
+import type { Model, UserInvocationTable } from "../types.ts";
+import type {
+  ViewDefinition,
+  ViewDefinitionColumn,
+  ViewDefinitionSelect,
+  ViewOptions,
+  ViewRow,
+  ViewSource,
+  ViewStreamOptions,
+} from "./types.ts";
+
+/**
+ * Invalid ViewDefinition, or a column with multiple values that is not a collection
+ */
+export class ViewDefinitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ViewDefinitionError";
+  }
+}
+
+/**
+ * A ViewDefinition with compiled expressions
+ */
+export interface CompiledView {
+  readonly view: ViewDefinition;
+  /** Columns of the rows, in order */
+  readonly columns: ViewDefinitionColumn[];
+  /** Rows of a resource (none if the resource type or where clauses do not match) */
+  evaluate(resource: unknown): ViewRow[];
+}
+
+/** Compiled expression of a view */
+type ViewExpression = (focus: unknown, context: Record<string, unknown>) => unknown[];
+
+/**
+ * Compiled select with the names of all its columns
+ */
+interface SelectPlan {
+  columns: Array<{ name: string; collection: boolean; evaluate: ViewExpression }>;
+  /** forEach or forEachOrNull expression */
+  forEach?: ViewExpression;
+  orNull: boolean;
+  selects: SelectPlan[];
+  unionAll: SelectPlan[];
+  /** Columns of the select, its nested selects and its unionAll */
+  names: string[];
+  /** Column definitions, in the order of names */
+  definitions: ViewDefinitionColumn[];
+}
+
+/**
+ * Resource and reference keys for joining views
+ * (https://sql-on-fhir.org/ig/latest/StructureDefinition-ViewDefinition.html#required-additional-functions)
+ */
+const VIEW_FUNCTIONS: UserInvocationTable = {
+  getResourceKey: {
+    fn: (resources: unknown) =>
+      (resources as unknown[]).flatMap(resource => isObject(resource) && resource.id != null ? [resource.id] : []),
+    arity: { 0: [] },
+  },
+  getReferenceKey: {
+    fn: (references: unknown, type?: unknown) =>
+      (references as unknown[]).flatMap(reference => {
+        const key = isObject(reference) && typeof reference.reference === "string"
+          ? parseReference(reference.reference)
+          : undefined;
+        if (!key) return [];
+        const expected = (type as unknown[] | undefined)?.[0];
+        return expected === undefined || expected === key.type ? [key.id] : [];
+      }),
+    arity: { 0: [], 1: ["TypeSpecifier"] },
+  },
+};
+
+/** Relative or absolute literal reference: [base/]Type/id[/_history/version] */
+const REFERENCE = /(?:^|\/)([A-Z][A-Za-z]+)\/([A-Za-z0-9\-.]{1,64})(?:\/_history\/[^/]+)?$/;
+
+/**
+ * Compile the expressions of a ViewDefinition
+ */
+export function compileView(view: ViewDefinition, options: ViewOptions = {}): CompiledView {
+  if (!view || typeof view.resource !== "string" || !Array.isArray(view.select)) {
+    throw new ViewDefinitionError("A ViewDefinition requires resource and select");
+  }
+
+  const engine = options.engine ?? new FhirPathEngine({ model: options.model });
+  const model = options.model ?? engine.model;
+  const compile = (path: string, keepNodes = false) => compileExpression(path, engine, model, keepNodes, options.jit);
+
+  const root = compileSelect({ select: view.select }, compile);
+  const duplicate = root.names.find((name, i) => root.names.indexOf(name) !== i);
+  if (duplicate) {
+    throw new ViewDefinitionError(`Duplicate column name "${duplicate}"`);
+  }
+
+  const where = (view.where ?? []).map(clause => compile(clause.path));
+  const constants: Record<string, unknown> = {};
+  for (const constant of view.constant ?? []) {
+    const key = Object.keys(constant).find(key => key.startsWith("value"));
+    if (!key) throw new ViewDefinitionError(`Constant "${constant.name}" has no value`);
+    constants[constant.name] = constant[key as `value${string}`];
+  }
+
+  return {
+    view,
+    columns: root.definitions,
+    evaluate(resource: unknown): ViewRow[] {
+      if (!isObject(resource) || resource.resourceType !== view.resource) return [];
+      const context = { ...constants, resource, rootResource: resource };
+      for (const clause of where) {
+        const result = clause(resource, context);
+        if (result.length !== 1 || result[0] !== true) return [];
+      }
+      return selectRows(root, resource, context);
+    },
+  };
+}
+
+/**
+ * Stream the rows of a ViewDefinition over resources, NDJSON lines or an
+ * NDJSON byte stream
+ */
+export function runView(
+  view: ViewDefinition | CompiledView,
+  source: ViewSource,
+  options: ViewStreamOptions = {},
+): ViewRowStream {
+  const compiled = "evaluate" in view ? view : compileView(view, options);
+  return new ViewRowStream(compiled, source, options.signal);
+}
+
+/**
+ * Stream of the rows of a view
+ */
+export class ViewRowStream extends StreamWrapper<ViewRow> {
+  constructor(
+    private readonly view: CompiledView,
+    private readonly source: ViewSource,
+    private readonly signal?: AbortSignal,
+  ) {
+    super();
+  }
+
+  /** Columns of the rows, in order */
+  get columns(): ViewDefinitionColumn[] {
+    return this.view.columns;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<ViewRow> {
+    for await (const resource of readResources(this.source)) {
+      if (this.signal?.aborted) {
+        throw new DOMException("Aborted", "AbortError");
+      }
+      yield* this.view.evaluate(resource);
+    }
+  }
+
+  /**
+   * Rows as NDJSON lines
+   */
+  toNdjson(): ReadableStream<string> {
+    return iterableToStream(this, row => `${JSON.stringify(row)}\n`);
+  }
+
+  /**
+   * Rows as CSV lines, after a header line with the column names.
+   * Null values are empty, objects and collections are written as JSON.
+   */
+  toCsv(): ReadableStream<string> {
+    const names = this.columns.map(column => column.name);
+    return iterableToStream(
+      this,
+      row => `${names.map(name => toCsvField(row[name])).join(",")}\r\n`,
+      `${names.map(toCsvField).join(",")}\r\n`,
+    );
+  }
+}
+
+// ============================================================
+// Compilation
+// ============================================================
+
+function compileSelect(
+  select: ViewDefinitionSelect,
+  compile: (path: string, keepNodes?: boolean) => ViewExpression,
+): SelectPlan {
+  if (select.forEach && select.forEachOrNull) {
+    throw new ViewDefinitionError("A select cannot have both forEach and forEachOrNull");
+  }
+
+  const forEach = select.forEach ?? select.forEachOrNull;
+  const plan: SelectPlan = {
+    columns: (select.column ?? []).map(column => {
+      if (!column.name || !column.path) throw new ViewDefinitionError("A column requires name and path");
+      return { name: column.name, collection: column.collection === true, evaluate: compile(column.path) };
+    }),
+    // Items keep their model type for the expressions evaluated on them
+    forEach: forEach ? compile(forEach, true) : undefined,
+    orNull: select.forEachOrNull !== undefined,
+    selects: (select.select ?? []).map(nested => compileSelect(nested, compile)),
+    unionAll: (select.unionAll ?? []).map(nested => compileSelect(nested, compile)),
+    names: [],
+    definitions: [...select.column ?? []],
+  };
+
+  for (const nested of plan.selects) plan.definitions.push(...nested.definitions);
+  if (plan.unionAll.length > 0) {
+    const names = plan.unionAll[0].names.join(",");
+    if (plan.unionAll.some(branch => branch.names.join(",") !== names)) {
+      throw new ViewDefinitionError("The selects of unionAll must have the same columns");
+    }
+    plan.definitions.push(...plan.unionAll[0].definitions);
+  }
+  plan.names = plan.definitions.map(column => column.name);
+  return plan;
+}
+
+function compileExpression(
+  path: string,
+  engine: FhirPathEngine,
+  model: Model | undefined,
+  keepNodes: boolean,
+  jit = false,
+): ViewExpression {
+  let ast;
+  try {
+    ast = engine.parseNative(path);
+  } catch (error) {
+    throw new ViewDefinitionError(`Invalid path "${path}": ${error instanceof Error ? error.message : error}`);
+  }
+
+  const options = { model, userInvocationTable: VIEW_FUNCTIONS, keepNodes };
+
+  if (jit && !keepNodes) {
+    // Functions the JIT does not compile (getResourceKey(), ...) are interpreted
+    const compiled = compileJIT(ast, { interpreterOptions: options });
+    return (focus, context) => compiled(unwrap(focus), context);
+  }
+
+  return (focus, context) => evaluateFhirPath(ast, focus, context, options);
+}
+
+// ============================================================
+// Rows
+// ============================================================
+
+/**
+ * Rows of a select: for each focus, the columns combined with every row of
+ * the nested selects and the unionAll
+ */
+function selectRows(plan: SelectPlan, node: unknown, context: Record<string, unknown>): ViewRow[] {
+  let foci = plan.forEach ? plan.forEach(node, context) : [node];
+  if (foci.length === 0 && plan.orNull) foci = [null];
+
+  const rows: ViewRow[] = [];
+  for (const focus of foci) {
+    if (focus === null) {
+      rows.push(Object.fromEntries(plan.names.map(name => [name, null])));
+      continue;
+    }
+
+    const row: ViewRow = {};
+    for (const column of plan.columns) {
+      row[column.name] = columnValue(column, focus, context);
+    }
+
+    let combined = [row];
+    for (const nested of plan.selects) {
+      combined = product(combined, selectRows(nested, focus, context));
+    }
+    if (plan.unionAll.length > 0) {
+      combined = product(combined, plan.unionAll.flatMap(branch => selectRows(branch, focus, context)));
+    }
+    rows.push(...combined);
+  }
+  return rows;
+}
+
+function columnValue(column: SelectPlan["columns"][number], focus: unknown, context: Record<string, unknown>): unknown {
+  const values = column.evaluate(focus, context);
+  if (column.collection) return values;
+  if (values.length > 1) {
+    throw new ViewDefinitionError(
+      `Column "${column.name}" has ${values.length} values; set collection to true to return all of them`,
+    );
+  }
+  return values.length === 1 ? values[0] : null;
+}
+
+function product(rows: ViewRow[], others: ViewRow[]): ViewRow[] {
+  return rows.flatMap(row => others.map(other => ({ ...row, ...other })));
+}
+
+// ============================================================
+// Input and output
+// ============================================================
+
+/**
+ * Resources of a source: NDJSON lines are parsed, blank lines skipped
+ */
+async function* readResources(source: ViewSource): AsyncGenerator<unknown> {
+  const items = source instanceof ReadableStream ? readLines(source) : source;
+  for await (const item of items) {
+    if (typeof item !== "string") {
+      yield item;
+    } else if (item.trim()) {
+      yield JSON.parse(item);
+    }
+  }
+}
+
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function parseReference(reference: string): { type: string; id: string } | undefined {
+  const match = reference.match(REFERENCE);
+  return match ? { type: match[1], id: match[2] } : undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === "object" && !Array.isArray(value);
+}
@@ -25,7 +25,8 @@
  */
 
 import { FhirPathEngine, getGlobalEngine } from "./engine.ts";
-import type { ASTNode, EvaluationContext, Model, Options } from "./types.ts";
+import { parseJsonWithDecimals } from "./evaluator/decimal.ts";
+import type { ASTNode, CompiledExpression, EvaluationContext, Model, Options } from "./types.ts";
 
 /**
  * Options for streaming evaluation
@@ -170,7 +171,7 @@ export class FhirPathStream<T = unknown> implements AsyncIterable<T> {
     for (const result of results) {
       // Check for abort
       if (signal?.aborted) {
-        throw new DOMException("Aborted", "AbortError");
+        throw signal.reason;
       }
 
       processed++;
@@ -308,7 +309,7 @@ export class FhirPathStream<T = unknown> implements AsyncIterable<T> {
 /**
  * Base class for stream wrappers with common methods
  */
-abstract class StreamWrapper<T> implements AsyncIterable<T> {
+export abstract class StreamWrapper<T> implements AsyncIterable<T> {
   abstract [Symbol.asyncIterator](): AsyncGenerator<T>;
   
   async toArray(): Promise<T[]> {
@@ -498,28 +499,204 @@ export function toReadableStream<T = unknown>(
   model?: Model,
   options?: StreamingOptions,
 ): ReadableStream<T> {
-  const asyncIterator = evaluateStream<T>(data, expression, context, model, options)[Symbol.asyncIterator]();
-  
-  return new ReadableStream<T>({
+  return iterableToStream(evaluateStream<T>(data, expression, context, model, options), value => value);
+}
+
+/**
+ * Create a readable stream of the formatted items of an async iterable,
+ * after an optional header (e.g. the rows of a SQL on FHIR view as CSV)
+ */
+export function iterableToStream<T, R>(
+  source: AsyncIterable<T>,
+  format: (item: T) => R,
+  header?: R,
+): ReadableStream<R> {
+  const iterator = source[Symbol.asyncIterator]();
+
+  return new ReadableStream<R>({
+    start(controller) {
+      if (header !== undefined) controller.enqueue(header);
+    },
     async pull(controller) {
-      const { value, done } = await asyncIterator.next();
+      const { value, done } = await iterator.next();
       if (done) {
         controller.close();
       } else {
-        controller.enqueue(value);
+        controller.enqueue(format(value));
       }
     },
     cancel() {
       // Signal abort if supported
-      asyncIterator.return?.(undefined);
+      iterator.return?.(undefined);
+    },
+  });
+}
+
+// ============================================================
+// NDJSON
+// ============================================================
+
+/**
+ * Expressions to evaluate per NDJSON resource: one, several, or named.
+ * Results are keyed by name, else by expression text.
+ */
+export type NdjsonExpressions =
+  | string
+  | CompiledExpression
+  | Array<string | CompiledExpression>
+  | Record<string, string | CompiledExpression>;
+
+/**
+ * Options for NDJSON evaluation
+ */
+export interface NdjsonOptions extends Options {
+  /** Environment variables for evaluation */
+  context?: EvaluationContext;
+  /** FHIR model for expressions given as strings */
+  model?: Model;
+}
+
+/**
+ * Parse or evaluation error of an NDJSON line
+ */
+export interface NdjsonError {
+  /** "parse" if the line is not valid JSON, else "evaluate" */
+  stage: "parse" | "evaluate";
+  /** Name of the expression that failed */
+  expression?: string;
+  message: string;
+}
+
+/**
+ * Results of the expressions for one NDJSON line
+ */
+export interface NdjsonResult {
+  /** Line number in the input (1-based) */
+  line: number;
+  /** Results by expression name; expressions that failed are left out */
+  results: Record<string, unknown[]>;
+  /** Errors of the line, if any */
+  errors?: NdjsonError[];
+}
+
+/**
+ * Split a byte stream into lines (without line terminators)
+ */
+export async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  let buffer = "";
+  for await (const chunk of stream.pipeThrough(new TextDecoderStream())) {
+    buffer += chunk;
+    const lines = buffer.split("\n");
+    buffer = lines.pop()!;
+    for (const line of lines) yield line.endsWith("\r") ? line.slice(0, -1) : line;
+  }
+  if (buffer) yield buffer;
+}
+
+/**
+ * Evaluate expressions against each resource of an NDJSON input, such as a
+ * Bulk Data export
+ *
+ * Lines are read, parsed and evaluated one at a time as the output stream is
+ * read, so multi-GB inputs never need to fit into memory. Invalid lines and
+ * failing expressions are reported with their line number without stopping
+ * the stream; blank lines are skipped.
+ *
+ * @param source - NDJSON bytes, or an (async) iterable of lines
+ * @param expressions - Expressions to evaluate per resource
+ * @param options - Evaluation options, context, model and abort signal
+ * @returns ReadableStream with the results of each line
+ *
+ * @example
+ * ```typescript
+ * const file = await Deno.open("Observation.ndjson");
+ * const results = evaluateNdjson(file.readable, {
+ *   id: "id",
+ *   loinc: "code.coding.where(system = 'http://loinc.org').code",
+ * }, { signal: AbortSignal.timeout(60_000) });
+ *
+ * for await (const { line, results: values, errors } of results) {
+ *   if (errors) console.warn(`line ${line}:`, errors);
+ *   else index(values.id[0], values.loinc);
+ * }
+ * ```
+ */
+export function evaluateNdjson(
+  source: ReadableStream<Uint8Array> | AsyncIterable<string> | Iterable<string>,
+  expressions: NdjsonExpressions,
+  options: NdjsonOptions = {},
+): ReadableStream<NdjsonResult> {
+  const { context = {}, model, signal, ...evalOptions } = options;
+  const engine = getGlobalEngine();
+  const compiled = Object.entries(namedExpressions(expressions)).map(([name, expression]) =>
+    [name, typeof expression === "string" ? engine.compile(expression, model, evalOptions) : expression] as const
+  );
+  const lines = (source instanceof ReadableStream ? readLines(source) : source) as AsyncIterable<string>;
+  const iterator = (async function* () {
+    yield* lines;
+  })();
+  let line = 0;
+
+  return new ReadableStream<NdjsonResult>({
+    async pull(controller) {
+      for (;;) {
+        if (signal?.aborted) {
+          await iterator.return(undefined);
+          controller.error(signal.reason);
+          return;
+        }
+
+        const { value: text, done } = await iterator.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        line++;
+        if (!text.trim()) continue;
+
+        let resource: unknown;
+        try {
+          resource = parseJsonWithDecimals(text);
+        } catch (error) {
+          controller.enqueue({ line, results: {}, errors: [{ stage: "parse", message: errorMessage(error) }] });
+          return;
+        }
+
+        const result: NdjsonResult = { line, results: {} };
+        for (const [name, expression] of compiled) {
+          try {
+            result.results[name] = await expression(resource, context);
+          } catch (error) {
+            (result.errors ??= []).push({ stage: "evaluate", expression: name, message: errorMessage(error) });
+          }
+        }
+        controller.enqueue(result);
+        return;
+      }
+    },
+    async cancel() {
+      await iterator.return(undefined);
     },
   });
 }
 
+function namedExpressions(expressions: NdjsonExpressions): Record<string, string | CompiledExpression> {
+  const list = typeof expressions === "string" || typeof expressions === "function" ? [expressions] : expressions;
+  if (!Array.isArray(list)) return list;
+  return Object.fromEntries(
+    list.map(expression => [typeof expression === "string" ? expression : expression.expression, expression]),
+  );
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
 // Default export
 export default {
   evaluateStream,
   evaluateEach,
+  evaluateNdjson,
   toReadableStream,
   FhirPathStream,
 };
@@ -19,8 +19,8 @@ export interface Path {
  * FHIR model information for type checking and navigation
  */
 export interface Model {
-  /** Model version: 'r6', 'r5', 'r4', 'stu3', or 'dstu2' */
-  version: 'r6' | 'r5' | 'r4' | 'stu3' | 'dstu2';
+  /** Model version: 'r6', 'r5', 'r4b', 'r4', 'stu3', or 'dstu2' */
+  version: 'r6' | 'r5' | 'r4b' | 'r4' | 'stu3' | 'dstu2';
 
   /** 
    * Hash of resource element paths that are choice types.
@@ -155,8 +155,12 @@ export interface Options {
    * Format: { [serverUrl]: { [headerName]: headerValue } }
    */
   httpHeaders?: Record<string, Record<string, string>>;
-  /** AbortSignal for cancellation */
+  /** AbortSignal for cancellation, polled during evaluation */
   signal?: AbortSignal;
+  /** Limits of an evaluation, exceeding them throws an EvaluationLimitError */
+  limits?: EvaluationLimits;
+  /** Semantics of operators and criteria (default: "lenient") */
+  mode?: EvaluationMode;
   /** 
    * Function to check if a resource type derives from another.
    * Used for is() and as() operations with polymorphic types.
@@ -168,6 +172,31 @@ export interface Options {
   referenceResolver?: IReferenceResolverBase;
 }
 
+/**
+ * Semantics of an evaluation:
+ * - "lenient": the first item of a collection stands in for the collection,
+ *   + concatenates if either side is a string, mismatched types yield empty
+ * - "strict": FHIRPath N1 semantics, operators throw for collections with
+ *   several items and for operands of types they are not defined for
+ * - "fhirpathjs-compatible": like strict, with the quirks of fhirpath.js 4.x
+ *   (Booleans are comparable, iif() and criteria only accept true)
+ */
+export type EvaluationMode = "lenient" | "strict" | "fhirpathjs-compatible";
+
+/**
+ * Resource limits of an evaluation
+ */
+export interface EvaluationLimits {
+  /** Maximum number of evaluation steps (visited expression nodes, repeat() and descendants() items) */
+  maxSteps?: number;
+  /** Maximum size of a collection, including intermediate results */
+  maxCollectionSize?: number;
+  /** Maximum nesting depth of expression nodes and descendants() levels */
+  maxDepth?: number;
+  /** Maximum wall-clock time of an evaluation in milliseconds */
+  timeout?: number;
+}
+
 /**
  * Async evaluation options
  */
@@ -206,6 +235,35 @@ export interface CompiledExpression {
   (resource: unknown, context?: EvaluationContext, options?: Options): unknown[];
 }
 
+/**
+ * Options of a compiled batch of expressions
+ */
+export interface BatchOptions extends Options {
+  /**
+   * Compile the batch to one fused JIT function, falling back to the interpreter
+   * for unsupported expressions. Batches with a model are interpreted.
+   */
+  jit?: boolean;
+}
+
+/**
+ * A compiled batch of FHIRPath expressions, evaluated together against a
+ * resource. Navigation paths the expressions have in common are evaluated
+ * once per resource.
+ */
+export interface CompiledBatch {
+  /** The expressions of the batch by key */
+  readonly expressions: Readonly<Record<string, string>>;
+  /** Whether the batch runs as a fused JIT function */
+  readonly jit: boolean;
+  /**
+   * Evaluate the batch against a resource.
+   * With options.async the result is a Promise.
+   * @returns The results of the expressions by key
+   */
+  (resource: unknown, context?: EvaluationContext, options?: Options): Record<string, unknown[]>;
+}
+
 /**
  * AST Node types (internal representation)
  */
@@ -286,3 +344,29 @@ export interface TypeResult {
   namespace: string;
   name: string;
 }
+
+/**
+ * Issue of a FHIR OperationOutcome
+ */
+export interface OperationOutcomeIssue {
+  severity: "fatal" | "error" | "warning" | "information";
+  /** Issue type code (e.g. "invariant", "exception", "processing") */
+  code: string;
+  details?: {
+    coding?: Array<{ system?: string; code: string; display?: string }>;
+    text?: string;
+  };
+  diagnostics?: string;
+  /** FHIRPath expressions of the elements the issue is about */
+  expression?: string[];
+  /** Locations of the issue (deprecated in R5, kept for R4 clients) */
+  location?: string[];
+}
+
+/**
+ * FHIR OperationOutcome resource
+ */
+export interface OperationOutcome {
+  resourceType: "OperationOutcome";
+  issue: OperationOutcomeIssue[];
+}
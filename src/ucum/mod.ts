@@ -0,0 +1,26 @@
+/**
+ * UCUM Module
+ *
+ * Offline support for the Unified Code for Units of Measure:
+ * unit parsing, canonicalization and conversion between commensurable units.
+ */
+
+export {
+  UcumError,
+  parseUnit,
+  isValidUnit,
+  isCommensurable,
+  convertUnit,
+  toBaseValue,
+  canonicalUnitString,
+  type CanonicalUnit,
+} from "./ucum.ts";
+
+export {
+  BASE_UNITS,
+  PREFIXES,
+  UNITS,
+  SPECIAL_UNITS,
+  type UnitDefinition,
+  type SpecialUnitDefinition,
+} from "./units.ts";
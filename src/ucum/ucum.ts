@@ -0,0 +1,318 @@
+/**
+ * UCUM Unit Engine
+ *
+ * Parses UCUM unit expressions (e.g. "mg/dL", "kg.m/s2", "10*3/uL",
+ * "mL/{beats}") into a canonical form, a factor and the exponents of the
+ * base units, which is what conversion and commensurability checks need.
+ * Works offline from the tables in units.ts.
+ */
+
+import { BASE_UNITS, PREFIXES, SPECIAL_UNITS, UNITS } from "./units.ts";
+import type { SpecialUnitDefinition } from "./units.ts";
+
+/**
+ * UCUM error (invalid unit expression or unsupported operation)
+ */
+export class UcumError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UcumError";
+  }
+}
+
+/**
+ * A unit in canonical form
+ */
+export interface CanonicalUnit {
+  /** Magnitude of the unit in base units */
+  factor: number;
+  /** Exponents of the base (and arbitrary) units; zero exponents are omitted */
+  dimensions: Record<string, number>;
+  /** Set if the unit is a special unit such as Cel */
+  special?: SpecialUnitDefinition;
+}
+
+const ONE: CanonicalUnit = { factor: 1, dimensions: {} };
+
+const unitCache = new Map<string, CanonicalUnit>();
+
+/**
+ * Parse a UCUM unit expression into its canonical form
+ *
+ * @throws UcumError if the expression is not a valid unit
+ */
+export function parseUnit(unit: string): CanonicalUnit {
+  let canonical = unitCache.get(unit);
+  if (!canonical) {
+    canonical = new UnitParser(unit).parse();
+    unitCache.set(unit, canonical);
+  }
+  return canonical;
+}
+
+/**
+ * Returns true if the string is a valid UCUM unit expression
+ */
+export function isValidUnit(unit: string): boolean {
+  try {
+    parseUnit(unit);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns true if values of the two units can be converted into each other
+ */
+export function isCommensurable(a: string, b: string): boolean {
+  try {
+    return sameDimensions(parseUnit(a), parseUnit(b));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert a value between two units.
+ * Returns undefined if the units are invalid or not commensurable.
+ */
+export function convertUnit(value: number, from: string, to: string): number | undefined {
+  let source: CanonicalUnit;
+  let target: CanonicalUnit;
+  try {
+    source = parseUnit(from);
+    target = parseUnit(to);
+  } catch {
+    return undefined;
+  }
+  if (!sameDimensions(source, target)) return undefined;
+  const base = source.special ? source.special.toBase(value) : value * source.factor;
+  return roundResult(target.special ? target.special.fromBase(base) : base / target.factor);
+}
+
+/**
+ * Value of a quantity expressed in the base units of its unit
+ * (e.g. 5 mg is 0.005 in g). Returns undefined for invalid units.
+ */
+export function toBaseValue(value: number, unit: string): number | undefined {
+  let canonical: CanonicalUnit;
+  try {
+    canonical = parseUnit(unit);
+  } catch {
+    return undefined;
+  }
+  return roundResult(canonical.special ? canonical.special.toBase(value) : value * canonical.factor);
+}
+
+/**
+ * The canonical unit expression of a unit (e.g. "g.m-3" for "mg/L")
+ *
+ * @throws UcumError if the expression is not a valid unit
+ */
+export function canonicalUnitString(unit: string): string {
+  const { dimensions } = parseUnit(unit);
+  const parts = Object.keys(dimensions)
+    .sort()
+    .map(name => dimensions[name] === 1 ? name : `${name}${dimensions[name]}`);
+  return parts.length > 0 ? parts.join(".") : "1";
+}
+
+/**
+ * Returns true if two canonical units have the same dimensions
+ */
+export function sameDimensions(a: CanonicalUnit, b: CanonicalUnit): boolean {
+  const aKeys = Object.keys(a.dimensions);
+  if (aKeys.length !== Object.keys(b.dimensions).length) return false;
+  return aKeys.every(key => a.dimensions[key] === b.dimensions[key]);
+}
+
+/**
+ * Round away binary floating point noise from conversions (2.5399999999999996 → 2.54)
+ */
+function roundResult(value: number): number {
+  return Number(value.toPrecision(14));
+}
+
+function multiply(a: CanonicalUnit, b: CanonicalUnit, exponent = 1): CanonicalUnit {
+  if (a.special || b.special) {
+    throw new UcumError("Special units cannot be combined with other units");
+  }
+  const dimensions = { ...a.dimensions };
+  for (const [name, value] of Object.entries(b.dimensions)) {
+    const sum = (dimensions[name] ?? 0) + value * exponent;
+    if (sum === 0) {
+      delete dimensions[name];
+    } else {
+      dimensions[name] = sum;
+    }
+  }
+  return { factor: a.factor * Math.pow(b.factor, exponent), dimensions };
+}
+
+function power(unit: CanonicalUnit, exponent: number): CanonicalUnit {
+  if (exponent === 1) return unit;
+  return multiply(ONE, unit, exponent);
+}
+
+/**
+ * Canonical form of a unit atom (without prefix)
+ */
+function resolveAtom(atom: string): CanonicalUnit | undefined {
+  if ((BASE_UNITS as readonly string[]).includes(atom)) {
+    return { factor: 1, dimensions: { [atom]: 1 } };
+  }
+  const special = lookup(SPECIAL_UNITS, atom);
+  if (special) {
+    return { ...parseUnit(special.unit), special };
+  }
+  const definition = lookup(UNITS, atom);
+  if (!definition) return undefined;
+  if (definition.arbitrary) {
+    return { factor: 1, dimensions: { [atom]: 1 } };
+  }
+  const defining = parseUnit(definition.unit);
+  return { factor: definition.value * defining.factor, dimensions: defining.dimensions };
+}
+
+function isMetric(atom: string): boolean {
+  return (BASE_UNITS as readonly string[]).includes(atom) || lookup(UNITS, atom)?.metric === true;
+}
+
+/**
+ * Table lookup that ignores inherited object properties ("constructor", ...)
+ */
+function lookup<T>(table: Record<string, T>, key: string): T | undefined {
+  return Object.hasOwn(table, key) ? table[key] : undefined;
+}
+
+/**
+ * Recursive descent parser for the UCUM grammar:
+ *
+ *   term      := "/" component | component (("." | "/") component)*
+ *   component := annotatable annotation? | annotation | factor | "(" term ")"
+ */
+class UnitParser {
+  private pos = 0;
+
+  constructor(private readonly input: string) {}
+
+  parse(): CanonicalUnit {
+    if (this.input.length === 0) {
+      throw new UcumError("Empty unit");
+    }
+    const result = this.parseTerm();
+    if (this.pos < this.input.length) {
+      throw this.error(`Unexpected '${this.input[this.pos]}'`);
+    }
+    return result;
+  }
+
+  private parseTerm(): CanonicalUnit {
+    let result = this.peek() === "/" ? ONE : this.parseComponent();
+    while (this.peek() === "." || this.peek() === "/") {
+      const operator = this.input[this.pos++];
+      const component = this.parseComponent();
+      result = multiply(result, component, operator === "/" ? -1 : 1);
+    }
+    return result;
+  }
+
+  private parseComponent(): CanonicalUnit {
+    const char = this.peek();
+    if (char === "(") {
+      this.pos++;
+      const term = this.parseTerm();
+      if (this.peek() !== ")") throw this.error("Missing ')'");
+      this.pos++;
+      return term;
+    }
+    if (char === "{") {
+      this.skipAnnotation();
+      return ONE;
+    }
+    const symbol = this.readSymbol();
+    if (symbol.length === 0) {
+      throw this.error(char === undefined ? "Unexpected end of unit" : `Unexpected '${char}'`);
+    }
+    if (this.peek() === "{") {
+      this.skipAnnotation();
+    }
+    return this.resolveSymbol(symbol);
+  }
+
+  /**
+   * Read a unit symbol with its exponent; brackets may contain any character
+   */
+  private readSymbol(): string {
+    const start = this.pos;
+    while (this.pos < this.input.length) {
+      const char = this.input[this.pos];
+      if (char === "[") {
+        const end = this.input.indexOf("]", this.pos);
+        if (end < 0) throw this.error("Missing ']'");
+        this.pos = end + 1;
+      } else if (char === "." || char === "/" || char === "(" || char === ")" || char === "{") {
+        break;
+      } else {
+        this.pos++;
+      }
+    }
+    return this.input.slice(start, this.pos);
+  }
+
+  private skipAnnotation(): void {
+    const end = this.input.indexOf("}", this.pos);
+    if (end < 0) throw this.error("Missing '}'");
+    this.pos = end + 1;
+  }
+
+  private resolveSymbol(symbol: string): CanonicalUnit {
+    // Integer factors: 1000, 10*3, 10^-6
+    if (/^\d+$/.test(symbol)) {
+      return { factor: parseInt(symbol, 10), dimensions: {} };
+    }
+    const tenPower = /^10[*^]([+-]?\d+)$/.exec(symbol);
+    if (tenPower) {
+      return { factor: Math.pow(10, parseInt(tenPower[1], 10)), dimensions: {} };
+    }
+
+    const match = /^(.*?)([+-]?\d+)?$/.exec(symbol)!;
+    const atom = match[1];
+    const exponent = match[2] !== undefined ? parseInt(match[2], 10) : 1;
+    if (atom.length === 0 || exponent === 0) {
+      throw this.error(`Invalid unit '${symbol}'`);
+    }
+
+    const unit = this.resolvePrefixedAtom(atom);
+    if (!unit) throw this.error(`Unknown unit '${atom}'`);
+    if (unit.special && exponent !== 1) {
+      throw new UcumError(`Special unit '${atom}' cannot have an exponent`);
+    }
+    return power(unit, exponent);
+  }
+
+  private resolvePrefixedAtom(atom: string): CanonicalUnit | undefined {
+    const unit = resolveAtom(atom);
+    if (unit) return unit;
+
+    for (const prefixLength of [2, 1]) {
+      const prefix = atom.slice(0, prefixLength);
+      const rest = atom.slice(prefixLength);
+      const factor = lookup(PREFIXES, prefix);
+      if (factor === undefined || rest.length === 0 || !isMetric(rest)) continue;
+      const base = resolveAtom(rest);
+      if (!base || base.special) continue;
+      return { factor: factor * base.factor, dimensions: base.dimensions };
+    }
+    return undefined;
+  }
+
+  private peek(): string | undefined {
+    return this.input[this.pos];
+  }
+
+  private error(message: string): UcumError {
+    return new UcumError(`${message} in unit '${this.input}' at position ${this.pos}`);
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * UCUM Unit Tables
+ *
+ * Prefixes and unit atoms of the Unified Code for Units of Measure
+ * (https://ucum.org/ucum), covering the base units, the SI derived units
+ * and the customary and clinical units commonly found in FHIR data.
+ * Units are defined in terms of other units, down to the seven base units.
+ */
+
+/**
+ * UCUM base units (each one is its own dimension)
+ */
+export const BASE_UNITS = ["m", "s", "g", "rad", "K", "C", "cd"] as const;
+
+/**
+ * Metric prefixes and their factors
+ */
+export const PREFIXES: Record<string, number> = {
+  Y: 1e24, Z: 1e21, E: 1e18, P: 1e15, T: 1e12, G: 1e9, M: 1e6, k: 1e3, h: 1e2, da: 1e1,
+  d: 1e-1, c: 1e-2, m: 1e-3, u: 1e-6, n: 1e-9, p: 1e-12, f: 1e-15, a: 1e-18, z: 1e-21, y: 1e-24,
+};
+
+/**
+ * Definition of a unit atom
+ */
+export interface UnitDefinition {
+  /** Magnitude of the unit in terms of its defining unit */
+  value: number;
+  /** Defining unit expression ("" for base and arbitrary units) */
+  unit: string;
+  /** Whether metric prefixes may be applied */
+  metric: boolean;
+  /** Arbitrary units are only commensurable with themselves */
+  arbitrary?: boolean;
+}
+
+/**
+ * Units whose conversion is not a plain factor (temperatures with an offset)
+ */
+export interface SpecialUnitDefinition {
+  /** Unit the special unit is converted to and from */
+  unit: string;
+  /** Convert a value of the special unit to the defining unit */
+  toBase: (value: number) => number;
+  /** Convert a value of the defining unit to the special unit */
+  fromBase: (value: number) => number;
+}
+
+function unit(value: number, unit: string, metric = false): UnitDefinition {
+  return { value, unit, metric };
+}
+
+function arbitrary(metric = false): UnitDefinition {
+  return { value: 1, unit: "", metric, arbitrary: true };
+}
+
+/**
+ * Unit atoms other than the base units
+ */
+export const UNITS: Record<string, UnitDefinition> = {
+  // Dimensionless
+  "[pi]": unit(Math.PI, "1"),
+  "%": unit(1e-2, "1"),
+  "[ppth]": unit(1e-3, "1"),
+  "[ppm]": unit(1e-6, "1"),
+  "[ppb]": unit(1e-9, "1"),
+  "[pptr]": unit(1e-12, "1"),
+  "mol": unit(6.0221367e23, "1", true),
+  "sr": unit(1, "rad2", true),
+  "deg": unit(Math.PI / 180, "rad"),
+
+  // SI derived units
+  "Hz": unit(1, "s-1", true),
+  "N": unit(1, "kg.m/s2", true),
+  "Pa": unit(1, "N/m2", true),
+  "J": unit(1, "N.m", true),
+  "W": unit(1, "J/s", true),
+  "A": unit(1, "C/s", true),
+  "V": unit(1, "J/C", true),
+  "F": unit(1, "C/V", true),
+  "Ohm": unit(1, "V/A", true),
+  "S": unit(1, "Ohm-1", true),
+  "Wb": unit(1, "V.s", true),
+  "T": unit(1, "Wb/m2", true),
+  "H": unit(1, "Wb/A", true),
+  "lm": unit(1, "cd.sr", true),
+  "lx": unit(1, "lm/m2", true),
+  "Bq": unit(1, "s-1", true),
+  "Gy": unit(1, "J/kg", true),
+  "Sv": unit(1, "J/kg", true),
+  "Ci": unit(3.7e10, "Bq", true),
+  "G": unit(1e-4, "T", true),
+
+  // Volume and area
+  "l": unit(1, "dm3", true),
+  "L": unit(1, "l", true),
+  "ar": unit(100, "m2", true),
+
+  // Time
+  "min": unit(60, "s"),
+  "h": unit(60, "min"),
+  "d": unit(24, "h"),
+  "wk": unit(7, "d"),
+  "a_t": unit(365.24219, "d"),
+  "a_j": unit(365.25, "d"),
+  "a_g": unit(365.2425, "d"),
+  "a": unit(1, "a_j"),
+  "mo_s": unit(29.53059, "d"),
+  "mo_j": unit(1, "a_j/12"),
+  "mo_g": unit(1, "a_g/12"),
+  "mo": unit(1, "mo_j"),
+
+  // Mass
+  "t": unit(1e3, "kg", true),
+  "u": unit(1.6605402e-24, "g", true),
+  "[lb_av]": unit(453.59237, "g"),
+  "[oz_av]": unit(1 / 16, "[lb_av]"),
+  "[gr]": unit(64.79891, "mg"),
+
+  // Length
+  "Ao": unit(0.1, "nm"),
+  "[in_i]": unit(2.54, "cm"),
+  "[ft_i]": unit(12, "[in_i]"),
+  "[yd_i]": unit(3, "[ft_i]"),
+  "[mi_i]": unit(5280, "[ft_i]"),
+
+  // Customary volumes
+  "[gal_us]": unit(231, "[in_i]3"),
+  "[qt_us]": unit(1 / 4, "[gal_us]"),
+  "[pt_us]": unit(1 / 8, "[gal_us]"),
+  "[foz_us]": unit(29.5735295625, "mL"),
+  "[tbs_us]": unit(1 / 2, "[foz_us]"),
+  "[tsp_us]": unit(1 / 3, "[tbs_us]"),
+  "[cup_us]": unit(16, "[tbs_us]"),
+  "[drp]": unit(1, "ml/20"),
+
+  // Force, pressure and energy
+  "[g]": unit(9.80665, "m/s2"),
+  "gf": unit(1, "g.[g]", true),
+  "[lbf_av]": unit(1, "[lb_av].[g]"),
+  "dyn": unit(1, "g.cm/s2", true),
+  "erg": unit(1, "dyn.cm", true),
+  "P": unit(1, "dyn.s/cm2", true),
+  "St": unit(1, "cm2/s", true),
+  "bar": unit(1e5, "Pa", true),
+  "atm": unit(101325, "Pa"),
+  "m[Hg]": unit(133.322, "kPa", true),
+  "m[H2O]": unit(9.80665, "kPa", true),
+  "[psi]": unit(1, "[lbf_av]/[in_i]2"),
+  "eV": unit(1.60217733e-19, "J", true),
+  "cal": unit(4.184, "J", true),
+  "[Cal]": unit(1, "kcal"),
+
+  // Chemical and clinical units
+  "eq": unit(1, "mol", true),
+  "osm": unit(1, "mol", true),
+  "kat": unit(1, "mol/s", true),
+  "U": unit(1, "umol/min", true),
+  "g%": unit(1, "g/dl", true),
+  "[IU]": arbitrary(true),
+  "[iU]": unit(1, "[IU]", true),
+  "[arb'U]": arbitrary(),
+  "[USP'U]": arbitrary(),
+  "[CFU]": arbitrary(true),
+  "[HPF]": arbitrary(),
+  "[LPF]": arbitrary(),
+};
+
+/**
+ * Special units (temperatures on interval scales)
+ */
+export const SPECIAL_UNITS: Record<string, SpecialUnitDefinition> = {
+  "Cel": {
+    unit: "K",
+    toBase: (value) => value + 273.15,
+    fromBase: (value) => value - 273.15,
+  },
+  "[degF]": {
+    unit: "K",
+    toBase: (value) => (value + 459.67) * 5 / 9,
+    fromBase: (value) => value * 9 / 5 - 459.67,
+  },
+};
@@ -0,0 +1,324 @@
+/**
+ * Invariant Validation
+ *
+ * Evaluates the invariants (ElementDefinition.constraint) of
+ * StructureDefinitions against a resource and reports the failing ones as
+ * an OperationOutcome.
+ *
+ * The resource is walked along the element definitions. Each invariant is
+ * evaluated at every element its definition matches, with that element as
+ * focus and %context, the resource as %resource and, for contained
+ * resources, the container as %rootResource. Elements of a data type, and
+ * contained or nested resources, are also checked against the definitions
+ * given for their type.
+ *
+ * Definitions apply to every instance of their type: profiles given here
+ * are applied whether or not the resource claims them in meta.profile.
+ *
+ * @example
+ * ```typescript
+ * import { validateInvariants } from "@atollee/fhirpath/validation";
+ *
+ * const outcome = validateInvariants(patient, [patientDefinition, usCorePatient]);
+ * // { resourceType: "OperationOutcome", issue: [{ severity: "error", code: "invariant",
+ * //   details: { coding: [{ code: "pat-1" }], text: "SHALL at least contain ..." },
+ * //   expression: ["Patient.contact[0]"], ... }] }
+ * ```
+ */
+
+import { FhirPathEngine } from "../engine.ts";
+import { ResourceNode } from "../evaluator/node.ts";
+import { normalizeTypeName } from "../evaluator/model.ts";
+import { collectStructureDefinitions } from "../model/builder.ts";
+import type { ElementDefinition, StructureDefinitionSource } from "../model/types.ts";
+import type { CompiledExpression, Model, OperationOutcome, OperationOutcomeIssue } from "../types.ts";
+
+/** Type codes of System types: http://hl7.org/fhirpath/System.String */
+const SYSTEM_TYPE_URL = "http://hl7.org/fhirpath/System.";
+
+/**
+ * Options for validateInvariants()
+ */
+export interface InvariantValidationOptions {
+  /** Engine used to compile the invariants (its model and cache are used) */
+  engine?: FhirPathEngine;
+  /** FHIR model, when no engine is given */
+  model?: Model;
+}
+
+/**
+ * Element definitions of a StructureDefinition, indexed for walking
+ */
+interface DefinitionIndex {
+  /** Path of the root element (the type name) */
+  root: string;
+  elements: Map<string, ElementDefinition>;
+  /** Child element definitions by parent path */
+  children: Map<string, ElementDefinition[]>;
+}
+
+/**
+ * State of one validateInvariants() call
+ */
+interface ValidationRun {
+  engine: FhirPathEngine;
+  /** Definitions that apply to instances of a type */
+  byType: Map<string, DefinitionIndex[]>;
+  compiled: Map<string, CompiledExpression>;
+  issues: OperationOutcomeIssue[];
+  /** Invariant keys already checked per location */
+  checked: Set<string>;
+}
+
+/**
+ * The resource an element belongs to
+ */
+interface ResourceScope {
+  resource: unknown;
+  rootResource: unknown;
+}
+
+const defaultEngine = new FhirPathEngine();
+const modelEngines = new WeakMap<Model, FhirPathEngine>();
+
+/**
+ * Evaluate the invariants of StructureDefinitions against a resource
+ *
+ * @param resource The resource to validate
+ * @param structureDefinitions Definitions of the resource type, its profiles and data types
+ * @returns OperationOutcome with an issue per failing invariant and element
+ */
+export function validateInvariants(
+  resource: unknown,
+  structureDefinitions: StructureDefinitionSource,
+  options: InvariantValidationOptions = {},
+): OperationOutcome {
+  const run: ValidationRun = {
+    engine: options.engine ?? getEngine(options.model),
+    byType: new Map(),
+    compiled: new Map(),
+    issues: [],
+    checked: new Set(),
+  };
+
+  for (const definition of collectStructureDefinitions(structureDefinitions)) {
+    const index = indexDefinition(definition.snapshot?.element ?? definition.differential?.element ?? []);
+    const type = resolveType(definition.type);
+    if (!index || !type) continue;
+    run.byType.set(type, [...run.byType.get(type) ?? [], index]);
+  }
+
+  if (isResource(resource)) {
+    validateResource(resource, resource.resourceType, resource, run);
+  }
+
+  return {
+    resourceType: "OperationOutcome",
+    issue: run.issues.length > 0
+      ? run.issues
+      : [{ severity: "information", code: "informational", details: { text: "All invariants are satisfied" } }],
+  };
+}
+
+function getEngine(model: Model | undefined): FhirPathEngine {
+  if (!model) return defaultEngine;
+  let engine = modelEngines.get(model);
+  if (!engine) {
+    engine = new FhirPathEngine({ model });
+    modelEngines.set(model, engine);
+  }
+  return engine;
+}
+
+function indexDefinition(elements: ElementDefinition[]): DefinitionIndex | undefined {
+  if (elements.length === 0) return undefined;
+  const index: DefinitionIndex = { root: elements[0].path, elements: new Map(), children: new Map() };
+  for (const element of elements) {
+    // Slices need their discriminators to be matched; their invariants are left out
+    if (element.sliceName || element.id?.includes(":")) continue;
+    index.elements.set(element.path, element);
+    const parent = element.path.slice(0, element.path.lastIndexOf("."));
+    if (parent) index.children.set(parent, [...index.children.get(parent) ?? [], element]);
+  }
+  return index;
+}
+
+// ============================================================
+// Walking
+// ============================================================
+
+/**
+ * Validate a resource against the definitions of its type
+ */
+function validateResource(
+  resource: { resourceType: string },
+  location: string,
+  rootResource: unknown,
+  run: ValidationRun,
+): void {
+  const scope: ResourceScope = { resource, rootResource };
+  const type = resource.resourceType;
+  const node = new ResourceNode(resource, type, type, undefined, location);
+  for (const index of run.byType.get(type) ?? []) {
+    walk(node, location, index, index.root, scope, run);
+  }
+}
+
+/**
+ * Check the invariants of an element definition at a node and descend
+ * into the node's children
+ */
+function walk(
+  node: ResourceNode,
+  location: string,
+  index: DefinitionIndex,
+  path: string,
+  scope: ResourceScope,
+  run: ValidationRun,
+): void {
+  const definition = index.elements.get(path);
+  for (const constraint of definition?.constraint ?? []) {
+    if (constraint.expression) checkInvariant(node, location, constraint, scope, run);
+  }
+
+  // Children of a content reference are defined on the referenced element
+  const reference = definition?.contentReference;
+  const parentPath = reference ? reference.slice(reference.indexOf("#") + 1) : path;
+
+  for (const child of index.children.get(parentPath) ?? []) {
+    const name = child.path.slice(parentPath.length + 1);
+    for (const match of getChildren(node, name, child)) {
+      const childLocation = `${location}.${match.name}`;
+
+      if (isResource(match.data)) {
+        validateResource(match.data, childLocation, name === "contained" ? scope.rootResource : match.data, run);
+        continue;
+      }
+
+      const childNode = new ResourceNode(match.data, match.path, match.type, node.path, childLocation, match.extData);
+      walk(childNode, childLocation, index, child.path, scope, run);
+
+      // Data types are also checked against their own definitions
+      if (match.type && !index.children.has(child.path)) {
+        for (const typeIndex of run.byType.get(match.type) ?? []) {
+          walk(childNode, childLocation, typeIndex, typeIndex.root, scope, run);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Values of a child element in the JSON of a node
+ */
+function getChildren(
+  node: ResourceNode,
+  name: string,
+  definition: ElementDefinition,
+): Array<{ name: string; data: unknown; extData?: Record<string, unknown>; path: string; type?: string }> {
+  const object = isObject(node.data) ? node.data : node.extData;
+  if (!object) return [];
+
+  const result = [];
+  const choice = name.endsWith("[x]");
+  const elementName = choice ? name.slice(0, -3) : name;
+  const path = `${node.path}.${elementName}`;
+
+  for (const key of choice ? getChoiceKeys(object, elementName) : [name]) {
+    const type = choice ? normalizeTypeName(key.slice(elementName.length)) : resolveType(definition.type?.[0]?.code);
+    const step = choice ? `${elementName}.ofType(${type})` : name;
+
+    const value = object[key];
+    const ext = object[`_${key}`];
+    const isArray = Array.isArray(value) || Array.isArray(ext);
+    const values = Array.isArray(value) ? value : [value];
+    const exts = Array.isArray(ext) ? ext : [ext];
+
+    for (let i = 0; i < Math.max(values.length, exts.length); i++) {
+      const data = values[i] ?? null;
+      const extData = isObject(exts[i]) ? exts[i] as Record<string, unknown> : undefined;
+      if (data === null && !extData) continue;
+      result.push({ name: isArray ? `${step}[${i}]` : step, data, extData, path, type });
+    }
+  }
+  return result;
+}
+
+/**
+ * JSON keys of a choice element (valueQuantity, _valueString, ...)
+ */
+function getChoiceKeys(object: Record<string, unknown>, name: string): string[] {
+  const keys = new Set<string>();
+  for (const key of Object.keys(object)) {
+    const property = key.startsWith("_") ? key.slice(1) : key;
+    if (property.length > name.length && property.startsWith(name) && /[A-Z]/.test(property[name.length])) {
+      keys.add(property);
+    }
+  }
+  return [...keys];
+}
+
+// ============================================================
+// Invariants
+// ============================================================
+
+function checkInvariant(
+  node: ResourceNode,
+  location: string,
+  constraint: NonNullable<ElementDefinition["constraint"]>[number],
+  scope: ResourceScope,
+  run: ValidationRun,
+): void {
+  const checkKey = `${constraint.key}|${location}`;
+  if (run.checked.has(checkKey)) return;
+  run.checked.add(checkKey);
+
+  const expression = constraint.expression!;
+  let result: unknown[];
+  try {
+    let compiled = run.compiled.get(expression);
+    if (!compiled) {
+      compiled = run.engine.compile(expression);
+      run.compiled.set(expression, compiled);
+    }
+    result = compiled(node, { resource: scope.resource, rootResource: scope.rootResource, context: node });
+  } catch (error) {
+    run.issues.push({
+      severity: "error",
+      code: "exception",
+      details: { coding: [{ code: constraint.key }], text: constraint.human },
+      diagnostics: `Invariant ${constraint.key} could not be evaluated: ${error instanceof Error ? error.message : error}`,
+      expression: [location],
+      location: [location],
+    });
+    return;
+  }
+
+  if (result.length === 1 && result[0] === true) return;
+  run.issues.push({
+    severity: constraint.severity === "warning" ? "warning" : "error",
+    code: "invariant",
+    details: { coding: [{ code: constraint.key }], text: constraint.human },
+    diagnostics: `Invariant ${constraint.key} failed: ${expression}`,
+    expression: [location],
+    location: [location],
+  });
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function resolveType(code: string | undefined): string | undefined {
+  if (!code) return undefined;
+  if (code.startsWith(SYSTEM_TYPE_URL)) return `System.${code.slice(SYSTEM_TYPE_URL.length)}`;
+  return normalizeTypeName(code.slice(code.lastIndexOf("/") + 1));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === "object" && !Array.isArray(value);
+}
+
+function isResource(value: unknown): value is { resourceType: string } {
+  return isObject(value) && typeof value.resourceType === "string";
+}
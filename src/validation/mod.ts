@@ -0,0 +1,16 @@
+/**
+ * Validation
+ *
+ * Evaluates the invariants of StructureDefinitions and profiles against
+ * resources and reports the results as an OperationOutcome.
+ *
+ * @example
+ * ```typescript
+ * import { validateInvariants } from "@atollee/fhirpath/validation";
+ *
+ * const outcome = validateInvariants(patient, await loadDefinitions());
+ * const errors = outcome.issue.filter(issue => issue.severity === "error");
+ * ```
+ */
+
+export { type InvariantValidationOptions, validateInvariants } from "./invariants.ts";
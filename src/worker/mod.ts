@@ -0,0 +1,9 @@
+/**
+ * FHIRPath Worker Pool Module
+ * 
+ * Parallel evaluation of FHIRPath expressions across CPU cores
+ * using Web Workers.
+ */
+
+export { FhirPathWorkerPool, WorkerPoolError } from "./pool.ts";
+export type { EvaluateManyOptions, WorkerPoolOptions } from "./types.ts";
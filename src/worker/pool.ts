@@ -0,0 +1,297 @@
+/**
+ * FHIRPath Worker Pool
+ *
+ * Evaluates expressions against many resources in parallel across CPU
+ * cores. Resources are split into chunks that are handed to idle workers;
+ * each worker compiles an expression once and keeps it for later chunks.
+ *
+ * @example
+ * ```typescript
+ * import { FhirPathWorkerPool } from "@atollee/fhirpath/worker";
+ *
+ * const pool = new FhirPathWorkerPool({ size: 4, model: r4Model });
+ * const resources = bundle.entry.map(e => e.resource);
+ * const results = await pool.evaluateMany(resources, ["id", "meta.lastUpdated"]);
+ * // results[i][j]: result of expression j for resource i
+ * pool.terminate();
+ * ```
+ */
+
+import type {
+  EvaluateManyOptions,
+  WorkerPoolOptions,
+  WorkerRequest,
+  WorkerResponse,
+  WorkerTaskMessage,
+} from "./types.ts";
+
+/** Tasks per worker when the chunk size is not given */
+const TASKS_PER_WORKER = 4;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Worker pool error
+ */
+export class WorkerPoolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkerPoolError";
+  }
+}
+
+/**
+ * One evaluateMany() call
+ */
+interface Job {
+  /** Results of each chunk */
+  results: unknown[][][][];
+  remaining: number;
+  settled: boolean;
+  resolve: (results: unknown[][][]) => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * A chunk of resources of a job
+ */
+interface Task {
+  job: Job;
+  /** Position of the chunk in the job's results */
+  index: number;
+  message: WorkerTaskMessage;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  /** Whether the worker script has loaded */
+  ready: boolean;
+  task?: Task;
+}
+
+/**
+ * Pool of Web Workers evaluating FHIRPath expressions
+ */
+export class FhirPathWorkerPool {
+  private readonly workers: PoolWorker[] = [];
+  private readonly queue: Task[] = [];
+  private readonly workerUrl: string;
+  private nextId = 0;
+  private terminated = false;
+  /** Why the pool stopped when a worker could not be started */
+  private failure?: WorkerPoolError;
+
+  constructor(private readonly options: WorkerPoolOptions = {}) {
+    this.workerUrl = String(options.workerUrl ?? new URL("./worker.ts", import.meta.url));
+    const size = Math.max(1, options.size ?? navigator.hardwareConcurrency ?? 1);
+    for (let i = 0; i < size; i++) {
+      this.workers.push(this.spawn());
+    }
+  }
+
+  /**
+   * Number of workers
+   */
+  get size(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * Number of chunks waiting for a worker
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Evaluate expressions against resources in parallel.
+   * Resources and context must be JSON data; expressions are sent as source.
+   *
+   * @returns For each resource, the result of each expression
+   */
+  evaluateMany(
+    resources: readonly unknown[],
+    expressions: readonly string[],
+    options: EvaluateManyOptions = {},
+  ): Promise<unknown[][][]> {
+    if (this.failure) return Promise.reject(this.failure);
+    if (this.terminated) {
+      return Promise.reject(new WorkerPoolError("Worker pool has been terminated"));
+    }
+    const { signal } = options;
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    if (resources.length === 0) return Promise.resolve([]);
+
+    const chunkSize = Math.max(
+      1,
+      options.chunkSize ?? this.options.chunkSize ??
+        Math.ceil(resources.length / (this.workers.length * TASKS_PER_WORKER)),
+    );
+
+    return new Promise<unknown[][][]>((resolve, reject) => {
+      const job: Job = {
+        results: [],
+        remaining: Math.ceil(resources.length / chunkSize),
+        settled: false,
+        resolve,
+        reject,
+      };
+
+      for (let start = 0, index = 0; start < resources.length; start += chunkSize, index++) {
+        const chunk = encoder.encode(JSON.stringify(resources.slice(start, start + chunkSize)));
+        this.queue.push({
+          job,
+          index,
+          message: {
+            type: "evaluate",
+            id: this.nextId++,
+            expressions: [...expressions],
+            resources: chunk.buffer as ArrayBuffer,
+            context: options.context,
+          },
+        });
+      }
+
+      if (signal) {
+        const onAbort = () => this.cancel(job, signal.reason);
+        signal.addEventListener("abort", onAbort, { once: true });
+        const settle = () => signal.removeEventListener("abort", onAbort);
+        job.resolve = (results) => (settle(), resolve(results));
+        job.reject = (reason) => (settle(), reject(reason));
+      }
+
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Evaluate one expression against one resource in a worker
+   */
+  async evaluate(resource: unknown, expression: string, options: EvaluateManyOptions = {}): Promise<unknown[]> {
+    const [[result]] = await this.evaluateMany([resource], [expression], options);
+    return result;
+  }
+
+  /**
+   * Stop all workers. Pending calls are rejected.
+   */
+  terminate(): void {
+    if (this.terminated) return;
+    this.stop(new WorkerPoolError("Worker pool has been terminated"));
+  }
+
+  // ============================================================
+  // Scheduling
+  // ============================================================
+
+  /**
+   * Stop all workers and reject the running and queued calls
+   */
+  private stop(error: WorkerPoolError): void {
+    this.terminated = true;
+    for (const entry of this.workers) {
+      entry.worker.terminate();
+      if (entry.task) this.fail(entry.task.job, error);
+    }
+    for (const task of this.queue.splice(0)) {
+      this.fail(task.job, error);
+    }
+  }
+
+  private spawn(): PoolWorker {
+    const entry: PoolWorker = { worker: new Worker(this.workerUrl, { type: "module" }), ready: false };
+    entry.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.onResponse(entry, event.data);
+    entry.worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      this.onWorkerError(entry, event.message);
+    };
+    if (this.options.model) {
+      entry.worker.postMessage({ type: "init", model: this.options.model } satisfies WorkerRequest);
+    }
+    return entry;
+  }
+
+  /**
+   * Hand queued chunks to idle workers
+   */
+  private dispatch(): void {
+    for (const entry of this.workers) {
+      if (entry.task) continue;
+      const task = this.queue.shift();
+      if (!task) return;
+      entry.task = task;
+      entry.worker.postMessage(task.message, [task.message.resources]);
+    }
+  }
+
+  private onResponse(entry: PoolWorker, response: WorkerResponse): void {
+    if (response.type === "ready") {
+      entry.ready = true;
+      return;
+    }
+    const task = entry.task;
+    if (!task || task.message.id !== response.id) return;
+    entry.task = undefined;
+
+    const { job } = task;
+    if (response.type === "error") {
+      this.fail(job, new WorkerPoolError(response.message));
+    } else if (!job.settled) {
+      job.results[task.index] = JSON.parse(decoder.decode(response.results));
+      if (--job.remaining === 0) {
+        job.settled = true;
+        job.resolve(job.results.flat(1));
+      }
+    }
+    this.dispatch();
+  }
+
+  /**
+   * A worker failed outside of a task: fail its task and replace it. A worker
+   * whose script could not be loaded is not replaced, as its replacement would
+   * fail the same way: the pool stops and rejects all calls.
+   */
+  private onWorkerError(entry: PoolWorker, message: string): void {
+    if (!entry.ready) {
+      this.failure = new WorkerPoolError(`Worker could not be started: ${message}`);
+      this.stop(this.failure);
+      return;
+    }
+    const task = entry.task;
+    this.replace(entry);
+    if (task) this.fail(task.job, new WorkerPoolError(message));
+    this.dispatch();
+  }
+
+  /**
+   * Drop the queued and running chunks of a job. Workers running one of
+   * its chunks are replaced, as a running evaluation cannot be interrupted.
+   */
+  private cancel(job: Job, reason: unknown): void {
+    if (job.settled) return;
+    this.fail(job, reason);
+    for (const entry of [...this.workers]) {
+      if (entry.task?.job === job) this.replace(entry);
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Reject a job and remove its queued chunks
+   */
+  private fail(job: Job, reason: unknown): void {
+    if (job.settled) return;
+    job.settled = true;
+    for (let i = this.queue.length - 1; i >= 0; i--) {
+      if (this.queue[i].job === job) this.queue.splice(i, 1);
+    }
+    job.reject(reason);
+  }
+
+  private replace(entry: PoolWorker): void {
+    entry.worker.terminate();
+    const index = this.workers.indexOf(entry);
+    if (index >= 0 && !this.terminated) this.workers[index] = this.spawn();
+  }
+}
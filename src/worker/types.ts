@@ -0,0 +1,86 @@
+/**
+ * Worker Pool Types
+ *
+ * Options of the worker pool and the messages exchanged with its workers.
+ * Resources and results cross the worker boundary as UTF-8 encoded JSON in
+ * ArrayBuffers that are transferred rather than copied.
+ */
+
+import type { EvaluationContext, Model } from "../types.ts";
+
+/**
+ * Options for FhirPathWorkerPool
+ */
+export interface WorkerPoolOptions {
+  /** Number of workers (default: navigator.hardwareConcurrency) */
+  size?: number;
+  /** FHIR model used by every worker's engine */
+  model?: Model;
+  /** Resources per task sent to a worker (default: spread over 4 tasks per worker) */
+  chunkSize?: number;
+  /** URL of the worker script (default: worker.ts next to the pool module) */
+  workerUrl?: string | URL;
+}
+
+/**
+ * Options for a single evaluateMany() call
+ */
+export interface EvaluateManyOptions {
+  /** Environment variables (must be structured-cloneable) */
+  context?: EvaluationContext;
+  /** Resources per task, overriding the pool's chunk size */
+  chunkSize?: number;
+  /** Cancels the call; queued and running tasks are dropped */
+  signal?: AbortSignal;
+}
+
+/**
+ * Set up a worker's engine
+ */
+export interface WorkerInitMessage {
+  type: "init";
+  model?: Model;
+}
+
+/**
+ * Evaluate expressions against a chunk of resources
+ */
+export interface WorkerTaskMessage {
+  type: "evaluate";
+  id: number;
+  /** Expression sources, compiled and cached by the worker */
+  expressions: string[];
+  /** JSON array of resources */
+  resources: ArrayBuffer;
+  context?: EvaluationContext;
+}
+
+export type WorkerRequest = WorkerInitMessage | WorkerTaskMessage;
+
+/**
+ * Results of a task: per resource, the result of each expression
+ */
+export interface WorkerResultMessage {
+  type: "result";
+  id: number;
+  /** JSON array of unknown[][] */
+  results: ArrayBuffer;
+}
+
+/**
+ * A task failed
+ */
+export interface WorkerErrorMessage {
+  type: "error";
+  id: number;
+  message: string;
+}
+
+/**
+ * The worker script has loaded and takes tasks
+ */
+export interface WorkerReadyMessage {
+  type: "ready";
+}
+
+export type WorkerResponse = WorkerReadyMessage | WorkerResultMessage | WorkerErrorMessage;
@@ -0,0 +1,57 @@
+/// <reference lib="deno.worker" />
+/**
+ * FHIRPath Worker
+ *
+ * Entry point of a pool worker. Each worker keeps its own FhirPathEngine
+ * and compiled expressions for its whole lifetime (shared-nothing), so that
+ * an expression is only parsed once per worker however many chunks it
+ * evaluates.
+ */
+
+import { FhirPathEngine } from "../engine.ts";
+import { parseJsonWithDecimals } from "../evaluator/decimal.ts";
+import type { CompiledExpression } from "../types.ts";
+import type { WorkerRequest, WorkerResponse } from "./types.ts";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let engine = new FhirPathEngine();
+const compiled = new Map<string, CompiledExpression>();
+
+function getCompiled(expression: string): CompiledExpression {
+  let fn = compiled.get(expression);
+  if (!fn) {
+    fn = engine.compile(expression);
+    compiled.set(expression, fn);
+  }
+  return fn;
+}
+
+function post(message: WorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(message, transfer);
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === "init") {
+    engine = new FhirPathEngine({ model: message.model });
+    compiled.clear();
+    return;
+  }
+
+  try {
+    const resources = parseJsonWithDecimals(decoder.decode(message.resources)) as unknown[];
+    const expressions = message.expressions.map(getCompiled);
+    const results = resources.map(resource =>
+      expressions.map(fn => fn(resource, message.context))
+    );
+    const buffer = encoder.encode(JSON.stringify(results)).buffer as ArrayBuffer;
+    post({ type: "result", id: message.id, results: buffer }, [buffer]);
+  } catch (error) {
+    post({ type: "error", id: message.id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+post({ type: "ready" });
@@ -0,0 +1,174 @@
+/**
+ * Tests for async evaluation: memberOf(), resolve() and async functions
+ * awaited inside where(), select(), exists() and other expressions
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import fhirpath from "../mod.ts";
+import { parseFhirPath } from "../src/parser/parser.ts";
+import { evaluateFhirPath, evaluateFhirPathAsync } from "../src/evaluator/evaluator.ts";
+
+const VITAL_SIGNS = "http://hl7.org/fhir/ValueSet/observation-vitalsignresult";
+
+const observation = {
+  resourceType: "Observation",
+  code: {
+    coding: [
+      { system: "http://loinc.org", code: "8480-6" },
+      { system: "http://loinc.org", code: "1234-5" },
+      { system: "http://loinc.org", code: "8480-6" },
+      { system: "http://loinc.org", code: "8867-4" },
+    ],
+  },
+  hasMember: [{ reference: "Observation/a" }, { reference: "Observation/b" }, { reference: "Observation/a" }],
+  subject: { reference: "Patient/1" },
+};
+
+const resources: Record<string, unknown> = {
+  "Observation/a": { resourceType: "Observation", id: "a", status: "final", subject: { reference: "Patient/1" } },
+  "Observation/b": { resourceType: "Observation", id: "b", status: "preliminary" },
+  "Patient/1": { resourceType: "Patient", id: "1", name: [{ family: "Chalmers" }] },
+};
+
+/** Terminology service that records its calls */
+function createService() {
+  const calls: string[] = [];
+  const members = new Set(["8480-6", "8867-4"]);
+  return {
+    calls,
+    async memberOf(coded: unknown, valueSetUrl: string): Promise<boolean> {
+      const code = (coded as { code: string }).code;
+      calls.push(code);
+      await Promise.resolve();
+      return valueSetUrl === VITAL_SIGNS && members.has(code);
+    },
+  };
+}
+
+/** Reference resolver that records its calls */
+function createResolver() {
+  const calls: string[] = [];
+  return {
+    calls,
+    async resolve(reference: string): Promise<unknown> {
+      calls.push(reference);
+      await Promise.resolve();
+      return resources[reference];
+    },
+  };
+}
+
+Deno.test("async: memberOf() inside where()", async () => {
+  const service = createService();
+  const result = await fhirpath.evaluate(
+    observation,
+    `code.coding.where(memberOf('${VITAL_SIGNS}')).code`,
+    {},
+    undefined,
+    { terminologyService: service, async: true },
+  );
+  assertEquals(result, ["8480-6", "8480-6", "8867-4"]);
+});
+
+Deno.test("async: memberOf() checks each distinct code once", async () => {
+  const service = createService();
+  await fhirpath.evaluate(
+    observation,
+    `code.coding.where(memberOf('${VITAL_SIGNS}')).exists() and code.coding.all(memberOf('${VITAL_SIGNS}'))`,
+    {},
+    undefined,
+    { terminologyService: service, async: true },
+  );
+  assertEquals(service.calls.sort(), ["1234-5", "8480-6", "8867-4"]);
+});
+
+Deno.test("async: memberOf() inside exists(), select() and iif()", async () => {
+  const evaluate = (expr: string) =>
+    fhirpath.evaluate(observation, expr, {}, undefined, { terminologyService: createService(), async: true });
+  assertEquals(await evaluate(`code.coding.exists(memberOf('${VITAL_SIGNS}').not())`), [true]);
+  assertEquals(await evaluate(`code.coding.select(memberOf('${VITAL_SIGNS}'))`), [true, false, true, true]);
+  assertEquals(await evaluate(`iif(code.coding[1].memberOf('${VITAL_SIGNS}'), 'yes', 'no')`), ["no"]);
+});
+
+Deno.test("async: resolve() inside where() resolves each reference once", async () => {
+  const resolver = createResolver();
+  const result = await fhirpath.evaluate(
+    observation,
+    "hasMember.where(resolve().status = 'final').reference",
+    {},
+    undefined,
+    { referenceResolver: resolver, async: true },
+  );
+  assertEquals(result, ["Observation/a", "Observation/a"]);
+  assertEquals(resolver.calls.sort(), ["Observation/a", "Observation/b"]);
+});
+
+Deno.test("async: chained resolve()", async () => {
+  const result = await evaluateFhirPathAsync(
+    parseFhirPath("hasMember.first().resolve().subject.resolve().name.family"),
+    observation,
+    {},
+    { referenceResolver: createResolver() },
+  );
+  assertEquals(result, ["Chalmers"]);
+});
+
+Deno.test("async: async user functions and trace()", async () => {
+  const traces: string[] = [];
+  const result = await evaluateFhirPathAsync(
+    parseFhirPath("subject.reference.lookup().trace('looked up').name.family"),
+    observation,
+    {},
+    {
+      userInvocationTable: {
+        lookup: { fn: (input) => Promise.resolve(resources[(input as string[])[0]]) },
+      },
+      traceFn: (_value, label) => traces.push(label),
+    },
+  );
+  assertEquals(result, ["Chalmers"]);
+  assertEquals(traces, ["looked up"]);
+});
+
+Deno.test("async: synchronous user functions are called once", async () => {
+  const calls: unknown[] = [];
+  const result = await evaluateFhirPathAsync(
+    parseFhirPath("hasMember.reference.distinct().select(record()) | subject.reference.lookup().id"),
+    observation,
+    {},
+    {
+      userInvocationTable: {
+        record: {
+          fn: (input) => {
+            calls.push(...(input as unknown[]));
+            return input;
+          },
+        },
+        lookup: { fn: (input) => Promise.resolve(resources[(input as string[])[0]]) },
+      },
+    },
+  );
+  assertEquals(result, ["Observation/a", "Observation/b", "1"]);
+  assertEquals(calls, ["Observation/a", "Observation/b"]);
+});
+
+Deno.test("async: failing resolver rejects the evaluation", async () => {
+  await assertRejects(() =>
+    evaluateFhirPathAsync(parseFhirPath("subject.resolve()"), observation, {}, {
+      referenceResolver: { resolve: () => Promise.reject(new Error("unavailable")) },
+    }), Error, "unavailable");
+});
+
+Deno.test("async: synchronous evaluation cannot await", () => {
+  assertThrows(
+    () => evaluateFhirPath(parseFhirPath("subject.resolve()"), observation, {}, { referenceResolver: createResolver() }),
+    Error,
+    "async",
+  );
+  // Synchronous resolvers keep working without async
+  const resolver = { resolve: (reference: string) => resources[reference] };
+  assertEquals(
+    evaluateFhirPath(parseFhirPath("subject.resolve().id"), observation, {}, { referenceResolver: resolver }),
+    ["1"],
+  );
+});
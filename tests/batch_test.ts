@@ -0,0 +1,153 @@
+/**
+ * Tests for batch compilation with shared subexpressions
+ */
+
+import { assert, assertEquals } from "@std/assert";
+import { FhirPathEngine } from "../src/engine.ts";
+import { compileBatchJIT } from "../src/jit/mod.ts";
+import { parseFhirPath } from "../src/parser/mod.ts";
+import type { Model } from "../src/types.ts";
+import r4Model from "../fhir-context/r4/mod.ts";
+
+const model = r4Model as Model;
+
+const observation = {
+  resourceType: "Observation",
+  status: "final",
+  code: { coding: [{ system: "http://loinc.org", code: "8867-4" }, { system: "http://snomed.info/sct", code: "364075005" }] },
+  subject: { reference: "Patient/p1" },
+  valueQuantity: { value: 72, unit: "/min", system: "http://unitsofmeasure.org", code: "/min" },
+};
+
+const expressions = {
+  code: "Observation.code.coding.code",
+  system: "Observation.code.coding.system",
+  loinc: "Observation.code.coding.where(system = 'http://loinc.org').code",
+  value: "(Observation.value as Quantity).value",
+  unit: "Observation.value.ofType(Quantity).code",
+  patient: "Observation.subject.where(reference.startsWith('Patient/')).reference",
+};
+
+Deno.test("batch: results by key equal single evaluation", () => {
+  const engine = new FhirPathEngine({ model });
+  const batch = engine.compileBatch(expressions);
+  assertEquals(batch.jit, false);
+  assertEquals(batch.expressions, expressions);
+
+  const results = batch(observation);
+  for (const [key, expression] of Object.entries(expressions)) {
+    assertEquals(results[key], engine.evaluate(observation, expression), key);
+  }
+  assertEquals(results.value, [72]);
+
+  // Expression strings key their own results
+  assertEquals(engine.compileBatch(["status", "%code"])(observation, { code: "x" }), { status: ["final"], "%code": ["x"] });
+});
+
+Deno.test("batch: common paths are navigated once per resource", () => {
+  let reads = 0;
+  const resource = {
+    resourceType: "Observation",
+    get code() {
+      reads++;
+      return observation.code;
+    },
+  };
+  const engine = new FhirPathEngine({ model });
+  const batch = engine.compileBatch([
+    "Observation.code.coding.code",
+    "Observation.code.coding.system",
+    "Observation.code.text",
+  ]);
+
+  batch(resource);
+  const batched = reads;
+  reads = 0;
+  engine.evaluate(resource, "Observation.code.coding.code");
+  assert(batched > 0);
+  assertEquals(batched, reads);
+
+  // Every evaluation navigates its resource again
+  reads = 0;
+  batch(resource);
+  assertEquals(reads, batched);
+});
+
+Deno.test("batch: variables and iteration do not share the resource paths", () => {
+  const engine = new FhirPathEngine({ model });
+  const batch = engine.compileBatch({
+    codes: "Observation.code.coding.code",
+    nested: "Observation.code.coding.select(code)",
+    defined: "Observation.defineVariable('code', 'shadowed').select(code)",
+  });
+  assertEquals(batch(observation), {
+    codes: ["8867-4", "364075005"],
+    nested: ["8867-4", "364075005"],
+    defined: ["shadowed"],
+  });
+});
+
+Deno.test("batch: async evaluation", async () => {
+  const engine = new FhirPathEngine({ model });
+  const batch = engine.compileBatch(expressions, undefined, { async: true });
+  const results = await batch(observation);
+  assertEquals(results.code, ["8867-4", "364075005"]);
+  assertEquals(results.patient, ["Patient/p1"]);
+});
+
+Deno.test("batch: fused JIT function", () => {
+  const engine = new FhirPathEngine();
+  const batch = engine.compileBatch({
+    code: expressions.code,
+    system: expressions.system,
+    loinc: expressions.loinc,
+    patient: expressions.patient,
+  }, undefined, { jit: true });
+  assertEquals(batch.jit, true);
+  assertEquals(batch(observation), {
+    code: ["8867-4", "364075005"],
+    system: ["http://loinc.org", "http://snomed.info/sct"],
+    loinc: ["8867-4"],
+    patient: ["Patient/p1"],
+  });
+  // Other resource types do not match the type name
+  assertEquals(batch({ resourceType: "Patient", code: observation.code }).code, []);
+
+  const fused = compileBatchJIT({ a: parseFhirPath("Observation.code.coding"), b: parseFhirPath("Observation.code.text") });
+  assertEquals(fused({ ...observation, code: { text: "Pulse" } }), { a: [], b: ["Pulse"] });
+});
+
+Deno.test("batch: interprets the functions the JIT does not compile", () => {
+  const engine = new FhirPathEngine({
+    userInvocationTable: { shout: { fn: (inputs: unknown) => (inputs as unknown[]).map(value => String(value).toUpperCase()), arity: { 0: [] } } },
+  });
+  const batch = engine.compileBatch({ code: expressions.code, status: "Observation.status.shout()" }, undefined, { jit: true });
+  assertEquals(batch.jit, true);
+  assertEquals(batch(observation), { code: ["8867-4", "364075005"], status: ["FINAL"] });
+
+  // Expressions the JIT cannot compile at all are interpreted
+  const invalid = engine.compileBatch({ code: expressions.code, date: "@2020-13-45" }, undefined, { jit: true });
+  assertEquals(invalid.jit, false);
+});
+
+Deno.test("batch: the JIT option does not change results", () => {
+  const traced: unknown[] = [];
+  const traceFn = (value: unknown) => traced.push(value);
+  const withModel = new FhirPathEngine({ model, traceFn });
+  const interpreted = withModel.compileBatch(expressions);
+  const jit = withModel.compileBatch(expressions, undefined, { jit: true });
+  assertEquals(jit.jit, false);
+  assertEquals(jit(observation), interpreted(observation));
+  assertEquals(jit({ ...observation, valueQuantity: { value: 1.5 } }).value, [1.5]);
+
+  // Options of the engine and of each call apply to the fused function
+  const engine = new FhirPathEngine({ traceFn });
+  const fused = engine.compileBatch({ status: "status.trace('status')" }, undefined, { jit: true });
+  assertEquals(fused.jit, true);
+  traced.length = 0;
+  assertEquals(fused(observation), { status: ["final"] });
+  assertEquals(traced.length, 1);
+  const shout = { fn: (inputs: unknown) => (inputs as string[]).map(value => value.toUpperCase()) };
+  const shouting = engine.compileBatch({ status: "status.shout()" }, undefined, { jit: true });
+  assertEquals(shouting(observation, undefined, { userInvocationTable: { shout } }), { status: ["FINAL"] });
+});
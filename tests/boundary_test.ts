@@ -0,0 +1,87 @@
+/**
+ * Tests for lowBoundary(), highBoundary(), precision() and comparable()
+ */
+
+import { assertEquals } from "@std/assert";
+import { parseFhirPath } from "../src/parser/parser.ts";
+import { evaluateFhirPath } from "../src/evaluator/evaluator.ts";
+import { compileJIT } from "../src/jit/mod.ts";
+
+const patient = {
+  resourceType: "Patient",
+  birthDate: "1974-12",
+  extension: [{ url: "http://example.org/weight", valueQuantity: { value: 72.5, unit: "kg", code: "kg" } }],
+};
+
+function evaluate(expr: string): unknown[] {
+  return evaluateFhirPath(parseFhirPath(expr), patient);
+}
+
+Deno.test("boundary: Decimal", () => {
+  assertEquals(evaluate("1.587.lowBoundary().toString()"), ["1.58650000"]);
+  assertEquals(evaluate("1.587.highBoundary().toString()"), ["1.58750000"]);
+  assertEquals(evaluate("1.587.lowBoundary(6).toString()"), ["1.586500"]);
+  assertEquals(evaluate("1.587.lowBoundary(2).toString()"), ["1.58"]);
+  assertEquals(evaluate("1.587.highBoundary(2).toString()"), ["1.59"]);
+  assertEquals(evaluate("1.587.lowBoundary(0).toString()"), ["1"]);
+  assertEquals(evaluate("(-1.587).lowBoundary().toString()"), ["-1.58750000"]);
+  assertEquals(evaluate("1.lowBoundary()"), [0.5]);
+  assertEquals(evaluate("1.587.lowBoundary(30)"), []);
+});
+
+Deno.test("boundary: Date, DateTime and Time", () => {
+  assertEquals(evaluate("@2014.lowBoundary(6)"), ["2014-01"]);
+  assertEquals(evaluate("@2014-02.highBoundary()"), ["2014-02-28"]);
+  assertEquals(evaluate("@2016-02.highBoundary()"), ["2016-02-29"]);
+  assertEquals(evaluate("@2014-01-01T08.lowBoundary()"), ["2014-01-01T08:00:00.000"]);
+  assertEquals(evaluate("@2014-01-01T08:05+02:00.highBoundary(14)"), ["2014-01-01T08:05:59+02:00"]);
+  assertEquals(evaluate("@2014-01-01T08:05:30.highBoundary(8)"), ["2014-01-01"]);
+  assertEquals(evaluate("@T10:30.highBoundary()"), ["10:30:59.999"]);
+  assertEquals(evaluate("@T10:30.lowBoundary(2)"), ["10"]);
+  assertEquals(evaluate("@2014.lowBoundary(5)"), []);
+  assertEquals(evaluate("birthDate.lowBoundary()"), ["1974-12-01T00:00:00.000"]);
+});
+
+Deno.test("boundary: Quantity keeps its unit", () => {
+  assertEquals(evaluate("extension.valueQuantity.lowBoundary()"), [
+    { value: 72.45, unit: "kg", code: "kg" },
+  ]);
+  assertEquals(evaluate("(3.5 'mg').highBoundary(1)"), [{ value: 3.6, unit: "mg" }]);
+});
+
+Deno.test("boundary: precision()", () => {
+  assertEquals(evaluate("1.58700.precision()"), [5]);
+  assertEquals(evaluate("@2014.precision()"), [4]);
+  assertEquals(evaluate("@2014-01-05T10:30:00.000.precision()"), [17]);
+  assertEquals(evaluate("@T10:30.precision()"), [4]);
+  assertEquals(evaluate("birthDate.precision()"), [6]);
+  assertEquals(evaluate("true.precision()"), []);
+});
+
+Deno.test("boundary: comparable()", () => {
+  assertEquals(evaluate("(1 'cm').comparable(1 '[in_i]')"), [true]);
+  assertEquals(evaluate("(1 'cm').comparable(1 's')"), [false]);
+  assertEquals(evaluate("extension.valueQuantity.comparable(5 'g')"), [true]);
+  assertEquals(evaluate("(1 'cm').comparable('a')"), []);
+});
+
+Deno.test("boundary: JIT matches the interpreter", () => {
+  const expressions = [
+    "1.587.lowBoundary()",
+    "1.587.highBoundary(2)",
+    "1.587.lowBoundary(30)",
+    "@2014-02.highBoundary()",
+    "@2014-01-01T08.lowBoundary()",
+    "@T10:30.highBoundary()",
+    "birthDate.highBoundary(8)",
+    "extension.valueQuantity.lowBoundary()",
+    "1.58700.precision()",
+    "@2014.precision()",
+    "(1 'cm').comparable(1 '[in_i]')",
+    "(1 'cm').comparable(1 's')",
+  ];
+  for (const expr of expressions) {
+    const ast = parseFhirPath(expr);
+    assertEquals(compileJIT(ast)(patient), evaluateFhirPath(ast, patient), expr);
+  }
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for differential testing of the interpreter, the JIT and fhirpath.js
+ */
+
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import fhirpathjs from "fhirpath";
+import {
+  assertEquivalentEngines,
+  EquivalenceError,
+  formatDiff,
+  officialCases,
+  parseOfficialTests,
+  runDifferential,
+} from "../src/conformance/mod.ts";
+import type { UserInvocationTable } from "../src/types.ts";
+
+const patient = {
+  resourceType: "Patient",
+  birthDate: "1974-12-25",
+  name: [{ use: "official", family: "Chalmers", given: ["Peter", "James"] }, { use: "usual", given: ["Jim"] }],
+};
+
+/** A function whose result differs for each call, so that every engine gets another one */
+function counter(): UserInvocationTable {
+  let calls = 0;
+  return { next: { fn: () => [++calls], arity: { 0: [] } } };
+}
+
+Deno.test("conformance: engines agree up to representation", () => {
+  const report = runDifferential([
+    { expression: "name.given", resource: patient },
+    { expression: "name.where(use = 'usual').given", resource: patient },
+    { expression: "birthDate", resource: patient },
+    { expression: "1.1 + 2.2", resource: {} },
+    { expression: "5 'mg' + 3 'mg'", resource: {} },
+    { expression: "2 years", resource: {} },
+    { expression: "%greeting & ' ' & name.given.first()", resource: patient, context: { greeting: "Hello" } },
+    // Failing for all engines
+    { expression: "name.given.unknownFn()", resource: patient },
+  ], { fhirpathjs });
+  assertEquals(report, { total: 8, agreed: 8, diffs: [] });
+});
+
+Deno.test("conformance: diffs of the engines", () => {
+  const testCase = { name: "counter", expression: "next()", resource: {} };
+  const report = runDifferential([testCase], { fhirpathjs, userInvocationTable: counter() });
+  assertEquals(report.total, 1);
+  assertEquals(report.agreed, 0);
+  assertEquals(report.diffs, [{
+    case: testCase,
+    outcomes: { interpreter: { result: [1] }, jit: { result: [2] }, fhirpathjs: { result: [3] } },
+    differing: ["jit", "fhirpathjs"],
+  }]);
+  assertEquals(
+    formatDiff(report.diffs[0]),
+    "Engines disagree on counter: next()\n    interpreter: [1]\n  ≠ jit: [2]\n  ≠ fhirpathjs: [3]",
+  );
+
+  // A result and an error disagree: fhirpath.js rejects comparing a string with a number
+  const [comparison] = runDifferential([{ expression: "'a' < 1", resource: {} }], {
+    engines: ["interpreter", "fhirpathjs"],
+    fhirpathjs,
+  }).diffs;
+  assertEquals(comparison.outcomes.interpreter, { result: [] });
+  assert(comparison.outcomes.fhirpathjs?.error !== undefined);
+  assertEquals(comparison.differing, ["fhirpathjs"]);
+});
+
+Deno.test("conformance: assertEquivalentEngines()", () => {
+  assertEquivalentEngines("name.where(given = 'Jim').use", patient, { fhirpathjs });
+  assertEquivalentEngines("%code.length()", patient, { context: { code: "abc" }, fhirpathjs });
+
+  const error = assertThrows(
+    () => assertEquivalentEngines("next()", patient, { fhirpathjs, userInvocationTable: counter() }),
+    EquivalenceError,
+  );
+  assertEquals(error.diff.differing, ["jit", "fhirpathjs"]);
+  assert(error.message.startsWith("Engines disagree on next()"));
+
+  // Only the given engines are compared
+  assertEquivalentEngines("next() - next()", patient, { engines: ["interpreter"], userInvocationTable: counter() });
+});
+
+Deno.test("conformance: fhirpath.js is only compared if it is given", () => {
+  const [diff] = runDifferential([{ expression: "next()", resource: {} }], { userInvocationTable: counter() }).diffs;
+  assertEquals(Object.keys(diff.outcomes), ["interpreter", "jit"]);
+
+  assertThrows(
+    () => runDifferential([{ expression: "1", resource: {} }], { engines: ["interpreter", "fhirpathjs"] }),
+    Error,
+    "options.fhirpathjs",
+  );
+});
+
+Deno.test("conformance: official test XML as a corpus", () => {
+  const groups = parseOfficialTests(`
+    <tests name="FHIRPathTestSuite">
+      <group name="testBasics" description="Basics">
+        <test name="testSimple" inputfile="patient-example.xml">
+          <expression>name.given</expression>
+          <output type="string">Peter</output>
+          <output type="string">James</output>
+        </test>
+        <test name="testLessThan" inputfile="observation-example.xml">
+          <expression>1 &lt; 2</expression>
+          <output type="boolean">true</output>
+        </test>
+        <test name="testSyntax">
+          <expression invalid="syntax">name.given(</expression>
+        </test>
+      </group>
+    </tests>`);
+  assertEquals(groups.length, 1);
+  assertEquals(groups[0].tests.map(test => test.expression), ["name.given", "1 < 2", "name.given("]);
+
+  const cases = officialCases(groups, { "patient-example.xml": patient });
+  assertEquals(cases.map(({ name, resource, expected, invalid }) => ({ name, resource, expected, invalid })), [
+    { name: "testBasics.testSimple", resource: patient, expected: ["Peter", "James"], invalid: false },
+    { name: "testBasics.testLessThan", resource: {}, expected: [true], invalid: false },
+    { name: "testBasics.testSyntax", resource: patient, expected: undefined, invalid: true },
+  ]);
+  assertEquals(runDifferential(cases, { fhirpathjs }).diffs, []);
+});
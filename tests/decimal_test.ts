@@ -0,0 +1,140 @@
+/**
+ * Tests for exact Decimal arithmetic and Integer/Decimal typing
+ */
+
+import { assertEquals } from "@std/assert";
+import { parseFhirPath } from "../src/parser/parser.ts";
+import { evaluateFhirPath } from "../src/evaluator/evaluator.ts";
+import { compileJIT } from "../src/jit/mod.ts";
+import {
+  compareDecimals,
+  decimalEquivalent,
+  FhirPathDecimal,
+  numericArithmetic,
+  parseDecimal,
+  parseJsonWithDecimals,
+  roundDecimal,
+} from "../src/evaluator/decimal.ts";
+import type { Model } from "../src/types.ts";
+import r4Model from "../fhir-context/r4/mod.ts";
+
+const observation = parseJsonWithDecimals(`{
+  "resourceType": "Observation",
+  "valueQuantity": { "value": 1.50, "unit": "mg" },
+  "component": [{ "valueDecimal": 0.1 }, { "valueDecimal": 0.2 }]
+}`);
+
+function evaluate(expr: string, options: Parameters<typeof evaluateFhirPath>[3] = {}): unknown[] {
+  return evaluateFhirPath(parseFhirPath(expr), observation, {}, options);
+}
+
+Deno.test("decimal: parse keeps significant digits", () => {
+  assertEquals(parseDecimal("1.50")?.toString(), "1.50");
+  assertEquals(parseDecimal("-0.05")?.toString(), "-0.05");
+  assertEquals(parseDecimal("1.5e3")?.toString(), "1500");
+  assertEquals(parseDecimal("2.5E-3")?.toString(), "0.0025");
+  assertEquals(parseDecimal("1.2.3"), undefined);
+});
+
+Deno.test("decimal: arithmetic is exact", () => {
+  const sum = numericArithmetic("+", parseDecimal("0.1"), parseDecimal("0.2")) as FhirPathDecimal;
+  assertEquals(sum.toString(), "0.3");
+  assertEquals(numericArithmetic("+", 1, 2), 3);
+  assertEquals(String(numericArithmetic("/", 1, 3)), "0.33333333333333333333");
+  assertEquals(numericArithmetic("/", 1, 0), undefined);
+  assertEquals(numericArithmetic("+", "a", 1), null);
+});
+
+Deno.test("decimal: comparison, equivalence and rounding", () => {
+  assertEquals(compareDecimals(parseDecimal("1.50")!, 1.5), 0);
+  assertEquals(compareDecimals(parseDecimal("0.3")!, 0.1 + 0.2), -1);
+  assertEquals(decimalEquivalent(parseDecimal("1.2")!, parseDecimal("1.23")!), true);
+  assertEquals(decimalEquivalent(parseDecimal("1.2")!, parseDecimal("1.3")!), false);
+  assertEquals(roundDecimal(parseDecimal("1.005")!, 2).toString(), "1.01");
+  assertEquals(roundDecimal(parseDecimal("-1.5")!).toString(), "-1");
+});
+
+Deno.test("decimal: literals distinguish Integer and Decimal", () => {
+  assertEquals(evaluate("0.1 + 0.2 = 0.3"), [true]);
+  assertEquals(evaluate("1.0 is Integer"), [false]);
+  assertEquals(evaluate("1.0 is Decimal"), [true]);
+  assertEquals(evaluate("(1 + 1.0).type().name"), ["Decimal"]);
+  assertEquals(evaluate("(2 * 3).type().name"), ["Integer"]);
+  assertEquals(evaluate("(4 / 2).type().name"), ["Decimal"]);
+  assertEquals(evaluate("1.0 = 1"), [true]);
+});
+
+Deno.test("decimal: significant digits survive arithmetic and toString()", () => {
+  assertEquals(evaluate("(1.0).toString()"), ["1.0"]);
+  assertEquals(evaluate("(1.50 * 2).toString()"), ["3.00"]);
+  assertEquals(evaluate("(0.1 + 0.20).toString()"), ["0.30"]);
+  assertEquals(evaluate("'1.50'.toDecimal().toString()"), ["1.50"]);
+  assertEquals(evaluate("valueQuantity.value.toString()"), ["1.50"]);
+});
+
+Deno.test("decimal: div, mod, round and truncate", () => {
+  assertEquals(evaluate("5.5 div 0.7"), [7]);
+  assertEquals(evaluate("5.5 mod 0.7"), [0.6]);
+  assertEquals(evaluate("7 mod 0"), []);
+  assertEquals(evaluate("(1.005).round(2)"), [1.01]);
+  assertEquals(evaluate("(3.14159).round(3).toString()"), ["3.142"]);
+  assertEquals(evaluate("(-1.9).truncate()"), [-1]);
+  assertEquals(evaluate("(-1.1).floor()"), [-2]);
+});
+
+Deno.test("decimal: FHIR decimal values", () => {
+  assertEquals(evaluate("component.valueDecimal.sum() = 0.3"), [true]);
+  assertEquals(evaluate("component.valueDecimal.sum()", { model: r4Model as Model }), [0.3]);
+  assertEquals(evaluate("component.valueDecimal.max()"), [0.2]);
+  assertEquals(
+    evaluateFhirPath(parseFhirPath("value + 0.2 = 0.3"), { value: 0.1 }),
+    [true],
+  );
+});
+
+Deno.test("decimal: results are numbers unless internal types are kept", () => {
+  assertEquals(evaluate("10 / 4"), [2.5]);
+  const [value] = evaluate("1.50", { resolveInternalTypes: false });
+  assertEquals(value instanceof FhirPathDecimal, true);
+});
+
+Deno.test("decimal: JIT matches the interpreter", () => {
+  const expressions = [
+    "0.1 + 0.2 = 0.3",
+    "0.1 + 0.2",
+    "1.0 is Integer",
+    "(1.50 * 2).toString()",
+    "1 / 3",
+    "5.5 div 0.7",
+    "5.5 mod 0.7",
+    "1.2 ~ 1.23",
+    "1.5 < 1.50001",
+    "(1.25).round(1)",
+    "(-1.5).abs()",
+    "(0.1).type().name",
+    "-0.5 + 1",
+    "component.valueDecimal.sum() = 0.3",
+    "component.valueDecimal.avg()",
+    "valueQuantity.value.toString()",
+    "'1.50'.toDecimal()",
+  ];
+  for (const expr of expressions) {
+    const ast = parseFhirPath(expr);
+    assertEquals(compileJIT(ast)(observation), evaluateFhirPath(ast, observation), expr);
+  }
+});
+
+Deno.test("decimal: JIT log() and power() of decimals", () => {
+  const cases: Array<[string, unknown[]]> = [
+    ["2.0.power(2)", [4]],
+    ["2.power(2.0)", [4]],
+    ["100.0.log(10)", [2]],
+    ["100.log(10.0)", [2]],
+    ["component.valueDecimal.first().power(2) < 0.011", [true]],
+  ];
+  for (const [expr, expected] of cases) {
+    const ast = parseFhirPath(expr);
+    assertEquals(evaluateFhirPath(ast, observation), expected, expr);
+    assertEquals(compileJIT(ast)(observation), expected, expr);
+  }
+});
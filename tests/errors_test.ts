@@ -0,0 +1,114 @@
+/**
+ * Tests for structured errors and their OperationOutcome issues
+ */
+
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert";
+import { FhirPathEngine } from "../src/engine.ts";
+import { EvaluationLimitError, EvaluatorError } from "../src/evaluator/mod.ts";
+import { LexerError, ParserError, parseFhirPath } from "../src/parser/mod.ts";
+import { errorPosition, toOperationOutcomeIssue } from "../src/errors.ts";
+import { compileJIT } from "../src/jit/mod.ts";
+import type { Model } from "../src/types.ts";
+import r4Model from "../fhir-context/r4/mod.ts";
+
+const engine = new FhirPathEngine({ model: r4Model as Model });
+const patient = { resourceType: "Patient", name: [{ family: "Doe", given: ["Jane", "Ann"] }] };
+
+function evaluationError(expression: string): EvaluatorError {
+  return assertThrows(() => engine.evaluate(patient, expression), EvaluatorError);
+}
+
+Deno.test("errors: evaluation errors have a code, span, expression and input type", () => {
+  const unary = evaluationError("-name.given.first()");
+  assertEquals(unary.code, "number-expected");
+  assertEquals(unary.inputType, "System.String");
+  assertEquals(unary.expression, "-name.given.first()");
+  assertEquals([unary.start, unary.end], [0, 19]);
+
+  // A method call is located by its name
+  const single = evaluationError("name.given.single()");
+  assertEquals(single.code, "singleton-expected");
+  assertEquals("name.given.single()".slice(single.start, single.end), "single()");
+
+  const indexer = evaluationError("name.given[name]");
+  assertEquals(indexer.code, "integer-expected");
+  assertEquals(indexer.inputType, "FHIR.HumanName");
+  assertEquals("name.given[name]".slice(indexer.start, indexer.end), "name");
+
+  // The innermost failing node is reported
+  const nested = evaluationError("name.where(given.substring(0, 1) = 'J')");
+  assertEquals(nested.code, "singleton-expected");
+  assertEquals("name.where(given.substring(0, 1) = 'J')".slice(nested.start, nested.end), "substring(0, 1)");
+
+  assertEquals(evaluationError("name.unknownFn()").code, "unknown-function");
+});
+
+Deno.test("errors: invalid literals in the interpreter and the JIT", () => {
+  for (const [expression, literal] of [["name.exists() and @2024-02-30 > @2024", "@2024-02-30"], ["1.5 + @T25:00", "@T25:00"]]) {
+    const interpreted = evaluationError(expression);
+    const compiled = assertThrows(() => compileJIT(parseFhirPath(expression))(patient), EvaluatorError);
+    for (const error of [interpreted, compiled]) {
+      assertEquals(error.code, "invalid-literal");
+      assertEquals(error.expression, expression);
+      assertEquals(expression.slice(error.start, error.end), literal);
+    }
+    assertEquals(compiled.message, interpreted.message);
+  }
+});
+
+Deno.test("errors: parse errors have a code, span and expression", () => {
+  const parser = assertThrows(() => parseFhirPath("name.given.where("), ParserError);
+  assertEquals(parser.code, "unexpected-token");
+  assertEquals(parser.expression, "name.given.where(");
+  assertEquals(parser.start, 17);
+
+  const identifier = assertThrows(() => parseFhirPath("name.'given"), LexerError);
+  assertEquals(identifier.code, "unterminated-string");
+  assertEquals([identifier.start, identifier.end], [5, 11]);
+  assertEquals(identifier.expression, "name.'given");
+});
+
+Deno.test("errors: OperationOutcome issues", () => {
+  const expression = "name\n  .given.single()";
+  const error = assertThrows(() => engine.evaluate(patient, expression));
+  assertEquals(toOperationOutcomeIssue(error), {
+    severity: "error",
+    code: "processing",
+    details: { coding: [{ code: "singleton-expected" }], text: "single() called on collection with multiple elements" },
+    expression: [expression],
+    location: ["line 2, column 10"],
+  });
+
+  assertEquals(
+    toOperationOutcomeIssue(evaluationError("-name.given.first()")).diagnostics,
+    "Unary operator requires a number (input: System.String)",
+  );
+  assertEquals(toOperationOutcomeIssue(evaluationError("name.unknownFn()")).code, "not-supported");
+
+  const parse = assertThrows(() => engine.evaluate(patient, "name.where(given = 'x'"));
+  assertEquals(toOperationOutcomeIssue(parse), {
+    severity: "error",
+    code: "invalid",
+    details: { coding: [{ code: "expected-token" }], text: "Expected ')' after arguments at line 1, column 23" },
+    expression: ["name.where(given = 'x'"],
+    location: ["line 1, column 23"],
+  });
+});
+
+Deno.test("errors: limits and other errors as issues", () => {
+  const limit = assertThrows(
+    () => engine.evaluate(patient, "name.given", {}, undefined, { limits: { maxSteps: 1 } }),
+    EvaluationLimitError,
+  );
+  assertEquals(toOperationOutcomeIssue(limit), {
+    severity: "error",
+    code: "too-costly",
+    details: { coding: [{ code: "limit-steps" }], text: "Evaluation exceeded 1 steps" },
+    expression: ["name.given"],
+  });
+
+  const issue = toOperationOutcomeIssue(new TypeError("boom"), "name.given");
+  assertEquals(issue, { severity: "error", code: "exception", diagnostics: "boom", expression: ["name.given"] });
+  assertInstanceOf(evaluationError("name.unknownFn()"), Error);
+  assertEquals(errorPosition("a\nbc", 3), { line: 2, column: 2 });
+});
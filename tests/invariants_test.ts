@@ -0,0 +1,219 @@
+/**
+ * Tests for invariant validation
+ */
+
+import { assertEquals } from "@std/assert";
+import { validateInvariants } from "../src/validation/mod.ts";
+import type { StructureDefinition } from "../src/model/mod.ts";
+import type { OperationOutcome } from "../src/types.ts";
+import r4Model from "../fhir-context/r4/mod.ts";
+import type { Model } from "../src/types.ts";
+
+const patientDefinition: StructureDefinition = {
+  resourceType: "StructureDefinition",
+  url: "http://hl7.org/fhir/StructureDefinition/Patient",
+  name: "Patient",
+  kind: "resource",
+  type: "Patient",
+  derivation: "specialization",
+  snapshot: {
+    element: [
+      { id: "Patient", path: "Patient" },
+      { id: "Patient.name", path: "Patient.name", type: [{ code: "HumanName" }] },
+      { id: "Patient.contained", path: "Patient.contained", type: [{ code: "Resource" }] },
+      { id: "Patient.birthDate", path: "Patient.birthDate", type: [{ code: "date" }] },
+      {
+        id: "Patient.contact",
+        path: "Patient.contact",
+        type: [{ code: "BackboneElement" }],
+        constraint: [{
+          key: "pat-1",
+          severity: "error",
+          human: "SHALL at least contain a contact's details or a reference to an organization",
+          expression: "name.exists() or telecom.exists() or address.exists() or organization.exists()",
+        }],
+      },
+      { id: "Patient.contact.name", path: "Patient.contact.name", type: [{ code: "HumanName" }] },
+      { id: "Patient.contact.telecom", path: "Patient.contact.telecom", type: [{ code: "ContactPoint" }] },
+      { id: "Patient.contact.period", path: "Patient.contact.period", type: [{ code: "Period" }] },
+      { id: "Patient.generalPractitioner", path: "Patient.generalPractitioner", type: [{ code: "Reference" }] },
+    ],
+  },
+};
+
+const periodDefinition: StructureDefinition = {
+  resourceType: "StructureDefinition",
+  url: "http://hl7.org/fhir/StructureDefinition/Period",
+  name: "Period",
+  kind: "complex-type",
+  type: "Period",
+  derivation: "specialization",
+  snapshot: {
+    element: [
+      {
+        id: "Period",
+        path: "Period",
+        constraint: [{
+          key: "per-1",
+          severity: "error",
+          human: "If present, start SHALL have a lower value than end",
+          expression: "start.hasValue().not() or end.hasValue().not() or (start <= end)",
+        }],
+      },
+      { id: "Period.start", path: "Period.start", type: [{ code: "dateTime" }] },
+      { id: "Period.end", path: "Period.end", type: [{ code: "dateTime" }] },
+    ],
+  },
+};
+
+const vitalSigns: StructureDefinition = {
+  resourceType: "StructureDefinition",
+  url: "http://example.org/StructureDefinition/VitalSign",
+  name: "VitalSign",
+  kind: "resource",
+  type: "Observation",
+  derivation: "constraint",
+  snapshot: {
+    element: [
+      {
+        id: "Observation",
+        path: "Observation",
+        constraint: [{
+          key: "vs-2",
+          severity: "error",
+          human: "If there is no component or hasMember element then either a value[x] or a data absent reason must be present.",
+          expression: "(component.empty() and hasMember.empty()) implies (dataAbsentReason.exists() or value.exists())",
+        }],
+      },
+      {
+        id: "Observation.value[x]",
+        path: "Observation.value[x]",
+        type: [{ code: "Quantity" }],
+        constraint: [{
+          key: "vs-3",
+          severity: "warning",
+          human: "Quantities should use UCUM",
+          expression: "ofType(Quantity).system = 'http://unitsofmeasure.org'",
+        }],
+      },
+      {
+        id: "Observation.value[x]:valueQuantity",
+        path: "Observation.value[x]",
+        sliceName: "valueQuantity",
+        constraint: [{ key: "slice-1", severity: "error", human: "Never", expression: "false" }],
+      },
+    ],
+  },
+};
+
+const contextDefinition: StructureDefinition = {
+  resourceType: "StructureDefinition",
+  url: "http://example.org/StructureDefinition/ContainedPractitioner",
+  name: "ContainedPractitioner",
+  kind: "resource",
+  type: "Practitioner",
+  derivation: "constraint",
+  snapshot: {
+    element: [{
+      id: "Practitioner",
+      path: "Practitioner",
+      constraint: [{
+        key: "ctx-1",
+        severity: "error",
+        human: "Contained practitioners must be referenced by the container",
+        expression: "%rootResource.generalPractitioner.reference contains ('#' + %resource.id)",
+      }],
+    }],
+  },
+};
+
+function failures(outcome: OperationOutcome): string[] {
+  return outcome.issue
+    .filter(issue => issue.severity !== "information")
+    .map(issue => `${issue.details?.coding?.[0]?.code} ${issue.severity} ${issue.expression?.[0]}`);
+}
+
+Deno.test("invariants: failing elements are reported with key, severity and location", () => {
+  const patient = {
+    resourceType: "Patient",
+    contact: [
+      { name: { family: "Chalmers" } },
+      { period: { start: "2020-01-01" } },
+    ],
+  };
+  const outcome = validateInvariants(patient, [patientDefinition, periodDefinition]);
+  assertEquals(outcome.resourceType, "OperationOutcome");
+  assertEquals(failures(outcome), ["pat-1 error Patient.contact[1]"]);
+
+  const issue = outcome.issue[0];
+  assertEquals(issue.code, "invariant");
+  assertEquals(issue.details?.text, "SHALL at least contain a contact's details or a reference to an organization");
+  assertEquals(issue.location, ["Patient.contact[1]"]);
+});
+
+Deno.test("invariants: data type definitions apply to elements of that type", () => {
+  const patient = {
+    resourceType: "Patient",
+    contact: [{ name: { family: "Chalmers" }, period: { start: "2021-01-01", end: "2020-01-01" } }],
+  };
+  assertEquals(
+    failures(validateInvariants(patient, [patientDefinition, periodDefinition])),
+    ["per-1 error Patient.contact[0].period"],
+  );
+});
+
+Deno.test("invariants: profiles and choice elements", () => {
+  const observation = {
+    resourceType: "Observation",
+    status: "final",
+    valueQuantity: { value: 72, unit: "beats/min" },
+  };
+  const bundle = { resourceType: "Bundle", entry: [{ resource: vitalSigns }] };
+  assertEquals(
+    failures(validateInvariants(observation, bundle, { model: r4Model as Model })),
+    ["vs-3 warning Observation.value.ofType(Quantity)"],
+  );
+  assertEquals(
+    failures(validateInvariants({ resourceType: "Observation", status: "final" }, bundle)),
+    ["vs-2 error Observation"],
+  );
+});
+
+Deno.test("invariants: %resource and %rootResource for contained resources", () => {
+  const patient = {
+    resourceType: "Patient",
+    contained: [
+      { resourceType: "Practitioner", id: "p1" },
+      { resourceType: "Practitioner", id: "p2" },
+    ],
+    generalPractitioner: [{ reference: "#p1" }],
+  };
+  assertEquals(
+    failures(validateInvariants(patient, [patientDefinition, contextDefinition])),
+    ["ctx-1 error Patient.contained[1]"],
+  );
+});
+
+Deno.test("invariants: all invariants satisfied", () => {
+  const patient = { resourceType: "Patient", contact: [{ telecom: [{ value: "555-1234" }] }] };
+  const outcome = validateInvariants(patient, [patientDefinition, periodDefinition]);
+  assertEquals(outcome.issue.length, 1);
+  assertEquals(outcome.issue[0].severity, "information");
+});
+
+Deno.test("invariants: evaluation errors are reported as exceptions", () => {
+  const definition: StructureDefinition = {
+    ...contextDefinition,
+    snapshot: {
+      element: [{
+        id: "Practitioner",
+        path: "Practitioner",
+        constraint: [{ key: "bad-1", severity: "error", human: "Broken", expression: "name.given.single()" }],
+      }],
+    },
+  };
+  const practitioner = { resourceType: "Practitioner", name: [{ given: ["A", "B"] }] };
+  const outcome = validateInvariants(practitioner, definition);
+  assertEquals(outcome.issue.map(issue => issue.code), ["exception"]);
+  assertEquals(outcome.issue[0].expression, ["Practitioner"]);
+});
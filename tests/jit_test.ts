@@ -4,10 +4,13 @@
  * Tests for the FHIRPath JIT compiler that generates native JavaScript functions.
  */
 
-import { assertEquals, assertExists, assert } from "@std/assert";
+import { assertEquals, assertExists, assert, assertThrows } from "@std/assert";
 import { createDefaultAPI } from "../src/api.ts";
-import { FhirPathJIT, compileJIT, clearJITCache } from "../src/jit/mod.ts";
+import { FhirPathJIT, compileJIT, clearJITCache, compileModule } from "../src/jit/mod.ts";
+import type { CompiledFhirPath, ModuleOptions } from "../src/jit/mod.ts";
 import { FhirPathEngine } from "../src/engine.ts";
+import { EvaluationLimitError, EvaluatorError } from "../src/evaluator/mod.ts";
+import type { UserInvocationTable } from "../src/types.ts";
 
 const fhirpath = createDefaultAPI();
 const engine = new FhirPathEngine();
@@ -479,6 +482,196 @@ Deno.test("jit: multiple filters", () => {
   assertJitMatches("name.where(use = 'official').where(family = 'Doe').given");
 });
 
+// ============================================================================
+// Interpreter Fallback
+// ============================================================================
+
+Deno.test("jit: functions the JIT does not compile are interpreted", () => {
+  assertJitMatches("name.given.where(encode('base64') = 'Sm9obg==')");
+  assertJitMatches("'abc'.encode('base64').decode('base64')");
+  assertJitMatches("name.given.where($index = 1 and encode('hex').exists())");
+  assertJitMatches("(1 | 2 | 3).aggregate($this + $total.toString().toInteger(), 0)");
+});
+
+Deno.test("jit: $index and $total outside where() and aggregate() are interpreted", () => {
+  assertEquals(compileJIT(engine.parse("(1 | 2 | 3).select($index)"))({}), [0, 1, 2]);
+  assertJitMatches("(1 | 2 | 3).select($index)");
+  assertJitMatches("(1 | 2 | 3).exists($index = 2)");
+  assertJitMatches("(1 | 2 | 3).all($index < 3)");
+  assertJitMatches("name.select(given.select($index))");
+  assertJitMatches("(1 | 2 | 3).select((4 | 5).where($index = 1))");
+  assertJitMatches("(1 | 2 | 3).where($total.empty())");
+  assertJitMatches("$index | $total");
+
+  // Without fallback, compiling throws
+  assertThrows(() => compileJIT(engine.parse("(1 | 2).select($index)"), { fallback: false }), Error, "$index");
+});
+
+Deno.test("jit: interpreter options and errors of interpreted nodes", () => {
+  const shout = { fn: (inputs: unknown) => (inputs as string[]).map(value => value.toUpperCase()) };
+  const jit = new FhirPathJIT();
+  const compiled = jit.compile(engine.parse("name.given.first().shout()"), {
+    interpreterOptions: { userInvocationTable: { shout } },
+  });
+  assertEquals(compiled(patient), ["JOHN"]);
+
+  const error = assertThrows(() => jit.compile(engine.parse("name.given.unknownFn()"))(patient), EvaluatorError);
+  assertEquals(error.code, "unknown-function");
+  assertEquals(error.expression, "name.given.unknownFn()");
+
+  // Without fallback, compiling throws
+  assertThrows(() => jit.compile(engine.parse("name.given.shout()"), { fallback: false }), Error, "not yet supported");
+});
+
+// ============================================================================
+// User Functions, Variables and Environment
+// ============================================================================
+
+const userInvocationTable: UserInvocationTable = {
+  // Expr parameters are evaluated by the function, here for each item
+  pick: {
+    fn: (inputs, expr) => (inputs as unknown[]).flatMap(expr as (item: unknown) => unknown[]),
+    arity: { 1: ["Expr"] },
+  },
+  atRoot: { fn: (_inputs, values) => values, arity: { 1: ["AnyAtRoot"] } },
+  typeName: { fn: (_inputs, names) => names, arity: { 1: ["TypeSpecifier"] } },
+  plus: {
+    fn: (inputs, n) => (inputs as number[]).map(i => i + (n as number[])[0]),
+    arity: { 1: ["Integer"] },
+    nullable: true,
+  },
+  first: { fn: () => ["overridden"] },
+};
+
+function assertSameAsInterpreter(expression: string, options: Record<string, unknown>, context = {}) {
+  const interpreted = fhirpath.evaluate(patient, expression, context, undefined, options);
+  const compiled = fhirpath.compileJIT(expression, options)(patient, context);
+  assertEquals(compiled, interpreted, `JIT mismatch for: ${expression}`);
+}
+
+Deno.test("jit: user-defined functions", () => {
+  for (const expression of [
+    "name.pick(given.last())",
+    "name.atRoot(id)",
+    "name.typeName(Patient)",
+    "(1 | 2).plus(3)",
+    "(1 | 2).plus({})",
+    "name.given.first()",
+  ]) {
+    assertSameAsInterpreter(expression, { userInvocationTable });
+  }
+  assertEquals(fhirpath.compileJIT("name.pick(given.last())", { userInvocationTable })(patient), ["James", "Johnny"]);
+
+  // The options of an evaluation override those of the compilation
+  const shout = { fn: (inputs: unknown) => (inputs as string[]).map(value => value.toUpperCase()) };
+  const compiled = fhirpath.compileJIT("name.family.first().shout()");
+  assertEquals(compiled(patient, {}, { userInvocationTable: { shout } }), ["DOE"]);
+  const error = assertThrows(() => compiled(patient), EvaluatorError);
+  assertEquals(error.code, "unknown-function");
+
+  const asyncFn = { fn: () => Promise.resolve([1]) };
+  const asyncError = assertThrows(
+    () => fhirpath.compileJIT("pending()", { userInvocationTable: { pending: asyncFn } })(patient),
+    EvaluatorError,
+  );
+  assertEquals(asyncError.code, "async-required");
+});
+
+Deno.test("jit: defineVariable() and environment variables", () => {
+  for (const expression of [
+    "name.defineVariable('n', given).select(%n)",
+    "defineVariable('families', name.family).select(%families)",
+    "(defineVariable('one', 1) | %one)",
+    "name.where(use = 'nickname').defineVariable('nick').select(%nick.given)",
+    "defineVariable('gender', 'shadowed').select(gender)",
+    "%resource.id | %context.gender",
+  ]) {
+    assertSameAsInterpreter(expression, {});
+  }
+
+  // Variables do not leak into the context
+  const context: Record<string, unknown> = {};
+  fhirpath.compileJIT("defineVariable('x', 1)")(patient, context);
+  assertEquals(context, {});
+
+  const batch = engine.compileBatch(
+    { given: "name.given.first()", shadowed: "defineVariable('name', 'x').select(name)" },
+    undefined,
+    { jit: true },
+  );
+  assertEquals(batch(patient), { given: ["John"], shadowed: ["x"] });
+});
+
+Deno.test("jit: trace() and methods of environment objects", () => {
+  const traces: [string, unknown][] = [];
+  const traceFn = (value: unknown, label: string) => traces.push([label, value]);
+  assertEquals(fhirpath.compileJIT("name.given.trace('given').count()", { traceFn })(patient), [3]);
+  assertEquals(traces, [["given", ["John", "James", "Johnny"]]]);
+
+  const context = { codes: { coding: (code: string) => ({ system: "http://example.org", code }) } };
+  assertSameAsInterpreter("%codes.coding('a').code", {}, context);
+  assertEquals(fhirpath.compileJIT("%codes.coding('a').system")(patient, context), ["http://example.org"]);
+});
+
+// ============================================================================
+// Ahead-of-time Compilation
+// ============================================================================
+
+/** Compile expressions to a module and import it */
+async function importModule(expressions: Record<string, string>, options: ModuleOptions = {}) {
+  const asts = Object.fromEntries(Object.entries(expressions).map(([key, expression]) => [key, engine.parse(expression)]));
+  const source = compileModule(asts, { runtime: new URL("../src/jit/runtime.ts", import.meta.url).href, ...options });
+  assert(!source.includes("new Function") && !source.includes("eval("));
+
+  const file = await Deno.makeTempFile({ suffix: ".js" });
+  try {
+    await Deno.writeTextFile(file, source);
+    return (await import(new URL(file, "file:///").href)).default as Record<string, CompiledFhirPath>;
+  } finally {
+    await Deno.remove(file);
+  }
+}
+
+Deno.test("jit: modules compiled ahead of time", async () => {
+  const expressions = {
+    given: "name.given",
+    count: "name.where(use = 'official').given.count()",
+    interpreted: "name.given.where(startsWith('J'))",
+    date: "birthDate + 1 day",
+    decimal: "1.1 + 2.2",
+  };
+  const compiled = await importModule(expressions);
+  for (const [key, expression] of Object.entries(expressions)) {
+    assertEquals(compiled[key](patient), fhirpath.evaluate(patient, expression), `AOT mismatch for: ${expression}`);
+  }
+  assertEquals(compiled.given({ ...patient, name: [{ given: ["Jane"] }] }), ["Jane"]);
+
+  // Options of the evaluation apply as for compiled functions
+  const shout = { fn: (inputs: unknown) => (inputs as string[]).map(value => value.toUpperCase()) };
+  const { shouted } = await importModule({ shouted: "name.family.first().shout()" });
+  assertEquals(shouted(patient, {}, { userInvocationTable: { shout } }), ["DOE"]);
+
+  assertThrows(
+    () => compileModule({ interpreted: engine.parse("name.given.where(startsWith('J'))") }, { fallback: false }),
+    Error,
+    "not yet supported",
+  );
+});
+
+Deno.test("jit: modules compiled ahead of time with mode and limits", async () => {
+  const { strict } = await importModule({ strict: "gender + 1" }, { mode: "strict" });
+  assertEquals(assertThrows(() => strict(patient), EvaluatorError).code, "type-mismatch");
+  const { lenient } = await importModule({ lenient: "gender + 1" });
+  assertEquals(lenient(patient), ["male1"]);
+
+  const { guarded } = await importModule({ guarded: "name.given" }, { guarded: true });
+  assertEquals(guarded(patient), ["John", "James", "Johnny"]);
+  assertThrows(() => guarded(patient, {}, { limits: { maxSteps: 1 } }), EvaluationLimitError);
+
+  // Unguarded modules cannot check the limits of a call
+  assertThrows(() => lenient(patient, {}, { limits: { maxSteps: 1 } }), Error, "guarded: true");
+});
+
 // ============================================================================
 // Caching
 // ============================================================================
@@ -115,6 +115,17 @@ Deno.test("lexer: time literal", () => {
   assertEquals(tokens[0].value, "T10:30:00");
 });
 
+Deno.test("lexer: time literal followed by invocation", () => {
+  const tokens = new FhirPathLexer("@2024-01-15T10.lowBoundary()").tokenize();
+  
+  assertEquals(tokens[0].type, TokenType.DATETIME);
+  assertEquals(tokens[0].value, "2024-01-15T10");
+  assertEquals(tokens[1].type, TokenType.DOT);
+  
+  const time = new FhirPathLexer("@T10:30:00.500.precision()").tokenize();
+  assertEquals(time[0].value, "T10:30:00.500");
+});
+
 Deno.test("lexer: keywords", () => {
   const keywords = [
     { input: "and", type: TokenType.AND },
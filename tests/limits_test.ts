@@ -0,0 +1,106 @@
+/**
+ * Tests for evaluation limits (EvaluationLimitError)
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { FhirPathEngine } from "../src/engine.ts";
+import { EvaluationLimitError } from "../src/evaluator/mod.ts";
+import { compileJIT, FhirPathJIT } from "../src/jit/mod.ts";
+import { parseFhirPath } from "../src/parser/mod.ts";
+import type { EvaluationLimits } from "../src/types.ts";
+
+const engine = new FhirPathEngine();
+
+const bundle = {
+  resourceType: "Bundle",
+  entry: Array.from({ length: 500 }, (_, i) => ({
+    resource: { resourceType: "Patient", id: `p${i}`, name: [{ given: ["Jane", "Ann"] }] },
+  })),
+};
+
+function limitOf(fn: () => unknown): string {
+  const error = assertThrows(fn, EvaluationLimitError);
+  return error.limit;
+}
+
+function evaluate(resource: unknown, expression: string, limits?: EvaluationLimits, signal?: AbortSignal) {
+  return engine.evaluate(resource, expression, {}, undefined, { limits, signal });
+}
+
+Deno.test("limits: step budget", () => {
+  assertEquals(limitOf(() => evaluate(bundle, "entry.resource.where(id.length() > 0).count()", { maxSteps: 1000 })), "steps");
+  assertEquals(limitOf(() => evaluate({}, "(1 | 2 | 3).aggregate($this + $total, 0)", { maxSteps: 10 })), "steps");
+  assertEquals(evaluate(bundle, "entry.count()", { maxSteps: 100 }), [500]);
+});
+
+Deno.test("limits: collection size", () => {
+  assertEquals(limitOf(() => evaluate(bundle, "descendants().count()", { maxCollectionSize: 1000 })), "collectionSize");
+  assertEquals(limitOf(() => evaluate(bundle, "entry.resource.name.given", { maxCollectionSize: 999 })), "collectionSize");
+  assertEquals(evaluate(bundle, "entry.resource.name.given.count()", { maxCollectionSize: 1000 }), [1000]);
+});
+
+Deno.test("limits: recursion depth", () => {
+  assertEquals(limitOf(() => evaluate({}, "1 + (1 + (1 + (1 + (1 + 1))))", { maxDepth: 5 })), "depth");
+  let nested: Record<string, unknown> = { value: 1 };
+  for (let i = 0; i < 100; i++) nested = { item: nested };
+  assertEquals(limitOf(() => evaluate(nested, "descendants()", { maxDepth: 50 })), "depth");
+  assertEquals(evaluate({}, "1 + (1 + 1)", { maxDepth: 10 }), [3]);
+});
+
+Deno.test("limits: timeout and abort signal", async () => {
+  assertEquals(limitOf(() => evaluate(bundle, "entry.select(%resource.descendants()).count()", { timeout: 10 })), "timeout");
+
+  const controller = new AbortController();
+  controller.abort();
+  assertEquals(limitOf(() => evaluate({}, "1", undefined, controller.signal)), "aborted");
+
+  const error = await assertRejects(
+    () => engine.evaluateAsync({}, "1 + 1", {}, undefined, { signal: controller.signal }),
+    EvaluationLimitError,
+  );
+  assertEquals(error.limit, "aborted");
+});
+
+Deno.test("limits: JIT-generated code", () => {
+  const jit = (expression: string, limits?: EvaluationLimits, signal?: AbortSignal) =>
+    compileJIT(parseFhirPath(expression), { limits, signal });
+
+  assertEquals(limitOf(() => jit("entry.resource.where(id.length() > 0).count()", { maxSteps: 1000 })(bundle)), "steps");
+  assertEquals(limitOf(() => jit("descendants().count()", { maxCollectionSize: 1000 })(bundle)), "collectionSize");
+  assertEquals(limitOf(() => jit("1 + (1 + (1 + (1 + (1 + 1))))", { maxDepth: 5 })({})), "depth");
+  assertEquals(limitOf(() => jit("(1 | 2).repeat($this + 1).count()", { timeout: 10 })({})), "timeout");
+
+  const controller = new AbortController();
+  controller.abort();
+  assertEquals(limitOf(() => jit("1", undefined, controller.signal)({})), "aborted");
+
+  // Limits of a call override those of the compilation
+  const count = jit("entry.resource.id.count()", {});
+  assertEquals(count(bundle), [500]);
+  assertEquals(limitOf(() => count(bundle, {}, { limits: { maxCollectionSize: 10 } })), "collectionSize");
+
+  // Code compiled without limits does not check them
+  assertEquals(compileJIT(parseFhirPath("entry.resource.id.count()"))(bundle), [500]);
+});
+
+Deno.test("limits: limits and signal of calls of JIT code compiled without them", () => {
+  const controller = new AbortController();
+  controller.abort();
+
+  const count = compileJIT(parseFhirPath("entry.resource.id.count()"));
+  assertEquals(limitOf(() => count(bundle, {}, { signal: controller.signal })), "aborted");
+  assertEquals(limitOf(() => count(bundle, {}, { limits: { maxCollectionSize: 10 } })), "collectionSize");
+  assertEquals(count(bundle), [500]);
+
+  const batch = new FhirPathJIT().compileBatch({ count: parseFhirPath("entry.resource.id.count()") });
+  assertEquals(limitOf(() => batch(bundle, {}, { signal: controller.signal })), "aborted");
+  assertEquals(batch(bundle), { count: [500] });
+});
+
+Deno.test("limits: batches", () => {
+  for (const jit of [false, true]) {
+    const batch = engine.compileBatch(["entry.resource.id.count()"], undefined, { jit, limits: { maxCollectionSize: 10 } });
+    assertEquals(batch.jit, jit);
+    assertEquals(limitOf(() => batch(bundle)), "collectionSize");
+  }
+});
@@ -0,0 +1,196 @@
+/**
+ * Tests for building models from StructureDefinitions
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { buildModel, loadModel, ModelError } from "../src/model/mod.ts";
+import type { StructureDefinition } from "../src/model/mod.ts";
+import { FhirPathEngine } from "../src/engine.ts";
+import { typeCheck } from "../src/optimizer/mod.ts";
+import type { Model } from "../src/types.ts";
+import r4Model from "../fhir-context/r4/mod.ts";
+
+const EXAMPLE = "http://example.org/StructureDefinition";
+const SYSTEM_STRING = "http://hl7.org/fhirpath/System.String";
+
+const labReport: StructureDefinition = {
+  resourceType: "StructureDefinition",
+  url: `${EXAMPLE}/LabReport`,
+  name: "LabReport",
+  fhirVersion: "4.0.1",
+  kind: "logical",
+  type: `${EXAMPLE}/LabReport`,
+  baseDefinition: "http://hl7.org/fhir/StructureDefinition/Base",
+  derivation: "specialization",
+  differential: {
+    element: [
+      { path: "LabReport" },
+      { path: "LabReport.id", type: [{ code: SYSTEM_STRING }] },
+      { path: "LabReport.patientName", type: [{ code: "string" }] },
+      { path: "LabReport.performer", type: [{ code: `${EXAMPLE}/Performer` }] },
+      { path: "LabReport.result", type: [{ code: "BackboneElement" }] },
+      { path: "LabReport.result.value[x]", type: [{ code: "Quantity" }, { code: "string" }] },
+      { path: "LabReport.result.component", contentReference: "#LabReport.result" },
+    ],
+  },
+};
+
+const performer: StructureDefinition = {
+  resourceType: "StructureDefinition",
+  url: `${EXAMPLE}/Performer`,
+  name: "Performer",
+  kind: "logical",
+  type: `${EXAMPLE}/Performer`,
+  baseDefinition: "http://hl7.org/fhir/StructureDefinition/Element",
+  derivation: "specialization",
+  differential: {
+    element: [
+      { path: "Performer" },
+      { path: "Performer.name", type: [{ code: "string" }] },
+      {
+        path: "Performer.organization",
+        type: [{ code: "Reference", targetProfile: ["http://hl7.org/fhir/StructureDefinition/Organization"] }],
+      },
+    ],
+  },
+};
+
+const bodyWeight: StructureDefinition = {
+  resourceType: "StructureDefinition",
+  url: `${EXAMPLE}/BodyWeight`,
+  name: "BodyWeight",
+  kind: "resource",
+  type: "Observation",
+  baseDefinition: "http://hl7.org/fhir/StructureDefinition/Observation",
+  derivation: "constraint",
+  snapshot: {
+    element: [
+      { id: "Observation", path: "Observation" },
+      { id: "Observation.code", path: "Observation.code", type: [{ code: "CodeableConcept" }] },
+      { id: "Observation.code.coding", path: "Observation.code.coding", type: [{ code: "Coding" }] },
+      {
+        id: "Observation.code.coding:loinc",
+        path: "Observation.code.coding",
+        sliceName: "loinc",
+        type: [{ code: "Coding" }],
+      },
+      { id: "Observation.value[x]", path: "Observation.value[x]", type: [{ code: "Quantity" }] },
+      { id: "Observation.component", path: "Observation.component", max: "0", type: [{ code: "BackboneElement" }] },
+    ],
+  },
+};
+
+const bundle = {
+  resourceType: "Bundle",
+  entry: [labReport, performer, bodyWeight, { resourceType: "ValueSet" }].map(resource => ({ resource })),
+};
+
+Deno.test("model builder: logical models", () => {
+  const model = buildModel([labReport, performer]);
+  assertEquals(model.version, "r4");
+  assertEquals(model.type2Parent.LabReport, "Base");
+  assertEquals(model.type2Parent.Performer, "Element");
+  assertEquals(model.path2Type["LabReport.id"], "System.String");
+  assertEquals(model.path2Type["LabReport.performer"], "Performer");
+  assertEquals(model.path2Type["Performer.organization"], { code: "Reference", refType: ["Organization"] });
+  assertEquals(model.choiceTypePaths["LabReport.result.value"], ["Quantity", "String"]);
+  assertEquals(model.pathsDefinedElsewhere["LabReport.result.component"], "LabReport.result");
+});
+
+Deno.test("model builder: profiles derive from the constrained type", () => {
+  const model = buildModel(bundle, { base: r4Model as Model });
+  assertEquals(model.type2Parent.BodyWeight, "Observation");
+  assertEquals(model.choiceTypePaths["BodyWeight.value"], ["Quantity"]);
+  assertEquals(model.path2Type["BodyWeight.code.coding"], "Coding");
+  assertEquals(model.path2Type["BodyWeight.component"], undefined);
+
+  // The base model is extended, not modified
+  assertEquals(model.path2Type["Patient.name"], "HumanName");
+  assertEquals((r4Model as Model).type2Parent.BodyWeight, undefined);
+});
+
+Deno.test("model builder: models are usable by the engine and the type checker", () => {
+  const model = buildModel(bundle, { base: r4Model as Model });
+  const engine = new FhirPathEngine({ model });
+  const report = {
+    resourceType: "LabReport",
+    patientName: "Chalmers",
+    result: [{ valueQuantity: { value: 5.4, unit: "mmol/L" }, component: [{ valueString: "normal" }] }],
+  };
+  assertEquals(engine.evaluate(report, "LabReport.result.value.value"), [5.4]);
+  assertEquals(engine.evaluate(report, "result.component.value"), ["normal"]);
+  assertEquals(engine.evaluate(report, "result.value.ofType(Quantity).unit"), ["mmol/L"]);
+
+  assertEquals(typeCheck("value.ofType(Quantity).value", { model, base: "BodyWeight" }).issues, []);
+  assertEquals(
+    typeCheck("value.ofType(string)", { model, base: "BodyWeight" }).issues.map(issue => issue.code),
+    ["impossible-cast"],
+  );
+  assertEquals(
+    typeCheck("LabReport.performer.nmae", { model }).issues.map(issue => issue.code),
+    ["unknown-element"],
+  );
+});
+
+Deno.test("model builder: load from a directory and a package tarball", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.mkdir(`${dir}/package`);
+    await Deno.writeTextFile(`${dir}/package/package.json`, JSON.stringify({ name: "example.fhir" }));
+    await Deno.writeTextFile(`${dir}/package/StructureDefinition-LabReport.json`, JSON.stringify(labReport));
+    await Deno.writeTextFile(`${dir}/package/StructureDefinition-Performer.json`, JSON.stringify(performer));
+    const fromDirectory = await loadModel(dir);
+    assertEquals(fromDirectory.path2Type["LabReport.performer"], "Performer");
+
+    const tarball = await gzip(createTar({
+      "package/package.json": JSON.stringify({ name: "example.fhir" }),
+      "package/StructureDefinition-BodyWeight.json": JSON.stringify(bodyWeight),
+      "package/example/Observation-example.json": JSON.stringify({ resourceType: "Observation" }),
+    }));
+    await Deno.writeFile(`${dir}/example.fhir.tgz`, tarball);
+    const fromTarball = await loadModel(`${dir}/example.fhir.tgz`, { base: r4Model as Model });
+    assertEquals(fromTarball.choiceTypePaths["BodyWeight.value"], ["Quantity"]);
+
+    await Deno.writeTextFile(`${dir}/bundle.json`, JSON.stringify(bundle));
+    assertEquals((await loadModel(`${dir}/bundle.json`)).type2Parent.BodyWeight, "Observation");
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("model builder: sources without StructureDefinitions are rejected", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await assertRejects(() => loadModel(dir), ModelError, "No StructureDefinitions");
+    await assertRejects(() => loadModel(`${dir}/missing.json`), ModelError, "Cannot read");
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+/** Minimal ustar archive */
+function createTar(files: Record<string, string>): Uint8Array {
+  const encoder = new TextEncoder();
+  const blocks: Uint8Array[] = [];
+  for (const [name, text] of Object.entries(files)) {
+    const content = encoder.encode(text);
+    const header = new Uint8Array(512);
+    header.set(encoder.encode(name), 0);
+    header.set(encoder.encode(content.length.toString(8).padStart(11, "0")), 124);
+    header[156] = "0".charCodeAt(0);
+    blocks.push(header, content, new Uint8Array((512 - (content.length % 512)) % 512));
+  }
+  blocks.push(new Uint8Array(1024));
+  const result = new Uint8Array(blocks.reduce((length, block) => length + block.length, 0));
+  let offset = 0;
+  for (const block of blocks) {
+    result.set(block, offset);
+    offset += block.length;
+  }
+  return result;
+}
+
+async function gzip(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
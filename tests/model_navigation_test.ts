@@ -0,0 +1,105 @@
+/**
+ * Tests for model-aware navigation in the native evaluator
+ */
+
+import { assertEquals } from "@std/assert";
+import { parseFhirPath } from "../src/parser/parser.ts";
+import { evaluateFhirPath } from "../src/evaluator/evaluator.ts";
+import { getElementInfo, normalizeTypeName } from "../src/evaluator/model.ts";
+import type { Model } from "../src/types.ts";
+import r4Model from "../fhir-context/r4/mod.ts";
+import r4bModel from "../fhir-context/r4b/mod.ts";
+import r5Model from "../fhir-context/r5/mod.ts";
+import r6Model from "../fhir-context/r6/mod.ts";
+
+const models: Record<string, Model> = {
+  r4: r4Model as Model,
+  r4b: r4bModel as Model,
+  r5: r5Model as Model,
+  r6: r6Model as unknown as Model,
+};
+
+function evaluate(expr: string, resource: unknown, model?: Model): unknown[] {
+  return evaluateFhirPath(parseFhirPath(expr), resource, {}, { model });
+}
+
+const observation = {
+  resourceType: "Observation",
+  status: "final",
+  statusReason: "not-a-real-element",
+  code: { text: "Weight" },
+  valueQuantity: { value: 72.5, unit: "kg" },
+  component: [
+    { code: { text: "a" }, valueString: "first" },
+    { code: { text: "b" }, valueBoolean: true },
+  ],
+};
+
+const valueSet = {
+  resourceType: "ValueSet",
+  compose: {
+    include: [{ system: "http://loinc.org", valueSet: ["http://example.org/vs"] }],
+  },
+};
+
+const bundle = {
+  resourceType: "Bundle",
+  type: "searchset",
+  link: [{ relation: "self", url: "http://example.org/Patient" }],
+  entry: [
+    {
+      link: [{ relation: "alternate", url: "http://example.org/Patient/1" }],
+      resource: { resourceType: "Patient", id: "1", name: [{ given: ["Ann"] }] },
+    },
+  ],
+};
+
+for (const [version, model] of Object.entries(models)) {
+  Deno.test(`model navigation (${version}): plain element does not expand prefixed keys`, () => {
+    assertEquals(evaluate("status", observation, model), ["final"]);
+  });
+
+  Deno.test(`model navigation (${version}): choice element expands [x]`, () => {
+    assertEquals(evaluate("value.value", observation, model), [72.5]);
+    assertEquals(evaluate("component.value", observation, model), ["first", true]);
+  });
+
+  Deno.test(`model navigation (${version}): non-choice element is not expanded`, () => {
+    assertEquals(evaluate("compose.include.value", valueSet, model), []);
+    assertEquals(evaluate("compose.include.valueSet", valueSet, model), ["http://example.org/vs"]);
+  });
+
+  Deno.test(`model navigation (${version}): follows pathsDefinedElsewhere`, () => {
+    assertEquals(evaluate("entry.link.relation", bundle, model), ["alternate"]);
+  });
+
+  Deno.test(`model navigation (${version}): contained resources start a new path`, () => {
+    assertEquals(evaluate("entry.resource.name.given", bundle, model), ["Ann"]);
+  });
+}
+
+Deno.test("model navigation: without model falls back to prefix matching", () => {
+  assertEquals(evaluate("status", observation), ["final", "not-a-real-element"]);
+  assertEquals(evaluate("value.value", observation), [72.5]);
+});
+
+Deno.test("model navigation: navigated values work with operators and functions", () => {
+  const patient = { resourceType: "Patient", active: true, name: [{ given: ["Ann", "Bea"] }] };
+  assertEquals(
+    evaluate("active and name.where(given.first() = 'Ann').given.count() = 2", patient, models.r4),
+    [true],
+  );
+  assertEquals(evaluate("name.given | name.given", patient, models.r4), ["Ann", "Bea"]);
+});
+
+Deno.test("model lookup: resolves inherited elements and normalizes types", () => {
+  assertEquals(getElementInfo(models.r4, "HumanName", "given"), { path: "HumanName.given", type: "string" });
+  assertEquals(getElementInfo(models.r6, "HumanName", "given"), { path: "HumanName.given", type: "string" });
+  assertEquals(
+    getElementInfo(models.r4, "Patient.contact", "modifierExtension", "BackboneElement")?.type,
+    "Extension",
+  );
+  assertEquals(getElementInfo(models.r4, "Patient", "notAnElement"), undefined);
+  assertEquals(normalizeTypeName("DateTime"), "dateTime");
+  assertEquals(normalizeTypeName("System.String"), "System.String");
+});
@@ -5,165 +5,16 @@
  * Test source: https://github.com/FHIR/fhir-test-cases
  */
 
-import { assertEquals, assert } from "@std/assert";
-import fhirpath from "../mod.ts";
+import { assertEquals, assert, assertThrows } from "@std/assert";
+import fhirpath, { EvaluatorError, type EvaluationMode } from "../mod.ts";
+import { formatDiff, loadOfficialCorpus, runDifferential } from "../src/conformance/mod.ts";
+import type { Model } from "../src/types.ts";
+import r4Model from "../fhir-context/r4/mod.ts";
+import fhirpathjs from "fhirpath";
+import fhirpathjsR4Model from "fhirpath/fhir-context/r4/index.js";
 
-// Path to test cases repository
-const TEST_CASES_PATH = "/Users/master/Sandbox/atollee-gitlab-projects/_tests/fhir-test-cases";
-
-/**
- * Simple XML parser for FHIR resources
- * Converts basic XML to a JSON-like structure
- */
-function parseSimpleXml(xml: string): Record<string, unknown> {
-  const result: Record<string, unknown> = {};
-  
-  // Extract resourceType from root element
-  const rootMatch = xml.match(/<(\w+)\s/);
-  if (rootMatch) {
-    result.resourceType = rootMatch[1];
-  }
-  
-  // Extract simple elements
-  const elementRegex = /<(\w+)(?:\s+value="([^"]*)")?(?:\s+[^>]*)?(?:\/>|>([^<]*)<\/\1>)/g;
-  let match;
-  
-  while ((match = elementRegex.exec(xml)) !== null) {
-    const [, name, attrValue, textContent] = match;
-    if (name === result.resourceType) continue;
-    
-    const value = attrValue ?? textContent;
-    if (value !== undefined && value !== "") {
-      if (result[name] === undefined) {
-        result[name] = value;
-      } else if (Array.isArray(result[name])) {
-        (result[name] as unknown[]).push(value);
-      } else {
-        result[name] = [result[name], value];
-      }
-    }
-  }
-  
-  return result;
-}
-
-/**
- * Load a FHIR resource from file
- */
-async function loadResource(filename: string, basePath: string): Promise<Record<string, unknown>> {
-  const fullPath = `${basePath}/${filename}`;
-  
-  try {
-    const content = await Deno.readTextFile(fullPath);
-    
-    if (filename.endsWith(".json")) {
-      return JSON.parse(content);
-    } else if (filename.endsWith(".xml")) {
-      // For XML, we need a proper parser. For now, use a simplified approach
-      // In production, you'd want a full XML-to-JSON converter
-      return parseSimpleXml(content);
-    }
-  } catch (e) {
-    console.warn(`Could not load ${fullPath}: ${e}`);
-  }
-  
-  return {};
-}
-
-/**
- * Parse FHIRPath test XML file
- */
-interface FhirPathTest {
-  name: string;
-  description?: string;
-  inputfile: string;
-  expression: string;
-  expectedOutputs: Array<{ type: string; value: string }>;
-  predicate?: boolean;
-  invalid?: string;
-}
-
-interface TestGroup {
-  name: string;
-  description: string;
-  tests: FhirPathTest[];
-}
-
-function parseTestXml(xml: string): TestGroup[] {
-  const groups: TestGroup[] = [];
-  
-  // Match groups
-  const groupRegex = /<group\s+name="([^"]+)"\s+description="([^"]+)"[^>]*>([\s\S]*?)<\/group>/g;
-  let groupMatch;
-  
-  while ((groupMatch = groupRegex.exec(xml)) !== null) {
-    const [, name, description, content] = groupMatch;
-    const tests: FhirPathTest[] = [];
-    
-    // Match tests within group
-    const testRegex = /<test\s+name="([^"]+)"(?:\s+description="([^"]*)")?(?:\s+inputfile="([^"]*)")?(?:\s+predicate="([^"]*)")?[^>]*>([\s\S]*?)<\/test>/g;
-    let testMatch;
-    
-    while ((testMatch = testRegex.exec(content)) !== null) {
-      const [, testName, testDesc, inputfile, predicate, testContent] = testMatch;
-      
-      // Extract expression
-      const exprMatch = testContent.match(/<expression(?:\s+invalid="([^"]*)")?[^>]*>([\s\S]*?)<\/expression>/);
-      if (!exprMatch) continue;
-      
-      const [, invalid, expression] = exprMatch;
-      
-      // Extract expected outputs
-      const outputs: Array<{ type: string; value: string }> = [];
-      const outputRegex = /<output\s+type="([^"]+)"[^>]*>([^<]*)<\/output>/g;
-      let outputMatch;
-      
-      while ((outputMatch = outputRegex.exec(testContent)) !== null) {
-        outputs.push({ type: outputMatch[1], value: outputMatch[2] });
-      }
-      
-      tests.push({
-        name: testName,
-        description: testDesc,
-        inputfile: inputfile || "patient-example.xml",
-        expression: expression.trim(),
-        expectedOutputs: outputs,
-        predicate: predicate === "true",
-        invalid,
-      });
-    }
-    
-    groups.push({ name, description, tests });
-  }
-  
-  return groups;
-}
-
-/**
- * Convert expected output to JavaScript value
- */
-function convertExpectedValue(type: string, value: string): unknown {
-  switch (type) {
-    case "boolean":
-      return value === "true";
-    case "integer":
-      return parseInt(value, 10);
-    case "decimal":
-      return parseFloat(value);
-    case "string":
-    case "code":
-      return value;
-    case "date":
-      // FHIRPath date format: @YYYY-MM-DD
-      return value.replace(/^@/, "");
-    case "dateTime":
-      return value.replace(/^@/, "");
-    case "time":
-      return value.replace(/^@T/, "");
-    default:
-      return value;
-  }
-}
+// Checkout of https://github.com/FHIR/fhir-test-cases for the differential run
+const TEST_CASES_PATH = Deno.env.get("FHIR_TEST_CASES");
 
 // ============================================================
 // Test with JSON resources (more reliable)
@@ -747,3 +598,147 @@ Deno.test("fhir: convertsToDecimal()", () => {
   const result = fhirpath.evaluate({}, "'3.14'.convertsToDecimal()");
   assertEquals(result, [true]);
 });
+
+// ============================================================
+// Evaluation Mode Tests (interpreter and JIT)
+// ============================================================
+
+/** Evaluate with the interpreter and the JIT, which must agree */
+function evaluateInMode(expression: string, mode: EvaluationMode, resource: unknown = {}): unknown[] {
+  const result = fhirpath.evaluate(resource, expression, undefined, undefined, { mode });
+  assertEquals(fhirpath.compileJIT(expression, { mode })(resource), result);
+  return result as unknown[];
+}
+
+/** Assert that the interpreter and the JIT throw an EvaluatorError with the code */
+function assertModeError(expression: string, mode: EvaluationMode, code: string, resource: unknown = {}): void {
+  const error = assertThrows(() => fhirpath.evaluate(resource, expression, undefined, undefined, { mode }), EvaluatorError);
+  assertEquals(error.code, code);
+  const jitError = assertThrows(() => fhirpath.compileJIT(expression, { mode })(resource), EvaluatorError);
+  assertEquals(jitError.code, code);
+}
+
+Deno.test("modes: lenient mode is the default", () => {
+  assertEquals(fhirpath.evaluate({}, "'a' + 1"), ["a1"]);
+  assertEquals(fhirpath.evaluate({}, "(1 | 2) + 1"), [2]);
+  assertEquals(fhirpath.evaluate({}, "('a' | 'b') = 'a'"), [true]);
+  assertEquals(fhirpath.evaluate({}, "'a' < 1"), []);
+});
+
+Deno.test("modes: strict - singleton violations are errors", () => {
+  assertModeError("(1 | 2) + 1", "strict", "singleton-expected");
+  assertModeError("(1 | 2) < 3", "strict", "singleton-expected");
+  assertModeError("(true | false) and true", "strict", "singleton-expected");
+  assertModeError("(1 | 2) & 'a'", "strict", "singleton-expected");
+  assertModeError("(1 | 2) in (1 | 2 | 3)", "strict", "singleton-expected");
+  assertModeError("-(1 | 2)", "strict", "singleton-expected");
+  assertModeError("iif((true | false), 1, 2)", "strict", "singleton-expected");
+});
+
+Deno.test("modes: strict - functions of single items reject collections", () => {
+  assertModeError("name.given.single()", "strict", "singleton-expected", patientJson);
+  assertModeError("name.given.upper()", "strict", "singleton-expected", patientJson);
+  assertModeError("name.given.substring(1)", "strict", "singleton-expected", patientJson);
+  assertModeError("name.given.toInteger()", "strict", "singleton-expected", patientJson);
+  assertModeError("(1.5 | 2.5).round()", "strict", "singleton-expected");
+  assertModeError("(true | false).not()", "fhirpathjs-compatible", "singleton-expected");
+  assertEquals(evaluateInMode("name.given.first().upper()", "strict", patientJson), ["PETER"]);
+  assertEquals(evaluateInMode("{}.single()", "strict"), []);
+  assertEquals(evaluateInMode("'a'.toInteger()", "strict"), []);
+  assertEquals(evaluateInMode("'12'.toInteger()", "strict"), [12]);
+});
+
+Deno.test("modes: strict - type mismatches are errors", () => {
+  assertModeError("'a' + 1", "strict", "type-mismatch");
+  assertModeError("true + 1", "strict", "type-mismatch");
+  assertModeError("@2020 + 1", "strict", "type-mismatch");
+  assertModeError("5 div 'a'", "strict", "type-mismatch");
+  assertModeError("'a' & 1", "strict", "type-mismatch");
+  assertModeError("'a' < 1", "strict", "type-mismatch");
+  assertModeError("true < false", "strict", "type-mismatch");
+});
+
+Deno.test("modes: strict - normative semantics", () => {
+  assertEquals(evaluateInMode("'a' + 'b'", "strict"), ["ab"]);
+  assertEquals(evaluateInMode("{} & 'b'", "strict"), ["b"]);
+  assertEquals(evaluateInMode("1 + {}", "strict"), []);
+  assertEquals(evaluateInMode("@2020-01-01 + 1 day", "strict"), ["2020-01-02"]);
+  // = and ~ compare whole collections
+  assertEquals(evaluateInMode("('a' | 'b') = 'a'", "strict"), [false]);
+  assertEquals(evaluateInMode("(1 | 2) = (1 | 2)", "strict"), [true]);
+  assertEquals(evaluateInMode("(1 | 2) != 1", "strict"), [true]);
+  assertEquals(evaluateInMode("(1 | 2) ~ (2 | 1)", "strict"), [true]);
+  assertEquals(evaluateInMode("{} ~ {}", "strict"), [true]);
+  // A single non-Boolean item is true
+  assertEquals(evaluateInMode("true implies 1", "strict"), [true]);
+  assertEquals(evaluateInMode("iif(1, 'x', 'y')", "strict"), ["x"]);
+  assertEquals(evaluateInMode("(1 | 2).where($this)", "strict"), [1, 2]);
+  assertEquals(evaluateInMode("(1 | 2).all($this)", "strict"), [true]);
+});
+
+Deno.test("modes: strict - FHIR resources", () => {
+  assertEquals(evaluateInMode("birthDate < @1980-01-01", "strict", patientJson), [true]);
+  assertEquals(evaluateInMode("name.where(use = 'official').given.first() + ' ' + name.family.first()", "strict", patientJson), ["Peter Chalmers"]);
+  assertEquals(evaluateInMode("name.given.exists() and active", "strict", patientJson), [true]);
+});
+
+Deno.test("modes: fhirpathjs-compatible - errors as in fhirpath.js", () => {
+  assertModeError("'a' + 1", "fhirpathjs-compatible", "type-mismatch");
+  assertModeError("(1 | 2) + 1", "fhirpathjs-compatible", "singleton-expected");
+  assertModeError("(true | false) or true", "fhirpathjs-compatible", "singleton-expected");
+  assertModeError("'a' < 1", "fhirpathjs-compatible", "type-mismatch");
+});
+
+Deno.test("modes: fhirpathjs-compatible - fhirpath.js quirks", () => {
+  assertEquals(evaluateInMode("iif((true | false), 1, 2)", "fhirpathjs-compatible"), [2]);
+  assertEquals(evaluateInMode("iif(1, 'x', 'y')", "fhirpathjs-compatible"), ["y"]);
+  assertEquals(evaluateInMode("(1 | 2).where($this)", "fhirpathjs-compatible"), [1, 2]);
+  assertEquals(evaluateInMode("(1 | 2).all($this)", "fhirpathjs-compatible"), [false]);
+  assertEquals(evaluateInMode("(1 | 2).exists($this)", "fhirpathjs-compatible"), [true]);
+  assertEquals(evaluateInMode("true < false", "fhirpathjs-compatible"), [false]);
+  assertEquals(evaluateInMode("(1 | 2) ~ (2 | 1)", "fhirpathjs-compatible"), [false]);
+  assertEquals(evaluateInMode("('a' | 'b') = 'a'", "fhirpathjs-compatible"), [false]);
+});
+
+// ============================================================
+// Differential Run (interpreter, JIT and fhirpath.js)
+// ============================================================
+
+// A subset of the official tests that runs without the checkout, with the
+// cases the engines are known to disagree on (by case name, the differing engines)
+const SUBSET_PATH = new URL("./fixtures/fhirpath/tests-fhir-r4-subset.xml", import.meta.url);
+const KNOWN_DIFFS_PATH = new URL("./fixtures/fhirpath/known-diffs.json", import.meta.url);
+
+const differentialOptions = {
+  model: r4Model as Model,
+  fhirpathjs,
+  fhirpathjsModel: fhirpathjsR4Model,
+};
+
+async function loadKnownDiffs(): Promise<Record<string, string[]>> {
+  return JSON.parse(await Deno.readTextFile(KNOWN_DIFFS_PATH));
+}
+
+Deno.test("official: engines disagree only on the known diffs of the bundled subset", async () => {
+  const report = runDifferential(await loadOfficialCorpus(SUBSET_PATH), differentialOptions);
+  assertEquals(Object.fromEntries(report.diffs.map(diff => [diff.case.name, diff.differing])), await loadKnownDiffs());
+});
+
+Deno.test({
+  name: "official: interpreter, JIT and fhirpath.js agree on the test suite where they agree on the bundled subset",
+  ignore: TEST_CASES_PATH === undefined,
+  fn: async () => {
+    const knownDiffs = await loadKnownDiffs();
+    const agreeing = new Set(
+      (await loadOfficialCorpus(SUBSET_PATH)).filter(testCase => !(testCase.name! in knownDiffs)).map(testCase =>
+        testCase.expression
+      ),
+    );
+    const cases = await loadOfficialCorpus(`${TEST_CASES_PATH}/r4/fhirpath/tests-fhir-r4.xml`);
+    const report = runDifferential(
+      cases.filter(testCase => !testCase.invalid && agreeing.has(testCase.expression)),
+      differentialOptions,
+    );
+    assertEquals(report.diffs.map(formatDiff), []);
+  },
+});
@@ -307,3 +307,26 @@ Deno.test("parser: chained method calls", () => {
   const inner = outer.object as MethodCallNode;
   assertEquals(inner.method.name, "first");
 });
+
+Deno.test("parser: source ranges", () => {
+  const input = "Patient.name.where(use = 'official').given[0] is string";
+  const ast = parseFhirPath(input);
+  const text = (node: { start?: number; end?: number }) => input.slice(node.start, node.end);
+
+  const typeOp = ast.child as TypeOpNode;
+  assertEquals(text(typeOp), input);
+  assertEquals(text(typeOp.targetType), "string");
+
+  const indexer = typeOp.expression as IndexerNode;
+  assertEquals(text(indexer), "Patient.name.where(use = 'official').given[0]");
+  assertEquals(text(indexer.index), "0");
+
+  const given = indexer.object as MemberAccessNode;
+  assertEquals(text(given.member), "given");
+
+  const where = given.object as MethodCallNode;
+  assertEquals(text(where), "Patient.name.where(use = 'official')");
+  assertEquals(text(where.method), "where");
+  assertEquals(text(where.arguments[0]), "use = 'official'");
+  assertEquals(text((where.arguments[0] as BinaryOpNode).right), "'official'");
+});
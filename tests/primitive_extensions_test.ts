@@ -0,0 +1,97 @@
+/**
+ * Tests for primitive extensions (the "_element" JSON convention)
+ */
+
+import { assertEquals } from "@std/assert";
+import { parseFhirPath } from "../src/parser/parser.ts";
+import { evaluateFhirPath } from "../src/evaluator/evaluator.ts";
+import { compileJIT } from "../src/jit/mod.ts";
+import type { Model } from "../src/types.ts";
+import r4Model from "../fhir-context/r4/mod.ts";
+
+const QUALIFIER = "http://hl7.org/fhir/StructureDefinition/iso21090-EN-qualifier";
+const BIRTH_TIME = "http://hl7.org/fhir/StructureDefinition/patient-birthTime";
+
+const patient = {
+  resourceType: "Patient",
+  birthDate: "1974-12-25",
+  _birthDate: {
+    id: "bd1",
+    extension: [{ url: BIRTH_TIME, valueDateTime: "1974-12-25T14:35:45-05:00" }],
+  },
+  name: [
+    {
+      family: "Chalmers",
+      given: ["Peter", null, "James"],
+      _given: [null, { extension: [{ url: QUALIFIER, valueCode: "MID" }] }, { id: "g3" }],
+    },
+  ],
+};
+
+function evaluate(expr: string, model?: Model): unknown[] {
+  return evaluateFhirPath(parseFhirPath(expr), patient, {}, { model });
+}
+
+for (const [label, model] of [["no model", undefined], ["r4", r4Model as Model]] as const) {
+  Deno.test(`primitive extensions (${label}): values and extension-only elements`, () => {
+    assertEquals(evaluate("name.given", model), ["Peter", "James"]);
+    assertEquals(evaluate("name.given.count()", model), [3]);
+  });
+
+  Deno.test(`primitive extensions (${label}): index-aligned extension and id`, () => {
+    assertEquals(evaluate(`name.given.extension('${QUALIFIER}').value`, model), ["MID"]);
+    assertEquals(evaluate("name.given.id", model), ["g3"]);
+  });
+
+  Deno.test(`primitive extensions (${label}): single primitive exposes value, id and extension`, () => {
+    assertEquals(evaluate("birthDate.value", model), ["1974-12-25"]);
+    assertEquals(evaluate("birthDate.id", model), ["bd1"]);
+    assertEquals(evaluate("birthDate.extension.value", model), ["1974-12-25T14:35:45-05:00"]);
+    assertEquals(evaluate(`birthDate.hasExtension('${BIRTH_TIME}')`, model), [true]);
+  });
+
+  Deno.test(`primitive extensions (${label}): hasValue() and getValue()`, () => {
+    assertEquals(evaluate("name.given.select(hasValue())", model), [true, false, true]);
+    assertEquals(evaluate("name.given.select(getValue())", model), ["Peter", "James"]);
+    assertEquals(evaluate("birthDate.getValue()", model), ["1974-12-25"]);
+  });
+
+  Deno.test(`primitive extensions (${label}): children() and descendants()`, () => {
+    assertEquals(evaluate("descendants().extension.url", model), [BIRTH_TIME, QUALIFIER]);
+    assertEquals(evaluate("descendants().id", model), ["bd1", "g3"]);
+    assertEquals(evaluate("children().id", model), ["bd1"]);
+    assertEquals(evaluate("name.children().extension.value", model), ["MID"]);
+    assertEquals(evaluate("name.descendants()", model), [
+      "Chalmers", "Peter", { url: QUALIFIER, valueCode: "MID" }, QUALIFIER, "MID", "James", "g3",
+    ]);
+  });
+}
+
+Deno.test("primitive extensions: JIT matches the interpreter", () => {
+  const expressions = [
+    `name.given.extension('${QUALIFIER}').valueCode`,
+    `birthDate.extension('${BIRTH_TIME}').valueDateTime`,
+    `birthDate.hasExtension('${BIRTH_TIME}')`,
+    `name.given.hasExtension('${QUALIFIER}')`,
+    "birthDate.extension().count()",
+    "birthDate.extension.url",
+    "Patient.birthDate.extension.valueDateTime",
+    "birthDate.id",
+    "name.given.id",
+    "name.given.extension.valueCode",
+    "birthDate.getValue()",
+    "name.given.select(getValue())",
+    "name.family.getValue()",
+    "descendants()",
+    "children()",
+    "descendants().extension.url",
+    "descendants().id",
+    "name.children().extension.valueCode",
+    "descendants().where($this = 'James').id",
+    "descendants().select(extension.url)",
+  ];
+  for (const expr of expressions) {
+    const ast = parseFhirPath(expr);
+    assertEquals(compileJIT(ast)(patient), evaluateFhirPath(ast, patient), expr);
+  }
+});
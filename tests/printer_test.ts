@@ -0,0 +1,114 @@
+/**
+ * Tests for printing native ASTs as FHIRPath text
+ */
+
+import { assertEquals } from "@std/assert";
+import { parseFhirPath } from "../src/parser/parser.ts";
+import { printFhirPath } from "../src/parser/printer.ts";
+import type { ASTNode, BinaryOpNode, LiteralNode, MethodCallNode } from "../src/parser/ast.ts";
+
+/** The AST without source positions and Paren nodes */
+function shape(node: unknown): unknown {
+  if (Array.isArray(node)) return node.map(shape);
+  if (node === null || typeof node !== "object") return node;
+  const { type, start: _start, end: _end, source: _source, ...fields } = node as Record<string, unknown>;
+  if (type === "Paren") return shape(fields.expression);
+  if (type === "Expression") return shape(fields.child);
+  return Object.fromEntries([["type", type], ...Object.entries(fields).map(([key, value]) => [key, shape(value)])]);
+}
+
+/** Assert that an expression prints as expected and parses to the same AST again */
+function assertPrints(expression: string, expected: string, style?: "compact" | "multiline") {
+  const ast = parseFhirPath(expression);
+  const text = printFhirPath(ast, { style, lineWidth: 40 });
+  assertEquals(text, expected);
+  assertEquals(shape(parseFhirPath(text)), shape(ast), `Round trip of: ${expression}`);
+}
+
+Deno.test("printer: paths, functions and variables", () => {
+  assertPrints("Patient.name.given", "Patient.name.given");
+  assertPrints("name.where(use='official').given.first()", "name.where(use = 'official').given.first()");
+  assertPrints("name[0].given[ 1 ]", "name[0].given[1]");
+  assertPrints("iif(active,'yes','no')", "iif(active, 'yes', 'no')");
+  assertPrints("{ }|$this|$index|$total", "{} | $this | $index | $total");
+  assertPrints("%resource.id|%`vs-name`|%ucum", "%resource.id | %`vs-name` | %ucum");
+  assertPrints("value.ofType(FHIR.Quantity).is(System.Decimal)", "value.ofType(FHIR.Quantity).is(System.Decimal)");
+  assertPrints("x.contains('a') and x.as(String).exists()", "x.contains('a') and x.as(String).exists()");
+});
+
+Deno.test("printer: minimal parentheses", () => {
+  assertPrints("((a + b)) * c", "(a + b) * c");
+  assertPrints("(a * b) + c", "a * b + c");
+  assertPrints("(a - b) - c", "a - b - c");
+  assertPrints("a - (b - c)", "a - (b - c)");
+  assertPrints("(a | b).first()", "(a | b).first()");
+  assertPrints("a | (b is String)", "a | (b is String)");
+  assertPrints("(a | b) is String", "a | b is String");
+  assertPrints("(a as Quantity).value", "(a as Quantity).value");
+  assertPrints("(a or b) and (c implies d)", "(a or b) and (c implies d)");
+  assertPrints("a = b and (c = d or e)", "a = b and (c = d or e)");
+  assertPrints("(-x).abs() + -(y.z)", "(-x).abs() + -y.z");
+  assertPrints("- (-1)", "- -1");
+  assertPrints("(5 div 2) mod (3 * 4)", "5 div 2 mod (3 * 4)");
+
+  // Rewritten ASTs get the parentheses they need
+  const sum = parseFhirPath("a + b").child as BinaryOpNode;
+  const product: BinaryOpNode = { type: "BinaryOp", operator: "*", left: sum, right: sum };
+  assertEquals(printFhirPath(product), "(a + b) * (a + b)");
+  const negative: LiteralNode = { type: "Literal", literalType: "number", value: -1 };
+  const call: MethodCallNode = {
+    type: "MethodCall",
+    object: negative,
+    method: { type: "Identifier", name: "abs" },
+    arguments: [],
+  };
+  assertEquals(printFhirPath(call), "(-1).abs()");
+});
+
+Deno.test("printer: literal forms", () => {
+  assertPrints("1.50 'mg' + 2 years", "1.50 'mg' + 2 years");
+  assertPrints("4 'wk' = 28 days", "4 'wk' = 28 days");
+  assertPrints("1.0 = 1.00", "1.0 = 1.00");
+  assertPrints("@2020-01 < @2020-01-01T10:00:00.000+01:00", "@2020-01 < @2020-01-01T10:00:00.000+01:00");
+  assertPrints("@T14:30:15.5 > @T14", "@T14:30:15.5 > @T14");
+  assertPrints("'it\\'s' & 'a\\\\b\\tc\\nd' & '\\u0001'", "'it\\'s' & 'a\\\\b\\tc\\nd' & '\\u0001'");
+  assertPrints("'\\\"quoted\\\"' & '\\/'", "'\"quoted\"' & '/'");
+  assertPrints("true and false", "true and false");
+});
+
+Deno.test("printer: delimited identifiers", () => {
+  assertPrints("`given name`.`first`", "`given name`.first");
+  assertPrints("`div` + `true`", "`div` + `true`");
+  assertPrints("x.`div`.`contains`('a')", "x.div.contains('a')");
+  assertPrints("`a\\`b`", "`a\\`b`");
+
+  const identifier: ASTNode = { type: "Identifier", name: "name with spaces" } as ASTNode;
+  assertEquals(printFhirPath(identifier), "`name with spaces`");
+});
+
+Deno.test("printer: multiline style", () => {
+  const expression = "Bundle.entry.resource.where(resourceType = 'Observation').select(code.coding.where(system = 'http://loinc.org' and code.exists()).code).distinct()";
+  assertPrints(
+    expression,
+    [
+      "Bundle.entry.resource",
+      "  .where(resourceType = 'Observation')",
+      "  .select(code.coding",
+      "    .where(system = 'http://loinc.org' and code.exists()).code)",
+      "  .distinct()",
+    ].join("\n"),
+    "multiline",
+  );
+
+  // Chains that fit and chains without method calls stay on one line
+  assertPrints("name.where(use = 'official').given", "name.where(use = 'official').given", "multiline");
+  assertPrints(
+    "Observation.component.code.coding.system.value.extension.url",
+    "Observation.component.code.coding.system.value.extension.url",
+    "multiline",
+  );
+  assertEquals(
+    printFhirPath(parseFhirPath("a.where(b).select(c)"), { style: "multiline", lineWidth: 10, indent: "\t" }),
+    "a\n\t.where(b)\n\t.select(c)",
+  );
+});
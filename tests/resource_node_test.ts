@@ -0,0 +1,83 @@
+/**
+ * Tests for model-typed nodes: is, as, ofType and type() with a FHIR model
+ */
+
+import { assertEquals } from "@std/assert";
+import { parseFhirPath } from "../src/parser/parser.ts";
+import { evaluateFhirPath } from "../src/evaluator/evaluator.ts";
+import { ResourceNode, unwrapAll } from "../src/evaluator/node.ts";
+import type { Model } from "../src/types.ts";
+import r4Model from "../fhir-context/r4/mod.ts";
+import r6Model from "../fhir-context/r6/mod.ts";
+
+const models: Record<string, Model> = {
+  r4: r4Model as Model,
+  r6: r6Model as unknown as Model,
+};
+
+function evaluate(expr: string, resource: unknown, model?: Model): unknown[] {
+  return evaluateFhirPath(parseFhirPath(expr), resource, {}, { model });
+}
+
+const patient = {
+  resourceType: "Patient",
+  id: "example",
+  active: true,
+  birthDate: "1974-12-25",
+  name: [{ family: "Chalmers", given: ["Peter", "James"] }],
+};
+
+const observation = {
+  resourceType: "Observation",
+  status: "final",
+  valueQuantity: { value: 185, unit: "lbs" },
+};
+
+for (const [version, model] of Object.entries(models)) {
+  Deno.test(`resource node (${version}): primitive elements have their FHIR type`, () => {
+    assertEquals(evaluate("Patient.birthDate is date", patient, model), [true]);
+    assertEquals(evaluate("Patient.birthDate is FHIR.date", patient, model), [true]);
+    assertEquals(evaluate("Patient.birthDate is dateTime", patient, model), [false]);
+    assertEquals(evaluate("Patient.birthDate is System.Date", patient, model), [false]);
+    assertEquals(evaluate("Patient.active is boolean", patient, model), [true]);
+  });
+
+  Deno.test(`resource node (${version}): unqualified System names match mapped primitives`, () => {
+    assertEquals(evaluate("Patient.active is Boolean", patient, model), [true]);
+    assertEquals(evaluate("Patient.name.given.first() is String", patient, model), [true]);
+  });
+
+  Deno.test(`resource node (${version}): ofType() selects choice element types`, () => {
+    assertEquals(evaluate("Observation.value.ofType(Quantity).value", observation, model), [185]);
+    assertEquals(evaluate("Observation.value.ofType(FHIR.Quantity).unit", observation, model), ["lbs"]);
+    assertEquals(evaluate("Observation.value.ofType(string)", observation, model), []);
+    assertEquals(evaluate("(Observation.value as Quantity).unit", observation, model), ["lbs"]);
+  });
+
+  Deno.test(`resource node (${version}): type() reports FHIR types`, () => {
+    assertEquals(evaluate("Patient.name.type().namespace", patient, model), ["FHIR"]);
+    assertEquals(evaluate("Patient.name.type().name", patient, model), ["HumanName"]);
+    assertEquals(evaluate("Patient.birthDate.type().name", patient, model), ["date"]);
+    assertEquals(evaluate("Patient.type().name", patient, model), ["Patient"]);
+  });
+
+  Deno.test(`resource node (${version}): resource types follow type2Parent`, () => {
+    assertEquals(evaluate("Patient is DomainResource", patient, model), [true]);
+    assertEquals(evaluate("Patient is Resource", patient, model), [true]);
+    assertEquals(evaluate("Observation.status", patient, model), []);
+  });
+}
+
+Deno.test("resource node: results are returned as raw values", () => {
+  const result = evaluate("Patient.name", patient, models.r4);
+  assertEquals(result, patient.name);
+  assertEquals(result[0] instanceof ResourceNode, false);
+});
+
+Deno.test("resource node: unwrapAll only copies collections containing nodes", () => {
+  const plain = [1, 2];
+  assertEquals(unwrapAll(plain) === plain, true);
+  const node = new ResourceNode("Peter", "HumanName.given", "string", "Patient.name", "Patient.name[0].given[0]");
+  assertEquals(unwrapAll([node, 3]), ["Peter", 3]);
+  assertEquals(JSON.stringify(node), '"Peter"');
+});
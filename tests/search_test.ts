@@ -0,0 +1,158 @@
+/**
+ * Tests for SearchParameter value extraction
+ */
+
+import { assertEquals } from "@std/assert";
+import { extractSearchValues } from "../src/search/mod.ts";
+import type { SearchParameter, SearchParamType } from "../src/search/mod.ts";
+import type { Model } from "../src/types.ts";
+import r4Model from "../fhir-context/r4/mod.ts";
+
+const model = r4Model as Model;
+
+function parameter(code: string, type: SearchParamType, expression: string, base = ["Observation"]): SearchParameter {
+  return { resourceType: "SearchParameter", url: `http://example.org/SearchParameter/${code}`, code, base, type, expression };
+}
+
+const observation = {
+  resourceType: "Observation",
+  id: "o1",
+  status: "final",
+  code: { coding: [{ system: "http://loinc.org", code: "8867-4", display: "Heart rate" }], text: "Pulse" },
+  subject: { reference: "Patient/p1" },
+  performer: [{ reference: "http://example.org/fhir/Practitioner/d1/_history/3" }, { reference: "Organization/x" }],
+  effectivePeriod: { start: "2020-03", end: "2020-03-05T10:00:00Z" },
+  valueQuantity: { value: 5, unit: "mg", system: "http://unitsofmeasure.org", code: "mg" },
+  component: [
+    {
+      code: { coding: [{ system: "http://loinc.org", code: "8480-6" }] },
+      valueQuantity: { value: 120, system: "http://unitsofmeasure.org", code: "mm[Hg]" },
+    },
+  ],
+};
+
+Deno.test("search: token values", () => {
+  assertEquals(extractSearchValues(observation, parameter("code", "token", "Observation.code"), { model }), [{
+    type: "token",
+    system: "http://loinc.org",
+    code: "8867-4",
+    value: "http://loinc.org|8867-4",
+    text: "Pulse",
+  }]);
+  assertEquals(extractSearchValues(observation, parameter("status", "token", "Observation.status"), { model }), [
+    { type: "token", code: "final", value: "final" },
+  ]);
+
+  const patient = {
+    resourceType: "Patient",
+    identifier: [{ system: "urn:oid:1.2.36", value: "12345" }],
+    telecom: [{ system: "phone", value: "555-1234" }],
+    active: true,
+  };
+  assertEquals(
+    extractSearchValues(patient, parameter("identifier", "token", "Patient.identifier", ["Patient"])),
+    [{ type: "token", system: "urn:oid:1.2.36", code: "12345", value: "urn:oid:1.2.36|12345" }],
+  );
+  assertEquals(
+    extractSearchValues(patient, parameter("phone", "token", "Patient.telecom.where(system='phone')", ["Patient"])),
+    [{ type: "token", code: "555-1234", value: "555-1234" }],
+  );
+  assertEquals(
+    extractSearchValues(patient, parameter("active", "token", "Patient.active", ["Patient"]), { model }),
+    [{ type: "token", code: "true", value: "true" }],
+  );
+});
+
+Deno.test("search: reference values and the resolve() is X idiom", () => {
+  const subject = parameter("patient", "reference", "Observation.subject.where(resolve() is Patient)");
+  assertEquals(extractSearchValues(observation, subject), [
+    { type: "reference", reference: "Patient/p1", resourceType: "Patient", id: "p1" },
+  ]);
+  const group = parameter("group", "reference", "Observation.subject.where(resolve() is Group)");
+  assertEquals(extractSearchValues(observation, group), []);
+
+  const performer = { ...parameter("performer", "reference", "Observation.performer"), target: ["Practitioner"] };
+  assertEquals(extractSearchValues(observation, performer), [{
+    type: "reference",
+    reference: "http://example.org/fhir/Practitioner/d1/_history/3",
+    resourceType: "Practitioner",
+    id: "d1",
+    version: "3",
+  }]);
+
+  const valueSet = { resourceType: "ValueSet", compose: { include: [{ valueSet: ["http://example.org/ValueSet/a|1.0"] }] } };
+  assertEquals(
+    extractSearchValues(valueSet, parameter("reference", "reference", "ValueSet.compose.include.valueSet", ["ValueSet"])),
+    [{ type: "reference", reference: "http://example.org/ValueSet/a", resourceType: "ValueSet", id: "a", version: "1.0" }],
+  );
+});
+
+Deno.test("search: date ranges", () => {
+  assertEquals(extractSearchValues(observation, parameter("date", "date", "Observation.effective"), { model }), [
+    { type: "date", low: "2020-03-01T00:00:00.000", high: "2020-03-05T10:00:00.999Z" },
+  ]);
+  const patient = { resourceType: "Patient", birthDate: "1974-12" };
+  assertEquals(extractSearchValues(patient, parameter("birthdate", "date", "Patient.birthDate", ["Patient"])), [
+    { type: "date", low: "1974-12-01T00:00:00.000", high: "1974-12-31T23:59:59.999" },
+  ]);
+});
+
+Deno.test("search: quantities in canonical units", () => {
+  const values = extractSearchValues(
+    observation,
+    parameter("value-quantity", "quantity", "(Observation.value as Quantity) | (Observation.value as SampledData)"),
+    { model },
+  );
+  assertEquals(values, [{
+    type: "quantity",
+    value: 5,
+    system: "http://unitsofmeasure.org",
+    code: "mg",
+    unit: "mg",
+    canonical: { value: 0.005, code: "g" },
+  }]);
+});
+
+Deno.test("search: strings of names and addresses are normalized", () => {
+  const patient = {
+    resourceType: "Patient",
+    name: [{ family: "Müller", given: ["Jürgen  Peter"] }],
+    address: [{ city: "Zürich" }],
+  };
+  const values = extractSearchValues(patient, parameter("name", "string", "Patient.name | Patient.address", ["Patient"]));
+  assertEquals(values.map(value => value.type === "string" ? value.value : undefined), ["muller", "jurgen peter", "zurich"]);
+});
+
+Deno.test("search: composite, number and uri values", () => {
+  const codeValue: SearchParameter = {
+    ...parameter("component-code-value-quantity", "composite", "Observation.component"),
+    component: [
+      { definition: "http://example.org/SearchParameter/component-code", expression: "code" },
+      { definition: "http://example.org/SearchParameter/component-value-quantity", expression: "value.as(Quantity)" },
+    ],
+  };
+  assertEquals(extractSearchValues(observation, codeValue, { model }), [{
+    type: "composite",
+    components: [
+      [{ type: "token", system: "http://loinc.org", code: "8480-6", value: "http://loinc.org|8480-6" }],
+      [{ type: "quantity", value: 120, system: "http://unitsofmeasure.org", code: "mm[Hg]", canonical: { value: 15998640, code: "g.m-1.s-2" } }],
+    ],
+  }]);
+
+  const risk = { resourceType: "RiskAssessment", prediction: [{ probabilityDecimal: 0.25 }] };
+  assertEquals(
+    extractSearchValues(risk, parameter("probability", "number", "RiskAssessment.prediction.probability", ["RiskAssessment"]), { model }),
+    [{ type: "number", value: 0.25 }],
+  );
+  const valueSet = { resourceType: "ValueSet", url: "http://example.org/ValueSet/a" };
+  assertEquals(extractSearchValues(valueSet, parameter("url", "uri", "ValueSet.url", ["ValueSet"])), [
+    { type: "uri", value: "http://example.org/ValueSet/a" },
+  ]);
+});
+
+Deno.test("search: parameters of other resource types do not apply", () => {
+  assertEquals(extractSearchValues(observation, parameter("name", "string", "Patient.name", ["Patient"])), []);
+  assertEquals(extractSearchValues(observation, parameter("_id", "token", "Resource.id", ["Resource"]), { model }), [
+    { type: "token", code: "o1", value: "o1" },
+  ]);
+});
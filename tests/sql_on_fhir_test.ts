@@ -0,0 +1,178 @@
+/**
+ * Tests for the SQL on FHIR ViewDefinition runner
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { compileView, runView, ViewDefinitionError } from "../src/sql-on-fhir/mod.ts";
+import type { ViewDefinition } from "../src/sql-on-fhir/mod.ts";
+import type { Model } from "../src/types.ts";
+import r4Model from "../fhir-context/r4/mod.ts";
+
+const patients = [
+  {
+    resourceType: "Patient",
+    id: "p1",
+    gender: "female",
+    name: [
+      { use: "official", family: "Chalmers", given: ["Peter", "James"] },
+      { use: "nickname", given: ["Jim"] },
+    ],
+    telecom: [{ system: "phone", value: "555-1234" }],
+    address: [{ city: "Berlin" }],
+  },
+  { resourceType: "Patient", id: "p2", gender: "male", deceasedBoolean: true },
+  { resourceType: "Observation", id: "o1" },
+];
+
+const observation = {
+  resourceType: "Observation",
+  id: "o1",
+  subject: { reference: "http://example.org/fhir/Patient/p1/_history/2" },
+  component: [
+    { code: { text: "systolic" }, valueQuantity: { value: 120, unit: "mm[Hg]" } },
+    { code: { text: "position" }, valueString: "sitting" },
+  ],
+};
+
+Deno.test("sql-on-fhir: columns, nested selects and forEach", () => {
+  const view = compileView({
+    resourceType: "ViewDefinition",
+    resource: "Patient",
+    select: [
+      { column: [{ name: "id", path: "getResourceKey()" }, { name: "gender", path: "gender" }] },
+      {
+        forEach: "name",
+        column: [
+          { name: "family", path: "family" },
+          { name: "given", path: "given", collection: true },
+        ],
+      },
+    ],
+  });
+  assertEquals(view.columns.map(column => column.name), ["id", "gender", "family", "given"]);
+  assertEquals(patients.flatMap(patient => view.evaluate(patient)), [
+    { id: "p1", gender: "female", family: "Chalmers", given: ["Peter", "James"] },
+    { id: "p1", gender: "female", family: null, given: ["Jim"] },
+  ]);
+});
+
+Deno.test("sql-on-fhir: forEachOrNull, unionAll, where and constants", () => {
+  const view = compileView({
+    resourceType: "ViewDefinition",
+    resource: "Patient",
+    constant: [{ name: "use", valueCode: "official" }],
+    where: [{ path: "gender.exists()" }],
+    select: [{
+      column: [{ name: "id", path: "id" }],
+      select: [{ forEachOrNull: "name.where(use = %use)", column: [{ name: "family", path: "family" }] }],
+      unionAll: [
+        { forEach: "telecom", column: [{ name: "contact", path: "value" }] },
+        { forEach: "address", column: [{ name: "contact", path: "city" }] },
+      ],
+    }],
+  });
+  assertEquals(patients.flatMap(patient => view.evaluate(patient)), [
+    { id: "p1", family: "Chalmers", contact: "555-1234" },
+    { id: "p1", family: "Chalmers", contact: "Berlin" },
+  ]);
+  assertEquals(view.evaluate({ resourceType: "Patient", id: "p3" }), []);
+});
+
+Deno.test("sql-on-fhir: choice elements and reference keys", () => {
+  const view = compileView({
+    resourceType: "ViewDefinition",
+    resource: "Observation",
+    select: [
+      {
+        column: [
+          { name: "patient", path: "subject.getReferenceKey(Patient)" },
+          { name: "group", path: "subject.getReferenceKey(Group)" },
+        ],
+      },
+      {
+        forEach: "component",
+        column: [
+          { name: "code", path: "code.text" },
+          { name: "quantity", path: "value.ofType(Quantity).value" },
+          { name: "text", path: "value.ofType(string)" },
+        ],
+      },
+    ],
+  }, { model: r4Model as Model });
+  assertEquals(view.evaluate(observation), [
+    { patient: "p1", group: null, code: "systolic", quantity: 120, text: null },
+    { patient: "p1", group: null, code: "position", quantity: null, text: "sitting" },
+  ]);
+});
+
+Deno.test("sql-on-fhir: JIT compiled columns give the same rows", () => {
+  const definition: ViewDefinition = {
+    resourceType: "ViewDefinition",
+    resource: "Patient",
+    select: [{
+      column: [{ name: "id", path: "getResourceKey()" }],
+      select: [{ forEach: "name", column: [{ name: "given", path: "given.first()" }] }],
+    }],
+  };
+  assertEquals(
+    compileView(definition, { jit: true }).evaluate(patients[0]),
+    compileView(definition).evaluate(patients[0]),
+  );
+});
+
+Deno.test("sql-on-fhir: invalid views", () => {
+  const view = (select: ViewDefinition["select"]): ViewDefinition => ({
+    resourceType: "ViewDefinition",
+    resource: "Patient",
+    select,
+  });
+  assertThrows(
+    () => compileView(view([{ column: [{ name: "id", path: "id" }, { name: "id", path: "gender" }] }])),
+    ViewDefinitionError,
+    "Duplicate column",
+  );
+  assertThrows(
+    () =>
+      compileView(view([{
+        unionAll: [{ column: [{ name: "a", path: "id" }] }, { column: [{ name: "b", path: "id" }] }],
+      }])),
+    ViewDefinitionError,
+    "same columns",
+  );
+  assertThrows(() => compileView(view([{ column: [{ name: "x", path: "name.(" }] }])), ViewDefinitionError);
+  assertThrows(
+    () => compileView(view([{ column: [{ name: "given", path: "name.given" }] }])).evaluate(patients[0]),
+    ViewDefinitionError,
+    "collection",
+  );
+});
+
+Deno.test("sql-on-fhir: stream NDJSON input to CSV and NDJSON", async () => {
+  const definition: ViewDefinition = {
+    resourceType: "ViewDefinition",
+    resource: "Patient",
+    select: [{ column: [{ name: "id", path: "id" }, { name: "name", path: "name.first().given", collection: true }] }],
+  };
+  const ndjson = () => {
+    const text = patients.map(patient => JSON.stringify(patient)).join("\n");
+    // Split within a line to check that lines are reassembled
+    return ReadableStream.from([text.slice(0, 10), text.slice(10)]).pipeThrough(new TextEncoderStream());
+  };
+
+  assertEquals(await readText(runView(definition, ndjson()).toCsv()), 'id,name\r\np1,"[""Peter"",""James""]"\r\np2,[]\r\n');
+  assertEquals(
+    await readText(runView(definition, patients).toNdjson()),
+    '{"id":"p1","name":["Peter","James"]}\n{"id":"p2","name":[]}\n',
+  );
+  assertEquals(await runView(definition, ndjson()).map(row => row.id).toArray(), ["p1", "p2"]);
+
+  const controller = new AbortController();
+  controller.abort();
+  await assertRejects(() => runView(definition, patients, { signal: controller.signal }).toArray(), DOMException);
+});
+
+async function readText(stream: ReadableStream<string>): Promise<string> {
+  let text = "";
+  for await (const chunk of stream) text += chunk;
+  return text;
+}
@@ -2,13 +2,16 @@
  * Tests for Streaming Evaluation API
  */
 
-import { assertEquals, assert } from "@std/assert";
+import { assertEquals, assert, assertRejects } from "@std/assert";
 import { 
   evaluateStream, 
   evaluateEach, 
+  evaluateNdjson,
   toReadableStream,
   FhirPathStream,
 } from "../src/streaming.ts";
+import type { NdjsonResult } from "../src/streaming.ts";
+import { FhirPathEngine } from "../src/engine.ts";
 
 // Test data: Large Bundle with many entries
 function createLargeBundle(size: number): { resourceType: string; entry: Array<{ resource: unknown }> } {
@@ -233,6 +236,20 @@ Deno.test("streaming: abort signal", async () => {
   assertEquals(results.length, 10);
 });
 
+Deno.test("streaming: abort signal reason is rethrown", async () => {
+  const bundle = createLargeBundle(100);
+  const controller = new AbortController();
+  const reason = new Error("stopped");
+  
+  const stream = evaluateStream(bundle, "entry.resource", {}, undefined, {
+    signal: controller.signal,
+  });
+  const error = await assertRejects(async () => {
+    for await (const _item of stream) controller.abort(reason);
+  });
+  assertEquals(error, reason);
+});
+
 Deno.test("streaming: toReadableStream", async () => {
   const bundle = createLargeBundle(10);
   const readableStream = toReadableStream(bundle, "entry.resource");
@@ -326,3 +343,73 @@ Deno.test("streaming: FhirPathStream class can be reused", async () => {
   const second = await stream.toArray();
   assertEquals(second.length, 10);
 });
+
+// NDJSON tests
+
+function ndjsonBytes(lines: string[], chunkSize = 7): ReadableStream<Uint8Array> {
+  const text = lines.join("\r\n");
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += chunkSize) chunks.push(text.slice(i, i + chunkSize));
+  return ReadableStream.from(chunks).pipeThrough(new TextEncoderStream());
+}
+
+async function collect(stream: ReadableStream<NdjsonResult>): Promise<NdjsonResult[]> {
+  const results: NdjsonResult[] = [];
+  for await (const result of stream) results.push(result);
+  return results;
+}
+
+Deno.test("streaming: evaluateNdjson over a byte stream", async () => {
+  const lines = [
+    JSON.stringify({ resourceType: "Patient", id: "p1", name: [{ given: ["Peter", "James"] }] }),
+    "",
+    JSON.stringify({ resourceType: "Patient", id: "p2" }),
+  ];
+  const results = await collect(evaluateNdjson(ndjsonBytes(lines), { id: "id", given: "name.given" }));
+  assertEquals(results, [
+    { line: 1, results: { id: ["p1"], given: ["Peter", "James"] } },
+    { line: 3, results: { id: ["p2"], given: [] } },
+  ]);
+});
+
+Deno.test("streaming: evaluateNdjson reports line errors without aborting", async () => {
+  const lines = [
+    JSON.stringify({ resourceType: "Patient", id: "p1", name: [{ given: ["A", "B"] }] }),
+    "{ not json",
+    JSON.stringify({ resourceType: "Patient", id: "p3", name: [{ given: ["C"] }] }),
+  ];
+  const single = new FhirPathEngine().compile("name.given.single()");
+  const results = await collect(evaluateNdjson(lines, ["id", single]));
+
+  assertEquals(results.map(result => result.line), [1, 2, 3]);
+  assertEquals(results[0].results, { id: ["p1"] });
+  assertEquals(results[0].errors?.map(error => [error.stage, error.expression]), [["evaluate", "name.given.single()"]]);
+  assertEquals(results[1].errors?.map(error => error.stage), ["parse"]);
+  assertEquals(results[2], { line: 3, results: { id: ["p3"], "name.given.single()": ["C"] } });
+});
+
+Deno.test("streaming: evaluateNdjson reads lazily and can be aborted", async () => {
+  let read = 0;
+  async function* lines() {
+    for (let i = 0; i < 1000; i++) {
+      read++;
+      yield JSON.stringify({ resourceType: "Patient", id: `p${i}` });
+    }
+  }
+
+  const controller = new AbortController();
+  const reader = evaluateNdjson(lines(), "id", { signal: controller.signal }).getReader();
+  assertEquals((await reader.read()).value?.results, { id: ["p0"] });
+  assert(read < 10, `read ${read} lines ahead`);
+
+  controller.abort(new Error("stopped"));
+  await assertRejects(async () => {
+    while (!(await reader.read()).done) { /* drain */ }
+  }, Error, "stopped");
+});
+
+Deno.test("streaming: evaluateNdjson keeps the precision of decimals", async () => {
+  const lines = ['{"resourceType":"Observation","valueDecimal":1.50}'];
+  const results = await collect(evaluateNdjson(lines, { text: "valueDecimal.toString()", sum: "(valueDecimal + 0.1).toString()" }));
+  assertEquals(results[0].results, { text: ["1.50"], sum: ["1.60"] });
+});
@@ -0,0 +1,182 @@
+/**
+ * Tests for Date, DateTime and Time values and precision-aware comparison
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { parseFhirPath } from "../src/parser/parser.ts";
+import { evaluateFhirPath } from "../src/evaluator/evaluator.ts";
+import { compileJIT } from "../src/jit/mod.ts";
+import {
+  compareTemporal,
+  FhirPathDate,
+  parseDate,
+  parseDateTime,
+  parseTime,
+  temporalEquals,
+  temporalEquivalent,
+} from "../src/evaluator/temporal.ts";
+import type { Model } from "../src/types.ts";
+import r4Model from "../fhir-context/r4/mod.ts";
+
+const patient = {
+  resourceType: "Patient",
+  birthDate: "1974-12-25",
+  meta: { lastUpdated: "2024-01-01T10:00:00+02:00" },
+};
+
+function evaluate(expr: string, options: Parameters<typeof evaluateFhirPath>[3] = {}): unknown[] {
+  return evaluateFhirPath(parseFhirPath(expr), patient, {}, options);
+}
+
+Deno.test("temporal: parse keeps precision and timezone", () => {
+  assertEquals(parseDate("2024-01")?.precision, "month");
+  assertEquals(parseDateTime("2024-01-01T10:00:00.5+02:00")?.precision, "millisecond");
+  assertEquals(parseDateTime("2024-01-01T10:00:00.5+02:00")?.timezoneOffset, 120);
+  assertEquals(parseDateTime("2024-01-01T")?.toString(), "2024-01-01");
+  assertEquals(parseTime("T14:30")?.toString(), "14:30");
+});
+
+Deno.test("temporal: parse rejects invalid values", () => {
+  assertEquals(parseDate("2024-13"), undefined);
+  assertEquals(parseDate("2023-02-29"), undefined);
+  assertEquals(parseDateTime("2024-01T10:00"), undefined);
+  assertEquals(parseTime("24:00"), undefined);
+});
+
+Deno.test("temporal: comparison of differing precision is indeterminate", () => {
+  const day = parseDate("2024-01-01")!;
+  const month = parseDate("2024-01")!;
+  assertEquals(compareTemporal(month, parseDate("2024-02-15")!), -1);
+  assertEquals(compareTemporal(month, day), undefined);
+  assertEquals(temporalEquals(month, day), undefined);
+  assertEquals(temporalEquivalent(month, day), false);
+  assertEquals(temporalEquals(day, parseTime("10:00")!), false);
+});
+
+Deno.test("temporal: seconds and milliseconds compare as one precision", () => {
+  assertEquals(
+    temporalEquals(parseDateTime("2024-01-01T10:00:00")!, parseDateTime("2024-01-01T10:00:00.000")!),
+    true,
+  );
+  assertEquals(temporalEquals(parseTime("10:00:00")!, parseTime("10:00:00.000")!), true);
+});
+
+Deno.test("temporal: literals evaluate with FHIRPath comparison rules", () => {
+  assertEquals(evaluate("@2024-01-01 < @2024-01-01T10:00"), []);
+  assertEquals(evaluate("@2024-01-01 = @2024-01-01T10:00"), []);
+  assertEquals(evaluate("@2024-01-01 != @2024-01-01T10:00"), []);
+  assertEquals(evaluate("@2024-01-01 ~ @2024-01-01T10:00"), [false]);
+  assertEquals(evaluate("@2024-01-01 < @2024-01-02T10:00"), [true]);
+  assertEquals(evaluate("@T10:00 < @T10:30"), [true]);
+});
+
+Deno.test("temporal: timezone offsets are normalized", () => {
+  assertEquals(evaluate("@2024-01-01T10:00:00+02:00 = @2024-01-01T08:00:00Z"), [true]);
+  assertEquals(evaluate("@2024-01-01T10:00:00+02:00 > @2024-01-01T09:00:00Z"), [false]);
+  assertEquals(evaluate("@2024-01-01T00:30:00+01:00 < @2024-01-01"), [true]);
+});
+
+Deno.test("temporal: data values compare with and without a model", () => {
+  for (const model of [undefined, r4Model as Model]) {
+    assertEquals(evaluate("birthDate = @1974-12-25", { model }), [true]);
+    assertEquals(evaluate("birthDate < @1975", { model }), [true]);
+    assertEquals(evaluate("birthDate > @1974-12", { model }), []);
+    assertEquals(evaluate("meta.lastUpdated < @2024-01-01T09:00:00Z", { model }), [true]);
+  }
+});
+
+Deno.test("temporal: conversion functions", () => {
+  assertEquals(evaluate("'2024-01-01T10:00:00Z'.toDate()"), ["2024-01-01"]);
+  assertEquals(evaluate("'2024-01-01'.toDateTime() = @2024-01-01"), [true]);
+  assertEquals(evaluate("'14:30'.toTime() = @T14:30"), [true]);
+  assertEquals(evaluate("'not a date'.toDate()"), []);
+  assertEquals(evaluate("'2024-01-01'.convertsToDate()"), [true]);
+  assertEquals(evaluate("today() < now()"), []);
+});
+
+Deno.test("temporal: type functions report System types", () => {
+  assertEquals(evaluate("@2024-01-01 is Date"), [true]);
+  assertEquals(evaluate("@2024-01-01T10:00 is DateTime"), [true]);
+  assertEquals(evaluate("(@T10:00).type().name"), ["Time"]);
+  assertEquals(evaluate("'2024-01-01' is Date"), [false]);
+});
+
+Deno.test("temporal: results are strings unless internal types are kept", () => {
+  assertEquals(evaluate("@2024-01-01T10:00"), ["2024-01-01T10:00"]);
+  const [value] = evaluate("@2024-01", { resolveInternalTypes: false });
+  assertEquals(value instanceof FhirPathDate, true);
+});
+
+Deno.test("temporal: invalid literals are rejected", () => {
+  assertThrows(() => evaluate("@2024-02-30"));
+});
+
+Deno.test("temporal: JIT matches the interpreter", () => {
+  const expressions = [
+    "@2024-01-01 < @2024-01-01T10:00",
+    "@2024-01-01 = @2024-01-01T10:00",
+    "@2024-01-01 != @2024-01-01T10:00",
+    "@2024-01-01 ~ @2024-01-01T10:00",
+    "@2024-01-01T10:00:00+02:00 = @2024-01-01T08:00:00Z",
+    "@T10 = @T10:00",
+    "birthDate = @1974-12-25",
+    "birthDate > @1974-12",
+    "meta.lastUpdated >= @2024-01-01T08:00:00Z",
+    "'2024-01-01T10:00:00Z'.toDate()",
+    "@2024-01-01.toDateTime()",
+    "'14:30'.toTime() < @T15:00",
+    "@2024-01-01 is Date",
+    "@2024-01-01T10:00 & 'x'",
+  ];
+  for (const expr of expressions) {
+    const ast = parseFhirPath(expr);
+    assertEquals(compileJIT(ast)(patient), evaluateFhirPath(ast, patient), expr);
+  }
+});
+
+Deno.test("temporal arithmetic: calendar durations clamp to the end of the month", () => {
+  assertEquals(evaluate("@2024-01-31 + 1 month"), ["2024-02-29"]);
+  assertEquals(evaluate("@2024-03-31 - 1 'mo'"), ["2024-02-29"]);
+  assertEquals(evaluate("@2024-02-29 + 1 year"), ["2025-02-28"]);
+  assertEquals(evaluate("@2024-01-01 + 2 weeks"), ["2024-01-15"]);
+  assertEquals(evaluate("birthDate + 6 months"), ["1975-06-25"]);
+  assertEquals(evaluate("birthDate - 1 'a'", { model: r4Model as Model }), ["1973-12-25"]);
+});
+
+Deno.test("temporal arithmetic: quantities are truncated to the precision of the value", () => {
+  assertEquals(evaluate("@2014 + 25 months"), ["2016"]);
+  assertEquals(evaluate("@2019-03-01 + 24 hours"), ["2019-03-02"]);
+  assertEquals(evaluate("@2019-03-01 + 23 hours"), ["2019-03-01"]);
+  assertEquals(evaluate("@2024-01-01 + 1.9 days"), ["2024-01-02"]);
+  assertEquals(evaluate("@2024-01-01T10:00:00 + 1.5 seconds"), ["2024-01-01T10:00:01"]);
+  assertEquals(evaluate("@2024-01-01T10:00:00.000 + 1.5 's'"), ["2024-01-01T10:00:01.500"]);
+});
+
+Deno.test("temporal arithmetic: DateTime keeps its timezone and Time wraps around", () => {
+  assertEquals(evaluate("@2024-12-31T23:30:00+02:00 + 1 'h'"), ["2025-01-01T00:30:00+02:00"]);
+  assertEquals(evaluate("@T23:30 + 1 hour"), ["00:30"]);
+  assertEquals(evaluate("@T00:30 - 90 'min'"), ["23:00"]);
+  assertEquals(evaluate("@T10:00 + 1 day"), []);
+  assertEquals(evaluate("@2024-01-01 + 5 'mg'"), []);
+});
+
+Deno.test("temporal arithmetic: look-back expressions compare with dates", () => {
+  assertEquals(evaluate("birthDate <= today() - 18 years"), [true]);
+  assertEquals(evaluate("now() - 2 'h' < now()"), [true]);
+});
+
+Deno.test("temporal arithmetic: JIT matches the interpreter", () => {
+  const expressions = [
+    "@2024-01-31 + 1 month",
+    "@2014 + 25 months",
+    "@2024-01-01T10:00:00.000 + 1.5 's'",
+    "@T00:30 - 1 'h'",
+    "birthDate + 6 months",
+    "birthDate - 18 years < @1960",
+    "@2024-01-01 + 5 'mg'",
+  ];
+  for (const expr of expressions) {
+    const ast = parseFhirPath(expr);
+    assertEquals(compileJIT(ast)(patient), evaluateFhirPath(ast, patient), expr);
+  }
+});
@@ -0,0 +1,90 @@
+/**
+ * Tests for the static type checker
+ */
+
+import { assertEquals } from "@std/assert";
+import { typeCheck } from "../src/optimizer/mod.ts";
+import { DiagnosticSeverity, validateFhirPath } from "../src/monaco/mod.ts";
+import type { Model } from "../src/types.ts";
+import r4Model from "../fhir-context/r4/mod.ts";
+
+const model = r4Model as Model;
+
+/** Issues as [code, source text] pairs */
+function issues(expression: string, base?: string): [string, string][] {
+  return typeCheck(expression, { model, base }).issues
+    .map(issue => [issue.code, expression.slice(issue.start, issue.end)]);
+}
+
+Deno.test("typecheck: infers element types and cardinality", () => {
+  assertEquals(typeCheck("Patient.name.given", { model }).type, { types: ["FHIR.string"], cardinality: "0..*" });
+  assertEquals(typeCheck("name.given.first()", { model, base: "Patient" }).type, {
+    types: ["FHIR.string"],
+    cardinality: "0..1",
+  });
+  assertEquals(typeCheck("name.exists()", { model, base: "Patient" }).type, {
+    types: ["System.Boolean"],
+    cardinality: "1..1",
+  });
+  assertEquals(typeCheck("Patient.contact.name.family", { model }).type.types, ["FHIR.string"]);
+  assertEquals(typeCheck("relationship", { model, base: "Patient.contact" }).type.types, ["FHIR.CodeableConcept"]);
+  assertEquals(typeCheck("Observation.value.ofType(Quantity).unit", { model }).type.types, ["FHIR.string"]);
+  assertEquals(typeCheck("Observation.valueQuantity.value", { model }).type.types, ["FHIR.decimal"]);
+  assertEquals(typeCheck("Patient.name.given.count() + 1", { model }).type.types, ["System.Integer"]);
+});
+
+Deno.test("typecheck: records the type of every node", () => {
+  const result = typeCheck("Patient.name.where(use = 'official')", { model });
+  const types = [...result.nodeTypes.values()].map(type => type.types.join());
+  assertEquals(types.includes("FHIR.HumanName"), true);
+  assertEquals(types.includes("FHIR.code"), true);
+  assertEquals(types.includes("System.Boolean"), true);
+});
+
+Deno.test("typecheck: unknown elements", () => {
+  assertEquals(issues("Patient.nmae.given"), [["unknown-element", "nmae"]]);
+  assertEquals(issues("Observation.value.family"), [["unknown-element", "family"]]);
+  assertEquals(issues("name.where(usee = 'official')", "Patient"), [["unknown-element", "usee"]]);
+  assertEquals(typeCheck("Patient.nmae", { model }).valid, false);
+  assertEquals(typeCheck("Patient.name.family", { model }).valid, true);
+});
+
+Deno.test("typecheck: impossible casts and unknown types", () => {
+  assertEquals(issues("Observation.value.ofType(HumanName)"), [["impossible-cast", "ofType"]]);
+  assertEquals(issues("Patient.name as Quantity"), [["impossible-cast", "Quantity"]]);
+  assertEquals(issues("Patient.deceased.ofType(boolean)"), []);
+  assertEquals(issues("Bundle.entry.resource.ofType(Patient).name.family"), []);
+  assertEquals(issues("Patient.ofType(Foo)"), [["unknown-type", "Foo"]]);
+
+  // 'is' with an impossible type is always false: a warning
+  const result = typeCheck("Patient.name is Period", { model });
+  assertEquals(result.valid, true);
+  assertEquals(result.issues.map(issue => issue.severity), ["warning"]);
+});
+
+Deno.test("typecheck: functions applied to incompatible input", () => {
+  assertEquals(issues("Patient.name.upper()"), [["incompatible-input", "upper"]]);
+  assertEquals(issues("Patient.birthDate.abs()"), [["incompatible-input", "abs"]]);
+  assertEquals(issues("Patient.gender.upper().length()"), []);
+  assertEquals(issues("Observation.value.ofType(Quantity).abs()"), []);
+});
+
+Deno.test("typecheck: unknown types are not reported", () => {
+  assertEquals(issues("name.given"), []);
+  assertEquals(issues("Bundle.entry.resource.anything"), []);
+  assertEquals(issues("descendants().anything", "Patient"), []);
+  assertEquals(issues("%unknown.anything", "Patient"), []);
+  assertEquals(issues("Patient.name.given.", "Patient"), []);
+  assertEquals(typeCheck("Patient.name.given.", { model }).valid, false);
+});
+
+Deno.test("typecheck: monaco diagnostics with a model", () => {
+  assertEquals(validateFhirPath("Patient.nmae"), []);
+  const [diagnostic] = validateFhirPath("Patient\n  .nmae", { model });
+  assertEquals(diagnostic.severity, DiagnosticSeverity.Error);
+  assertEquals(diagnostic.code, "UNKNOWN_ELEMENT");
+  assertEquals(
+    [diagnostic.startLineNumber, diagnostic.startColumn, diagnostic.endLineNumber, diagnostic.endColumn],
+    [2, 4, 2, 8],
+  );
+});
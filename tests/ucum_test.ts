@@ -0,0 +1,140 @@
+/**
+ * Tests for the UCUM unit engine and quantity semantics
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { parseFhirPath } from "../src/parser/parser.ts";
+import { evaluateFhirPath } from "../src/evaluator/evaluator.ts";
+import { compileJIT } from "../src/jit/mod.ts";
+import {
+  canonicalUnitString,
+  convertUnit,
+  isCommensurable,
+  isValidUnit,
+  parseUnit,
+  UcumError,
+} from "../src/ucum/mod.ts";
+
+const observation = {
+  resourceType: "Observation",
+  valueQuantity: {
+    value: 150,
+    unit: "milligram",
+    system: "http://unitsofmeasure.org",
+    code: "mg",
+  },
+};
+
+function evaluate(expr: string): unknown[] {
+  return evaluateFhirPath(parseFhirPath(expr), observation);
+}
+
+Deno.test("ucum: parses unit expressions", () => {
+  assertEquals(isValidUnit("mg/dL"), true);
+  assertEquals(isValidUnit("kg.m/s2"), true);
+  assertEquals(isValidUnit("10*3/uL"), true);
+  assertEquals(isValidUnit("mL/{beats}"), true);
+  assertEquals(isValidUnit("{score}"), true);
+  assertEquals(isValidUnit("[lb_av]"), true);
+  assertEquals(isValidUnit("mg/"), false);
+  assertEquals(isValidUnit("foo"), false);
+  assertEquals(isValidUnit("constructor"), false);
+  assertThrows(() => parseUnit("m(g"), UcumError);
+});
+
+Deno.test("ucum: canonical form", () => {
+  assertEquals(canonicalUnitString("mg/L"), "g.m-3");
+  assertEquals(canonicalUnitString("N"), "g.m.s-2");
+  assertEquals(canonicalUnitString("%"), "1");
+  assertEquals(parseUnit("km").factor, 1000);
+});
+
+Deno.test("ucum: converts between commensurable units", () => {
+  assertEquals(convertUnit(5, "mg", "g"), 0.005);
+  assertEquals(convertUnit(1, "[in_i]", "cm"), 2.54);
+  assertEquals(convertUnit(1, "h", "s"), 3600);
+  assertEquals(convertUnit(100, "mg/dL", "g/L"), 1);
+  assertEquals(convertUnit(37, "Cel", "K"), 310.15);
+  assertEquals(convertUnit(212, "[degF]", "Cel"), 100);
+  assertEquals(convertUnit(1, "mg", "m"), undefined);
+  assertEquals(isCommensurable("[IU]", "mg"), false);
+  assertEquals(isCommensurable("[IU]/L", "[iU]/mL"), true);
+});
+
+Deno.test("quantity: equality across commensurable units", () => {
+  assertEquals(evaluate("5 'mg' = 0.005 'g'"), [true]);
+  assertEquals(evaluate("5 'mg' ~ 0.005 'g'"), [true]);
+  assertEquals(evaluate("1 'kg' != 1000 'g'"), [false]);
+  assertEquals(evaluate("5 'mg' = 5 'm'"), []);
+  assertEquals(evaluate("5 'mg' ~ 5 'm'"), [false]);
+  assertEquals(evaluate("37 'Cel' = 310.15 'K'"), [true]);
+});
+
+Deno.test("quantity: calendar durations and UCUM durations", () => {
+  assertEquals(evaluate("4 days = 4 'd'"), [true]);
+  assertEquals(evaluate("1 year = 1 'a'"), []);
+  assertEquals(evaluate("1 year ~ 1 'a'"), [true]);
+  assertEquals(evaluate("1 hour = 60 minutes"), [true]);
+});
+
+Deno.test("quantity: comparison of FHIR Quantity elements", () => {
+  assertEquals(evaluate("valueQuantity > 100 'mg'"), [true]);
+  assertEquals(evaluate("valueQuantity < 0.2 'g'"), [true]);
+  assertEquals(evaluate("valueQuantity >= 1 'kg'"), [false]);
+  assertEquals(evaluate("valueQuantity < 1 'm'"), []);
+});
+
+Deno.test("quantity: arithmetic", () => {
+  assertEquals(evaluate("1 'kg' + 500 'g'"), [{ value: 1.5, unit: "kg" }]);
+  assertEquals(evaluate("1 'kg' - 500 'g'"), [{ value: 0.5, unit: "kg" }]);
+  assertEquals(evaluate("2 'kg' * 3 'm'"), [{ value: 6, unit: "kg.m" }]);
+  assertEquals(evaluate("10 'mg' / 2 'mg'"), [{ value: 5, unit: "1" }]);
+  assertEquals(evaluate("6 'm' / 2 's'"), [{ value: 3, unit: "m/s" }]);
+  assertEquals(evaluate("2 * 3 'mg'"), [{ value: 6, unit: "mg" }]);
+  assertEquals(evaluate("1 'kg' + 1 'm'"), []);
+  assertEquals(evaluate("1 'kg' / 0 'g'"), []);
+});
+
+Deno.test("quantity: toQuantity converts to the given unit", () => {
+  assertEquals(evaluate("(10 'mg').toQuantity('g')"), [{ value: 0.01, unit: "g" }]);
+  assertEquals(evaluate("valueQuantity.toQuantity('g')"), [{ value: 0.15, unit: "g" }]);
+  assertEquals(evaluate("(10 'mg').toQuantity('m')"), []);
+  assertEquals(evaluate("(2 hours).toQuantity('min')"), [{ value: 120, unit: "min" }]);
+});
+
+Deno.test("quantity: toString() and distinct quantities", () => {
+  assertEquals(evaluate("(5.5 'mg').toString()"), ["5.5 'mg'"]);
+  assertEquals(evaluate("(2 years).toString()"), ["2 years"]);
+  assertEquals(evaluate("valueQuantity.toString()"), ["150 'mg'"]);
+  assertEquals(evaluate("5.5 'mg' | 5.5 'mg'"), [{ value: 5.5, unit: "mg" }]);
+  assertEquals(evaluate("(1 'g' | 1000 'mg').count()"), [1]);
+  assertEquals(evaluate("(valueQuantity | 0.15 'g').count()"), [1]);
+  assertEquals(evaluate("(5 'mg' | 5 'g' | 5 'm').count()"), [3]);
+  assertEquals(evaluate("(1 'g').combine(1000 'mg').isDistinct()"), [false]);
+});
+
+Deno.test("quantity: JIT matches the interpreter", () => {
+  const expressions = [
+    "5 'mg' = 0.005 'g'",
+    "5 'mg' ~ 0.005 'g'",
+    "5 'mg' = 5 'm'",
+    "1 year = 1 'a'",
+    "valueQuantity > 100 'mg'",
+    "valueQuantity < 1 'm'",
+    "1 'kg' + 500 'g'",
+    "2 'kg' * 3 'm'",
+    "10 'mg' / 2 'mg'",
+    "10 / 4",
+    "(10 'mg').toQuantity('g')",
+    "valueQuantity.toQuantity('m')",
+    "(5.5 'mg').toString()",
+    "valueQuantity.toString()",
+    "(1 'g' | 1000 'mg').count()",
+    "(valueQuantity).union(0.15 'g')",
+    "(1 'g').combine(1000 'mg').distinct()",
+  ];
+  for (const expr of expressions) {
+    const ast = parseFhirPath(expr);
+    assertEquals(compileJIT(ast)(observation), evaluateFhirPath(ast, observation), expr);
+  }
+});
@@ -0,0 +1,84 @@
+/**
+ * Tests for the worker pool
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { FhirPathWorkerPool, WorkerPoolError } from "../src/worker/mod.ts";
+import type { Model } from "../src/types.ts";
+import r4Model from "../fhir-context/r4/mod.ts";
+
+const patients = Array.from({ length: 25 }, (_, i) => ({
+  resourceType: "Patient",
+  id: `p${i}`,
+  active: i % 2 === 0,
+  name: [{ family: `Family${i}`, given: [`Given${i}`] }],
+}));
+
+Deno.test("worker: evaluateMany returns results per resource and expression", async () => {
+  const pool = new FhirPathWorkerPool({ size: 2, chunkSize: 4 });
+  try {
+    const results = await pool.evaluateMany(patients, ["id", "name.given.first()", "active"]);
+    assertEquals(results.length, patients.length);
+    assertEquals(results[0], [["p0"], ["Given0"], [true]]);
+    assertEquals(results[24], [["p24"], ["Given24"], [true]]);
+    assertEquals(results.map(([id]) => id[0]), patients.map(p => p.id));
+  } finally {
+    pool.terminate();
+  }
+});
+
+Deno.test("worker: context and model are available to workers", async () => {
+  const pool = new FhirPathWorkerPool({ size: 1, model: r4Model as Model });
+  try {
+    assertEquals(await pool.evaluate(patients[3], "%prefix & id", { context: { prefix: "Patient/" } }), ["Patient/p3"]);
+    assertEquals(await pool.evaluate({ resourceType: "Observation", valueString: "x" }, "value.is(string)"), [true]);
+    assertEquals(await pool.evaluateMany([], ["id"]), []);
+  } finally {
+    pool.terminate();
+  }
+});
+
+Deno.test("worker: evaluation errors reject the call", async () => {
+  const pool = new FhirPathWorkerPool({ size: 1 });
+  try {
+    await assertRejects(() => pool.evaluateMany(patients, ["name.given.single()."]), WorkerPoolError);
+    // The pool keeps working afterwards
+    assertEquals(await pool.evaluate(patients[1], "id"), ["p1"]);
+  } finally {
+    pool.terminate();
+  }
+});
+
+Deno.test("worker: cancellation with AbortSignal", async () => {
+  const pool = new FhirPathWorkerPool({ size: 1, chunkSize: 1 });
+  try {
+    const controller = new AbortController();
+    const pending = pool.evaluateMany(patients, ["name.family"], { signal: controller.signal });
+    controller.abort(new Error("cancelled"));
+    await assertRejects(() => pending, Error, "cancelled");
+    assertEquals(pool.pending, 0);
+
+    await assertRejects(() => pool.evaluateMany(patients, ["id"], { signal: controller.signal }), Error, "cancelled");
+    assertEquals(await pool.evaluate(patients[2], "id"), ["p2"]);
+  } finally {
+    pool.terminate();
+  }
+});
+
+Deno.test("worker: terminated pool rejects calls", async () => {
+  const pool = new FhirPathWorkerPool({ size: 1 });
+  pool.terminate();
+  await assertRejects(() => pool.evaluate(patients[0], "id"), WorkerPoolError, "terminated");
+});
+
+Deno.test("worker: a worker script that cannot be loaded fails the pool", async () => {
+  const pool = new FhirPathWorkerPool({ size: 2, workerUrl: new URL("./missing_worker.ts", import.meta.url) });
+  try {
+    await assertRejects(() => pool.evaluate(patients[0], "id"), WorkerPoolError, "could not be started");
+    assertEquals(pool.size, 2);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await assertRejects(() => pool.evaluate(patients[1], "id"), WorkerPoolError, "could not be started");
+  } finally {
+    pool.terminate();
+  }
+});